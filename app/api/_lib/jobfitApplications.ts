@@ -0,0 +1,276 @@
+// app/api/_lib/jobfitApplications.ts
+//
+// signal_applications bookkeeping for JobFit runs. Lifted out of
+// /api/jobfit/route.ts so the single-job route and /api/jobfit/batch
+// create and update tracker rows identically — a job scored in a batch
+// must land in the tracker exactly as if it had been submitted on its own.
+//
+// This module exposes:
+//   - `resolveApplicationIdentity`: the company / title / location that the
+//     tracker row is keyed on. User-provided values win; extractor output is
+//     label-stripped and garbage-filtered.
+//   - `ensureApplicationForCachedRun`: cache-hit path. Inserts a tracker row
+//     only if none exists yet; never touches an existing one. Returns the
+//     id of whichever row it found or created.
+//   - `recordJobFitRun`: fresh-run path. Inserts jobfit_runs, then updates
+//     the matching signal_applications row or creates one, and links the
+//     application back onto the run.
+//
+// Everything here is best-effort: failures are logged and swallowed so a
+// tracker hiccup never turns a successful score into a 500.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type ApplicationIdentity = {
+  companyName: string
+  jobTitle: string
+  location: string
+}
+
+// Compound forms ("position title", "job title") must come BEFORE the
+// single-word forms so the longest match wins — otherwise "Position Title: X"
+// would only strip "Position" and leave " Title: X" behind, which then trips
+// the garbage filter below.
+const TITLE_LABEL_PREFIX =
+  /^(?:position\s+title|job\s+title|job\s+position|role\s+title|title|position|role|job)\s*[:\-–—]\s*/i
+const COMPANY_LABEL_PREFIX =
+  /^(?:company\s+name|employer\s+name|company|employer|organization|organisation)\s*[:\-–—]\s*/i
+
+// Garbage filter — catches strings that ARE section headers, not strings
+// that happen to START with section-header words. The old implementation
+// used `\b` after the keyword, which false-positived on legitimate titles
+// like "Position Control Analyst". We require the entire trimmed string to
+// equal a bare header, or match one of the specific metadata-row patterns.
+// Only applied to extractor output, never to user-provided values.
+function isGarbageIdentity(s: string): boolean {
+  if (!s) return true
+  const t = s.trim().toLowerCase()
+  if (/^(position|about|overview|description|summary|responsibilities|qualifications|requirements|who we are|company description|job description|role description)$/i.test(t)) return true
+  if (/^about the (job|role|position|company|team)$/i.test(t)) return true
+  if (/^recruiting for/i.test(t)) return true
+  // Metadata rows ("Apply:", "Posted: ...", "Salary: ..."), keyword
+  // must be followed by colon to qualify — we don't want to kill
+  // titles like "Remote Content Strategist".
+  if (/^(apply|posted|deadline|date|salary|location|remote|hybrid)\s*[:]/i.test(t)) return true
+  return false
+}
+
+export function resolveApplicationIdentity(params: {
+  jobSignals: any
+  userJobTitle?: string | null
+  userCompanyName?: string | null
+}): ApplicationIdentity {
+  const { jobSignals, userJobTitle, userCompanyName } = params
+  let companyName = String(jobSignals?.companyName || "").trim()
+  let jobTitle = String(jobSignals?.jobTitle || "").trim()
+  const location = String(jobSignals?.location?.city || "").trim()
+
+  // User-provided values win unconditionally. If the caller supplied
+  // job_title / company_name explicitly, trust them and skip the
+  // prefix-cleaning and garbage-filter heuristics (those exist to
+  // scrub bad extractor output, not to second-guess the user).
+  const jobTitleFromUser = Boolean(userJobTitle)
+  const companyNameFromUser = Boolean(userCompanyName)
+
+  if (!jobTitleFromUser) {
+    jobTitle = jobTitle.replace(TITLE_LABEL_PREFIX, "").trim()
+    if (isGarbageIdentity(jobTitle)) jobTitle = ""
+  }
+  if (!companyNameFromUser) {
+    companyName = companyName.replace(COMPANY_LABEL_PREFIX, "").trim()
+    if (isGarbageIdentity(companyName)) companyName = ""
+  }
+
+  return { companyName, jobTitle, location }
+}
+
+async function findExistingApplicationId(
+  supabase: SupabaseClient,
+  profileId: string,
+  identity: ApplicationIdentity,
+  logTag: string
+): Promise<string | null> {
+  if (!identity.companyName) return null
+  const { data, error } = await supabase
+    .from("signal_applications")
+    .select("id")
+    .eq("profile_id", profileId)
+    .ilike("company_name", identity.companyName)
+    .ilike("job_title", identity.jobTitle || "")
+    .maybeSingle()
+  if (error) {
+    console.warn(`[${logTag}] application lookup failed:`, error.message)
+  }
+  return (data as any)?.id ?? null
+}
+
+/**
+ * Cache-hit path: make sure a signal_applications row exists for this job.
+ * An existing row is left untouched — the cached run is not new information.
+ * Returns the existing or newly created application id (null on failure).
+ */
+export async function ensureApplicationForCachedRun(params: {
+  supabase: SupabaseClient
+  profileId: string
+  personaId: string | null
+  jobUrl: string | null
+  result: any
+  userJobTitle?: string | null
+  userCompanyName?: string | null
+  logTag?: string
+}): Promise<string | null> {
+  const { supabase, profileId, personaId, jobUrl, result } = params
+  const logTag = params.logTag || "jobfit/route"
+  try {
+    const identity = resolveApplicationIdentity({
+      jobSignals: result?.job_signals,
+      userJobTitle: params.userJobTitle,
+      userCompanyName: params.userCompanyName,
+    })
+
+    const existingId = await findExistingApplicationId(supabase, profileId, identity, logTag)
+    if (existingId) return existingId
+
+    const { data: newApp, error: createErr } = await supabase.from("signal_applications").insert({
+      profile_id: profileId,
+      company_name: identity.companyName || "(Unknown Company)",
+      job_title: identity.jobTitle || "(Unknown Role)",
+      location: identity.location || "",
+      job_url: jobUrl,
+      signal_decision: String(result?.decision || ""),
+      signal_score: result?.score ?? null,
+      signal_run_at: new Date().toISOString(),
+      persona_id: personaId || null,
+      application_status: "saved",
+      interest_level: 1,
+    }).select("id").single()
+
+    if (createErr) {
+      console.warn(`[${logTag}] cache-hit application create failed:`, createErr.message)
+      return null
+    }
+    console.log(`[${logTag}] created application from cache hit:`, identity.companyName || "(unknown)", identity.jobTitle || "(unknown)")
+    return newApp?.id ?? null
+  } catch (appErr: any) {
+    console.warn(`[${logTag}] cache-hit application create failed:`, appErr?.message)
+    return null
+  }
+}
+
+/**
+ * Fresh-run path: persist the run to jobfit_runs, then create or update the
+ * matching signal_applications row and link it back onto the run.
+ * Returns the new run id and application id (either may be null on failure).
+ */
+export async function recordJobFitRun(params: {
+  supabase: SupabaseClient
+  profileId: string
+  personaId: string | null
+  jobUrl: string | null
+  jobText: string
+  result: any
+  fingerprint_hash: string
+  fingerprint_code: string
+  profileVersionAtRun: number | null
+  personaVersionAtRun: number | null
+  policyVersion: string | null
+  userJobTitle?: string | null
+  userCompanyName?: string | null
+  logTag?: string
+}): Promise<{ runId: string | null; applicationId: string | null }> {
+  const { supabase, profileId, personaId, jobUrl, result } = params
+  const logTag = params.logTag || "jobfit/route"
+  let runId: string | null = null
+  let applicationId: string | null = null
+
+  try {
+    const { data: runRow, error: runInsertErr } = await supabase.from("jobfit_runs").insert({
+      client_profile_id: profileId,
+      job_url: jobUrl,
+      fingerprint_hash: params.fingerprint_hash,
+      fingerprint_code: params.fingerprint_code,
+      verdict: String(result?.decision ?? result?.verdict ?? "unknown"),
+      result_json: result,
+      job_description: params.jobText,
+      persona_id: personaId || null,
+      profile_version_at_run: params.profileVersionAtRun,
+      persona_version_at_run: params.personaVersionAtRun,
+      policy_version: params.policyVersion,
+    }).select("id").single()
+
+    if (runInsertErr) {
+      console.warn(`[${logTag}] jobfit_runs insert failed:`, runInsertErr.message)
+    }
+    runId = (runRow as any)?.id || null
+
+    const identity = resolveApplicationIdentity({
+      jobSignals: result?.job_signals,
+      userJobTitle: params.userJobTitle,
+      userCompanyName: params.userCompanyName,
+    })
+
+    console.log(`[${logTag}] auto-application signals:`, {
+      rawCompanyName: result?.job_signals?.companyName,
+      rawJobTitle: result?.job_signals?.jobTitle,
+      companyName: identity.companyName,
+      jobTitle: identity.jobTitle,
+      runId,
+      profileId,
+      hasJobSignals: !!result?.job_signals,
+      jobSignalKeys: result?.job_signals ? Object.keys(result.job_signals).slice(0, 15) : [],
+    })
+
+    if (!runId) {
+      console.log(`[${logTag}] skipping auto-application:`, { companyName: identity.companyName || "(empty)", runId: "(null)" })
+      return { runId, applicationId }
+    }
+
+    const existingId = await findExistingApplicationId(supabase, profileId, identity, logTag)
+
+    if (existingId) {
+      const { error: updateErr } = await supabase.from("signal_applications").update({
+        signal_decision: String(result?.decision || ""),
+        signal_score: result?.score ?? null,
+        signal_run_at: new Date().toISOString(),
+        jobfit_run_id: runId,
+        updated_at: new Date().toISOString(),
+      }).eq("id", existingId)
+
+      if (updateErr) console.warn(`[${logTag}] application update failed:`, updateErr.message)
+      applicationId = existingId
+      console.log(`[${logTag}] updated existing application:`, existingId)
+    } else {
+      const { data: newApp, error: createErr } = await supabase.from("signal_applications").insert({
+        profile_id: profileId,
+        company_name: identity.companyName || "(Unknown Company)",
+        job_title: identity.jobTitle || "(Unknown Role)",
+        location: identity.location || "",
+        job_url: jobUrl,
+        signal_decision: String(result?.decision || ""),
+        signal_score: result?.score ?? null,
+        signal_run_at: new Date().toISOString(),
+        jobfit_run_id: runId,
+        persona_id: personaId || null,
+        application_status: "saved",
+        interest_level: 1,
+      }).select("id").single()
+
+      if (createErr) {
+        console.error(`[${logTag}] application create FAILED:`, createErr.message, createErr.details, createErr.hint)
+      } else {
+        console.log(`[${logTag}] created new application:`, (newApp as any)?.id)
+      }
+      applicationId = (newApp as any)?.id || null
+    }
+
+    if (applicationId) {
+      await supabase.from("jobfit_runs").update({
+        application_id: applicationId,
+      }).eq("id", runId)
+    }
+  } catch (e: any) {
+    console.warn(`[${logTag}] cache insert failed:`, e?.message || String(e))
+  }
+
+  return { runId, applicationId }
+}
@@ -6,12 +6,16 @@
 import { extractJobSignals, extractProfileSignals } from "../jobfit/extract"
 import { evaluateGates } from "../jobfit/constraints"
 import { scoreJobFit } from "../jobfit/scoring"
-import { decisionFromScore, applyGateOverrides, applyRiskDowngrades, applyEvidenceGuardrails, capScoreForDecision } from "../jobfit/decision"
+import { resolveDecisionChain } from "../jobfit/decision"
+import { insufficientDetailGuidance } from "../jobfit/extractionConfidence"
+import { POLICY, runWithPolicy, type JobFitPolicy } from "../jobfit/policy"
+import { INSUFFICIENT_DETAIL } from "../jobfit/signals"
 import type {
   EvalOutput,
   StructuredProfileSignals,
   Decision,
   LocationConstraint,
+  ResultDecision,
 } from "../jobfit/signals"
 import { renderBulletsV4, RENDERER_V4_STAMP } from "../jobfit/deterministicBulletRendererV4"
 
@@ -20,7 +24,8 @@ export const JOBFIT_EVAL_WRAPPER_STAMP =
 
 console.log("[jobfitEvaluator] loaded:", JOBFIT_EVAL_WRAPPER_STAMP)
 
-function iconForDecision(decision: Decision) {
+function iconForDecision(decision: ResultDecision) {
+  if (decision === INSUFFICIENT_DETAIL) return "❔"
   if (decision === "Priority Apply") return "🔥"
   if (decision === "Apply") return "✅"
   if (decision === "Review") return "⚠"
@@ -47,7 +52,7 @@ function locationConstraintFromProfile(
   return profileOverrides.locationPreference.constrained ? "constrained" : "not_constrained"
 }
 
-export async function runJobFit(args: {
+type RunJobFitArgs = {
   profileText: string
   jobText: string
   profileOverrides?: Partial<StructuredProfileSignals>
@@ -58,12 +63,26 @@ export async function runJobFit(args: {
   // authoritative user value, not the extractor's best guess.
   userJobTitle?: string
   userCompanyName?: string
-}): Promise<
-  EvalOutput & {
-    icon: string
-    debug: Record<string, unknown>
-  }
-> {
+  // Resolved cohort policy (base + jobfit_policies overlay). Omitted means
+  // BASE_POLICY. See app/api/_lib/jobfitPolicies.ts.
+  policy?: JobFitPolicy
+  // Debug runs add a keyword attribution trace to
+  // job_signals.signal_debug.attribution (see ../jobfit/attribution.ts).
+  debug?: boolean
+}
+
+type RunJobFitOutput = EvalOutput & {
+  icon: string
+  debug: Record<string, unknown>
+}
+
+export async function runJobFit(args: RunJobFitArgs): Promise<RunJobFitOutput> {
+  // Extraction → gates → scoring → rendering is fully synchronous, which
+  // is what lets runWithPolicy swap POLICY safely for the whole pass.
+  return runWithPolicy(args.policy, () => runJobFitSync(args))
+}
+
+function runJobFitSync(args: RunJobFitArgs): RunJobFitOutput {
   // Pass the user-provided title INTO extraction so title-based family
   // detectors (jobTitleIsSoftware, jobTitleIsCyberSecurity, jobTitleIsHR,
   // etc.) can see it. Without this, short or company-heavy JDs whose
@@ -72,6 +91,8 @@ export async function runJobFit(args: {
   // blurb was classifying as Marketing family.
   const jobSignals = extractJobSignals(args.jobText || "", {
     userJobTitle: args.userJobTitle,
+    userCompanyName: args.userCompanyName,
+    trace: Boolean(args.debug),
   })
 
   // Overwrite the surface jobTitle / companyName fields for display.
@@ -86,34 +107,38 @@ export async function runJobFit(args: {
   const gate = evaluateGates(jobSignals, profileSignals)
   const scored = scoreJobFit(jobSignals, profileSignals)
 
-  const decisionInitial = decisionFromScore(scored.score)
-  const decisionAfterGate = applyGateOverrides(decisionInitial, gate)
-  const decisionAfterRisk = applyRiskDowngrades(decisionAfterGate, scored.penaltySum, scored.riskCodes)
-  // Evidence guardrails: cap decision when the underlying evidence is
-  // too thin or the risk load is too heavy, regardless of raw score.
-  // Prevents "Apply" with zero WHY codes or 4+ high-severity risks.
-  const guardrail = applyEvidenceGuardrails(decisionAfterRisk, scored.whyCodes, scored.riskCodes)
-  const decisionFinal = guardrail.decision
-
-  // When a hard gate fires, the raw score is misleading — a candidate who
-  // cannot get an interview should never see a 60+ score. Cap gate scores
-  // at 25 so the number clearly matches the Pass decision.
-  const gateScore = gate.type === "force_pass"
-    ? Math.min(scored.score, 25)
-    : capScoreForDecision(scored.score, decisionFinal)
+  const chain = resolveDecisionChain({
+    score: scored.score,
+    penaltySum: scored.penaltySum,
+    whyCodes: scored.whyCodes,
+    riskCodes: scored.riskCodes,
+    gate,
+    lowSignal: jobSignals.extractionConfidence.level === "low",
+  })
+  const decisionInitial = chain.initial
+  const decisionAfterGate = chain.afterGate
+  const decisionFinal = chain.final
+  const gateScore = chain.score
+  const confidence = jobSignals.extractionConfidence
+  const insufficientDetail = chain.insufficientDetail
+    ? { confidence: confidence.score, reasons: confidence.reasons, guidance: insufficientDetailGuidance(confidence) }
+    : undefined
 
   const baseOut: EvalOutput = {
     decision: decisionFinal,
-    score: gateScore,
+    // A posting too thin to judge has no score to show.
+    score: insufficientDetail ? null : gateScore,
     bullets: [],
     risk_flags: [],
-    next_step: decisionNextStep(decisionFinal),
+    next_step: insufficientDetail ? insufficientDetail.guidance : decisionNextStep(chain.afterGuardrail),
     location_constraint: locationConstraintFromProfile(args.profileOverrides),
     why_codes: gate.type === "force_pass" ? [] : scored.whyCodes,
     risk_codes: scored.riskCodes,
     gate_triggered: gate,
     job_signals: jobSignals,
     profile_signals: profileSignals,
+    result_mode: insufficientDetail ? "insufficient_detail" : "standard",
+    ...(insufficientDetail ? { insufficient_detail: insufficientDetail } : {}),
     score_breakdown: {
       raw_score: scored.score,
       clamped_score: gateScore,
@@ -136,6 +161,8 @@ export async function runJobFit(args: {
     debug: {
       eval_wrapper_stamp: JOBFIT_EVAL_WRAPPER_STAMP,
       renderer_stamp: RENDERER_V4_STAMP,
+      policy_version: POLICY.version,
+      extraction_confidence: confidence.score,
 
       decision_initial: decisionInitial,
       decision_after_gate: decisionAfterGate,
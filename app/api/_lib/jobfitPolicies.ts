@@ -0,0 +1,181 @@
+// app/api/_lib/jobfitPolicies.ts
+//
+// Resolves which JobFit policy scores a given profile: BASE_POLICY from
+// app/api/jobfit/policy.ts, optionally with one jobfit_policies overlay
+// deep-merged on top (see supabase/migrations/20261019_jobfit_policies.sql).
+//
+// This module exposes:
+//   - `basePolicyResolution`: the no-overlay result. Used as the fallback
+//     everywhere, so a missing table or a bad row degrades to today's
+//     behavior instead of failing the run.
+//   - `resolveJobFitPolicy`: picks the overlay for a profile. First match
+//     wins: profile → coach_org → experiment → default.
+//   - `experimentBucket`: the stable 0–99 bucket used for experiment arms.
+//
+// Assignments are cached in-process for ASSIGNMENT_TTL_MS; merged policies
+// are cached by overlay id + version for the life of the process (overlay
+// rows are immutable by convention — new behavior means a new version).
+
+import crypto from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import { BASE_POLICY, mergePolicyOverlay, type JobFitPolicy, type PolicyOverlay } from "../jobfit/policy"
+
+export type PolicyCohortType = "profile" | "coach_org" | "experiment" | "default"
+
+export type ResolvedJobFitPolicy = {
+  policy: JobFitPolicy
+  policyVersion: string
+  assignment: {
+    cohortType: PolicyCohortType
+    cohortKey: string
+    arm: string | null
+    policyName: string
+    policyVersion: number
+  } | null
+}
+
+type AssignmentRow = {
+  id: string
+  cohort_type: PolicyCohortType
+  cohort_key: string
+  arm: string | null
+  traffic_pct: number | null
+  policy: {
+    id: string
+    name: string
+    version: number
+    overlay: PolicyOverlay | null
+    is_active: boolean
+  } | null
+}
+
+const ASSIGNMENT_TTL_MS = 60_000
+const COHORT_ORDER: PolicyCohortType[] = ["profile", "coach_org", "experiment", "default"]
+
+let assignmentCache: { loadedAt: number; rows: AssignmentRow[] } | null = null
+const mergedCache = new Map<string, JobFitPolicy>()
+
+export function basePolicyResolution(): ResolvedJobFitPolicy {
+  return { policy: BASE_POLICY, policyVersion: BASE_POLICY.version, assignment: null }
+}
+
+export function experimentBucket(experiment: string, profileId: string): number {
+  const h = crypto.createHash("sha256").update(`${experiment}:${profileId}`).digest("hex")
+  return parseInt(h.slice(0, 8), 16) % 100
+}
+
+async function loadAssignments(supabase: SupabaseClient): Promise<AssignmentRow[]> {
+  if (assignmentCache && Date.now() - assignmentCache.loadedAt < ASSIGNMENT_TTL_MS) {
+    return assignmentCache.rows
+  }
+  const { data, error } = await supabase
+    .from("jobfit_policy_assignments")
+    .select("id, cohort_type, cohort_key, arm, traffic_pct, policy:jobfit_policies(id, name, version, overlay, is_active)")
+    .eq("is_active", true)
+  if (error) throw new Error(`jobfit_policy_assignments lookup failed: ${error.message}`)
+
+  const rows = ((data || []) as unknown as AssignmentRow[]).filter((r) => r.policy && r.policy.is_active)
+  assignmentCache = { loadedAt: Date.now(), rows }
+  return rows
+}
+
+// The coach org of the profile itself (coaches scoring for themselves) and
+// of every active coach the profile is a client of.
+async function loadCoachOrgs(supabase: SupabaseClient, profileId: string): Promise<string[]> {
+  const { data: links, error: linkErr } = await supabase
+    .from("coach_clients")
+    .select("coach_profile_id")
+    .eq("client_profile_id", profileId)
+    .eq("status", "active")
+  if (linkErr) throw new Error(`coach_clients lookup failed: ${linkErr.message}`)
+
+  const ids = [profileId, ...((links || []) as Array<{ coach_profile_id: string }>).map((l) => l.coach_profile_id)]
+  const { data: profiles, error: profErr } = await supabase
+    .from("client_profiles")
+    .select("coach_org")
+    .in("id", ids)
+  if (profErr) throw new Error(`client_profiles coach_org lookup failed: ${profErr.message}`)
+
+  return Array.from(
+    new Set(
+      ((profiles || []) as Array<{ coach_org: string | null }>)
+        .map((p) => String(p.coach_org || "").trim().toLowerCase())
+        .filter(Boolean)
+    )
+  )
+}
+
+function pickExperimentArm(rows: AssignmentRow[], profileId: string): AssignmentRow | null {
+  const byExperiment = new Map<string, AssignmentRow[]>()
+  for (const r of rows) {
+    const list = byExperiment.get(r.cohort_key) || []
+    list.push(r)
+    byExperiment.set(r.cohort_key, list)
+  }
+  for (const experiment of Array.from(byExperiment.keys()).sort()) {
+    const bucket = experimentBucket(experiment, profileId)
+    const arms = byExperiment.get(experiment)!.slice().sort((a, b) => String(a.arm).localeCompare(String(b.arm)))
+    let upper = 0
+    for (const arm of arms) {
+      upper += Math.max(0, Number(arm.traffic_pct) || 0)
+      if (bucket < upper) return arm
+    }
+  }
+  return null
+}
+
+function toResolution(row: AssignmentRow): ResolvedJobFitPolicy {
+  const p = row.policy!
+  const policyVersion = `${BASE_POLICY.version}+${p.name}@v${p.version}`
+  let policy = mergedCache.get(`${p.id}:${p.version}`)
+  if (!policy) {
+    policy = mergePolicyOverlay(BASE_POLICY, p.overlay, policyVersion)
+    mergedCache.set(`${p.id}:${p.version}`, policy)
+  }
+  return {
+    policy,
+    policyVersion,
+    assignment: {
+      cohortType: row.cohort_type,
+      cohortKey: row.cohort_key,
+      arm: row.arm,
+      policyName: p.name,
+      policyVersion: p.version,
+    },
+  }
+}
+
+/**
+ * Best-effort: any lookup failure (including the tables not existing yet)
+ * is logged and resolves to BASE_POLICY.
+ */
+export async function resolveJobFitPolicy(params: {
+  supabase: SupabaseClient
+  profileId: string
+}): Promise<ResolvedJobFitPolicy> {
+  const { supabase, profileId } = params
+  try {
+    const rows = await loadAssignments(supabase)
+    if (rows.length === 0) return basePolicyResolution()
+
+    const hasCoachOrgRows = rows.some((r) => r.cohort_type === "coach_org")
+    const coachOrgs = hasCoachOrgRows ? await loadCoachOrgs(supabase, profileId) : []
+
+    for (const cohort of COHORT_ORDER) {
+      const candidates = rows.filter((r) => r.cohort_type === cohort)
+      if (candidates.length === 0) continue
+      let hit: AssignmentRow | null = null
+      if (cohort === "profile") hit = candidates.find((r) => r.cohort_key === profileId) || null
+      else if (cohort === "coach_org") {
+        hit = candidates.find((r) => coachOrgs.includes(r.cohort_key.trim().toLowerCase())) || null
+      } else if (cohort === "experiment") hit = pickExperimentArm(candidates, profileId)
+      else hit = candidates.find((r) => r.cohort_key === "*") || null
+      if (hit) return toResolution(hit)
+    }
+    return basePolicyResolution()
+  } catch (e: unknown) {
+    console.warn("[jobfitPolicies] policy resolution failed, using base policy:", e instanceof Error ? e.message : String(e))
+    return basePolicyResolution()
+  }
+}
@@ -18,6 +18,11 @@ import type {
   StructuredProfileSignals,
   ProfileConstraints,
 } from "../jobfit/signals"
+import { inferWorkAuthStatus } from "../jobfit/workAuth"
+import { inferPayFloor } from "../jobfit/pay"
+import { inferWorkConditionLimits } from "../jobfit/workConditions"
+import { inferProfileGpa, parseGpa } from "../jobfit/gpa"
+import { canonicalToolId } from "../jobfit/toolOntology"
 
 type AnyObj = Record<string, any>
 
@@ -54,6 +59,11 @@ const JOB_FAMILY_ALLOWLIST: JobFamily[] = [
   "Healthcare",
   "Legal",
   "Trades",
+  "Education",
+  "Nonprofit",
+  "Media",
+  "RealEstate",
+  "SupplyChain",
   "Other",
 ]
 
@@ -256,6 +266,9 @@ function inferConstraints(profileText: string): ProfileConstraints {
     preferNotAnalyticsHeavy,
     hardNoContentOnly,
     hardNoPartTime,
+    workAuthStatus: inferWorkAuthStatus(profileText),
+    ...inferPayFloor(profileText),
+    ...inferWorkConditionLimits(profileText),
   }
 }
 
@@ -370,7 +383,8 @@ function normalizeMode(x: any): LocationMode {
 
 /* ------------------------------ tools (MOST IMPORTANT) ------------------------------ */
 
-// Canonical tokens should match the evaluator's tool extraction/matching conventions:
+// Intake-specific spellings on top of ../jobfit/toolOntology, which owns the
+// canonical ids. Canonical tokens should match the evaluator's conventions:
 // - lower-case
 // - common names (e.g., "power bi", "google analytics", "adobe")
 // - no punctuation
@@ -432,8 +446,9 @@ function canonToolName(x: any): string | null {
   const stripped = cleaned.replace(/^(ms|microsoft)\s+/, "")
   if (TOOL_ALIASES[stripped]) return TOOL_ALIASES[stripped]
 
-  // fallback: keep cleaned token (lowercase)
-  return cleaned
+  // fallback: the shared ontology ("AWS Lambda" -> "aws"); unknown tools
+  // come back as the cleaned token
+  return canonicalToolId(cleaned)
 }
 
 /**
@@ -559,6 +574,11 @@ export function mapClientProfileToOverrides(args: {
     (Number.isFinite(ps?.gradYear) ? Number(ps.gradYear) : null) ||
     parseGradYear(args.profileText)
 
+  // Intake GPA (profile_structured.gpa) beats anything parsed from text;
+  // whether it is on the resume always comes from the text.
+  const textGpa = inferProfileGpa(args.profileText)
+  const gpa = parseGpa(ps?.gpa) ?? textGpa.gpa
+
   // Parse stated interests into structured form
   const targetRolesRaw = norm(args.targetRoles || "")
   const parsedTargetRoles = parseTargetRoles(targetRolesRaw)
@@ -574,6 +594,27 @@ export function mapClientProfileToOverrides(args: {
     hardNoContentOnly: constraints.hardNoContentOnly,
     hardNoPartTime: constraints.hardNoPartTime,
     prefFullTime: constraints.prefFullTime,
+    // Structured constraints saved before work auth existed have no
+    // status — fall back to the intake text rather than "unknown".
+    workAuthStatus:
+      constraints.workAuthStatus && constraints.workAuthStatus !== "unknown"
+        ? constraints.workAuthStatus
+        : inferWorkAuthStatus(args.profileText),
+    // Pay floor — separate from hardNoHourlyPay, which is about how the
+    // role pays rather than how much. Same fallback as workAuthStatus.
+    ...(constraints.minAnnualPay != null || constraints.minHourlyRate != null
+      ? { minAnnualPay: constraints.minAnnualPay ?? null, minHourlyRate: constraints.minHourlyRate ?? null }
+      : inferPayFloor(args.profileText)),
+    // Travel / schedule / relocation / physical hard nos. Structured
+    // constraints saved before these existed fall back to the text.
+    ...(Array.isArray(constraints.hardNoShifts)
+      ? {
+          maxTravelPercent: constraints.maxTravelPercent ?? null,
+          hardNoShifts: constraints.hardNoShifts,
+          hardNoRelocation: Boolean(constraints.hardNoRelocation),
+          hardNoPhysicalDemands: Boolean(constraints.hardNoPhysicalDemands),
+        }
+      : inferWorkConditionLimits(args.profileText)),
   }
 
   return {
@@ -582,6 +623,8 @@ export function mapClientProfileToOverrides(args: {
     locationPreference,
     tools,
     gradYear,
+    gpa,
+    gpaListedOnResume: textGpa.gpaListedOnResume,
     yearsExperienceApprox: ps?.yearsExperienceApprox ?? null,
     // Fully exposed interest signals
     targetRolesRaw,
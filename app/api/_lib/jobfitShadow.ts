@@ -0,0 +1,252 @@
+// app/api/_lib/jobfitShadow.ts
+//
+// Shadow-mode evaluation of the V4 cluster engine (app/api/_v4) next to
+// the live V3 engine.
+//
+// The V4 evaluator itself is not written yet — app/api/_v4/evaluateV4.ts
+// is still empty and nothing in production calls `setV4ShadowEngine` — so
+// shadow mode is inert: JOBFIT_V4_SHADOW records nothing and the report
+// stays empty until an engine is registered. Everything around it
+// (sampling, the comparison table, the report) is in place so that
+// landing the evaluator and registering it is the only change needed.
+//
+// This module exposes:
+//   - `setV4ShadowEngine`: installs the V4 evaluator and its version
+//     stamp; pass null to remove it. `v4ShadowEngineInstalled` reports
+//     whether one is.
+//   - `recordV4Shadow`: runs the installed evaluator for a job × profile
+//     that V3 just scored and upserts both decisions into
+//     jobfit_shadow_comparisons. Called from runJobFitForProfile after the
+//     V3 result is final. It never throws and never touches the V3 result
+//     — users only ever see V3.
+//   - `summarizeShadowComparisons`: pure aggregate of comparison rows into
+//     an agreement / disagreement report by job family. Backs
+//     GET /api/jobfit/shadow-report.
+//
+// With an engine installed, JOBFIT_V4_SHADOW turns it on: "1"/"true"
+// shadows every run, a number in (0, 1) shadows that fraction. Sampling is
+// keyed on the fingerprint, so a given job × profile is either always
+// shadowed or never.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import type { DecisionLabel, ProfileStructured, V4Evaluation } from "../_v4/types"
+import { DECISION_RANK } from "../jobfit/decision"
+import { INSUFFICIENT_DETAIL } from "../jobfit/signals"
+import type { Decision, ResultDecision } from "../jobfit/signals"
+import type { AssembledProfile } from "./runJobFitForProfile"
+
+export const SHADOW_ENGINE_V4 = "v4_cluster"
+
+export type V4ShadowInput = {
+  jobText: string
+  resumeText: string
+  // The V4 profile extractor only reads the resume; targets come from intake.
+  declaredTargets: Partial<ProfileStructured["declared_targets"]>
+}
+
+// The parts of a V4Evaluation the comparison row stores.
+export type V4ShadowResult = Pick<V4Evaluation, "capability" | "viability" | "alignment" | "decision">
+
+export type V4ShadowEngine = {
+  // Stored as shadow_engine_version, e.g. the evaluator's stamp.
+  version: string
+  evaluate: (input: V4ShadowInput) => V4ShadowResult
+}
+
+let v4Engine: V4ShadowEngine | null = null
+
+export function setV4ShadowEngine(next: V4ShadowEngine | null) {
+  v4Engine = next
+}
+
+export function v4ShadowEngineInstalled(): boolean {
+  return v4Engine !== null
+}
+
+const V4_TO_DECISION: Record<DecisionLabel, Decision> = {
+  priority_apply: "Priority Apply",
+  apply: "Apply",
+  review: "Review",
+  pass: "Pass",
+}
+
+function shadowSampleRate(): number {
+  const raw = String(process.env.JOBFIT_V4_SHADOW || "").trim().toLowerCase()
+  if (!raw || raw === "0" || raw === "false") return 0
+  if (raw === "1" || raw === "true") return 1
+  const n = Number(raw)
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0
+}
+
+function inShadowSample(fingerprintHash: string, rate: number): boolean {
+  if (rate >= 1) return true
+  if (rate <= 0) return false
+  const bucket = parseInt(String(fingerprintHash).slice(0, 8), 16)
+  return Number.isFinite(bucket) && bucket % 10000 < rate * 10000
+}
+
+export type ShadowComparison = {
+  v3_decision: Decision
+  v4_decision: Decision
+  agree: boolean
+  rank_delta: number
+}
+
+export async function recordV4Shadow(params: {
+  supabase: SupabaseClient
+  assembled: AssembledProfile
+  jobText: string
+  fingerprintHash: string
+  v3: { decision: ResultDecision; score: number | null; job_signals?: any; profile_signals?: any }
+  jobfitLogicVersion: string
+}): Promise<ShadowComparison | null> {
+  const { supabase, assembled, jobText, fingerprintHash, v3 } = params
+  const engine = v4Engine
+  if (!engine || !inShadowSample(fingerprintHash, shadowSampleRate())) return null
+  // A posting too thin to judge has no V3 band to compare against.
+  if (v3.decision === INSUFFICIENT_DETAIL) return null
+
+  try {
+    const resumeText =
+      String(assembled.persona?.resume_text || "").trim() ||
+      String(assembled.clientProfile.resume_text || "").trim() ||
+      assembled.effectiveProfileText
+
+    const started = Date.now()
+    const v4 = engine.evaluate({
+      jobText,
+      resumeText,
+      declaredTargets: {
+        role_families: v3.profile_signals?.targetFamilies || [],
+        industries: v3.profile_signals?.statedInterests?.targetIndustries || [],
+      },
+    })
+    const latencyMs = Date.now() - started
+
+    const v4Decision = V4_TO_DECISION[v4.decision.label]
+    const comparison: ShadowComparison = {
+      v3_decision: v3.decision,
+      v4_decision: v4Decision,
+      agree: v3.decision === v4Decision,
+      rank_delta: DECISION_RANK[v4Decision] - (DECISION_RANK[v3.decision] ?? DECISION_RANK[v4Decision]),
+    }
+
+    const { error } = await supabase.from("jobfit_shadow_comparisons").upsert(
+      {
+        client_profile_id: assembled.profileId,
+        persona_id: assembled.persona?.id || null,
+        fingerprint_hash: fingerprintHash,
+        shadow_engine: SHADOW_ENGINE_V4,
+        shadow_engine_version: engine.version,
+        jobfit_logic_version: params.jobfitLogicVersion,
+        job_family: v3.job_signals?.jobFamily || null,
+        v3_decision: comparison.v3_decision,
+        v3_score: v3.score,
+        v4_decision: comparison.v4_decision,
+        v4_capability_score: v4.capability.score,
+        v4_labels: {
+          capability: v4.capability.label,
+          viability: v4.viability.label,
+          alignment: v4.alignment.label,
+          reasons: v4.decision.reasons,
+          clusters: v4.capability.cluster_details,
+        },
+        agree: comparison.agree,
+        rank_delta: comparison.rank_delta,
+        shadow_latency_ms: latencyMs,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "client_profile_id,fingerprint_hash,shadow_engine" }
+    )
+    if (error) throw new Error(error.message)
+
+    return comparison
+  } catch (e: unknown) {
+    console.warn("[jobfitShadow] V4 shadow evaluation failed:", e instanceof Error ? e.message : String(e))
+    return null
+  }
+}
+
+/* ------------------------------ reporting ------------------------------ */
+
+export type ShadowComparisonRow = {
+  job_family: string | null
+  v3_decision: Decision
+  v4_decision: Decision
+  v3_score: number | null
+  v4_capability_score: number | null
+}
+
+export type ShadowFamilyReport = {
+  job_family: string
+  total: number
+  agree: number
+  agreement_rate: number
+  // V4 more / less favorable than V3, by at least one band.
+  v4_higher: number
+  v4_lower: number
+  mean_v3_score: number | null
+  mean_v4_capability: number | null
+  // confusion[v3_decision][v4_decision] = count
+  confusion: Record<string, Record<string, number>>
+}
+
+export type ShadowReport = {
+  total: number
+  agree: number
+  agreement_rate: number
+  by_family: ShadowFamilyReport[]
+}
+
+function rate(n: number, d: number): number {
+  return d === 0 ? 0 : Math.round((n / d) * 1000) / 1000
+}
+
+function mean(values: Array<number | null>): number | null {
+  const nums = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v))
+  return nums.length ? Math.round((nums.reduce((s, v) => s + v, 0) / nums.length) * 10) / 10 : null
+}
+
+export function summarizeShadowComparisons(rows: ShadowComparisonRow[]): ShadowReport {
+  const byFamily = new Map<string, ShadowComparisonRow[]>()
+  for (const r of rows) {
+    const key = r.job_family || "Unknown"
+    const list = byFamily.get(key) || []
+    list.push(r)
+    byFamily.set(key, list)
+  }
+
+  const by_family: ShadowFamilyReport[] = []
+  for (const [job_family, list] of byFamily) {
+    const confusion: Record<string, Record<string, number>> = {}
+    let agree = 0
+    let v4_higher = 0
+    let v4_lower = 0
+    for (const r of list) {
+      confusion[r.v3_decision] = confusion[r.v3_decision] || {}
+      confusion[r.v3_decision][r.v4_decision] = (confusion[r.v3_decision][r.v4_decision] || 0) + 1
+      const delta = (DECISION_RANK[r.v4_decision] ?? 0) - (DECISION_RANK[r.v3_decision] ?? 0)
+      if (delta === 0) agree++
+      else if (delta > 0) v4_higher++
+      else v4_lower++
+    }
+    by_family.push({
+      job_family,
+      total: list.length,
+      agree,
+      agreement_rate: rate(agree, list.length),
+      v4_higher,
+      v4_lower,
+      mean_v3_score: mean(list.map((r) => r.v3_score)),
+      mean_v4_capability: mean(list.map((r) => r.v4_capability_score)),
+      confusion,
+    })
+  }
+
+  // Worst agreement first; ties by size.
+  by_family.sort((a, b) => a.agreement_rate - b.agreement_rate || b.total - a.total)
+
+  const agree = by_family.reduce((s, f) => s + f.agree, 0)
+  return { total: rows.length, agree, agreement_rate: rate(agree, rows.length), by_family }
+}
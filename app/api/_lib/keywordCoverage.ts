@@ -1,5 +1,7 @@
 // app/api/_lib/keywordCoverage.ts
 
+import { isToolPhrase } from "../jobfit/toolOntology"
+
 export type KeywordHit = {
   phrase: string
   weight: number
@@ -32,14 +34,6 @@ const VAGUE_TERMS = new Set([
   "deliver","delivering","deliverables","improve","improving","improvement","successful","success"
 ])
 
-// lightweight tool dictionary (expand over time)
-const TOOL_TERMS = new Set([
-  "excel","sql","python","tableau","powerbi","power","bi","r","sas","stata",
-  "google sheets","sheets","google docs","docs","powerpoint","ppt","word",
-  "jira","asana","trello","slack","salesforce","hubspot","figma","adobe","photoshop","illustrator","canva",
-  "google analytics","analytics"
-])
-
 function normalizeText(s: string) {
   return s
     .toLowerCase()
@@ -49,10 +43,7 @@ function normalizeText(s: string) {
 }
 
 function hasToolSignal(phrase: string) {
-  const p = normalizeText(phrase)
-  if (TOOL_TERMS.has(p)) return true
-  const tokens = p.split(" ").filter(Boolean)
-  return tokens.some(t => TOOL_TERMS.has(t))
+  return isToolPhrase(normalizeText(phrase))
 }
 
 function isVaguePhrase(phrase: string) {
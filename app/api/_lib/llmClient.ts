@@ -0,0 +1,93 @@
+// app/api/_lib/llmClient.ts
+//
+// The one way out to OpenAI and Anthropic. Routes build their SDK clients
+// here, or call `llmFetch` where they talk to the Messages API directly,
+// instead of constructing clients / calling fetch themselves. That gives
+// every generative route the same two seams:
+//
+//   - LLM_BASE_URL: when set, every request to api.openai.com or
+//     api.anthropic.com is sent to this origin instead, path unchanged.
+//     Point it at the local stand-in (tests/llm-standin/server.ts) to run
+//     `next dev` with no provider access.
+//   - `setLlmTransport`: swaps the fetch used for provider calls
+//     in-process. Route tests install the stand-in here.
+//
+// Every request also carries its purpose (LLM_PURPOSE_HEADER). Providers
+// ignore it; the stand-in uses it to pick the response shape in
+// synthetic mode and to label recordings.
+//
+// This module exposes:
+//   - `openaiClient` / `anthropicClient`: SDK clients wired to the seams.
+//   - `llmRequestOptions`: per-request SDK options carrying the purpose.
+//   - `llmFetch`: drop-in for `fetch` on raw Messages API calls.
+//   - `setLlmTransport`: test hook; pass null to restore global fetch.
+
+import Anthropic from "@anthropic-ai/sdk"
+import OpenAI from "openai"
+
+export const LLM_PURPOSE_HEADER = "x-wrn-llm-purpose"
+
+export type LlmPurpose =
+  | "positioning"
+  | "coverletter"
+  | "networking.plan"
+  | "networking.repair"
+  | "jobfit.bullets_v4"
+  | "jobfit.bullets_v5"
+  | "jobfit.debug_review"
+  | "job_analysis.enrichment"
+  | "job_analysis.analysis"
+  | "parse_job_text"
+  | "parse_job_url.fallback"
+  | "resume_upload.pdf_text"
+  | "resume_rx.diagnosis"
+  | "resume_rx.education"
+  | "resume_rx.architecture"
+  | "resume_rx.answer.project"
+  | "resume_rx.answer.bullet"
+  | "resume_rx.answer.coursework"
+  | "resume_rx.assemble"
+  | "resume_rx.coaching"
+
+export type LlmTransport = (url: string, init?: RequestInit) => Promise<Response>
+
+const PROVIDER_ORIGINS = ["https://api.openai.com", "https://api.anthropic.com"]
+
+let transport: LlmTransport | null = null
+
+export function setLlmTransport(next: LlmTransport | null) {
+  transport = next
+}
+
+function rebase(url: string): string {
+  const base = String(process.env.LLM_BASE_URL || "").trim().replace(/\/+$/, "")
+  if (!base) return url
+  const u = new URL(url)
+  if (!PROVIDER_ORIGINS.includes(u.origin)) return url
+  return base + u.pathname + u.search
+}
+
+// Resolved per call, not at client construction, so a transport installed
+// after a route module has loaded still takes effect.
+function send(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url
+  return (transport ?? fetch)(rebase(url), init)
+}
+
+export function llmFetch(purpose: LlmPurpose, url: string, init: RequestInit): Promise<Response> {
+  const headers = new Headers(init.headers)
+  headers.set(LLM_PURPOSE_HEADER, purpose)
+  return send(url, { ...init, headers })
+}
+
+export function llmRequestOptions(purpose: LlmPurpose) {
+  return { headers: { [LLM_PURPOSE_HEADER]: purpose } }
+}
+
+export function openaiClient(): OpenAI {
+  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY, fetch: send })
+}
+
+export function anthropicClient(): Anthropic {
+  return new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY, fetch: send })
+}
@@ -13,11 +13,12 @@
 //     /api/jobfit) can compute the fingerprint BEFORE running the full
 //     pipeline without duplicating the load.
 //   - `computeJobFitFingerprint`: deterministic fingerprint of job × profile
-//     × logic-version. Formerly inline in /api/jobfit/route.ts; lifted here
-//     so coach-path cache keys (when added later) stay in sync.
+//     × logic-version × policy-version. Formerly inline in /api/jobfit/route.ts;
+//     lifted here so coach-path cache keys (when added later) stay in sync.
 //   - `runJobFitForProfile`: the full pipeline — assemble → runJobFit →
-//     V5 bullets → enforceClientFacingRules. This is the primary export
-//     and the single source of truth for JobFit output shape.
+//     V5 bullets → enforceClientFacingRules (→ optional V4 shadow, see
+//     ./jobfitShadow.ts). This is the primary export and the single source
+//     of truth for JobFit output shape.
 //
 // PERSONA SEMANTICS (standardized here):
 //   personaId must be explicitly passed. When it is absent, the function
@@ -39,7 +40,11 @@ import type { SupabaseClient } from "@supabase/supabase-js"
 import { runJobFit } from "./jobfitEvaluator"
 import { mapClientProfileToOverrides } from "./jobfitProfileAdapter"
 import { enforceClientFacingRules } from "../jobfit/enforceClientFacingRules"
-import type { StructuredProfileSignals } from "../jobfit/signals"
+import type { EvalOutput, StructuredProfileSignals } from "../jobfit/signals"
+import { BASE_POLICY } from "../jobfit/policy"
+import { JD_NORMALIZER_VERSION, normalizeJobText } from "../jobfit/normalizeJobText"
+import { resolveJobFitPolicy, type ResolvedJobFitPolicy } from "./jobfitPolicies"
+import { recordV4Shadow } from "./jobfitShadow"
 
 const MISSING = "__MISSING__"
 
@@ -79,12 +84,14 @@ export type AssembledProfile = {
   profileOverrides: Partial<StructuredProfileSignals>
   profileVersionAtRun: number | null
   personaVersionAtRun: number | null
+  // Cohort policy for this profile (BASE_POLICY unless an overlay applies).
+  policy: ResolvedJobFitPolicy
 }
 
 export type RunJobFitForProfileResult = {
   // Core engine output
   decision: any
-  score: number
+  score: number | null
   icon: string
   bullets: string[]
   risk_flags: string[]
@@ -96,6 +103,10 @@ export type RunJobFitForProfileResult = {
   gate_triggered: any
   score_breakdown: any
   location_constraint: any
+  // "insufficient_detail" when the posting was too thin to judge; the
+  // guidance is in insufficient_detail and next_step.
+  result_mode: EvalOutput["result_mode"]
+  insufficient_detail?: EvalOutput["insufficient_detail"]
 
   // V5 outputs (undefined when V5 fell back to V4)
   why?: string[]
@@ -108,6 +119,7 @@ export type RunJobFitForProfileResult = {
   fingerprint_hash: string
   fingerprint_code: string
   jobfit_logic_version: string
+  policy_version: string
 
   // Versioning for audit trail
   profileVersionAtRun: number | null
@@ -146,15 +158,25 @@ export function computeJobFitFingerprint(params: {
   clientProfileId: string
   effectiveProfileText: string
   profileOverrides: Partial<StructuredProfileSignals> | null
+  // Resolved policy version. Overlay changes must miss the cache without
+  // a deploy bumping JOBFIT_LOGIC_VERSION.
+  policyVersion?: string
 }): { fingerprint_hash: string; fingerprint_code: string } {
   const payload = {
-    job: { text: params.jobText || MISSING },
+    // Normalized so a pasted JD and the same JD parsed from its URL share
+    // one cache row. Text the normalizer empties (bare markup) keys on
+    // the raw text, never on MISSING, so two such postings can't collide.
+    job: { text: normalizeJobText(params.jobText) || String(params.jobText || "").trim() || MISSING },
     profile: {
       id: params.clientProfileId || MISSING,
       text: params.effectiveProfileText || MISSING,
       overrides: params.profileOverrides || MISSING,
     },
-    system: { jobfit_logic_version: JOBFIT_LOGIC_VERSION },
+    system: {
+      jobfit_logic_version: JOBFIT_LOGIC_VERSION,
+      policy_version: params.policyVersion || BASE_POLICY.version,
+      jd_normalizer_version: JD_NORMALIZER_VERSION,
+    },
   }
   const canonical = JSON.stringify(normalize(payload))
   const fingerprint_hash = crypto.createHash("sha256").update(canonical).digest("hex")
@@ -258,6 +280,8 @@ export async function assembleProfileForScoring(params: {
   // jobfit_runs.profile_version_at_run was null for non-persona runs.
   const profileVersionAtRun = personaId ? clientProfile.profile_version ?? 1 : null
 
+  const policy = await resolveJobFitPolicy({ supabase, profileId: clientProfileId })
+
   return {
     profileId: clientProfileId,
     clientProfile,
@@ -266,6 +290,7 @@ export async function assembleProfileForScoring(params: {
     profileOverrides,
     profileVersionAtRun,
     personaVersionAtRun,
+    policy,
   }
 }
 
@@ -331,6 +356,7 @@ export async function runJobFitForProfile(params: {
     clientProfileId,
     effectiveProfileText: assembled.effectiveProfileText,
     profileOverrides: assembled.profileOverrides,
+    policyVersion: assembled.policy.policyVersion,
   })
 
   // ── Run scoring engine ────────────────────────────────────────────
@@ -340,12 +366,14 @@ export async function runJobFitForProfile(params: {
     profileOverrides: assembled.profileOverrides,
     userJobTitle: jobTitle || undefined,
     userCompanyName: companyName || undefined,
-    // These extra fields are cast-through to match /api/jobfit's historical
-    // call shape. runJobFit's actual signature ignores them, but some
-    // downstream debug telemetry may read them off `args` via `as any`.
+    policy: assembled.policy.policy,
+    // debug turns on the extraction attribution trace. userId / mode are
+    // cast-through to match /api/jobfit's historical call shape; runJobFit
+    // ignores them, but some downstream debug telemetry may read them off
+    // `args` via `as any`.
+    debug: debugFlag,
     userId,
     mode,
-    debug: debugFlag,
   } as any)) as any
 
   // ── V5 AI bullet generator ────────────────────────────────────────
@@ -396,6 +424,19 @@ export async function runJobFitForProfile(params: {
 
   const cleaned = enforceClientFacingRules(raw) as any
 
+  // ── V4 shadow evaluation ──────────────────────────────────────────
+  // Sampled by JOBFIT_V4_SHADOW; persists V3 vs V4 decisions for the
+  // shadow report. A no-op until a V4 evaluator is registered (see
+  // jobfitShadow.ts). Best-effort and never alters `cleaned`.
+  await recordV4Shadow({
+    supabase,
+    assembled,
+    jobText,
+    fingerprintHash: fingerprint_hash,
+    v3: cleaned,
+    jobfitLogicVersion: JOBFIT_LOGIC_VERSION,
+  })
+
   return {
     decision: cleaned.decision,
     score: cleaned.score,
@@ -410,6 +451,8 @@ export async function runJobFitForProfile(params: {
     gate_triggered: cleaned.gate_triggered,
     score_breakdown: cleaned.score_breakdown,
     location_constraint: cleaned.location_constraint,
+    result_mode: cleaned.result_mode,
+    insufficient_detail: cleaned.insufficient_detail,
 
     why: cleaned.why,
     risk: cleaned.risk,
@@ -420,6 +463,7 @@ export async function runJobFitForProfile(params: {
     fingerprint_hash,
     fingerprint_code,
     jobfit_logic_version: JOBFIT_LOGIC_VERSION,
+    policy_version: assembled.policy.policyVersion,
 
     profileVersionAtRun: assembled.profileVersionAtRun,
     personaVersionAtRun: assembled.personaVersionAtRun,
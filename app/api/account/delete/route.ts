@@ -7,7 +7,7 @@
 // Deletion order:
 //   1. Verify bearer token → resolve userId + email
 //   2. Look up the client_profile row
-//   3. Hard-delete user-owned rows across 10 tables
+//   3. Hard-delete user-owned rows across 11 tables
 //      (best-effort, per-table try/catch — warnings are returned, not thrown)
 //   4. Anonymize purchases rows by email (keeps financial audit trail,
 //      strips PII + attribution signals)
@@ -98,30 +98,33 @@ export async function DELETE(req: NextRequest) {
     })
   }
 
-  // ── 3. Delete user-owned rows across 10 tables ───────────────
+  // ── 3. Delete user-owned rows across 11 tables ───────────────
   if (profileId) {
-    // Tables that link directly via client_profile_id
-    const directTables = [
-      "signal_applications",
-      "jobfit_runs",
-      "positioning_runs",
-      "coverletter_runs",
-      "networking_runs",
-      "client_personas",
-      "resume_rx_sessions",
+    // Tables that link directly to the profile. The run tables predate
+    // migrations and use client_profile_id; the tracker, persona and
+    // Resume Rx tables use profile_id (see docs/DATABASE.md).
+    const directTables: [table: string, column: string][] = [
+      ["signal_interviews", "profile_id"],
+      ["signal_applications", "profile_id"],
+      ["jobfit_runs", "client_profile_id"],
+      ["positioning_runs", "client_profile_id"],
+      ["coverletter_runs", "client_profile_id"],
+      ["networking_runs", "client_profile_id"],
+      ["client_personas", "profile_id"],
+      ["resume_rx_sessions", "profile_id"],
     ]
-    for (const table of directTables) {
+    for (const [table, column] of directTables) {
       const { error } = await supabase
         .from(table)
         .delete()
-        .eq("client_profile_id", profileId)
+        .eq(column, profileId)
       if (error) {
         warnings.push({ step: `delete_${table}`, error: error.message })
       }
     }
 
     // Coach tables — user may be the coach OR the client in any given row.
-    // Delete every row where either identifier matches.
+    // Both sides are client_profiles ids.
     for (const table of [
       "coach_annotations",
       "coach_job_recommendations",
@@ -130,7 +133,7 @@ export async function DELETE(req: NextRequest) {
       const { error: asClient } = await supabase
         .from(table)
         .delete()
-        .eq("client_id", profileId)
+        .eq("client_profile_id", profileId)
       if (asClient) {
         warnings.push({
           step: `delete_${table}_as_client`,
@@ -140,7 +143,7 @@ export async function DELETE(req: NextRequest) {
       const { error: asCoach } = await supabase
         .from(table)
         .delete()
-        .eq("coach_id", userId)
+        .eq("coach_profile_id", profileId)
       if (asCoach) {
         warnings.push({
           step: `delete_${table}_as_coach`,
@@ -148,11 +151,6 @@ export async function DELETE(req: NextRequest) {
         })
       }
     }
-
-    // signal_interviews: FK to signal_applications. Most interview rows
-    // are already gone via cascade from step above if the FK is configured
-    // that way; otherwise they orphan with no PII attached. No direct
-    // client_profile_id column to query on.
   }
 
   // ── 4. Anonymize purchases rows (keep financial audit trail) ─
@@ -216,6 +216,7 @@ export async function POST(req: NextRequest) {
         job_description: jobDescription,
         persona_id: persona?.id || null,
         sourced_by_coach_id: coachProfileId,
+        policy_version: assembled.policy.policyVersion,
       })
       .select("id")
       .single()
@@ -1,14 +1,14 @@
 // app/api/coverletter/route.ts
 import crypto from "crypto"
-import OpenAI from "openai"
 import { createClient } from "@supabase/supabase-js"
 import { getAuthedProfileText } from "../_lib/authProfile"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
+import { llmRequestOptions, openaiClient } from "../_lib/llmClient"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+const client = openaiClient()
 
 const MISSING = "__MISSING__"
 const COVERLETTER_PROMPT_VERSION = "coverletter_v4b_2026_04_strategy_as_topic"
@@ -523,7 +523,7 @@ Return JSON only. No markdown. No commentary.
         { role: "system", content: system },
         { role: "user", content: user },
       ],
-    })
+    }, llmRequestOptions("coverletter"))
 
     const raw = extractOutputText(resp)
     const parsed = safeJsonParse(raw)
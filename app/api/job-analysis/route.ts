@@ -1,6 +1,7 @@
 import { createClient } from "@supabase/supabase-js"
 import crypto from "crypto"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
+import { llmFetch } from "../_lib/llmClient"
 
 export const runtime = "nodejs"
 export const maxDuration = 90
@@ -112,7 +113,7 @@ async function enrichCompany(
   company_context: Record<string, unknown> | null
 } | null> {
   try {
-    const res = await fetch("https://api.anthropic.com/v1/messages", {
+    const res = await llmFetch("job_analysis.enrichment", "https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -275,7 +276,7 @@ export async function POST(req: Request) {
     // Step 2: Main analysis (Sonnet, with company context)
     const systemPrompt = buildSystemPrompt(companyContext)
 
-    const apiResponse = await fetch("https://api.anthropic.com/v1/messages", {
+    const apiResponse = await llmFetch("job_analysis.analysis", "https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -0,0 +1,117 @@
+// app/api/jobfit/attribution.ts
+//
+// Keyword attribution trace for extractJobSignals.
+//
+// When extraction runs with { trace: true }, each detector that fires
+// reports the exact phrases it matched and the rule they came from. The
+// tracer locates every phrase back to its source line and to the
+// segmentJobText section the line sits in, so a false positive like
+// "isSalesHeavy because 'pipeline' appeared under Benefits" can be traced
+// to the POLICY.extraction list entry that caused it.
+//
+// The tracer only records; detectors compute their values exactly as they
+// do untraced. Matching happens in extract.ts with its own helpers and
+// the hits are handed here, so attribution cannot disagree with the
+// signal it explains.
+
+import type { JobSection } from "./extract"
+import type { SignalAttribution, SignalAttributionMatch } from "./signals"
+
+type IndexedLine = {
+  text: string
+  normalized: string
+  section: string
+  header: string | null
+}
+
+export type SignalTracer = {
+  // Record phrases from a keyword list that matched. Pass only the hits.
+  phrases(signal: string, value: SignalAttribution["value"], rule: string, hits: string[], note?: string): void
+  // Record the first match of each regex against `text`.
+  regex(
+    signal: string,
+    value: SignalAttribution["value"],
+    rule: string,
+    text: string,
+    patterns: RegExp | RegExp[],
+    note?: string
+  ): void
+  // Record a detector that already returns its evidence line.
+  evidence(signal: string, value: SignalAttribution["value"], rule: string, line: string | null, note?: string): void
+  // Record a signal with explicit matches, or none (derived signals).
+  record(
+    signal: string,
+    value: SignalAttribution["value"],
+    rule: string,
+    matches?: SignalAttributionMatch[],
+    note?: string
+  ): void
+  locate(phrase: string): SignalAttributionMatch
+  entries(): SignalAttribution[]
+}
+
+export function createSignalTracer(params: {
+  sections: JobSection[]
+  userJobTitle?: string
+  normalize: (s: string) => string
+}): SignalTracer {
+  const { normalize } = params
+  const lines: IndexedLine[] = []
+
+  const title = String(params.userJobTitle || "").trim()
+  if (title) lines.push({ text: title, normalized: normalize(title), section: "title", header: null })
+
+  for (const s of params.sections) {
+    const header = s.headerText
+    if (header) lines.push({ text: header, normalized: normalize(header), section: s.kind, header })
+    for (const raw of s.lines) {
+      const text = raw.trim()
+      if (!text) continue
+      lines.push({ text, normalized: normalize(text), section: s.kind, header })
+    }
+  }
+
+  const out: SignalAttribution[] = []
+
+  function locate(phrase: string): SignalAttributionMatch {
+    const needle = normalize(phrase)
+    const hit = needle ? lines.find((l) => l.normalized.includes(needle)) : undefined
+    return hit
+      ? { phrase, line: hit.text, section: hit.section, header: hit.header }
+      : { phrase, line: null, section: null, header: null }
+  }
+
+  function record(
+    signal: string,
+    value: SignalAttribution["value"],
+    rule: string,
+    matches: SignalAttributionMatch[] = [],
+    note?: string
+  ) {
+    out.push(note ? { signal, value, rule, matches, note } : { signal, value, rule, matches })
+  }
+
+  return {
+    phrases(signal, value, rule, hits, note) {
+      if (!hits.length && !note) return
+      record(signal, value, rule, hits.map(locate), note)
+    },
+    regex(signal, value, rule, text, patterns, note) {
+      const matches: SignalAttributionMatch[] = []
+      for (const re of Array.isArray(patterns) ? patterns : [patterns]) {
+        // Non-global copy so a shared /g regex's lastIndex is untouched.
+        const m = new RegExp(re.source, re.flags.replace("g", "")).exec(text)
+        if (m && m[0].trim()) matches.push(locate(m[0].trim()))
+      }
+      if (!matches.length && !note) return
+      record(signal, value, rule, matches, note)
+    },
+    evidence(signal, value, rule, line, note) {
+      if (!line && !note) return
+      record(signal, value, rule, line ? [locate(line)] : [], note)
+    },
+    record,
+    locate,
+    entries: () => out,
+  }
+}
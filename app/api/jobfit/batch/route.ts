@@ -0,0 +1,388 @@
+// FILE: app/api/jobfit/batch/route.ts
+//
+// POST /api/jobfit/batch — score a list of postings against the caller's
+// profile in one request and return them ranked.
+//
+// Semantics match /api/jobfit job-for-job:
+//   - Profile is assembled ONCE (assembleProfileForScoring) and passed to
+//     every run as `preassembled`, so a 20-job batch costs one
+//     client_profiles round-trip instead of twenty.
+//   - Each job is fingerprinted with computeJobFitFingerprint and checked
+//     against jobfit_runs first. Cache hits are served as-is (unless
+//     `force` is set) and still get a signal_applications row.
+//   - The same posting submitted twice in one batch is scored once and
+//     the result reported on every copy — jobfit_runs is unique per
+//     (client_profile_id, fingerprint_hash), so a second run could not be
+//     recorded.
+//   - Uncached jobs run through runJobFitForProfile with bounded
+//     concurrency — V5 bullets make one LLM call per job, so an unbounded
+//     Promise.all on a large batch trips provider rate limits.
+//   - Fresh runs are persisted and tracked via recordJobFitRun, the same
+//     helper /api/jobfit uses.
+//
+// A bad job (missing title, pipeline throw) is reported on its own row and
+// never fails the batch. Only auth/profile failures fail the whole request.
+
+import { type NextRequest } from "next/server"
+
+import { getAuthedProfileText } from "../../_lib/authProfile"
+import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import {
+  assembleProfileForScoring,
+  computeJobFitFingerprint,
+  runJobFitForProfile,
+  JOBFIT_LOGIC_VERSION,
+} from "../../_lib/runJobFitForProfile"
+import { ensureApplicationForCachedRun, recordJobFitRun } from "../../_lib/jobfitApplications"
+import { DECISION_RANK } from "../decision"
+import { enforceClientFacingRules } from "../enforceClientFacingRules"
+import { INSUFFICIENT_DETAIL, type ResultDecision } from "../signals"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const MAX_BATCH_SIZE = 25
+const DEFAULT_CONCURRENCY = 3
+const MAX_CONCURRENCY = 5
+
+type BatchJobInput = {
+  index: number
+  jobText: string
+  jobTitle: string
+  companyName: string
+  jobUrl: string | null
+}
+
+type FingerprintedJob = BatchJobInput & {
+  fingerprint_hash: string
+  fingerprint_code: string
+}
+
+type BatchJobResult = {
+  index: number
+  rank?: number
+  job_title: string
+  company_name: string
+  job_url: string | null
+  ok: boolean
+  decision: ResultDecision | null
+  score: number | null
+  fingerprint_code: string | null
+  reused: boolean
+  jobfit_run_id: string | null
+  application_id: string | null
+  error: string | null
+  result?: any
+}
+
+async function getSupabaseAdmin() {
+  const SUPABASE_URL = process.env.SUPABASE_URL
+  const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return null
+
+  const mod = await import("@supabase/supabase-js")
+  return mod.createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+// Runs `worker` over `items` with at most `limit` in flight. Results keep
+// input order. Each worker is expected to catch its own errors.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await worker(items[i])
+    }
+  })
+  await Promise.all(lanes)
+  return results
+}
+
+function parseJobs(raw: any[]): { jobs: BatchJobInput[]; invalid: BatchJobResult[] } {
+  const jobs: BatchJobInput[] = []
+  const invalid: BatchJobResult[] = []
+
+  raw.forEach((item, index) => {
+    const jobText = String(item?.job || item?.job_description || item?.jobText || "").trim()
+    // Same clamps as /api/jobfit.
+    const jobTitle = String(item?.job_title || "").trim().slice(0, 200)
+    const companyName = String(item?.company_name || "").trim().slice(0, 200)
+    const jobUrl = String(item?.job_url || "").trim().slice(0, 2000) || null
+
+    const error = !jobText
+      ? "Missing job text"
+      : !jobTitle
+        ? "job_title is required"
+        : !companyName
+          ? "company_name is required"
+          : null
+
+    if (error) {
+      invalid.push({
+        index,
+        job_title: jobTitle,
+        company_name: companyName,
+        job_url: jobUrl,
+        ok: false,
+        decision: null,
+        score: null,
+        fingerprint_code: null,
+        reused: false,
+        jobfit_run_id: null,
+        application_id: null,
+        error,
+      })
+      return
+    }
+
+    jobs.push({ index, jobText, jobTitle, companyName, jobUrl })
+  })
+
+  return { jobs, invalid }
+}
+
+// Higher rank = better. A posting too thin to judge sorts below every
+// band that says to apply or look closer, but above an outright Pass.
+// Errored rows sort below every decision.
+function decisionRank(row: BatchJobResult): number {
+  if (!row.ok || !row.decision) return -1
+  if (row.decision === INSUFFICIENT_DETAIL) return (DECISION_RANK.Review + DECISION_RANK.Pass) / 2
+  return DECISION_RANK[row.decision] ?? -1
+}
+
+function rankResults(rows: BatchJobResult[]): BatchJobResult[] {
+  const sorted = [...rows].sort((a, b) => {
+    const ra = decisionRank(a)
+    const rb = decisionRank(b)
+    if (ra !== rb) return rb - ra
+    const sa = a.score ?? -1
+    const sb = b.score ?? -1
+    if (sa !== sb) return sb - sa
+    return a.index - b.index
+  })
+  return sorted.map((row, i) => ({ ...row, rank: i + 1 }))
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return corsOptionsResponse(req.headers.get("origin"))
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null as any)
+    if (!body || typeof body !== "object") {
+      return withCorsJson(req, { error: "Invalid JSON body" }, 400)
+    }
+
+    const rawJobs = Array.isArray(body?.jobs) ? body.jobs : null
+    if (!rawJobs || rawJobs.length === 0) {
+      return withCorsJson(req, { error: "jobs must be a non-empty array" }, 400)
+    }
+    if (rawJobs.length > MAX_BATCH_SIZE) {
+      return withCorsJson(req, { error: `jobs exceeds max batch size of ${MAX_BATCH_SIZE}` }, 400)
+    }
+
+    const concurrency = Math.max(
+      1,
+      Math.min(MAX_CONCURRENCY, Number(body?.concurrency) || DEFAULT_CONCURRENCY)
+    )
+    const forceRerun = body?.force === true || body?.force_rerun === true
+    const includeResults = body?.include_results === true
+    const personaId = String(body?.persona_id || "").trim() || null
+
+    const authed = await getAuthedProfileText(req as any)
+    const profileId = authed?.profileId
+    const supabase = await getSupabaseAdmin()
+    if (!profileId || !supabase) {
+      return withCorsJson(req, { error: "Unauthorized: missing bearer token" }, 401)
+    }
+
+    const assembled = await assembleProfileForScoring({
+      clientProfileId: profileId,
+      personaId,
+      supabase,
+    })
+    if (!assembled.effectiveProfileText) {
+      return withCorsJson(req, { error: "Unauthorized: missing bearer token or profile text" }, 401)
+    }
+
+    const { jobs, invalid } = parseJobs(rawJobs)
+
+    console.log("[jobfit/batch] POST", {
+      profileId,
+      total: rawJobs.length,
+      valid: jobs.length,
+      concurrency,
+      forceRerun,
+    })
+
+    const fingerprinted: FingerprintedJob[] = jobs.map((job) => ({
+      ...job,
+      ...computeJobFitFingerprint({
+        jobText: job.jobText,
+        clientProfileId: profileId,
+        effectiveProfileText: assembled.effectiveProfileText,
+        profileOverrides: assembled.profileOverrides,
+        policyVersion: assembled.policy.policyVersion,
+      }),
+    }))
+
+    const scoreOne = async (job: FingerprintedJob): Promise<BatchJobResult> => {
+      const base = {
+        index: job.index,
+        job_title: job.jobTitle,
+        company_name: job.companyName,
+        job_url: job.jobUrl,
+      }
+      const { fingerprint_hash, fingerprint_code } = job
+
+      try {
+        if (!forceRerun) {
+          const { data: existingRun } = await supabase
+            .from("jobfit_runs")
+            .select("id, result_json")
+            .eq("client_profile_id", profileId)
+            .eq("fingerprint_hash", fingerprint_hash)
+            .maybeSingle()
+
+          if (existingRun?.result_json) {
+            const cleaned = enforceClientFacingRules(existingRun.result_json as any) as any
+            if (!cleaned.job_signals) cleaned.job_signals = {}
+            cleaned.job_signals.jobTitle = job.jobTitle
+            cleaned.job_signals.companyName = job.companyName
+
+            const applicationId = await ensureApplicationForCachedRun({
+              supabase,
+              profileId,
+              personaId,
+              jobUrl: job.jobUrl,
+              result: cleaned,
+              userJobTitle: job.jobTitle,
+              userCompanyName: job.companyName,
+              logTag: "jobfit/batch",
+            })
+
+            return {
+              ...base,
+              ok: true,
+              decision: cleaned.decision ?? null,
+              score: cleaned.score ?? null,
+              fingerprint_code,
+              reused: true,
+              jobfit_run_id: existingRun.id ?? null,
+              application_id: applicationId,
+              error: null,
+              ...(includeResults ? { result: cleaned } : {}),
+            }
+          }
+        }
+
+        const result = await runJobFitForProfile({
+          clientProfileId: profileId,
+          personaId,
+          jobText: job.jobText,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          jobUrl: job.jobUrl,
+          supabase,
+          preassembled: assembled,
+        })
+
+        const { runId, applicationId } = await recordJobFitRun({
+          supabase,
+          profileId,
+          personaId,
+          jobUrl: job.jobUrl,
+          jobText: job.jobText,
+          result,
+          fingerprint_hash,
+          fingerprint_code,
+          profileVersionAtRun: result.profileVersionAtRun,
+          personaVersionAtRun: result.personaVersionAtRun,
+          policyVersion: result.policy_version,
+          userJobTitle: job.jobTitle,
+          userCompanyName: job.companyName,
+          logTag: "jobfit/batch",
+        })
+
+        return {
+          ...base,
+          ok: true,
+          decision: result.decision ?? null,
+          score: result.score ?? null,
+          fingerprint_code,
+          reused: false,
+          jobfit_run_id: runId,
+          application_id: applicationId,
+          error: null,
+          ...(includeResults ? { result } : {}),
+        }
+      } catch (err: any) {
+        const message = err?.message || String(err)
+        console.warn("[jobfit/batch] job failed:", { index: job.index, message })
+        return {
+          ...base,
+          ok: false,
+          decision: null,
+          score: null,
+          fingerprint_code,
+          reused: false,
+          jobfit_run_id: null,
+          application_id: null,
+          error: message,
+        }
+      }
+    }
+
+    // Score each fingerprint once; later copies report the first copy's
+    // run and application as reused.
+    const firstByHash = new Map<string, FingerprintedJob>()
+    for (const job of fingerprinted) {
+      if (!firstByHash.has(job.fingerprint_hash)) firstByHash.set(job.fingerprint_hash, job)
+    }
+    const unique = [...firstByHash.values()]
+    const uniqueResults = await mapWithConcurrency(unique, concurrency, scoreOne)
+    const resultByHash = new Map(unique.map((job, i) => [job.fingerprint_hash, uniqueResults[i]]))
+    const scored = fingerprinted.map((job): BatchJobResult => {
+      const result = resultByHash.get(job.fingerprint_hash)!
+      if (result.index === job.index) return result
+      return {
+        ...result,
+        index: job.index,
+        job_title: job.jobTitle,
+        company_name: job.companyName,
+        job_url: job.jobUrl,
+        reused: result.ok,
+      }
+    })
+    const ranked = rankResults([...scored, ...invalid])
+
+    return withCorsJson(req, {
+      ok: true,
+      jobfit_logic_version: JOBFIT_LOGIC_VERSION,
+      policy_version: assembled.policy.policyVersion,
+      persona_id: personaId,
+      summary: {
+        total: ranked.length,
+        scored: ranked.filter((r) => r.ok).length,
+        reused: ranked.filter((r) => r.reused).length,
+        failed: ranked.filter((r) => !r.ok).length,
+      },
+      results: ranked,
+    })
+  } catch (err: any) {
+    if (process.env.NODE_ENV !== "production") {
+      console.error("[jobfit/batch] POST error:", err)
+    }
+    const detail = err?.message || String(err)
+    const status = String(detail).toLowerCase().includes("unauthorized") ? 401 : 500
+    return withCorsJson(req, { error: "JobFit batch failed", detail }, status)
+  }
+}
@@ -1,5 +1,5 @@
 // FILE: app/api/jobfit/bulletGenerator.ts
-import OpenAI from "openai"
+import { llmRequestOptions, openaiClient } from "../_lib/llmClient"
 import { BANNED_PHRASES, validateBullets } from "./bulletValidator"
 
 type BulletOutput = {
@@ -152,7 +152,7 @@ export async function generateJobfitBullets(
   attempts: number
   last_violations: string[]
 }> {
-  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  const client = openaiClient()
 
   const model = opts.model || process.env.JOBFIT_BULLET_MODEL || "gpt-4.1-mini"
   const temperature = typeof opts.temperature === "number" ? opts.temperature : 0.2
@@ -186,7 +186,7 @@ export async function generateJobfitBullets(
           { role: "user", content: userPrompt },
         ],
         response_format: { type: "json_object" } as any,
-      })
+      }, llmRequestOptions("jobfit.bullets_v4"))
 
       const text = resp.choices?.[0]?.message?.content || ""
       const parsed = safeJsonParse<BulletOutput>(text)
@@ -10,6 +10,8 @@
  */
 
 import type { EvalOutput } from "./signals"
+import { describeEmployerType } from "./employerType"
+import { llmFetch } from "../_lib/llmClient"
 
 // ─── Output types ─────────────────────────────────────────────────────────────
 
@@ -73,6 +75,14 @@ function buildPrompt(out: EvalOutput): string {
     String((out as any).job_text || (out as any).jobText || "").trim() ||
     "(job description not provided)"
 
+  // Employer type comes from the posting's language (agency vs in-house,
+  // startup vs enterprise, sector). Omitted entirely when nothing was
+  // detected so the model does not guess.
+  const employerLines = describeEmployerType(out.job_signals?.employerType)
+  const employerSection = employerLines.length
+    ? `## EMPLOYER CONTEXT (detected from the job description)\n${employerLines.join("\n")}\n\n`
+    : ""
+
   return `You are a career coach generating JobFit analysis bullets for SIGNAL, a career decision engine for college students.
 
 ## STUDENT PROFILE
@@ -81,14 +91,14 @@ ${profileText}
 ## JOB DESCRIPTION
 ${jobText}
 
-## WHY MATCH CODES (evidence of fit)
+${employerSection}## WHY MATCH CODES (evidence of fit)
 ${JSON.stringify(out.why_codes ?? [], null, 2)}
 
 ## RISK CODES (gaps or concerns)
 ${JSON.stringify(out.risk_codes ?? [], null, 2)}
 
 ## DECISION
-${out.decision} (score: ${out.score})
+${out.decision} (score: ${out.score ?? "n/a"})
 
 ---
 
@@ -125,6 +135,10 @@ ${out.decision} (score: ${out.score})
 - TOOL RISKS: gap = one sentence. reframe = one sentence naming adjacent evidence + one action. No quoted language.
 - ALL OTHER RISKS: gap = one sentence. reframe = two sentences max. No quoted language.
 
+### On employer context
+- If EMPLOYER CONTEXT is given, use it to frame at most one bullet where it changes the advice: agency work means multiple clients and fast turnarounds; in-house means depth on one brand or product; a startup means broad scope and ambiguity; a large company means process, scale and structured training; public sector means a formal application process; a nonprofit means the mission matters in how you pitch yourself.
+- Never state employer facts beyond EMPLOYER CONTEXT and the job description. If EMPLOYER CONTEXT is absent, do not speculate about the employer type.
+
 ### On voice and tone
 - Write like a sharp advisor talking directly to the student, not like a bot generating output.
 - Vary your sentence structure across bullets — don't start every lead the same way.
@@ -187,7 +201,7 @@ export async function generateBulletsV5(out: EvalOutput): Promise<V5Output> {
   // without making an apply case for a role the student shouldn't pursue
   const isPass = String(out.decision).toLowerCase() === "pass"
 
-  const apiResponse = await fetch("https://api.anthropic.com/v1/messages", {
+  const apiResponse = await llmFetch("jobfit.bullets_v5", "https://api.anthropic.com/v1/messages", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -1,30 +1,16 @@
 // FILE: app/api/jobfit/constraints.ts
 
 import type { GateTriggered, StructuredJobSignals, StructuredProfileSignals } from "./signals"
-
-function normCity(s: string): string {
-  return (s || "")
-    .toLowerCase()
-    .replace(/\./g, "")
-    .replace(/\s+/g, " ")
-    .trim()
-}
-
-function cityMatches(jobCity: string, allowed: string[]): boolean {
-  const j = normCity(jobCity)
-  const prefs = allowed.map(normCity).filter(Boolean)
-
-  // basic normalization helpers
-  const mapAlias = (x: string) => {
-    if (x === "nyc" || x.includes("new york")) return "new york"
-    if (x.includes("washington") && (x.includes("dc") || x.includes("d c"))) return "washington dc"
-    return x
-  }
-
-  const jj = mapAlias(j)
-  const pp = prefs.map(mapAlias)
-
-  return pp.includes(jj)
+import { workAuthConflict } from "./workAuth"
+import { gpaIssue } from "./gpa"
+import { workConditionConflicts, type WorkConditionKind } from "./workConditions"
+import { locationsMatch, remoteRegionConflict } from "./location"
+
+const WORK_CONDITION_GATES: Record<WorkConditionKind, string> = {
+  travel: "GATE_TRAVEL_LIMIT",
+  schedule: "GATE_SCHEDULE_CONFLICT",
+  relocation: "GATE_RELOCATION_REQUIRED",
+  physical: "GATE_PHYSICAL_DEMANDS",
 }
 
 /**
@@ -54,6 +40,11 @@ const BUSINESS_FAMILIES = new Set([
   "HR",
   "Government",
   "PreMed",
+  "Education",
+  "Nonprofit",
+  "Media",
+  "RealEstate",
+  "SupplyChain",
   "Other",
 ])
 
@@ -73,6 +64,14 @@ export function evaluateGates(job: StructuredJobSignals, profile: StructuredProf
     }
   }
 
+  // Work authorization: "will not sponsor" vs a student who needs a visa,
+  // or a citizens-only / cleared role vs a non-citizen. Employers screen
+  // these out automatically, so no amount of fit changes the outcome.
+  const workAuth = workAuthConflict(job.workAuth, profile.constraints.workAuthStatus)
+  if (workAuth && workAuth.level === "block") {
+    return { type: "force_pass", gateCode: "GATE_WORK_AUTH", detail: workAuth.detail }
+  }
+
   if (job.mbaRequired) {
     const detail = profile.degreeStatus === "in_progress"
       ? "This role requires an MBA. Based on your profile, you are currently pursuing an undergraduate degree. This is a hard requirement that cannot be overcome through other qualifications."
@@ -174,6 +173,14 @@ if (job.credentialRequired) {
     } // end !isTrainingProgram
   } // end credentialRequired
 
+  // GPA below a REQUIRED minimum is an automated screen — same rule as the
+  // V1 engine's FLAG_GPA_REQUIRED_BELOW_MIN. A missing GPA or a preferred
+  // minimum is handled as a risk in scoring, not here.
+  const gpa = gpaIssue(job.gpa, profile)
+  if (gpa && gpa.blocking) {
+    return { type: "force_pass", gateCode: "GATE_GPA_BELOW_MIN", detail: gpa.detail }
+  }
+
   // Hard seniority gate — when yearsRequired is 5+ and candidate has <= 2 years,
   // the gap is structurally disqualifying regardless of keyword match.
   // This prevents misleadingly high scores on roles the candidate cannot get.
@@ -213,6 +220,19 @@ if (job.credentialRequired) {
     }
   }
 
+  // Travel / schedule / relocation / physical hard nos. Only clear
+  // conflicts stop here; borderline ones are scored as risks.
+  const blockingCondition = workConditionConflicts(job.workConditions, profile.constraints).find(
+    (c) => c.level === "block"
+  )
+  if (blockingCondition) {
+    return {
+      type: "force_pass",
+      gateCode: WORK_CONDITION_GATES[blockingCondition.kind],
+      detail: `${blockingCondition.jobFact} ${blockingCondition.profileFact}`,
+    }
+  }
+
   // If the candidate explicitly says "no heavy analytics", treat heavy analytics as a hard stop.
   // With your updated extract.ts, "Marketing Insights" style roles will now correctly trip this.
  
@@ -228,20 +248,31 @@ if (job.credentialRequired) {
   // ---------------- Soft overrides (Apply -> Review) ----------------
 
   // Location mismatch when constrained:
-  // Prefer city mismatch when we have explicit city prefs + job city.
-  // Fall back to mode mismatch only when city info is missing.
+  // Prefer city mismatch when we have explicit city prefs + job cities.
+  // A remote role's city is usually HQ, so for remote we check its
+  // eligibility regions instead. Fall back to mode mismatch only when
+  // neither tells us anything.
   const profileConstrained = Boolean(profile.locationPreference.constrained)
   const jobConstrained = Boolean(job.location.constrained)
 
   if (profileConstrained && jobConstrained) {
-    const jobCity = job.location.city
+    const jobCities = job.location.cities?.length ? job.location.cities : [job.location.city]
     const allowedCities = profile.locationPreference.allowedCities
 
     const hasCityPrefs = Array.isArray(allowedCities) && allowedCities.length > 0
-    const jobCityKnown = typeof jobCity === "string" && jobCity.trim().length > 0
+    const jobCityKnown = jobCities.some((c) => typeof c === "string" && c.trim().length > 0)
+    const isRemote = job.location.mode === "remote"
 
-    if (hasCityPrefs && jobCityKnown) {
-      if (!cityMatches(jobCity!, allowedCities!)) {
+    if (hasCityPrefs && isRemote && job.location.remoteRegions?.length) {
+      if (remoteRegionConflict(job.location, allowedCities)) {
+        return {
+          type: "floor_review",
+          gateCode: "GATE_FLOOR_REVIEW_LOCATION",
+          detail: "Remote region mismatch (constrained)",
+        }
+      }
+    } else if (hasCityPrefs && jobCityKnown && !isRemote) {
+      if (!locationsMatch(jobCities, allowedCities!)) {
         return {
           type: "floor_review",
           gateCode: "GATE_FLOOR_REVIEW_LOCATION",
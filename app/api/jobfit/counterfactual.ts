@@ -0,0 +1,348 @@
+// FILE: app/api/jobfit/counterfactual.ts
+//
+// "What would flip this decision?" explainer.
+//
+// Students who get Review or Pass always ask what would make it an Apply.
+// This module answers deterministically: it takes a finished EvalOutput
+// (plus the job/profile signals it was scored from), builds a list of
+// levers — each penalty key removed, each risk-only code cleared, each
+// missing tool added, the job's field added to target families — and
+// reruns evaluateGates → scoreJobFit → resolveDecisionChain with those
+// levers applied. It reports the smallest set of levers that moves the
+// decision up at least one band, e.g. "add SQL proof → Apply (+9)".
+//
+// force_pass gates are structural: no lever in this module can argue a
+// candidate into an MBA, a license, or a graduation year. When one fired,
+// the report says so and skips the search. floor_review gates are listed
+// as structural ceilings but the search still runs below them.
+//
+// Pure and synchronous. No I/O, no LLM. Scores under the active POLICY,
+// so a caller serving a cohort wraps it in runWithPolicy.
+
+import { evaluateGates } from "./constraints"
+import { DECISION_RANK, RANK_TO_DECISION, resolveDecisionChain } from "./decision"
+import { familyDisplayName } from "./deterministicBulletRendererV4"
+import { POLICY } from "./policy"
+import { scoreJobFit } from "./scoring"
+import type {
+  Decision,
+  EvalOutput,
+  ResultDecision,
+  GateTriggered,
+  ProfileEvidenceUnit,
+  StructuredJobSignals,
+  StructuredProfileSignals,
+} from "./signals"
+
+export type CounterfactualLeverKind = "penalty" | "risk" | "tool" | "family"
+
+export type CounterfactualLever = {
+  id: string
+  kind: CounterfactualLeverKind
+  label: string
+  detail: string
+}
+
+export type CounterfactualOutcome = {
+  levers: string[]
+  labels: string[]
+  decision: Decision
+  score: number
+  score_delta: number
+  summary: string
+}
+
+export type CounterfactualReport = {
+  baseline: { decision: ResultDecision; score: number }
+  target: Decision | null
+  structural: Array<{ type: GateTriggered["type"]; gateCode: string; detail: string; fixable: false }>
+  levers: CounterfactualLever[]
+  flips: CounterfactualOutcome[]
+  single_changes: CounterfactualOutcome[]
+  evaluations: number
+  note: string
+}
+
+// Combinations are searched breadth-first (1, then 2, then 3 levers).
+// Three is already more change than a student can make before applying;
+// the evaluation budget keeps a lever-heavy posting from fanning out.
+const MAX_SET_SIZE = 3
+const MAX_EVALUATIONS = 250
+const MAX_FLIPS_REPORTED = 5
+
+// Risk codes that are not real levers on their own. Family mismatch is
+// carried by the base score, not by the risk row, so clearing the code
+// changes nothing — the "family" lever models it properly instead.
+const NON_LEVER_RISK_CODES = new Set(["RISK_FAMILY_MISMATCH"])
+
+type AppliedLevers = {
+  excludePenaltyKeys: string[]
+  excludeRiskCodes: string[]
+  addTools: string[]
+  addFamily: boolean
+}
+
+function toolDisplayName(tool: string): string {
+  return String(tool || "")
+    .split(/\s+/)
+    .map((w) => (w.length <= 3 ? w.toUpperCase() : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join(" ")
+}
+
+function penaltyLabel(key: string): string {
+  const policy = (POLICY.penalties as Record<string, { label: string } | undefined>)[key]
+  return policy?.label || key.replace(/_/g, " ")
+}
+
+function buildLevers(
+  job: StructuredJobSignals,
+  profile: StructuredProfileSignals,
+  scored: ReturnType<typeof scoreJobFit>
+): CounterfactualLever[] {
+  const levers: CounterfactualLever[] = []
+
+  const penaltyRiskCodes = new Set<string>()
+  const seenKeys = new Set<string>()
+  for (const p of scored.penalties) {
+    penaltyRiskCodes.add(p.risk.code)
+    const key = String(p.key)
+    if (seenKeys.has(key)) continue
+    seenKeys.add(key)
+    levers.push({
+      id: `penalty:${key}`,
+      kind: "penalty",
+      label: `resolve ${penaltyLabel(key).toLowerCase()}`,
+      detail: p.note,
+    })
+  }
+
+  const seenRisks = new Set<string>()
+  for (const r of scored.riskCodes) {
+    if (penaltyRiskCodes.has(r.code)) continue
+    if (NON_LEVER_RISK_CODES.has(r.code)) continue
+    if (seenRisks.has(r.code)) continue
+    seenRisks.add(r.code)
+    levers.push({
+      id: `risk:${r.code}`,
+      kind: "risk",
+      label: `clear ${r.code.replace(/^RISK_/, "").replace(/_/g, " ").toLowerCase()} risk`,
+      detail: r.risk,
+    })
+  }
+
+  const profileTools = new Set((profile.tools || []).map((t) => String(t).toLowerCase()))
+  const jobTools = Array.from(
+    new Set([...(job.requiredTools || []), ...(job.preferredTools || [])].map((t) => String(t).toLowerCase()))
+  )
+  for (const tool of jobTools) {
+    if (profileTools.has(tool)) continue
+    levers.push({
+      id: `tool:${tool}`,
+      kind: "tool",
+      label: `add ${toolDisplayName(tool)} proof`,
+      detail: (job.requiredTools || []).map((t) => t.toLowerCase()).includes(tool)
+        ? `Posting lists ${tool} as required.`
+        : `Posting lists ${tool} as preferred.`,
+    })
+  }
+
+  if (profile.targetFamilies.length > 0 && !profile.targetFamilies.includes(job.jobFamily)) {
+    levers.push({
+      id: "family",
+      kind: "family",
+      label: `target ${familyDisplayName(job.jobFamily)} roles`,
+      detail: `Job is in ${familyDisplayName(job.jobFamily)}; profile targets ${profile.targetFamilies.map(familyDisplayName).join(", ")}.`,
+    })
+  }
+
+  return levers
+}
+
+function applyLevers(levers: CounterfactualLever[]): AppliedLevers {
+  const out: AppliedLevers = { excludePenaltyKeys: [], excludeRiskCodes: [], addTools: [], addFamily: false }
+  for (const l of levers) {
+    const value = l.id.slice(l.id.indexOf(":") + 1)
+    if (l.kind === "penalty") out.excludePenaltyKeys.push(value)
+    else if (l.kind === "risk") out.excludeRiskCodes.push(value)
+    else if (l.kind === "tool") out.addTools.push(value)
+    else if (l.kind === "family") out.addFamily = true
+  }
+  return out
+}
+
+// A hypothetical tool is added both to the tool list (tool penalties) and
+// as a narrative evidence unit (tool WHY matches). The snippet is written
+// as an accomplishment, not a skills row, so the skills-list weight cap
+// does not apply — the lever means "show real proof", not "list it".
+function profileWithLevers(
+  profile: StructuredProfileSignals,
+  job: StructuredJobSignals,
+  applied: AppliedLevers
+): StructuredProfileSignals {
+  if (applied.addTools.length === 0 && !applied.addFamily) return profile
+
+  const addedUnits: ProfileEvidenceUnit[] = applied.addTools.map((tool) => ({
+    id: `counterfactual|tool|${tool}`,
+    kind: "tool",
+    key: tool,
+    label: `${tool} tool usage`,
+    snippet: `Used ${tool} to deliver recurring analysis for a team project`,
+    source: "resume",
+    strength: 7,
+  }))
+
+  return {
+    ...profile,
+    tools: Array.from(new Set([...(profile.tools || []), ...applied.addTools])),
+    profile_evidence_units: [...(profile.profile_evidence_units || []), ...addedUnits],
+    targetFamilies: applied.addFamily
+      ? Array.from(new Set([...profile.targetFamilies, job.jobFamily]))
+      : profile.targetFamilies,
+  }
+}
+
+function evaluate(
+  job: StructuredJobSignals,
+  profile: StructuredProfileSignals,
+  applied: AppliedLevers
+): { decision: Decision; score: number; gate: GateTriggered; insufficientDetail: boolean } {
+  const p = profileWithLevers(profile, job, applied)
+  const gate = evaluateGates(job, p)
+  const scored = scoreJobFit(job, p, {
+    excludePenaltyKeys: applied.excludePenaltyKeys,
+    excludeRiskCodes: applied.excludeRiskCodes,
+  })
+  const chain = resolveDecisionChain({
+    score: scored.score,
+    penaltySum: scored.penaltySum,
+    whyCodes: scored.whyCodes,
+    riskCodes: scored.riskCodes,
+    gate,
+    lowSignal: job.extractionConfidence?.level === "low",
+  })
+  return { decision: chain.afterGuardrail, score: chain.score, gate, insufficientDetail: chain.insufficientDetail }
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]]
+  const out: T[][] = []
+  items.forEach((item, i) => {
+    for (const rest of combinations(items.slice(i + 1), size - 1)) out.push([item, ...rest])
+  })
+  return out
+}
+
+function toOutcome(
+  set: CounterfactualLever[],
+  result: { decision: Decision; score: number },
+  baselineScore: number
+): CounterfactualOutcome {
+  const delta = result.score - baselineScore
+  const labels = set.map((l) => l.label)
+  return {
+    levers: set.map((l) => l.id),
+    labels,
+    decision: result.decision,
+    score: result.score,
+    score_delta: delta,
+    summary: `${labels.join(" + ")} → ${result.decision} (${delta >= 0 ? "+" : ""}${delta})`,
+  }
+}
+
+export function explainCounterfactuals(
+  evalOutput: EvalOutput,
+  signals?: { job?: StructuredJobSignals; profile?: StructuredProfileSignals }
+): CounterfactualReport {
+  const job = signals?.job ?? evalOutput.job_signals
+  const profile = signals?.profile ?? evalOutput.profile_signals
+  if (!job || !profile) {
+    throw new Error("explainCounterfactuals: job_signals and profile_signals are required")
+  }
+
+  // Recompute the baseline from signals rather than trusting the stored
+  // score — cached results may predate a scoring change, and every
+  // counterfactual delta must be measured against the same engine.
+  const baseGate = evaluateGates(job, profile)
+  const baseScored = scoreJobFit(job, profile)
+  const baseChain = resolveDecisionChain({
+    score: baseScored.score,
+    penaltySum: baseScored.penaltySum,
+    whyCodes: baseScored.whyCodes,
+    riskCodes: baseScored.riskCodes,
+    gate: baseGate,
+    // Optional chaining: cached signals may predate extraction confidence.
+    lowSignal: job.extractionConfidence?.level === "low",
+  })
+  const baseline = { decision: baseChain.final, score: baseChain.score }
+
+  const structural: CounterfactualReport["structural"] =
+    baseGate.type === "none"
+      ? []
+      : [{ type: baseGate.type, gateCode: baseGate.gateCode, detail: baseGate.detail, fixable: false }]
+
+  // A thin posting has no band to climb from, so it has no target either.
+  const baseRank = DECISION_RANK[baseChain.afterGuardrail]
+  const target = !baseChain.insufficientDetail && baseRank < RANK_TO_DECISION.length - 1
+    ? RANK_TO_DECISION[baseRank + 1]
+    : null
+  const levers = buildLevers(job, profile, baseScored)
+
+  const report: CounterfactualReport = {
+    baseline,
+    target,
+    structural,
+    levers,
+    flips: [],
+    single_changes: [],
+    evaluations: 0,
+    note: "",
+  }
+
+  if (baseChain.insufficientDetail) {
+    report.note = "The posting is too thin to judge. No profile change moves it until the full job description is provided."
+    return report
+  }
+  if (target === null) {
+    report.note = "Already in the top band — nothing to flip."
+    return report
+  }
+  if (baseGate.type === "force_pass") {
+    report.note = `Blocked by a structural gate (${baseGate.gateCode}). No profile change in scope can lift this above Pass.`
+    return report
+  }
+  if (levers.length === 0) {
+    report.note = "No penalties, risks, or missing tools to change."
+    return report
+  }
+
+  const targetRank = DECISION_RANK[target]
+  for (let size = 1; size <= Math.min(MAX_SET_SIZE, levers.length); size++) {
+    for (const set of combinations(levers, size)) {
+      if (report.evaluations >= MAX_EVALUATIONS) break
+      const result = evaluate(job, profile, applyLevers(set))
+      report.evaluations += 1
+      // A thin posting can still Pass on a concrete risk. Removing that
+      // risk leaves nothing to judge, which is not a move up.
+      if (result.insufficientDetail) continue
+      const outcome = toOutcome(set, result, baseline.score)
+      if (size === 1) report.single_changes.push(outcome)
+      if (DECISION_RANK[result.decision] >= targetRank) report.flips.push(outcome)
+    }
+    // Smallest set wins: stop as soon as any set of this size flips.
+    if (report.flips.length > 0 || report.evaluations >= MAX_EVALUATIONS) break
+  }
+
+  report.flips.sort(
+    (a, b) => DECISION_RANK[b.decision] - DECISION_RANK[a.decision] || b.score_delta - a.score_delta
+  )
+  report.flips = report.flips.slice(0, MAX_FLIPS_REPORTED)
+  report.single_changes.sort((a, b) => b.score_delta - a.score_delta)
+
+  report.note = report.flips.length > 0
+    ? `Smallest change set: ${report.flips[0].levers.length} lever${report.flips[0].levers.length === 1 ? "" : "s"}.`
+    : report.evaluations >= MAX_EVALUATIONS
+      ? `No flip found within ${MAX_EVALUATIONS} evaluations.`
+      : `No combination of up to ${MAX_SET_SIZE} changes reaches ${target}.`
+
+  return report
+}
@@ -0,0 +1,82 @@
+// FILE: app/api/jobfit/counterfactual/route.ts
+//
+// POST /api/jobfit/counterfactual — "what would flip this decision?"
+//
+// Body: { jobfit_run_id: string }  (loads the caller's stored run)
+//   OR  { result_json: object }    (a JobFit result the client already has)
+//
+// Either way the result must carry job_signals + profile_signals — every
+// /api/jobfit response does. The search runs under the caller's cohort
+// policy, the same one /api/jobfit scores them with. The explainer itself
+// is pure; see ../counterfactual.ts for the lever model and search.
+
+import { type NextRequest } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+
+import { getAuthedProfileText } from "../../_lib/authProfile"
+import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { resolveJobFitPolicy } from "../../_lib/jobfitPolicies"
+import { explainCounterfactuals } from "../counterfactual"
+import { runWithPolicy } from "../policy"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !key) throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY")
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return corsOptionsResponse(req.headers.get("origin"))
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { profileId } = await getAuthedProfileText(req)
+
+    const body = await req.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return withCorsJson(req, { ok: false, error: "Invalid JSON body" }, 400)
+    }
+
+    let resultJson: any = body.result_json ?? null
+    const supabase = getSupabaseAdmin()
+
+    if (body.jobfit_run_id) {
+      const { data: run, error: runErr } = await supabase
+        .from("jobfit_runs")
+        .select("result_json, client_profile_id")
+        .eq("id", String(body.jobfit_run_id))
+        .maybeSingle()
+      if (runErr) throw new Error(`jobfit_runs lookup failed: ${runErr.message}`)
+      if (!run || run.client_profile_id !== profileId) {
+        return withCorsJson(req, { ok: false, error: "jobfit run not found" }, 404)
+      }
+      resultJson = run.result_json
+    }
+
+    if (!resultJson || typeof resultJson !== "object") {
+      return withCorsJson(req, { ok: false, error: "result_json or jobfit_run_id is required" }, 400)
+    }
+    if (!resultJson.job_signals || !resultJson.profile_signals) {
+      return withCorsJson(
+        req,
+        { ok: false, error: "result is missing job_signals/profile_signals — rerun JobFit first" },
+        422
+      )
+    }
+
+    const { policy } = await resolveJobFitPolicy({ supabase, profileId })
+    const report = runWithPolicy(policy, () => explainCounterfactuals(resultJson))
+    return withCorsJson(req, { ok: true, counterfactual: report })
+  } catch (err: any) {
+    const msg = err?.message || String(err)
+    const status = msg.toLowerCase().includes("unauthorized") ? 401 : 500
+    return withCorsJson(req, { ok: false, error: msg }, status)
+  }
+}
@@ -25,6 +25,7 @@
 
 import { createClient } from "@supabase/supabase-js"
 import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { llmFetch } from "../../_lib/llmClient"
 
 export const runtime = "nodejs"
 export const maxDuration = 60
@@ -72,6 +73,7 @@ Score: ${score}
 Gate triggered: ${gate ?? "none"}
 Job family: ${jobSignals.jobFamily ?? "unknown"}
 Finance subfamily: ${jobSignals.financeSubFamily ?? "n/a"}
+Engineering subfamily: ${jobSignals.engineeringSubFamily ?? "n/a"}
 Years required: ${jobSignals.yearsRequired ?? "not specified"}
 Is senior role: ${jobSignals.isSeniorRole ?? false}
 
@@ -201,7 +203,7 @@ export async function POST(req: Request) {
     const prompt = buildReviewPrompt(profileText, jobText, resultJson)
     const t0 = Date.now()
 
-    const apiResponse = await fetch("https://api.anthropic.com/v1/messages", {
+    const apiResponse = await llmFetch("jobfit.debug_review", "https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -1,4 +1,5 @@
-import type { Decision, GateTriggered, RiskCode, WhyCode } from "./signals"
+import { INSUFFICIENT_DETAIL } from "./signals"
+import type { Decision, GateTriggered, ResultDecision, RiskCode, WhyCode } from "./signals"
 import { POLICY } from "./policy"
 
 // Priority Apply threshold raised from 92 → 96.
@@ -51,13 +52,13 @@ export function applyRiskDowngrades(
 }
 
 // Rank decisions so we can take a min()-style cap.
-const DECISION_RANK: Record<Decision, number> = {
+export const DECISION_RANK: Record<Decision, number> = {
   "Priority Apply": 3,
   "Apply": 2,
   "Review": 1,
   "Pass": 0,
 }
-const RANK_TO_DECISION: Decision[] = ["Pass", "Review", "Apply", "Priority Apply"]
+export const RANK_TO_DECISION: Decision[] = ["Pass", "Review", "Apply", "Priority Apply"]
 function capDecision(current: Decision, ceiling: Decision): Decision {
   return DECISION_RANK[current] > DECISION_RANK[ceiling]
     ? RANK_TO_DECISION[DECISION_RANK[ceiling]]
@@ -190,4 +191,77 @@ export function capScoreForDecision(score: number, decision: Decision): number {
     case "Priority Apply":
       return score
   }
-}
\ No newline at end of file
+}
+
+export type DecisionChainResult = {
+  initial: Decision
+  afterGate: Decision
+  afterRisk: Decision
+  afterGuardrail: Decision
+  final: ResultDecision
+  guardrailReason: string | null
+  score: number
+  // True when the posting was too thin to judge (see
+  // extractionConfidence.ts). final is INSUFFICIENT_DETAIL then, and
+  // runJobFit returns a null score instead of this one.
+  insufficientDetail: boolean
+}
+
+// Risks that only say the posting gave the matcher little to work with.
+// On a thin posting they are symptoms of the thinness, not a finding about
+// the candidate, so they cannot carry a Pass on their own.
+const THIN_POSTING_RISKS = new Set(["RISK_LIMITED_MATCH_EVIDENCE", "RISK_MISSING_PROOF"])
+
+// A Pass that a concrete penalty or risk explains — family mismatch, a
+// hard-no constraint — still holds on a thin posting. A Pass that only
+// the evidence guardrails produced comes from the missing detail itself.
+function passHasCause(afterRisk: Decision, penaltySum: number, riskCodes: RiskCode[]): boolean {
+  if (afterRisk !== "Pass") return false
+  return penaltySum > 0 || riskCodes.some((r) => r.severity !== "low" && !THIN_POSTING_RISKS.has(r.code))
+}
+
+// The full score → decision chain in one place: band from score, gate
+// override, risk downgrade, evidence guardrails, then the displayed score.
+// runJobFit and the counterfactual explainer both go through here so a
+// "what would flip this" answer can never disagree with the real engine.
+export function resolveDecisionChain(args: {
+  score: number
+  penaltySum: number
+  whyCodes: WhyCode[]
+  riskCodes: RiskCode[]
+  gate: GateTriggered
+  // Extraction confidence came back low. Gates still apply — a work-auth
+  // or credential screen is a fact even on a two-line posting — and so
+  // does a Pass with a concrete cause. Any other band is replaced by the
+  // insufficient-detail result.
+  lowSignal?: boolean
+}): DecisionChainResult {
+  const initial = decisionFromScore(args.score)
+  const afterGate = applyGateOverrides(initial, args.gate)
+  const afterRisk = applyRiskDowngrades(afterGate, args.penaltySum, args.riskCodes)
+  const guardrail = applyEvidenceGuardrails(afterRisk, args.whyCodes, args.riskCodes)
+  const insufficientDetail =
+    Boolean(args.lowSignal) &&
+    args.gate.type !== "force_pass" &&
+    !passHasCause(afterRisk, args.penaltySum, args.riskCodes)
+  const afterGuardrail = guardrail.decision
+  const final: ResultDecision = insufficientDetail ? INSUFFICIENT_DETAIL : afterGuardrail
+
+  // When a hard gate fires, the raw score is misleading — a candidate who
+  // cannot get an interview should never see a 60+ score. Cap gate scores
+  // at 25 so the number clearly matches the Pass decision.
+  const score = args.gate.type === "force_pass"
+    ? Math.min(args.score, 25)
+    : capScoreForDecision(args.score, afterGuardrail)
+
+  return {
+    initial,
+    afterGate,
+    afterRisk,
+    afterGuardrail,
+    final,
+    guardrailReason: guardrail.reason,
+    score,
+    insufficientDetail,
+  }
+}
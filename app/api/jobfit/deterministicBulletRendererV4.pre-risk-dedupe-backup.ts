@@ -4,6 +4,7 @@
 // It should not rescue weak upstream evidence.
 // It should render matched proof cleanly.
 
+import { INSUFFICIENT_DETAIL } from "./signals"
 import type {
   EvalOutput,
   Decision,
@@ -246,7 +247,7 @@ export function renderBulletsV4(out: EvalOutput): {
   risk: string[]
   renderer_debug: any
 } {
-  const { whyMax, riskMax } = capsForDecision(out.decision)
+  const { whyMax, riskMax } = capsForDecision(out.decision === INSUFFICIENT_DETAIL ? "Review" : out.decision)
 
   const whyCodesIn = Array.isArray(out.why_codes) ? out.why_codes.slice() : []
   const riskCodesIn = Array.isArray(out.risk_codes) ? out.risk_codes.slice() : []
@@ -1,3 +1,4 @@
+import { INSUFFICIENT_DETAIL } from "./signals"
 import type {
   EvalOutput,
   Decision,
@@ -27,6 +28,11 @@ const FAMILY_DISPLAY: Record<string, string> = {
   legal: "Legal",
   government: "Government / Public Sector",
   trades: "Skilled Trades",
+  education: "Education / Teaching",
+  nonprofit: "Nonprofit / Social Impact",
+  media: "Media / Entertainment",
+  realestate: "Real Estate",
+  supplychain: "Supply Chain / Logistics",
   other: "General / Cross-Functional",
 }
 
@@ -888,7 +894,10 @@ export function renderBulletsV4(out: EvalOutput): {
   risk: string[]
   renderer_debug: any
 } {
-  const { whyMax, riskMax } = capsForDecision(out.decision)
+  // A posting too thin to judge renders with the Review caps and wording:
+  // show what little matched and every risk, without a band's verdict.
+  const decision: Decision = out.decision === INSUFFICIENT_DETAIL ? "Review" : out.decision
+  const { whyMax, riskMax } = capsForDecision(decision)
 
   const whyCodesIn = Array.isArray(out.why_codes) ? out.why_codes.slice() : []
   const riskCodesIn = Array.isArray(out.risk_codes) ? out.risk_codes.slice() : []
@@ -993,7 +1002,7 @@ export function renderBulletsV4(out: EvalOutput): {
   }
 
   const whyMin =
-    out.decision === "Priority Apply" || out.decision === "Apply" ? 4 : 2
+    decision === "Priority Apply" || decision === "Apply" ? 4 : 2
 
   if (why.length < whyMin) {
     for (const item of deferredWhy) {
@@ -1014,9 +1023,9 @@ export function renderBulletsV4(out: EvalOutput): {
   }
 
   const requiredWhyCount =
-    out.decision === "Priority Apply" ? 3 :
-    out.decision === "Apply" ? 3 :
-    out.decision === "Review" ? 2 :
+    decision === "Priority Apply" ? 3 :
+    decision === "Apply" ? 3 :
+    decision === "Review" ? 2 :
     1
 
   if (why.length < requiredWhyCount) {
@@ -1039,7 +1048,7 @@ export function renderBulletsV4(out: EvalOutput): {
       if (risk.length >= riskMax) break
 
       const group = riskGroup(r.code)
-      const rendered = renderRiskBullet(r, out.decision)
+      const rendered = renderRiskBullet(r, decision)
       const renderedKey = norm(rendered || "")
       const jobFactKey = norm(capabilityPhrase(r.job_fact || "")).slice(0, 180)
       const profileFactKey = norm(cleanProfileFact(r.profile_fact || "")).slice(0, 180)
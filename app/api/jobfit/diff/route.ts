@@ -0,0 +1,194 @@
+// FILE: app/api/jobfit/diff/route.ts
+//
+// POST /api/jobfit/diff — explain why a JobFit score changed.
+//
+// Body: { base_run_id: string, compare_run_id: string }
+//         two of the caller's stored runs, oldest-to-newest is up to the
+//         client (the diff reads base → compare)
+//   OR  { base_run_id: string, fresh: true, persona_id?: string }
+//         the stored run vs. the same posting scored against the caller's
+//         CURRENT profile/persona (persona defaults to the base run's).
+//
+// The fresh side reuses a cached run when the fingerprint already exists,
+// otherwise runs the pipeline without persisting — the diff is a question,
+// not a new application. The caller can POST /api/jobfit to keep it.
+//
+// The diff itself is pure; see ../runDiff.ts.
+
+import { type NextRequest } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+
+import { getAuthedProfileText } from "../../_lib/authProfile"
+import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import {
+  assembleProfileForScoring,
+  computeJobFitFingerprint,
+  runJobFitForProfile,
+} from "../../_lib/runJobFitForProfile"
+import { enforceClientFacingRules } from "../enforceClientFacingRules"
+import { diffJobFitResults } from "../runDiff"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+type StoredRun = {
+  id: string
+  client_profile_id: string
+  persona_id: string | null
+  fingerprint_code: string | null
+  job_description: string | null
+  result_json: any
+  created_at: string | null
+}
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !key) throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY")
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+async function loadRun(
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  runId: string,
+  profileId: string
+): Promise<StoredRun | null> {
+  const { data, error } = await supabase
+    .from("jobfit_runs")
+    .select("id, client_profile_id, persona_id, fingerprint_code, job_description, result_json, created_at")
+    .eq("id", runId)
+    .maybeSingle()
+  if (error) throw new Error(`jobfit_runs lookup failed: ${error.message}`)
+  if (!data || data.client_profile_id !== profileId) return null
+  return data as StoredRun
+}
+
+function runMeta(run: StoredRun | null, result: any, extra?: Record<string, unknown>) {
+  return {
+    jobfit_run_id: run?.id ?? null,
+    created_at: run?.created_at ?? null,
+    persona_id: run?.persona_id ?? null,
+    fingerprint_code: run?.fingerprint_code ?? null,
+    decision: result?.decision ?? null,
+    score: result?.score ?? null,
+    ...extra,
+  }
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return corsOptionsResponse(req.headers.get("origin"))
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { profileId } = await getAuthedProfileText(req)
+
+    const body = await req.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return withCorsJson(req, { ok: false, error: "Invalid JSON body" }, 400)
+    }
+
+    const baseRunId = String(body.base_run_id || "").trim()
+    const compareRunId = String(body.compare_run_id || "").trim()
+    const fresh = body.fresh === true
+    if (!baseRunId || (!compareRunId && !fresh) || (compareRunId && fresh)) {
+      return withCorsJson(
+        req,
+        { ok: false, error: "base_run_id plus exactly one of compare_run_id or fresh: true is required" },
+        400
+      )
+    }
+
+    const supabase = getSupabaseAdmin()
+    const baseRun = await loadRun(supabase, baseRunId, profileId)
+    if (!baseRun?.result_json) {
+      return withCorsJson(req, { ok: false, error: "base run not found" }, 404)
+    }
+    const baseResult = baseRun.result_json
+
+    let compareRun: StoredRun | null = null
+    let compareResult: any
+    let compareMeta: Record<string, unknown>
+
+    if (compareRunId) {
+      compareRun = await loadRun(supabase, compareRunId, profileId)
+      if (!compareRun?.result_json) {
+        return withCorsJson(req, { ok: false, error: "compare run not found" }, 404)
+      }
+      compareResult = compareRun.result_json
+      compareMeta = runMeta(compareRun, compareResult, { source: "stored" })
+    } else {
+      const jobText = String(baseRun.job_description || "").trim()
+      if (!jobText) {
+        return withCorsJson(
+          req,
+          { ok: false, error: "base run predates stored job descriptions — rerun JobFit with the posting text" },
+          422
+        )
+      }
+
+      const personaId =
+        body.persona_id === undefined ? baseRun.persona_id : String(body.persona_id || "").trim() || null
+      const assembled = await assembleProfileForScoring({ clientProfileId: profileId, personaId, supabase })
+      if (!assembled.effectiveProfileText) {
+        return withCorsJson(req, { ok: false, error: "profile text is empty" }, 422)
+      }
+
+      const { fingerprint_hash, fingerprint_code } = computeJobFitFingerprint({
+        jobText,
+        clientProfileId: profileId,
+        effectiveProfileText: assembled.effectiveProfileText,
+        profileOverrides: assembled.profileOverrides,
+        policyVersion: assembled.policy.policyVersion,
+      })
+
+      const { data: cached } = await supabase
+        .from("jobfit_runs")
+        .select("id, client_profile_id, persona_id, fingerprint_code, job_description, result_json, created_at")
+        .eq("client_profile_id", profileId)
+        .eq("fingerprint_hash", fingerprint_hash)
+        .maybeSingle()
+
+      if (cached?.result_json) {
+        compareRun = cached as StoredRun
+        compareResult = enforceClientFacingRules(cached.result_json as any)
+        compareMeta = runMeta(compareRun, compareResult, { source: "cached" })
+      } else {
+        const jobSignals = baseResult?.job_signals || {}
+        compareResult = await runJobFitForProfile({
+          clientProfileId: profileId,
+          personaId,
+          jobText,
+          jobTitle: String(jobSignals.jobTitle || "").trim() || "Untitled role",
+          companyName: String(jobSignals.companyName || "").trim() || "Unknown company",
+          supabase,
+          preassembled: assembled,
+        })
+        compareMeta = runMeta(null, compareResult, { source: "fresh", persona_id: personaId, fingerprint_code })
+      }
+    }
+
+    if (!baseResult.job_signals || !baseResult.profile_signals || !compareResult?.job_signals || !compareResult?.profile_signals) {
+      return withCorsJson(
+        req,
+        { ok: false, error: "a run is missing job_signals/profile_signals — rerun JobFit first" },
+        422
+      )
+    }
+
+    const diff = diffJobFitResults(baseResult, compareResult)
+    return withCorsJson(req, {
+      ok: true,
+      base: runMeta(baseRun, baseResult, { source: "stored" }),
+      compare: compareMeta,
+      diff,
+      ...(fresh ? { result: compareResult } : {}),
+    })
+  } catch (err: any) {
+    const msg = err?.message || String(err)
+    const status = msg.toLowerCase().includes("unauthorized") ? 401 : 500
+    return withCorsJson(req, { ok: false, error: msg }, status)
+  }
+}
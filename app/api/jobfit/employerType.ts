@@ -0,0 +1,342 @@
+// FILE: app/api/jobfit/employerType.ts
+//
+// Employer type — agency vs in-house, startup vs enterprise, public sector
+// and nonprofit. Students weigh these as much as the title: a "Marketing
+// Coordinator" at an agency juggles five client accounts, the same title
+// in-house owns one brand.
+//
+// Job side: extractEmployerType reads the posting's own language. Agency
+// and in-house cues are weighed against each other ("our clients", "agency
+// of record" vs "in-house", "our brands") because both show up in the
+// same posting. Stage takes the most mature cue — a "Series C startup" is
+// growth stage — and ignores cues about who the company sells to
+// ("Fortune 500 clients"). Sector starts from extraction's isGovernment.
+//
+// Profile side: inferEmployerPreferences reads the intake header, clause
+// by clause. A clause with a negation rules a type out ("no agencies"); a
+// clause with a preference verb or under an "Employer type:" label asks
+// for it ("prefer in-house", "open to startups").
+//
+// employerTypeFit compares the two. A stated preference the posting meets
+// is a WHY, a type the candidate ruled out is a risk, and a preference the
+// posting clearly misses (wants in-house, posting is an agency) is a note.
+// None of it moves the score — hardNoGovernment keeps its own penalty.
+
+import type {
+  EmployerModel,
+  EmployerSector,
+  EmployerStage,
+  EmployerTypePreferences,
+  EmployerTypeTag,
+  StructuredEmployerType,
+} from "./signals"
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, text.lastIndexOf("\n", index) + 1)
+  const endNl = text.indexOf("\n", index + length)
+  const end = endNl === -1 ? text.length : endNl
+  return text.slice(start, end).replace(/\s+/g, " ").trim().slice(0, 240)
+}
+
+/* ------------------------------ model ------------------------------ */
+
+type WeightedCue = { re: RegExp; weight: number }
+
+const AGENCY_CUES: WeightedCue[] = [
+  { re: /\bagency of record\b/i, weight: 2 },
+  {
+    re: /\b(?:advertising|ad|marketing|digital|creative|media|pr|public relations|communications|branding|full[- ]service|integrated|independent|boutique|performance|social media|influencer) agency\b/i,
+    weight: 2,
+  },
+  { re: /\bagency (?:side|environment|setting)\b/i, weight: 2 },
+  { re: /\b(?:our|a roster of|a portfolio of) (?:clients|client brands|client partners)\b/i, weight: 1 },
+  { re: /\bclient (?:accounts|roster|portfolio|deliverables|campaigns|services team)\b/i, weight: 1 },
+  { re: /\bon behalf of (?:our )?clients\b/i, weight: 1 },
+  { re: /\bmultiple (?:clients|client accounts|accounts and brands)\b/i, weight: 1 },
+]
+
+const IN_HOUSE_CUES: WeightedCue[] = [
+  { re: /\bin-?house\b/i, weight: 2 },
+  { re: /\b(?:brand|client)[- ]side\b/i, weight: 2 },
+  { re: /\binternal (?:marketing|creative|communications|design|content|brand) team\b/i, weight: 2 },
+  { re: /\bour (?:own )?(?:brands?|products?|portfolio of brands|family of brands)\b/i, weight: 1 },
+]
+
+function cueScore(text: string, cues: WeightedCue[]): { score: number; first: string | null } {
+  let score = 0
+  let firstIndex = -1
+  let first: string | null = null
+  for (const cue of cues) {
+    const m = Array.from(text.matchAll(new RegExp(cue.re.source, "gi"))).find((x) => !isBackgroundCue(text, x.index ?? 0))
+    if (!m || m.index === undefined) continue
+    score += cue.weight
+    if (firstIndex === -1 || m.index < firstIndex) {
+      firstIndex = m.index
+      first = snippetAround(text, m.index, m[0].length)
+    }
+  }
+  return { score, first }
+}
+
+// "In-house" in an agency posting usually describes the client's team
+// ("partner with in-house marketers at our clients"), so a side needs a
+// score of 2 and a clear lead over the other.
+function extractModel(text: string): { model: EmployerModel | null; evidence: string | null } {
+  const agency = cueScore(text, AGENCY_CUES)
+  const inHouse = cueScore(text, IN_HOUSE_CUES)
+  if (agency.score >= 2 && agency.score > inHouse.score) return { model: "agency", evidence: agency.first }
+  if (inHouse.score >= 2 && inHouse.score > agency.score) return { model: "in_house", evidence: inHouse.first }
+  return { model: null, evidence: null }
+}
+
+/* ------------------------------ stage ------------------------------ */
+
+// Cues about customers rather than the employer itself ("Fortune 500
+// clients", "Fortune 500 consumer goods companies", "startup founders").
+const CUSTOMER_SUFFIX =
+  "(?!\\s+(?:[a-z&-]+\\s+){0,2}(?:clients?|companies|brands|customers|partners|accounts|organizations|ceos|executives|leaders|founders))"
+
+// Requirements about the candidate's past employers, not this one
+// ("previous experience at a fintech startup").
+const BACKGROUND_BEFORE_RE =
+  /\b(?:experience (?:at|with|in)|previous(?:ly)?|prior|worked (?:at|for|in)|background (?:at|in)|exposure to)\b[^.\n]{0,40}$/i
+
+function isBackgroundCue(text: string, index: number): boolean {
+  return BACKGROUND_BEFORE_RE.test(text.slice(Math.max(0, index - 80), index))
+}
+
+const STAGE_RULES: Array<[EmployerStage, RegExp]> = [
+  [
+    "enterprise",
+    new RegExp(
+      `\\b(?:fortune (?:50|100|500|1000)|global (?:500|2000)|s&p 500)\\b${CUSTOMER_SUFFIX}|\\bpublicly[- ]traded\\b|\\((?:nyse|nasdaq):\\s*[a-z]{1,5}\\)|\\b(?:nyse|nasdaq): ?[a-z]{1,5}\\b|\\b\\d{1,3},\\d{3}\\+? (?:employees|team members|associates|colleagues)\\b`,
+      "i"
+    ),
+  ],
+  ["growth", /\bseries [c-f]\b|\blate[- ]stage\b|\bpre-?ipo\b|\bscale-?up\b|\bhyper-?growth\b|\bhigh[- ]growth (?:company|startup|start-up)\b/i],
+  [
+    "startup",
+    new RegExp(
+      `\\bpre-?seed\\b|\\bseed[- ](?:stage|round|funded)\\b|\\bseries [ab]\\b|\\bearly[- ]stage (?:startup|start-up|company|team)\\b|\\bfounding (?:team|engineer|marketer|member|hire)\\b|\\b(?:a|our|fast-growing|venture[- ]backed|vc[- ]backed) (?:[a-z-]+ )?start-?up\\b${CUSTOMER_SUFFIX}`,
+      "i"
+    ),
+  ],
+]
+
+// Employee counts below this are not enterprise scale.
+const ENTERPRISE_MIN_HEADCOUNT = 5000
+
+function extractStage(text: string): { stage: EmployerStage | null; evidence: string | null } {
+  for (const [stage, re] of STAGE_RULES) {
+    for (const m of text.matchAll(new RegExp(re.source, "gi"))) {
+      const index = m.index ?? 0
+      if (isBackgroundCue(text, index)) continue
+      const headcount = m[0].match(/^(\d{1,3}),(\d{3})/)
+      if (headcount && Number(headcount[1] + headcount[2]) < ENTERPRISE_MIN_HEADCOUNT) continue
+      return { stage, evidence: snippetAround(text, index, m[0].length) }
+    }
+  }
+  return { stage: null, evidence: null }
+}
+
+/* ------------------------------ sector ------------------------------ */
+
+const PUBLIC_SECTOR_RE =
+  /\bpublic[- ]sector\b|\b(?:federal|state|county|city|municipal|local) (?:government|agency)\b|\bgovernment agency\b|\bcivil service\b/i
+
+const NONPROFIT_RE =
+  /\b501\s*\(c\)\s*\(3\)|\b(?:we are|we're|is|as) an? (?:[a-z-]+ ){0,2}(?:non-?profit|not-for-profit)\b|\b(?:non-?profit|not-for-profit) (?:organization|agency|health system)\b/i
+
+const PRIVATE_RE = /\bprivately[- ]held\b|\bprivate company\b|\bfamily[- ]owned\b|\bprivate[- ]equity[- ]backed\b/i
+
+function extractSector(
+  text: string,
+  isGovernment: boolean,
+  commercial: string | null
+): { sector: EmployerSector | null; evidence: string | null } {
+  const nonprofit = NONPROFIT_RE.exec(text)
+  if (nonprofit) return { sector: "nonprofit", evidence: snippetAround(text, nonprofit.index, nonprofit[0].length) }
+
+  const pub = PUBLIC_SECTOR_RE.exec(text)
+  if (pub) return { sector: "public", evidence: snippetAround(text, pub.index, pub[0].length) }
+  if (isGovernment) return { sector: "public", evidence: null }
+
+  const priv = PRIVATE_RE.exec(text)
+  if (priv) return { sector: "private", evidence: snippetAround(text, priv.index, priv[0].length) }
+  // An agency, a funded startup or a listed company is private sector.
+  if (commercial) return { sector: "private", evidence: commercial }
+  return { sector: null, evidence: null }
+}
+
+export function extractEmployerType(
+  jobTextRaw: string,
+  opts?: { isGovernment?: boolean }
+): StructuredEmployerType {
+  const text = String(jobTextRaw || "")
+  const { model, evidence: modelEvidence } = extractModel(text)
+  const { stage, evidence: stageEvidence } = extractStage(text)
+  const { sector, evidence: sectorEvidence } = extractSector(
+    text,
+    Boolean(opts?.isGovernment),
+    modelEvidence || stageEvidence
+  )
+  return {
+    model,
+    stage,
+    sector,
+    evidence: { model: modelEvidence, stage: stageEvidence, sector: sectorEvidence },
+  }
+}
+
+/* ------------------------------ profile ------------------------------ */
+
+const TAG_RES: Array<[EmployerTypeTag, RegExp]> = [
+  ["agency", /(?<!government |state |federal )\bagenc(?:y|ies)\b/i],
+  ["in_house", /\bin-?house\b|\b(?:brand|client)[- ]side\b/i],
+  ["startup", /\bstart-?ups?\b|\bearly[- ]stage\b/i],
+  ["growth", /\bscale-?ups?\b|\b(?:high|growth)[- ](?:growth|stage) (?:compan(?:y|ies)|startups?)\b/i],
+  [
+    "enterprise",
+    /\bfortune (?:100|500)\b|\b(?:large|big|established) (?:compan(?:y|ies)|corporations?|firms?|employers?|organizations?)\b|\bcorporate (?:environment|setting|culture)\b/i,
+  ],
+  ["public", /\bpublic[- ]sector\b|\bgovernment\b/i],
+  ["nonprofit", /\bnon-?profits?\b|\bnot-for-profit\b|\bmission[- ]driven\b/i],
+]
+
+const NEGATION_RE =
+  /\b(?:no|not|avoid(?:ing)?|never|nothing at|rather not|don'?t want|do not want|not interested in|excluding|steer clear of)\b/i
+
+const PREFERENCE_RE =
+  /\b(?:prefer(?:s|red|ably|ence)?|ideally|interested in|looking for|want(?:s|ing)?|hoping|open to|target(?:ing)?|drawn to|would love|like to)\b/i
+
+const LABEL_RE = /^\s*(?:preferred |ideal )?(?:employer|company|organization|workplace) (?:type|size|stage|preferences?)\s*:/i
+
+function addTag(list: EmployerTypeTag[], tag: EmployerTypeTag) {
+  if (!list.includes(tag)) list.push(tag)
+}
+
+export function inferEmployerPreferences(profileText: string): EmployerTypePreferences {
+  const header = String(profileText || "").split(/\n\s*(?:resume|resume_paste)\s*:/i)[0]
+  const prefer: EmployerTypeTag[] = []
+  const avoid: EmployerTypeTag[] = []
+
+  for (const line of header.split(/\n+/)) {
+    const labelled = LABEL_RE.test(line)
+    for (const clause of line.split(/[.;,]|\bbut\b/i)) {
+      const tags = TAG_RES.filter(([, re]) => re.test(clause)).map(([tag]) => tag)
+      if (!tags.length) continue
+      if (NEGATION_RE.test(clause)) tags.forEach((t) => addTag(avoid, t))
+      else if (labelled || PREFERENCE_RE.test(clause)) tags.forEach((t) => addTag(prefer, t))
+    }
+  }
+
+  return { prefer: prefer.filter((t) => !avoid.includes(t)), avoid }
+}
+
+/* ------------------------------ comparison ------------------------------ */
+
+const TAG_LABEL: Record<EmployerTypeTag, string> = {
+  agency: "an agency",
+  in_house: "an in-house team",
+  startup: "a startup",
+  growth: "a growth-stage company",
+  enterprise: "a large established company",
+  public: "a public-sector employer",
+  nonprofit: "a nonprofit",
+}
+
+const DIMENSIONS: EmployerTypeTag[][] = [
+  ["agency", "in_house"],
+  ["startup", "growth", "enterprise"],
+  ["public", "nonprofit"],
+]
+
+export type EmployerTypeFit = {
+  tag: EmployerTypeTag
+  level: "match" | "ruled_out" | "mismatch"
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+function jobTags(employer: StructuredEmployerType): EmployerTypeTag[] {
+  const tags: EmployerTypeTag[] = []
+  if (employer.model) tags.push(employer.model)
+  if (employer.stage) tags.push(employer.stage)
+  if (employer.sector === "public" || employer.sector === "nonprofit") tags.push(employer.sector)
+  return tags
+}
+
+export function employerTypeFit(
+  employer: StructuredEmployerType | null | undefined,
+  prefs: EmployerTypePreferences | null | undefined
+): EmployerTypeFit[] {
+  if (!employer || !prefs || (!prefs.prefer.length && !prefs.avoid.length)) return []
+  const out: EmployerTypeFit[] = []
+
+  for (const tag of jobTags(employer)) {
+    const jobFact = `Posting reads as ${TAG_LABEL[tag]}.`
+    if (prefs.avoid.includes(tag)) {
+      out.push({
+        tag,
+        level: "ruled_out",
+        jobFact,
+        profileFact: `You said you do not want to work at ${TAG_LABEL[tag]}.`,
+        detail: `This employer looks like ${TAG_LABEL[tag]}, which you ruled out. Confirm before you invest in the application.`,
+      })
+      continue
+    }
+    if (prefs.prefer.includes(tag)) {
+      out.push({
+        tag,
+        level: "match",
+        jobFact,
+        profileFact: `You said you want to work at ${TAG_LABEL[tag]}.`,
+        detail: `This is ${TAG_LABEL[tag]}, the kind of employer you said you are looking for.`,
+      })
+      continue
+    }
+    // A preference in the same dimension that the posting does not meet.
+    const wanted = (DIMENSIONS.find((d) => d.includes(tag)) || []).filter((t) => prefs.prefer.includes(t))
+    if (wanted.length) {
+      out.push({
+        tag,
+        level: "mismatch",
+        jobFact,
+        profileFact: `You said you prefer ${wanted.map((t) => TAG_LABEL[t]).join(" or ")}.`,
+        detail: `This is ${TAG_LABEL[tag]}, not ${TAG_LABEL[wanted[0]]}. The day-to-day will differ from what you described wanting.`,
+      })
+    }
+  }
+  return out
+}
+
+/* ------------------------------ rendering ------------------------------ */
+
+const MODEL_TEXT: Record<EmployerModel, string> = {
+  agency: "agency (serves outside clients)",
+  in_house: "in-house (works on its own brands or products)",
+}
+
+const STAGE_TEXT: Record<EmployerStage, string> = {
+  startup: "startup (seed to Series B)",
+  growth: "growth stage (Series C+ or scaling fast)",
+  enterprise: "large established company",
+}
+
+const SECTOR_TEXT: Record<EmployerSector, string> = {
+  public: "public sector",
+  nonprofit: "nonprofit",
+  private: "private sector",
+}
+
+// One line per known dimension, for prompts and debug views. Empty when
+// the posting gave no cues.
+export function describeEmployerType(employer: StructuredEmployerType | null | undefined): string[] {
+  if (!employer) return []
+  const lines: string[] = []
+  if (employer.model) lines.push(`Model: ${MODEL_TEXT[employer.model]}`)
+  if (employer.stage) lines.push(`Stage: ${STAGE_TEXT[employer.stage]}`)
+  if (employer.sector) lines.push(`Sector: ${SECTOR_TEXT[employer.sector]}`)
+  return lines
+}
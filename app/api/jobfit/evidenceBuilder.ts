@@ -11,7 +11,7 @@ export type Gate =
 export type EvidencePacket = {
   id: string
   decision: JobFitDecision
-  score: number
+  score: number | null
   gates: Gate[]
   job: {
     title: string | null
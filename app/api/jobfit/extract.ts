@@ -17,17 +17,33 @@
 import crypto from "crypto"
 import { POLICY } from "./policy"
 import type {
+  EngineeringSubFamily,
   EvidenceKind,
   FinanceSubFamily,
   FunctionTag,
   JobFamily,
   JobRequirementUnit,
   LocationMode,
+  MarketingSubFamily,
   ProfileConstraints,
   ProfileEvidenceUnit,
+  SignalAttributionMatch,
   StructuredJobSignals,
   StructuredProfileSignals,
 } from "./signals"
+import { extractWorkAuthSignals, inferWorkAuthStatus } from "./workAuth"
+import { inferPayFloor, parsePay } from "./pay"
+import { extractGpaRequirement, inferProfileGpa } from "./gpa"
+import { extractWorkConditions, inferWorkConditionLimits } from "./workConditions"
+import { extractLanguageRequirements, extractProfileLanguages } from "./languages"
+import { extractEmployerType, inferEmployerPreferences } from "./employerType"
+import { computeExtractionConfidence, countWords } from "./extractionConfidence"
+import { normalizeJobText } from "./normalizeJobText"
+import { extractJobLocations } from "./location"
+import { canonicalToolId, extractToolMentions } from "./toolOntology"
+import { isSeniorLevel, titleSeniority } from "./seniority"
+import { createSignalTracer, type SignalTracer } from "./attribution"
+import { inferMarketingSubsegments } from "../../../lib/jobfit-family-inference"
 
 type CapabilityRule = {
   key: string
@@ -1292,67 +1308,206 @@ const CAPABILITY_RULES: CapabilityRule[] = [
     jobPhrases: ["welding", "plumbing", "hvac", "carpentry", "electrician", "machinist", "cnc", "journeyman"],
     adjacentKeys: [],
   },
-]
 
-const TOOL_ALIASES: Record<string, string[]> = {
-  excel: ["excel", "microsoft excel"],
-  powerpoint: ["powerpoint", "power point", "ppt"],
-  word: ["word", "microsoft word"],
-  sql: ["sql"],
-  python: ["python"],
-  r: ["r", "r studio", "rstudio"],
-  tableau: ["tableau"],
-  "power bi": ["power bi", "powerbi"],
-  figma: ["figma"],
-  photoshop: ["photoshop", "adobe photoshop"],
-  illustrator: ["illustrator", "adobe illustrator"],
-  indesign: ["indesign", "adobe indesign"],
-  canva: ["canva"],
-  hubspot: ["hubspot"],
-  salesforce: ["salesforce", "sales force"],
-  shopify: ["shopify"],
-  "google analytics": ["google analytics", "ga4"],
-  spss: ["spss"],
-  autocad: ["autocad", "auto cad"],
-  crm: ["crm", "customer relationship management"],
-
-  // Engineering tools
-  revit: ["revit", "autodesk revit"],
-  solidworks: ["solidworks", "solid works"],
-  catia: ["catia"],
-  "staad pro": ["staad", "staad pro", "staad.pro"],
-  sap2000: ["sap2000", "sap 2000"],
-  etabs: ["etabs"],
-  risa: ["risa"],
-  ansys: ["ansys"],
-  abaqus: ["abaqus"],
-  matlab: ["matlab"],
-  microstation: ["microstation"],
-  civil3d: ["civil 3d", "civil3d"],
-  tekla: ["tekla"],
-  primavera: ["primavera", "p6"],
-  procore: ["procore"],
-  bluebeam: ["bluebeam"],
-
-  // Software / IT tools
-  aws: ["aws", "amazon web services"],
-  azure: ["azure", "microsoft azure"],
-  gcp: ["gcp", "google cloud"],
-  docker: ["docker"],
-  kubernetes: ["kubernetes", "k8s"],
-  terraform: ["terraform"],
-  jenkins: ["jenkins"],
-  git: ["git", "github", "gitlab"],
-  jira: ["jira"],
-  react: ["react", "reactjs", "react.js"],
-  node: ["node", "nodejs", "node.js"],
-  java: ["java"],
-  "c++": ["c++", "cpp"],
-  golang: ["golang", "go lang"],
-  typescript: ["typescript"],
-  swift: ["swift"],
-  kotlin: ["kotlin"],
-}
+  // ── Education / Nonprofit / Media / Real Estate / Supply Chain ───
+  // Each of these used to fall through to "Other", so a student targeting
+  // teaching or logistics got no family credit even on a direct match.
+  // Bare words are left out on purpose: "logistics" is event logistics in
+  // marketing JDs, "warehouse" is a data warehouse, "streaming" is a data
+  // pipeline, "fundraising" is a startup's Series B, and "nonprofit" /
+  // "film" mostly show up in About Us blurbs.
+  {
+    key: "classroom_instruction",
+    label: "teaching, tutoring, and classroom instruction",
+    kind: "function",
+    functionTag: "education_teaching",
+    profilePhrases: [
+      "lesson plans",
+      "lesson planning",
+      "classroom management",
+      "student teaching",
+      "student teacher",
+      "teaching assistant",
+      "tutoring",
+      "tutored",
+      "differentiated instruction",
+      "curriculum development",
+      "student progress",
+    ],
+    jobPhrases: [
+      "lesson plans",
+      "lesson planning",
+      "classroom management",
+      "classroom instruction",
+      "differentiated instruction",
+      "curriculum development",
+      "student learning",
+      "student progress",
+      "teaching certificate",
+      "teaching certification",
+      "teaching license",
+      "student teaching",
+      "tutoring",
+    ],
+    adjacentKeys: ["coaching_instruction_facilitation"],
+  },
+  {
+    key: "nonprofit_program_fundraising",
+    label: "nonprofit program, fundraising, and volunteer work",
+    kind: "function",
+    functionTag: "nonprofit_program",
+    profilePhrases: [
+      "fundraising",
+      "fundraiser",
+      "grant writing",
+      "grant proposals",
+      "grant reporting",
+      "donor relations",
+      "donor stewardship",
+      "volunteer coordination",
+      "volunteer management",
+      "recruited volunteers",
+      "program participants",
+    ],
+    jobPhrases: [
+      "fundraising events",
+      "fundraising campaigns",
+      "annual fund",
+      "grant writing",
+      "grant proposals",
+      "grant reporting",
+      "donor database",
+      "donor relations",
+      "donor stewardship",
+      "volunteer coordination",
+      "volunteer recruitment",
+      "manage volunteers",
+      "program participants",
+    ],
+    adjacentKeys: ["operations_execution", "stakeholder_coordination"],
+  },
+  {
+    key: "media_production",
+    label: "media, film, and broadcast production",
+    kind: "function",
+    functionTag: "media_entertainment",
+    profilePhrases: [
+      "video production",
+      "film production",
+      "post-production",
+      "post production",
+      "production assistant",
+      "call sheets",
+      "logged footage",
+      "broadcast",
+      "newsroom",
+      "news segment",
+      "journalism",
+      "premiere pro",
+      "final cut",
+      "avid media composer",
+    ],
+    jobPhrases: [
+      "video production",
+      "post-production",
+      "post production",
+      "production assistant",
+      "production office",
+      "set operations",
+      "broadcast",
+      "newsroom",
+      "on-air",
+      "footage",
+      "shoot schedule",
+      "shoot days",
+      "call sheets",
+      "premiere pro",
+      "avid media composer",
+    ],
+    adjacentKeys: ["communications_writing"],
+  },
+  {
+    key: "real_estate_transactions",
+    label: "real estate leasing, property, and transaction work",
+    kind: "function",
+    functionTag: "real_estate",
+    profilePhrases: [
+      "real estate",
+      "leasing consultant",
+      "leasing agent",
+      "property management",
+      "property tours",
+      "lease administration",
+      "tenant relations",
+      "rent roll",
+      "argus",
+      "cap rate",
+      "real estate license",
+    ],
+    // Bare "real estate" left out of jobPhrases — it matched asset-class
+    // mentions in firm boilerplate ("private equity, credit, and real
+    // estate strategies") and raised a high missing-proof risk on Finance
+    // postings. The job has to name the real estate work itself.
+    jobPhrases: [
+      "real estate transactions",
+      "real estate sales",
+      "real estate development",
+      "lease agreements",
+      "lease administration",
+      "leasing office",
+      "property management",
+      "property tours",
+      "tenant relations",
+      "rent roll",
+      "argus",
+      "cap rate",
+      "real estate license",
+      "mls",
+      "showings",
+    ],
+    adjacentKeys: ["client_commercial_work"],
+  },
+  {
+    key: "supply_chain_logistics",
+    label: "supply chain, logistics, and inventory work",
+    kind: "function",
+    functionTag: "supply_chain_logistics",
+    profilePhrases: [
+      "supply chain",
+      "inventory management",
+      "inventory control",
+      "procurement",
+      "purchase orders",
+      "purchasing orders",
+      "demand planning",
+      "distribution center",
+      "warehouse operations",
+      "freight",
+      "shipping and receiving",
+    ],
+    jobPhrases: [
+      "supply chain",
+      "inventory levels",
+      "inventory management",
+      "inventory control",
+      "procurement process",
+      "procurement operations",
+      "strategic sourcing",
+      "purchase orders",
+      "demand planning",
+      "order fulfillment",
+      "distribution center",
+      "distribution centers",
+      "warehouse operations",
+      "warehouse management",
+      "carrier performance",
+      "freight",
+      "3pl",
+      "s&op",
+    ],
+    adjacentKeys: ["operations_execution"],
+  },
+]
 
 const NEVER_CORE_KEYS = new Set([
   "clinical_patient_work",
@@ -1473,6 +1628,7 @@ function cleanLine(raw: string): string {
     .replace(/\u00a0/g, " ")
     .replace(/[•·]/g, " ")
     .replace(/\s+/g, " ")
+    .replace(/^\s*- (?=\S)/, "")
     .replace(/^(resume_paste:|cover_letter:|extra_context:)\s*/i, "")
     .replace(/^(relevant experience|additional experience|legal experience|policy and advocacy experience)\s*:?/i, "")
     .trim()
@@ -1529,7 +1685,7 @@ function countWeakHits(hay: string, phrases?: string[]): number {
 // advisory-background detection) still uses the full raw body because
 // those are ambient context signals, not requirement extraction.
 
-type SectionKind =
+export type SectionKind =
   | "overview"
   | "responsibilities"
   | "qualifications"
@@ -1538,7 +1694,7 @@ type SectionKind =
   | "how_to_apply"
   | "other"
 
-type JobSection = {
+export type JobSection = {
   kind: SectionKind
   headerText: string | null
   lines: string[]
@@ -1798,53 +1954,6 @@ function scoreJobLine(line: string): number {
   return score
 }
 
-function canonicalTool(rawTool: string): string {
-  const n = norm(rawTool)
-  for (const [canonical, aliases] of Object.entries(TOOL_ALIASES)) {
-    if (aliases.some((a) => includesPhrase(n, a))) return canonical
-  }
-  return n
-}
-
-function extractToolMentions(text: string): string[] {
-  const t = norm(text)
-  const out = new Set<string>()
-
-  for (const [canonical, aliases] of Object.entries(TOOL_ALIASES)) {
-    if (aliases.some((alias) => includesPhrase(t, alias))) out.add(canonical)
-  }
-
-  const core = asStringArray((POLICY as any)?.tools?.core)
-  const preferred = asStringArray((POLICY as any)?.tools?.preferred)
-  for (const tool of [...core, ...preferred]) {
-    const c = canonicalTool(tool)
-    if (includesPhrase(t, tool) || includesPhrase(t, c)) out.add(c)
-  }
-
-  // Suite-level expansions. A candidate who writes "Microsoft Office Suite"
-  // should be credited for the individual apps the suite implies, otherwise
-  // jobs that list "Excel" as a required tool will incorrectly penalize
-  // them with RISK_MISSING_TOOLS. Same logic for Google Workspace / G Suite
-  // and Adobe Creative Cloud / Creative Suite.
-  if (/\b(microsoft office suite|ms office suite|ms office|microsoft office|office 365|o365|office suite)\b/i.test(t)) {
-    out.add("excel")
-    out.add("powerpoint")
-    out.add("word")
-  }
-  if (/\b(google workspace|g ?suite|google g ?suite)\b/i.test(t)) {
-    out.add("google sheets")
-    out.add("google docs")
-    out.add("google slides")
-  }
-  if (/\b(adobe creative cloud|creative cloud|adobe creative suite|creative suite)\b/i.test(t)) {
-    out.add("photoshop")
-    out.add("illustrator")
-    out.add("indesign")
-  }
-
-  return Array.from(out)
-}
-
 function familyFromFunctionTags(tags: FunctionTag[]): JobFamily {
   const score: Record<JobFamily, number> = {
     Consulting: 0,
@@ -1862,6 +1971,11 @@ function familyFromFunctionTags(tags: FunctionTag[]): JobFamily {
     Healthcare: 0,
     Legal: 0,
     Trades: 0,
+    Education: 0,
+    Nonprofit: 0,
+    Media: 0,
+    RealEstate: 0,
+    SupplyChain: 0,
     Other: 0,
   }
 
@@ -1901,6 +2015,15 @@ function familyFromFunctionTags(tags: FunctionTag[]): JobFamily {
     if (tag === "trades_skilled") score.Trades += 8
 
     if (tag === "legal_regulatory") score.Legal += 8
+
+    if (tag === "education_teaching") score.Education += 7
+    if (tag === "nonprofit_program") score.Nonprofit += 5
+    if (tag === "media_entertainment") score.Media += 6
+    if (tag === "real_estate") score.RealEstate += 7
+    if (tag === "supply_chain_logistics") {
+      score.SupplyChain += 7
+      score.Operations += 2
+    }
     if (tag === "creative_design" || tag === "other") score.Other += 4
   }
 
@@ -1924,11 +2047,16 @@ function familyFromFunctionTags(tags: FunctionTag[]): JobFamily {
     "Healthcare",
     "Legal",
     "Trades",
+    "Education",
     "Finance",
+    "RealEstate",
     "Sales",
     "Marketing",
+    "Media",
     "Consulting",
+    "SupplyChain",
     "Operations",
+    "Nonprofit",
     "HR",
     "Accounting",
     "Analytics",
@@ -2350,27 +2478,7 @@ function extractGradYearHint(jobText: string): number | null {
   return null
 }
 
-function extractCity(t: string): string | null {
-  if (/\bnyc\b/.test(t) || t.includes("new york city") || t.includes("new york, ny")) return "New York City"
-  if (/\bchicago\b/.test(t)) return "Chicago"
-  if (/\bboston\b/.test(t)) return "Boston"
-  if (/\baustin\b/.test(t)) return "Austin"
-  if (/\bmiami\b/.test(t)) return "Miami"
-  if (/\bphiladelphia\b/.test(t)) return "Philadelphia"
-  if (/\batlanta\b/.test(t)) return "Atlanta"
-  if (/\bcharlotte\b/.test(t)) return "Charlotte"
-  if (/\bwashington,\s*dc\b|\bwashington dc\b/.test(t)) return "Washington DC"
-  if (/\blos angeles\b/.test(t)) return "Los Angeles"
-  if (/\bocala\b/.test(t)) return "Ocala"
-  return null
-}
-
-function detectLocationMode(jobText: string): {
-  mode: LocationMode
-  constrained: boolean
-  city: string | null
-  evidence: string | null
-} {
+function detectLocationMode(jobText: string, tracer?: SignalTracer | null): StructuredJobSignals["location"] {
   const t = norm(jobText)
 
   const constrainedPhrases = asStringArray((POLICY as any)?.extraction?.location?.constrainedPhrases).map(norm)
@@ -2404,16 +2512,53 @@ function detectLocationMode(jobText: string): {
   else if (hasInPerson && !hasRemote) mode = "in_person"
   else if (hasRemote && hasInPerson) mode = "hybrid"
 
-  const city = extractCity(t)
+  const { cities, remoteRegions, timeZones } = extractJobLocations(jobText)
+  const city = cities[0] || null
   const evidenceLine =
     splitEvidenceLines(jobText).find((line) =>
       /\b(remote|hybrid|in-person|in person|new york city|nyc office)\b/i.test(line)
     ) || null
 
-  return { mode, constrained, city, evidence: evidenceLine }
+  if (tracer) {
+    const hitsIn = (phrases: string[]) => phrases.filter((p) => includesPhrase(t, p))
+    tracer.phrases("location.constrained", constrained, "extraction.location.constrainedPhrases", hitsIn(constrainedPhrases))
+    if (mode === "remote") {
+      tracer.phrases("location.mode", mode, "extraction.location.remotePhrases", hitsIn(remotePhrases))
+    } else if (mode === "hybrid") {
+      tracer.phrases(
+        "location.mode",
+        mode,
+        "extraction.location.hybridPhrases",
+        hitsIn(hybridPhrases),
+        inferredHybrid ? "inferred: remote phrase qualified as partial or tied to an office" : undefined
+      )
+      if (hasRemote && hasInPerson) {
+        tracer.phrases("location.mode", mode, "extraction.location.remotePhrases", hitsIn(remotePhrases))
+        tracer.phrases("location.mode", mode, "extraction.location.onsitePhrases", hitsIn(onsitePhrases))
+      }
+    } else if (mode === "in_person") {
+      tracer.phrases(
+        "location.mode",
+        mode,
+        "extraction.location.onsitePhrases",
+        hitsIn(onsitePhrases),
+        mentionsOfficeLocation ? "mentions an \"in our/the ... office\" location" : undefined
+      )
+    }
+    if (cities.length) tracer.record("location.cities", cities.join(", "), "extractJobLocations")
+    if (remoteRegions.length) tracer.record("location.remoteRegions", remoteRegions.join(", "), "extractJobLocations")
+    if (timeZones.length) tracer.record("location.timeZones", timeZones.join(", "), "extractJobLocations")
+  }
+
+  return { mode, constrained, city, cities, remoteRegions, timeZones, evidence: evidenceLine }
 }
 
-function detectAnalytics(jobText: string, tags: FunctionTag[], jobUnits: JobRequirementUnit[]): { isHeavy: boolean; isLight: boolean } {
+function detectAnalytics(
+  jobText: string,
+  tags: FunctionTag[],
+  jobUnits: JobRequirementUnit[],
+  tracer?: SignalTracer | null
+): { isHeavy: boolean; isLight: boolean } {
   const t = norm(jobText)
   const cfg = (POLICY as any)?.extraction?.analytics || {}
   const heavyKeywords = asStringArray(cfg.heavyKeywords).map(norm)
@@ -2433,6 +2578,28 @@ function detectAnalytics(jobText: string, tags: FunctionTag[], jobUnits: JobRequ
   const isHeavy = (heavyKeywordHits >= 2 || optInHits >= 1 || heavyByTags) && optOutHits === 0
   const isLight = !isHeavy && includesAny(t, lightKeywords)
 
+  if (tracer && isHeavy) {
+    tracer.phrases(
+      "analytics.isHeavy",
+      true,
+      "extraction.analytics.heavyKeywords",
+      heavyKeywordHits >= 2 ? heavyKeywords.filter((k) => includesPhrase(t, k)) : []
+    )
+    tracer.phrases("analytics.isHeavy", true, "extraction.analytics.optInRoleKeywords", optInRoleKeywords.filter((k) => includesPhrase(t, k)))
+    if (heavyByTags) {
+      tracer.record("analytics.isHeavy", true, "data_analytics_bi tag", [], `${analyticsUnitCount} analysis/research units`)
+    }
+  } else if (tracer) {
+    tracer.phrases("analytics.isLight", isLight, "extraction.analytics.lightKeywords", lightKeywords.filter((k) => includesPhrase(t, k)))
+    tracer.phrases(
+      "analytics.isHeavy",
+      false,
+      "extraction.analytics.optOutRoleKeywords",
+      optOutRoleKeywords.filter((k) => includesPhrase(t, k)),
+      optOutHits ? "opt-out role keyword suppresses analytics-heavy" : undefined
+    )
+  }
+
   return { isHeavy, isLight }
 }
 
@@ -2826,6 +2993,9 @@ function defaultConstraintsFromText(tRaw: string, wantsInternship: boolean): Pro
       t.includes("no part-time") ||
       t.includes("full time only") ||
       t.includes("full-time only"),
+    workAuthStatus: inferWorkAuthStatus(tRaw),
+    ...inferPayFloor(tRaw),
+    ...inferWorkConditionLimits(tRaw),
   }
 }
 
@@ -2871,7 +3041,8 @@ function mergeFunctionTagEvidence(
 function inferJobFinanceSubFamily(
   normalized: string,
   requirementUnits: JobRequirementUnit[],
-  functionTags: FunctionTag[]
+  functionTags: FunctionTag[],
+  tracer?: SignalTracer | null
 ): FinanceSubFamily {
   const unitKeys = requirementUnits.map((u) => u.key)
   const hasProspecting = unitKeys.includes("prospecting_pipeline_management")
@@ -2900,33 +3071,53 @@ function inferJobFinanceSubFamily(
   // Associate in Boca Raton). The fallback is removed — IB classification
   // now requires explicit IB vocabulary or role context.
   if (ibRoleContext.test(normalized) || ibKeywords.test(normalized)) {
+    tracer?.regex("financeSubFamily", "ib", "financeSubFamily:ib", normalized, [ibRoleContext, ibKeywords])
     return "ib"
   }
 
   // Project Finance signals: infrastructure/energy + tax equity + deal execution
   const pfKeywords = /\b(project finance|tax equity|solar|wind|battery storage|renewable energy|ppa|power purchase|infrastructure finance|tax credit|clean energy financing)\b/i
   if (pfKeywords.test(normalized) && (hasFinancialAnalysis || hasAccountingOps)) {
+    tracer?.regex("financeSubFamily", "project_finance", "financeSubFamily:project_finance", normalized, pfKeywords)
     return "project_finance"
   }
 
   // Credit signals: borrower/underwriting/default language
   const creditKeywords = /\b(credit analysis|credit analyst|underwriting|borrower|probability of default|debt capacity|loan|credit risk|credit underwriting|lending|credit memo)\b/i
   if (creditKeywords.test(normalized) || (hasAccountingOps && hasPolicyRegulatory && !hasAnalysisReporting)) {
+    tracer?.regex(
+      "financeSubFamily",
+      "credit",
+      "financeSubFamily:credit",
+      normalized,
+      creditKeywords,
+      creditKeywords.test(normalized) ? undefined : "accounting + regulatory units without analysis_reporting"
+    )
     return "credit"
   }
 
   // Asset Management signals: portfolio/fund/AUM language
   const amKeywords = /\b(asset management|portfolio management|fund analysis|aum|investment management|equity research|fixed income|hedge fund|mutual fund|portfolio analyst|fund accounting)\b/i
   if (amKeywords.test(normalized)) {
+    tracer?.regex("financeSubFamily", "asset_management", "financeSubFamily:asset_management", normalized, amKeywords)
     return "asset_management"
   }
 
   // FP&A / Corporate Finance signals: budgeting/variance/forecasting dominant
   const fpaKeywords = /\b(fp&a|fpa|financial planning|budgeting|variance analysis|forecasting|board package|board reporting|monthly close|quarterly close|corporate finance|financial controller)\b/i
   if (fpaKeywords.test(normalized) || (hasAnalysisReporting && hasAccountingOps && !hasProspecting)) {
+    tracer?.regex(
+      "financeSubFamily",
+      "fpa",
+      "financeSubFamily:fpa",
+      normalized,
+      fpaKeywords,
+      fpaKeywords.test(normalized) ? undefined : "analysis_reporting + accounting units without prospecting"
+    )
     return "fpa"
   }
 
+  tracer?.record("financeSubFamily", "other_finance", "financeSubFamily:fallback")
   return "other_finance"
 }
 
@@ -2938,7 +3129,8 @@ function inferJobFinanceSubFamily(
 // candidate's stated target sub-segment.
 function inferJobSalesSubFamily(
   jobTextRaw: string,
-  userTitleNorm: string
+  userTitleNorm: string,
+  tracer?: SignalTracer | null
 ): import("./signals").SalesSubFamily {
   const t = jobTextRaw.toLowerCase()
   const title = userTitleNorm.toLowerCase()
@@ -2949,47 +3141,146 @@ function inferJobSalesSubFamily(
   // typically emphasize case coverage and surgeon relationships.
   const medDeviceRe =
     /\b(medical device|orthopedic (sales|rep|territory)|trauma (sales|rep|implants?)|spinal (sales|rep|implants?|products?)|prosthetic (sales|rep)|surgical (instrument|implant|device) (sales|rep)|case coverage|operating room (coverage|support|rep)|implant sales|clinical specialist.{0,40}(device|implant|orthopedic|trauma|spinal)|associate (sales|clinical) (rep|representative|specialist).{0,40}(device|implant|orthopedic|trauma)|capital equipment sales)\b/i
-  if (medDeviceRe.test(combined)) return "medical_device"
+  if (medDeviceRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "medical_device", "salesSubFamily:medDeviceRe", combined, medDeviceRe)
+    return "medical_device"
+  }
 
   // Pharmaceutical: pharma rep, drug sampling, formulary, CSO, prescriber
   // calls. These JDs emphasize product detailing to physicians.
   const pharmaRe =
     /\b(pharmaceutical sales|pharma (sales|rep|representative)|pharmaceutical rep|drug rep|pharmaceutical cso|pharmaceutical product expert|therapeutic area specialist|specialty pharmaceutical|oncology sales|cns sales|biotech sales rep|primary care rep|prescriber (call|engagement)|formulary access|pharmaceutical territory)\b/i
-  if (pharmaRe.test(combined)) return "pharmaceutical"
+  if (pharmaRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "pharmaceutical", "salesSubFamily:pharmaRe", combined, pharmaRe)
+    return "pharmaceutical"
+  }
 
   // Financial services sales: wealth management, insurance, client advisor
   const finSalesRe =
     /\b(wealth management (sales|advisor)|financial advisor.{0,20}(sales|client acquisition)|insurance (sales|producer|agent)|registered representative|client advisor|private banker|personal banker|relationship banker)\b/i
-  if (finSalesRe.test(combined)) return "financial_services"
+  if (finSalesRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "financial_services", "salesSubFamily:finSalesRe", combined, finSalesRe)
+    return "financial_services"
+  }
 
   // SaaS / tech sales: SDR, BDR, AE, quota tech sales
   const saasRe =
     /\b(saas sales|software sales|technology sales|tech sales|sdr\b|bdr\b|account executive.{0,20}(saas|software|technology)|sales development representative|business development representative|inside sales.{0,20}(saas|software|technology)|enterprise software sales|cloud sales|platform sales)\b/i
-  if (saasRe.test(combined)) return "saas_tech"
+  if (saasRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "saas_tech", "salesSubFamily:saasRe", combined, saasRe)
+    return "saas_tech"
+  }
 
   // Advertising / media sales
   const adMediaRe =
     /\b(advertising sales|media sales|ad sales|digital advertising sales|publisher sales|programmatic sales|brand partnerships sales|sponsorship sales)\b/i
-  if (adMediaRe.test(combined)) return "advertising_media"
+  if (adMediaRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "advertising_media", "salesSubFamily:adMediaRe", combined, adMediaRe)
+    return "advertising_media"
+  }
 
   // Real estate sales
   const reSalesRe =
     /\b(real estate (sales|agent|broker)|commercial real estate (sales|broker)|leasing (agent|sales)|residential real estate|cre sales)\b/i
-  if (reSalesRe.test(combined)) return "real_estate"
+  if (reSalesRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "real_estate", "salesSubFamily:reSalesRe", combined, reSalesRe)
+    return "real_estate"
+  }
 
   // Industrial / B2B distribution
   const industrialRe =
     /\b(industrial (sales|distribution)|manufacturing sales|distributor sales|wholesale sales|outside sales.{0,20}(industrial|manufacturing|equipment)|territory manager.{0,30}(industrial|manufacturing|distribution))\b/i
-  if (industrialRe.test(combined)) return "industrial_b2b"
+  if (industrialRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "industrial_b2b", "salesSubFamily:industrialRe", combined, industrialRe)
+    return "industrial_b2b"
+  }
 
   // Retail / consumer goods
   const retailRe =
     /\b(retail sales|consumer (goods|products) sales|cpg sales|consumer packaged goods sales|in-store sales)\b/i
-  if (retailRe.test(combined)) return "retail_consumer"
+  if (retailRe.test(combined)) {
+    tracer?.regex("salesSubFamily", "retail_consumer", "salesSubFamily:retailRe", combined, retailRe)
+    return "retail_consumer"
+  }
 
+  tracer?.record("salesSubFamily", "other_sales", "salesSubFamily:fallback")
   return "other_sales"
 }
 
+// ── Marketing sub-family inference ───────────────────────────────────────────
+// Marketing is our largest cohort and not one job: brand, growth /
+// performance, product marketing, content / social and PR each have their
+// own day-to-day and career ladder. Title wording decides first — the user
+// title, or the first 300 chars of the JD when there is none (further down
+// is company blurb, which name-checks every channel). Otherwise the
+// marketing function tag with the most requirement units wins.
+const MARKETING_SUBFAMILY_PATTERNS: Array<[Exclude<MarketingSubFamily, "other_marketing" | null>, RegExp]> = [
+  [
+    "communications_pr",
+    /\b(public relations|pr (coordinator|manager|specialist|associate|intern|agency|firm)|media relations|corporate communications|communications (coordinator|manager|specialist|associate|director|intern)|publicist|press releases?|earned media)\b/i,
+  ],
+  [
+    "product_marketing",
+    /\b(product marketing|product marketer|pmm|go-to-market|gtm (strategy|launch|plan)|product launch(es)?|competitive positioning|positioning and messaging|sales enablement)\b/i,
+  ],
+  [
+    "growth_performance",
+    /\b(growth marketing|growth marketer|performance marketing|paid (media|search|social)|sem|seo|ppc|user acquisition|demand generation|demand gen|lifecycle marketing|email marketing|crm marketing|retention marketing|conversion rate optimization|roas|digital acquisition)\b/i,
+  ],
+  [
+    "content_social",
+    /\b(content (marketing|creator|strategist|coordinator|manager|writer|creation|producer)|social media|community manager|copywriter|copywriting|influencer (marketing|relations|partnerships)|editorial calendar|content calendar)\b/i,
+  ],
+  [
+    "brand",
+    /\b((assistant|associate) brand manager|brand (manager|marketing|management|strategy|coordinator|associate|director|campaigns?|identity|positioning|equity)|integrated marketing campaigns?)\b/i,
+  ],
+]
+
+const MARKETING_SUBFAMILY_TAGS: Partial<Record<FunctionTag, Exclude<MarketingSubFamily, "other_marketing" | null>>> = {
+  brand_marketing: "brand",
+  growth_performance: "growth_performance",
+  product_marketing: "product_marketing",
+  content_social: "content_social",
+  communications_pr: "communications_pr",
+}
+
+function inferJobMarketingSubFamily(
+  jobTextRaw: string,
+  userTitleNorm: string,
+  requirementUnits: JobRequirementUnit[],
+  tracer?: SignalTracer | null
+): MarketingSubFamily {
+  const titleText = userTitleNorm.toLowerCase() || jobTextRaw.toLowerCase().slice(0, 300)
+  const hit = MARKETING_SUBFAMILY_PATTERNS.find(([, re]) => re.test(titleText))
+  if (hit) {
+    tracer?.regex("marketingSubFamily", hit[0], `marketingSubFamily:${hit[0]}`, titleText, hit[1])
+    return hit[0]
+  }
+
+  const counts = new Map<Exclude<MarketingSubFamily, "other_marketing" | null>, number>()
+  for (const u of requirementUnits) {
+    const sub = u.functionTag ? MARKETING_SUBFAMILY_TAGS[u.functionTag] : undefined
+    if (sub) counts.set(sub, (counts.get(sub) || 0) + 1)
+  }
+  // Needs two units so a single stray "social media" line does not decide it.
+  const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]
+  if (top && top[1] >= 2) {
+    tracer?.record(
+      "marketingSubFamily",
+      top[0],
+      "marketingSubFamily:functionTags",
+      requirementUnits
+        .filter((u) => u.functionTag && MARKETING_SUBFAMILY_TAGS[u.functionTag] === top[0])
+        .map((u) => tracer.locate(u.snippet))
+    )
+    return top[0]
+  }
+
+  tracer?.record("marketingSubFamily", "other_marketing", "marketingSubFamily:fallback")
+  return "other_marketing"
+}
+
 // ── Profile-side sales sub-segment inference ─────────────────────────────────
 // Parse the candidate's target_roles / profile_text for explicit
 // sub-segment signals so the scoring layer can detect mismatch with the
@@ -3117,6 +3408,132 @@ export function getFinanceSubFamilyDistance(
   return SUBFAMILY_DISTANCE[jobSub]?.[profileSub] ?? 1
 }
 
+// ── Engineering / IT sub-family detection ────────────────────────────────────
+// Engineering and IT_Software are gated as single blocks in constraints.ts.
+// Within them, disciplines barely transfer: a civil PE track and a chemical
+// process role share a degree title and little else, and a help-desk
+// posting is not a data engineering job. Title wording decides first;
+// otherwise the sub-family with the most distinct phrase hits in the text
+// wins, provided it has at least two.
+type SpecificEngineeringSubFamily = Exclude<EngineeringSubFamily, "other_engineering" | null>
+
+// Order matters for titles: the IT / software tracks come first so that
+// "Software Engineer, Embedded Systems" or "Security Engineer" is not
+// claimed by the discipline words further down.
+const ENGINEERING_SUBFAMILY_PATTERNS: Array<[SpecificEngineeringSubFamily, RegExp]> = [
+  [
+    "cybersecurity",
+    /\b(cyber ?security|information security|infosec|security (analyst|engineer|operations|architect)|soc analyst|security operations center|penetration test(er|ing)?|pen ?test(er|ing)?|threat (intelligence|hunting|detection)|incident response|vulnerability (management|assessment)|siem|grc analyst)\b/i,
+  ],
+  [
+    "data",
+    /\b(data engineer(ing)?|data scientist|data science|machine learning|ml engineer|ml ops|mlops|analytics engineer|etl (developer|pipelines?)|data pipelines?|data platform|data warehouse|big data|spark|airflow)\b/i,
+  ],
+  [
+    "it_support",
+    /\b(help ?desk|service desk|desktop support|it support|technical support|it technician|support technician|systems? administrator|sysadmin|network administrator|network technician|it specialist|end user support|active directory|ticketing system)\b/i,
+  ],
+  [
+    "software",
+    /\b(software (engineer(ing)?|developer|development)|full[- ]?stack|front[- ]?end (engineer|developer)|back[- ]?end (engineer|developer)|web developer|mobile developer|ios developer|android developer|application developer|devops|site reliability|programmer|computer science|object[- ]oriented|rest(ful)? apis?|microservices)\b/i,
+  ],
+  [
+    "chemical",
+    /\b(chemical engineer(ing)?|chemical process(es|ing)?|process chemistry|petrochemical|refinery|polymer|reaction engineering|unit operations|aspen plus|mass transfer)\b/i,
+  ],
+  [
+    "civil",
+    /\b(civil engineer(ing)?|structural engineer(ing)?|structural (analysis|design)|geotechnical|transportation engineer(ing)?|water resources|environmental engineer(ing)?|stormwater|site development|civil 3d|eit|engineer in training)\b/i,
+  ],
+  [
+    "electrical",
+    /\b(electrical engineer(ing)?|electronics engineer(ing)?|hardware engineer(ing)?|power systems|power electronics|controls engineer(ing)?|rf engineer(ing)?|circuit design|pcb (design|layout)|plc programming|embedded hardware|fpga)\b/i,
+  ],
+  [
+    "industrial",
+    /\b(industrial engineer(ing)?|manufacturing engineer(ing)?|quality engineer(ing)?|process improvement engineer|lean manufacturing|six sigma|operations research|time studies|production engineer(ing)?|continuous improvement engineer)\b/i,
+  ],
+  [
+    "mechanical",
+    /\b(mechanical engineer(ing)?|mechanical design|aerospace engineer(ing)?|hvac|thermodynamics|heat transfer|fluid dynamics|solidworks|gd&t|finite element|fea|product design engineer|design engineer)\b/i,
+  ],
+]
+
+function engineeringSubFamilyFromTitle(titleText: string): [SpecificEngineeringSubFamily, RegExp] | undefined {
+  return ENGINEERING_SUBFAMILY_PATTERNS.find(([, re]) => re.test(titleText))
+}
+
+// Distinct phrase hits per sub-family across `text`. Returns the leader
+// with its hits, or null when nothing reaches two.
+function engineeringSubFamilyFromText(text: string): { sub: SpecificEngineeringSubFamily; hits: string[] } | null {
+  let best: { sub: SpecificEngineeringSubFamily; hits: string[] } | null = null
+  for (const [sub, re] of ENGINEERING_SUBFAMILY_PATTERNS) {
+    const hits = Array.from(new Set((text.match(new RegExp(re.source, "gi")) || []).map((m) => m.toLowerCase())))
+    if (hits.length >= 2 && (!best || hits.length > best.hits.length)) best = { sub, hits }
+  }
+  return best
+}
+
+function inferJobEngineeringSubFamily(
+  jobTextRaw: string,
+  userTitleNorm: string,
+  tracer?: SignalTracer | null
+): EngineeringSubFamily {
+  const titleText = userTitleNorm.toLowerCase() || jobTextRaw.toLowerCase().slice(0, 300)
+  const hit = engineeringSubFamilyFromTitle(titleText)
+  if (hit) {
+    tracer?.regex("engineeringSubFamily", hit[0], `engineeringSubFamily:${hit[0]}`, titleText, hit[1])
+    return hit[0]
+  }
+
+  const fromText = engineeringSubFamilyFromText(jobTextRaw)
+  if (fromText) {
+    tracer?.phrases("engineeringSubFamily", fromText.sub, `engineeringSubFamily:${fromText.sub}`, fromText.hits)
+    return fromText.sub
+  }
+
+  tracer?.record("engineeringSubFamily", "other_engineering", "engineeringSubFamily:fallback")
+  return "other_engineering"
+}
+
+// Stated target roles outrank the resume: a mechanical grad applying to
+// software roles has told us which track they want.
+function inferProfileEngineeringSubFamily(
+  targetRoles: string | null | undefined,
+  profileTextRaw: string
+): EngineeringSubFamily {
+  const hit = engineeringSubFamilyFromTitle(String(targetRoles || "").toLowerCase())
+  if (hit) return hit[0]
+
+  const fromText = engineeringSubFamilyFromText(profileTextRaw)
+  if (fromText) return fromText.sub
+
+  return "other_engineering"
+}
+
+// 0 = same track, 1 = adjacent (skills transfer with some ramp),
+// 2 = different discipline, 3 = essentially a career change.
+// other_engineering is unknown on either side and never penalized.
+const ENGINEERING_SUBFAMILY_DISTANCE: Record<SpecificEngineeringSubFamily, Record<SpecificEngineeringSubFamily, number>> = {
+  mechanical:    { mechanical: 0, civil: 2, electrical: 2, chemical: 2, industrial: 1, software: 3, data: 3, it_support: 3, cybersecurity: 3 },
+  civil:         { mechanical: 2, civil: 0, electrical: 2, chemical: 2, industrial: 2, software: 3, data: 3, it_support: 3, cybersecurity: 3 },
+  electrical:    { mechanical: 2, civil: 2, electrical: 0, chemical: 3, industrial: 2, software: 2, data: 3, it_support: 2, cybersecurity: 2 },
+  chemical:      { mechanical: 2, civil: 2, electrical: 3, chemical: 0, industrial: 2, software: 3, data: 3, it_support: 3, cybersecurity: 3 },
+  industrial:    { mechanical: 1, civil: 2, electrical: 2, chemical: 2, industrial: 0, software: 3, data: 2, it_support: 3, cybersecurity: 3 },
+  software:      { mechanical: 3, civil: 3, electrical: 2, chemical: 3, industrial: 3, software: 0, data: 1, it_support: 2, cybersecurity: 1 },
+  data:          { mechanical: 3, civil: 3, electrical: 3, chemical: 3, industrial: 2, software: 1, data: 0, it_support: 2, cybersecurity: 2 },
+  it_support:    { mechanical: 3, civil: 3, electrical: 2, chemical: 3, industrial: 3, software: 2, data: 2, it_support: 0, cybersecurity: 1 },
+  cybersecurity: { mechanical: 3, civil: 3, electrical: 2, chemical: 3, industrial: 3, software: 1, data: 2, it_support: 1, cybersecurity: 0 },
+}
+
+export function getEngineeringSubFamilyDistance(
+  jobSub: EngineeringSubFamily,
+  profileSub: EngineeringSubFamily
+): number {
+  if (!jobSub || !profileSub || jobSub === "other_engineering" || profileSub === "other_engineering") return 0
+  return ENGINEERING_SUBFAMILY_DISTANCE[jobSub]?.[profileSub] ?? 1
+}
+
 // ── Job title & company name extraction ─────────────────────────────────────
 
 function extractJobTitle(rawLines: string[]): string | null {
@@ -3126,6 +3543,8 @@ function extractJobTitle(rawLines: string[]): string | null {
   const sectionWords = /^(position overview|about|overview|description|summary|responsibilities|qualifications|requirements|key responsibilities|how to apply|benefits|compensation|job details|role overview|company description|job description|role description)\b/i
   for (const line of rawLines.slice(0, 10)) {
     let trimmed = line.trim()
+    // A bullet is a duty or requirement, never the title.
+    if (trimmed.startsWith("- ")) continue
     if (trimmed.length === 0 || trimmed.length > 120 || looksLikeLocation(trimmed)) continue
     // Strip "Title: " prefix if present
     trimmed = trimmed.replace(prefixStrip, "").trim()
@@ -3135,6 +3554,7 @@ function extractJobTitle(rawLines: string[]): string | null {
   // Second pass: first non-empty line that isn't a location or section header
   for (const line of rawLines.slice(0, 5)) {
     let trimmed = line.trim()
+    if (trimmed.startsWith("- ")) continue
     if (trimmed.length === 0 || trimmed.length > 120 || looksLikeLocation(trimmed)) continue
     trimmed = trimmed.replace(prefixStrip, "").trim()
     if (trimmed.length === 0 || sectionWords.test(trimmed)) continue
@@ -3206,9 +3626,14 @@ function extractCompanyName(rawText: string, rawLines: string[]): string | null
 }
 
 export function extractJobSignals(
-  jobTextRaw: string,
-  opts?: { userJobTitle?: string }
+  jobTextInput: string,
+  // trace: record which keyword / pattern produced each signal into
+  // signal_debug.attribution (debug runs and the regression harness).
+  opts?: { userJobTitle?: string; userCompanyName?: string; trace?: boolean }
 ): StructuredJobSignals {
+  // Pasted, URL-scraped and LLM-cleaned postings all pass through the same
+  // normalizer first, so they extract (and hash) identically.
+  const jobTextRaw = normalizeJobText(jobTextInput)
   const normalized = norm(jobTextRaw)
   const rawHash = stableHash(normalized)
   // Prepend the user-provided title (if any) so all the title-based
@@ -3229,7 +3654,7 @@ export function extractJobSignals(
   // requirement_units stream. The full raw body is still used by
   // ambient detectors (title family, training program, hourly, etc.)
   // later in this function.
-  const { filteredText: filteredJobText, droppedKinds } = filterJobTextToRequirements(jobTextRaw)
+  const { filteredText: filteredJobText, sections, droppedKinds } = filterJobTextToRequirements(jobTextRaw)
   if (droppedKinds.size > 0) {
     console.log(`[extract] Section filter dropped: ${Array.from(droppedKinds).join(", ")}`)
   }
@@ -3246,9 +3671,34 @@ export function extractJobSignals(
   const functionTags = mergedFunctionTags
   const requirementUnits = selectBestJobUnits(mergedJobUnits)
 
+  const extractionConfidence = computeExtractionConfidence({
+    wordCount: countWords(jobTextRaw),
+    requirementUnits: requirementUnits.length,
+    fallbackUsed: built.jobUnits.length === 0 && fallback.units.length > 0,
+    sectionsDetected: Array.from(new Set(sections.filter((sec) => sec.headerText !== null).map((sec) => sec.kind))),
+    titleDetected: Boolean(opts?.userJobTitle || jobTitle),
+    companyDetected: Boolean(opts?.userCompanyName || companyName),
+  })
+
+  const tracer = opts?.trace
+    ? createSignalTracer({ sections, userJobTitle: opts.userJobTitle, normalize: norm })
+    : null
+
+  // Family detectors run through ruleHit so a trace can show which title
+  // phrase won the cascade below. Defaults to the title slice.
+  const ruleMatches: Record<string, SignalAttributionMatch[]> = {}
+  const ruleHit = (rule: string, re: RegExp, text: string = jobTitleSlice): boolean => {
+    const m = re.exec(text)
+    if (m && tracer) (ruleMatches[rule] ||= []).push(tracer.locate(m[0].trim()))
+    return !!m
+  }
+
   // Law firm / legal ops context overrides family classification
-  const isLegalOpsContext =
-    /\b(law firm|legal operations|legal ops|in-house legal|general counsel|legal department|paralegal|legal team|legal staff|legal counsel)\b/i.test(normalized)
+  const isLegalOpsContext = ruleHit(
+    "isLegalOpsContext",
+    /\b(law firm|legal operations|legal ops|in-house legal|general counsel|legal department|paralegal|legal team|legal staff|legal counsel)\b/i,
+    normalized
+  )
 
   // Title-based family override — sparse postings often don't have enough body
   // text for tag-based classification to work correctly.
@@ -3264,28 +3714,28 @@ export function extractJobSignals(
     ? userTitleNorm + "\n" + normalized.slice(0, 1500)
     : normalized.slice(0, 1500)
   const jobTitleIsFinance =
-    /\b(finance intern|financial analyst|fp&a|fpa intern|fpa analyst|fpa associate|treasury analyst|treasury associate|treasury|investment banking|accounting intern|financial intern|finance associate|finance coordinator|corporate finance|financial planning|financial reporting|project finance|investor relations|investment analyst|investment associate|capital markets|private equity analyst|private equity associate|private equity|venture capital analyst|vc analyst|asset management analyst|asset management|portfolio analyst|portfolio associate|wealth management|wealth advisor|financial advisor|financial professional|financial consultant|financial planner|client associate|client service associate|advisor development|wealth relationship|relationship manager|series 7|finra|securities|broker dealer|credit analyst|credit associate|risk analyst|risk associate|controller|assistant controller|budget analyst|financial coordinator)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsFinance", /\b(finance intern|financial analyst|fp&a|fpa intern|fpa analyst|fpa associate|treasury analyst|treasury associate|treasury|investment banking|accounting intern|financial intern|finance associate|finance coordinator|corporate finance|financial planning|financial reporting|project finance|investor relations|investment analyst|investment associate|capital markets|private equity analyst|private equity associate|private equity|venture capital analyst|vc analyst|asset management analyst|asset management|portfolio analyst|portfolio associate|wealth management|wealth advisor|financial advisor|financial professional|financial consultant|financial planner|client associate|client service associate|advisor development|wealth relationship|relationship manager|series 7|finra|securities|broker dealer|credit analyst|credit associate|risk analyst|risk associate|controller|assistant controller|budget analyst|financial coordinator)\b/i)
   const jobTitleIsSales =
-    /\b(sales intern|account executive|account manager|business development|territory manager|sales representative|sales associate)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsSales", /\b(sales intern|account executive|account manager|business development|territory manager|sales representative|sales associate)\b/i)
 
   // Marketing title detection — prevents BD-support language in marketing roles
   // from triggering sales classification
   // Marketing title detection — matches both simple and compound titles
   // e.g. "Marketing Coordinator", "Marketing and Business Development Coordinator"
   const jobTitleIsMarketing =
-    /\b(marketing coordinator|marketing manager|marketing associate|marketing intern|marketing specialist|marketing director|marketing and business development|brand manager|brand coordinator|content manager|content coordinator|communications coordinator|communications manager|communications specialist|growth manager|product marketing|marketing operations|media coordinator|marketing analyst)\b/i.test(jobTitleSlice) ||
+    ruleHit("jobTitleIsMarketing", /\b(marketing coordinator|marketing manager|marketing associate|marketing intern|marketing specialist|marketing director|marketing and business development|brand manager|brand coordinator|content manager|content coordinator|communications coordinator|communications manager|communications specialist|growth manager|product marketing|marketing operations|media coordinator|marketing analyst)\b/i) ||
     // Compound: starts with Marketing + any other words + Coordinator/Manager/etc
-    /^marketing\b.{0,40}\b(coordinator|manager|associate|specialist|director|analyst)\b/i.test(jobTitleSlice.trim())
+    ruleHit("jobTitleIsMarketing", /^marketing\b.{0,40}\b(coordinator|manager|associate|specialist|director|analyst)\b/i, jobTitleSlice.trim())
 
   // Engineering / technical title detection
   const jobTitleIsEngineering =
-    /\b(structural engineer|civil engineer|mechanical engineer|electrical engineer|chemical engineer|environmental engineer|aerospace engineer|biomedical engineer|industrial engineer|manufacturing engineer|process engineer|design engineer|project engineer|field engineer|engineering intern|engineering co-?op|engineer i|engineer ii|engineer iii|staff engineer|structural analysis|structural design)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsEngineering", /\b(structural engineer|civil engineer|mechanical engineer|electrical engineer|chemical engineer|environmental engineer|aerospace engineer|biomedical engineer|industrial engineer|manufacturing engineer|process engineer|design engineer|project engineer|field engineer|engineering intern|engineering co-?op|engineer i|engineer ii|engineer iii|staff engineer|structural analysis|structural design)\b/i)
   const jobTitleIsSoftware =
-    /\b(software engineer|software developer|full stack|frontend engineer|backend engineer|devops engineer|sre|site reliability|data engineer|ml engineer|machine learning engineer|cloud engineer|ios developer|android developer|web developer|systems engineer)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsSoftware", /\b(software engineer|software developer|full stack|frontend engineer|backend engineer|devops engineer|sre|site reliability|data engineer|ml engineer|machine learning engineer|cloud engineer|ios developer|android developer|web developer|systems engineer)\b/i)
   const jobTitleIsHealthcare =
-    /\b(registered nurse|nurse practitioner|physician assistant|medical assistant|clinical nurse|lpn|rn|cna|dental hygienist|physical therapist|occupational therapist|respiratory therapist|pharmacist|pharmacy tech)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsHealthcare", /\b(registered nurse|nurse practitioner|physician assistant|medical assistant|clinical nurse|lpn|rn|cna|dental hygienist|physical therapist|occupational therapist|respiratory therapist|pharmacist|pharmacy tech)\b/i)
   const jobTitleIsTrades =
-    /\b(electrician|plumber|welder|hvac technician|carpenter|machinist|cnc operator|pipefitter|millwright|sheet metal worker|boilermaker|ironworker)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsTrades", /\b(electrician|plumber|welder|hvac technician|carpenter|machinist|cnc operator|pipefitter|millwright|sheet metal worker|boilermaker|ironworker)\b/i)
 
   // Strategy / business operations / chief of staff title detection.
   // These roles sit in an awkward zone: the body often mentions financial
@@ -3295,7 +3745,7 @@ export function extractJobSignals(
   // Consulting is the closest family in the current JobFamily type; a
   // dedicated Operations family would be better but is out of scope here.
   const jobTitleIsStrategyOps =
-    /\b(chief of staff|strategy (and|&) (business )?operations|business operations|business ops|strategy (and|&) operations|strategic operations|strategy manager|strategy director|strategy associate|strategy consultant|management consultant|management consulting|operations manager|operations director|director of operations|head of operations|vp of operations|business strategy|corporate strategy|internal operations|people operations|hr business partner|hrbp)\b/i.test(jobTitleSlice) ||
+    ruleHit("jobTitleIsStrategyOps", /\b(chief of staff|strategy (and|&) (business )?operations|business operations|business ops|strategy (and|&) operations|strategic operations|strategy manager|strategy director|strategy associate|strategy consultant|management consultant|management consulting|operations manager|operations director|director of operations|head of operations|vp of operations|business strategy|corporate strategy|internal operations|people operations|hr business partner|hrbp)\b/i) ||
     // "Associate to the Chairman / CEO / Founder / President" — these are
     // Chief-of-Staff archetype roles at founder-led or privately-held
     // companies. The title doesn't literally say "Chief of Staff" but the
@@ -3303,8 +3753,8 @@ export function extractJobSignals(
     // and strategic priorities, cross-functional project ownership, and
     // decision enablement. Route to Consulting family so CoS candidates
     // match them instead of falling through to accidental family inference.
-    /\b(associate|assistant|executive assistant|chief assistant) to the (chairman|ceo|founder|president|managing partner|executive chairman|chairwoman)\b/i.test(jobTitleSlice) ||
-    /\b(chairman|ceo|founder|president)'s (associate|assistant|right hand|chief of staff)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsStrategyOps", /\b(associate|assistant|executive assistant|chief assistant) to the (chairman|ceo|founder|president|managing partner|executive chairman|chairwoman)\b/i) ||
+    ruleHit("jobTitleIsStrategyOps", /\b(chairman|ceo|founder|president)'s (associate|assistant|right hand|chief of staff)\b/i)
 
   // Life sciences / chemistry / pharma lab titles. Route these to the
   // Engineering family because the scoring engine has no dedicated
@@ -3315,9 +3765,7 @@ export function extractJobSignals(
   // and misclassify as Marketing (from "research" / "communications"
   // keywords) or IT_Software (from "technical" / "analysis" keywords).
   const jobTitleIsLifeSciences =
-    /\b(scientist( i| ii| iii)?|chemist( i| ii| iii)?|biologist( i| ii| iii)?|biochemist|microbiologist|analytical scientist|analytical chemist|research scientist|research associate|laboratory (technician|scientist|analyst)|lab technician|lab analyst|quality control (analyst|scientist|chemist|technician)|qc analyst|qc chemist|qc scientist|qc technician|process development (scientist|engineer|associate)|formulation (scientist|chemist)|analytical development|bioinformatics|cell biologist|molecular biologist|clinical trials associate|clinical research associate|vaccines associate|pharmacology|toxicology)\b/i.test(
-      jobTitleSlice
-    )
+    ruleHit("jobTitleIsLifeSciences", /\b(scientist( i| ii| iii)?|chemist( i| ii| iii)?|biologist( i| ii| iii)?|biochemist|microbiologist|analytical scientist|analytical chemist|research scientist|research associate|laboratory (technician|scientist|analyst)|lab technician|lab analyst|quality control (analyst|scientist|chemist|technician)|qc analyst|qc chemist|qc scientist|qc technician|process development (scientist|engineer|associate)|formulation (scientist|chemist)|analytical development|bioinformatics|cell biologist|molecular biologist|clinical trials associate|clinical research associate|vaccines associate|pharmacology|toxicology)\b/i)
 
   // Cybersecurity / InfoSec titles. Route to IT_Software family because
   // the scoring engine has no dedicated security family and cybersecurity
@@ -3327,9 +3775,14 @@ export function extractJobSignals(
   // get misclassified as Marketing because their body text is heavy on
   // "communicate", "report", "analyze" language.
   const jobTitleIsCyberSecurity =
-    /\b(cyber security|cybersecurity|cyber intelligence|information security|info\s?sec|network security|application security|cloud security|security (engineer|analyst|architect|consultant|specialist|associate|operations|administrator|engineer ii|engineer i)|security operations center|soc analyst|threat intelligence analyst|penetration tester|pen tester|pentester|vulnerability analyst|grc analyst|siem|incident response|red team|blue team|ethical hacker|malware analyst|forensics analyst)\b/i.test(
-      jobTitleSlice
-    )
+    ruleHit("jobTitleIsCyberSecurity", /\b(cyber security|cybersecurity|cyber intelligence|information security|info\s?sec|network security|application security|cloud security|security (engineer|analyst|architect|consultant|specialist|associate|operations|administrator|engineer ii|engineer i)|security operations center|soc analyst|threat intelligence analyst|penetration tester|pen tester|pentester|vulnerability analyst|grc analyst|siem|incident response|red team|blue team|ethical hacker|malware analyst|forensics analyst)\b/i)
+
+  // IT support / administration titles. Same IT_Software family as
+  // software and security so the engineering sub-family split can tell a
+  // help desk role from a data engineering one. Without this, help desk
+  // JDs have no family signal and fall through to Other.
+  const jobTitleIsITSupport =
+    ruleHit("jobTitleIsITSupport", /\b(help ?desk|service desk|desktop support|it support|it technician|it specialist|systems? administrator|sysadmin|network administrator|network technician)\b/i)
 
   // Legal titles — in-house counsel, law firm roles, legal interns, and
   // compliance counsel all route to Legal family. Without this, Legal
@@ -3339,9 +3792,7 @@ export function extractJobSignals(
   // Covers both law-firm-side (associate, partner) and in-house-side
   // (counsel, general counsel) ladders.
   const jobTitleIsLegal =
-    /\b(legal intern|legal internship|legal counsel|general counsel|assistant general counsel|associate general counsel|corporate counsel|commercial counsel|compliance counsel|deputy general counsel|attorney|paralegal|law clerk|legal assistant|legal secretary|legal operations|legal ops|contracts (manager|counsel|attorney)|contract lifecycle management|clm specialist|legal analyst|legal associate|law firm associate|litigation (associate|partner|paralegal)|regulatory counsel|legal affairs|chief legal officer|cLo|privacy counsel|ip counsel|intellectual property counsel)\b/i.test(
-      jobTitleSlice
-    )
+    ruleHit("jobTitleIsLegal", /\b(legal intern|legal internship|legal counsel|general counsel|assistant general counsel|associate general counsel|corporate counsel|commercial counsel|compliance counsel|deputy general counsel|attorney|paralegal|law clerk|legal assistant|legal secretary|legal operations|legal ops|contracts (manager|counsel|attorney)|contract lifecycle management|clm specialist|legal analyst|legal associate|law firm associate|litigation (associate|partner|paralegal)|regulatory counsel|legal affairs|chief legal officer|cLo|privacy counsel|ip counsel|intellectual property counsel)\b/i)
 
   // HR / people leadership titles. Route to "Other" family (scoring
   // engine has no HR family) so they don't get matched as Consulting
@@ -3349,9 +3800,7 @@ export function extractJobSignals(
   // a "Director of Human Resources" JD matches any Consulting candidate
   // just because its body uses the word "operations".
   const jobTitleIsHR =
-    /\b(human resources|hr director|hr manager|hr coordinator|hr associate|hr generalist|hr specialist|hr analyst|hr intern|hrbp|hr business partner|director of (people|hr|human resources)|head of (people|hr|human resources)|chief (people|human resources) officer|people operations|people ops|talent acquisition|talent coordinator|talent development|recruiter|recruiting coordinator|compensation and benefits|compensation analyst|benefits coordinator|labor relations|employee relations|dei coordinator|learning and development|l&d coordinator|onboarding specialist)\b/i.test(
-      jobTitleSlice
-    )
+    ruleHit("jobTitleIsHR", /\b(human resources|hr director|hr manager|hr coordinator|hr associate|hr generalist|hr specialist|hr analyst|hr intern|hrbp|hr business partner|director of (people|hr|human resources)|head of (people|hr|human resources)|chief (people|human resources) officer|people operations|people ops|talent acquisition|talent coordinator|talent development|recruiter|recruiting coordinator|compensation and benefits|compensation analyst|benefits coordinator|labor relations|employee relations|dei coordinator|learning and development|l&d coordinator|onboarding specialist)\b/i)
 
   // PR / communications agency "account" titles. At a PR or comms
   // agency, "Account Coordinator / Executive / Supervisor / Director"
@@ -3363,26 +3812,52 @@ export function extractJobSignals(
   // unambiguous PR/comms agency context in the first 1500 chars so this
   // does not over-fire on genuine sales Account Executive roles.
   const hasAccountTitle =
-    /\b(account coordinator|account executive|account supervisor|account director|account manager)\b/i.test(jobTitleSlice)
+    ruleHit("hasAccountTitle", /\b(account coordinator|account executive|account supervisor|account director|account manager)\b/i)
   const hasPRCommsAgencyContext =
-    /\b(public relations|communications practice|pr agency|pr firm|communications agency|media relations|press release|press outreach|media pitch|media pitching|earned media|editorial placements|influencer relations|client communications|comms practice)\b/i.test(jobTitleSlice)
+    ruleHit("hasPRCommsAgencyContext", /\b(public relations|communications practice|pr agency|pr firm|communications agency|media relations|press release|press outreach|media pitch|media pitching|earned media|editorial placements|influencer relations|client communications|comms practice)\b/i)
   const jobTitleIsPRCommsAgency = hasAccountTitle && hasPRCommsAgencyContext
 
   const jobTitleIsOperations =
-    /\b(operations analyst|operations associate|operations coordinator|operations manager|operations specialist|operations intern|ops analyst|ops associate|supply chain analyst|supply chain coordinator|supply chain manager|logistics coordinator|logistics analyst|logistics manager|program coordinator|program manager|project coordinator|project manager|process analyst|process improvement|business operations|biz ops)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsOperations", /\b(operations analyst|operations associate|operations coordinator|operations manager|operations specialist|operations intern|ops analyst|ops associate|supply chain analyst|supply chain coordinator|supply chain manager|logistics coordinator|logistics analyst|logistics manager|program coordinator|program manager|project coordinator|project manager|process analyst|process improvement|business operations|biz ops)\b/i)
+
+  // Education, nonprofit, media, real estate and supply chain titles.
+  // These families had no title detectors and their body vocabulary is
+  // thin, so teacher / grant writer / production assistant postings fell
+  // through to tag inference and usually landed in Other or Operations.
+  const jobTitleIsEducation =
+    ruleHit("jobTitleIsEducation", /\b(teacher|lead teacher|assistant teacher|substitute teacher|student teacher|teaching assistant|teaching fellow|teach for america|paraprofessional|paraeducator|tutor|tutoring coordinator|classroom aide|instructional (aide|coach|designer)|curriculum (developer|designer|specialist|writer)|academic (advisor|coach|coordinator)|admissions counselor|school counselor|education coordinator|education specialist|early childhood educator|preschool)\b/i)
+
+  // Program titles are generic ("Program Coordinator" is also an ops
+  // title), so they only count with nonprofit context nearby.
+  // Fundraising / grants / volunteer titles are specific enough alone.
+  const jobTitleIsNonprofit =
+    ruleHit("jobTitleIsNonprofit", /\b(grant writer|grants (manager|coordinator|associate)|(?<!(business|product|software|estate|leadership|talent|organizational) )development (associate|coordinator|officer|assistant)|fundraising (coordinator|associate|manager)|annual giving|major gifts|donor relations|volunteer coordinator|volunteer manager|community organizer|americorps)\b/i) ||
+    (ruleHit("jobTitleIsNonprofit", /\b(program (coordinator|associate|assistant|manager|specialist)|case manager|outreach coordinator|advocacy (coordinator|associate))\b/i) &&
+      ruleHit("jobTitleIsNonprofit", /\b(nonprofit|non-profit|501\(c\)\(3\)|foundation|mission-driven|charitable)\b/i, normalized))
+
+  const jobTitleIsMedia =
+    ruleHit("jobTitleIsMedia", /\b(production assistant|associate producer|assistant producer|segment producer|field producer|post-production (coordinator|assistant|supervisor)|video editor|assistant editor|editorial assistant|news (assistant|producer|writer)|journalist|reporter|broadcast (associate|coordinator|technician)|talent (agency|agent) assistant|agent'?s assistant|casting (assistant|associate)|programming coordinator|a&r (coordinator|assistant))\b/i)
+
+  const jobTitleIsRealEstate =
+    ruleHit("jobTitleIsRealEstate", /\b(real estate (analyst|associate|agent|intern|coordinator|salesperson)|leasing (agent|consultant|associate|coordinator|professional|manager)|property manager|assistant property manager|property management (associate|coordinator)|realtor|title (examiner|officer|processor)|appraiser trainee|real estate development (analyst|associate))\b/i)
+
+  const jobTitleIsSupplyChain =
+    ruleHit("jobTitleIsSupplyChain", /\b(supply chain (analyst|coordinator|associate|planner|specialist|intern|manager)|logistics (coordinator|analyst|associate|specialist|intern|manager)|procurement (analyst|associate|specialist|coordinator)|purchasing (agent|coordinator|analyst|assistant)|demand planner|supply planner|inventory (analyst|planner|control specialist|coordinator)|materials planner|warehouse (supervisor|manager|operations)|distribution (analyst|coordinator|center supervisor)|transportation (analyst|coordinator|planner)|freight (coordinator|broker)|sourcing (analyst|specialist))\b/i)
 
   const jobTitleIsAnalytics =
-    /\b(data analyst|business analyst|business intelligence|bi analyst|bi developer|analytics analyst|analytics associate|analytics engineer|analytics coordinator|analytics intern|data scientist|quantitative analyst|quant analyst|research analyst|insights analyst|insights associate|reporting analyst|decision science)\b/i.test(jobTitleSlice)
+    ruleHit("jobTitleIsAnalytics", /\b(data analyst|business analyst|business intelligence|bi analyst|bi developer|analytics analyst|analytics associate|analytics engineer|analytics coordinator|analytics intern|data scientist|quantitative analyst|quant analyst|research analyst|insights analyst|insights associate|reporting analyst|decision science)\b/i)
 
   const jobTitleIsConsulting =
-    /\b(consultant|consulting analyst|management consultant|strategy consultant|associate consultant|business consultant|advisory analyst|advisory associate|strategy analyst|strategy associate|transformation analyst|change management|process consultant|implementation consultant)\b/i.test(jobTitleSlice)
-
-  // Seniority detection — check the first 300 chars (title line).
-  // Manager/Director/Senior/Lead/VP in the title signals a level above early-career.
-  const isSeniorRole =
-    /\b(senior|lead|manager|director|vp|vice president|head of|principal|associate director|associate manager)\b/i.test(
-      normalized.slice(0, 300)
-    )
+    ruleHit("jobTitleIsConsulting", /\b(consultant|consulting analyst|management consultant|strategy consultant|associate consultant|business consultant|advisory analyst|advisory associate|strategy analyst|strategy associate|transformation analyst|change management|process consultant|implementation consultant)\b/i)
+
+  // Seniority ladder — read from the title only (user-provided first), so
+  // "Senior Manager" in a reporting line or company blurb no longer marks
+  // the role senior. See ./seniority.
+  const seniority = titleSeniority(opts?.userJobTitle || jobTitle)
+  const isSeniorRole = isSeniorLevel(seniority.level)
+  if (seniority.evidence && tracer) {
+    tracer.record("seniority.level", seniority.level, "titleSeniority", [tracer.locate(seniority.evidence)])
+  }
 
   // Inject default finance units when title signals Finance but body extracted nothing finance-related
   if (jobTitleIsFinance) {
@@ -3434,55 +3909,86 @@ export function extractJobSignals(
   if (jobTitleIsPRCommsAgency && !functionTags.includes("communications_pr")) {
     functionTags.push("communications_pr")
   }
-  if (jobTitleIsCyberSecurity && !functionTags.includes("software_it")) {
+  if ((jobTitleIsCyberSecurity || jobTitleIsITSupport) && !functionTags.includes("software_it")) {
     functionTags.push("software_it")
   }
   if (jobTitleIsLegal && !functionTags.includes("legal_regulatory")) {
     functionTags.push("legal_regulatory")
   }
+  if (jobTitleIsEducation && !functionTags.includes("education_teaching")) {
+    functionTags.push("education_teaching")
+  }
+  if (jobTitleIsNonprofit && !functionTags.includes("nonprofit_program")) {
+    functionTags.push("nonprofit_program")
+  }
+  if (jobTitleIsMedia && !functionTags.includes("media_entertainment")) {
+    functionTags.push("media_entertainment")
+  }
+  if (jobTitleIsRealEstate && !functionTags.includes("real_estate")) {
+    functionTags.push("real_estate")
+  }
+  if (jobTitleIsSupplyChain && !functionTags.includes("supply_chain_logistics")) {
+    functionTags.push("supply_chain_logistics")
+  }
 
   const jobFamilyFromTags = familyFromFunctionTags(functionTags)
 
   // Family assignment cascade — title overrides beat tag-based inference.
   // Priority order: hard-field titles first, then business-field titles,
   // then tag-based fallback.
-  const jobFamily: JobFamily = jobTitleIsLegal
-    ? "Legal"
-    : isLegalOpsContext
-    ? "Other"
-    : jobTitleIsLifeSciences
-      ? "Engineering"
-      : jobTitleIsEngineering
-        ? "Engineering"
-        : jobTitleIsSoftware
-          ? "IT_Software"
-          : jobTitleIsCyberSecurity
-            ? "IT_Software"
-          : jobTitleIsHealthcare
-            ? "Healthcare"
-            : jobTitleIsTrades
-              ? "Trades"
-              : jobTitleIsHR
-                ? "HR"
-                : jobTitleIsPRCommsAgency
-                  ? "Marketing"
-                  : jobTitleIsMarketing
-                    ? "Marketing"
-                    : jobTitleIsConsulting
-                      ? "Consulting"
-                      : jobTitleIsStrategyOps
-                        ? "Consulting"
-                        : jobTitleIsFinance
-                          ? "Finance"
-                          : jobTitleIsAnalytics
-                            ? "Analytics"
-                            : jobTitleIsOperations
-                              ? "Operations"
-                              : jobTitleIsSales
-                                ? "Sales"
-                                : jobFamilyFromTags
-  const analytics = detectAnalytics(jobTextRaw, functionTags, requirementUnits)
-  const location = detectLocationMode(jobTextRaw)
+  const familyCascade: Array<{ rule: string; hit: boolean; family: JobFamily; from?: string[] }> = [
+    { rule: "jobTitleIsLegal", hit: jobTitleIsLegal, family: "Legal" },
+    { rule: "isLegalOpsContext", hit: isLegalOpsContext, family: "Other" },
+    { rule: "jobTitleIsLifeSciences", hit: jobTitleIsLifeSciences, family: "Engineering" },
+    { rule: "jobTitleIsEngineering", hit: jobTitleIsEngineering, family: "Engineering" },
+    { rule: "jobTitleIsSoftware", hit: jobTitleIsSoftware, family: "IT_Software" },
+    { rule: "jobTitleIsCyberSecurity", hit: jobTitleIsCyberSecurity, family: "IT_Software" },
+    { rule: "jobTitleIsITSupport", hit: jobTitleIsITSupport, family: "IT_Software" },
+    { rule: "jobTitleIsHealthcare", hit: jobTitleIsHealthcare, family: "Healthcare" },
+    { rule: "jobTitleIsTrades", hit: jobTitleIsTrades, family: "Trades" },
+    { rule: "jobTitleIsHR", hit: jobTitleIsHR, family: "HR" },
+    { rule: "jobTitleIsEducation", hit: jobTitleIsEducation, family: "Education" },
+    {
+      rule: "jobTitleIsPRCommsAgency",
+      hit: jobTitleIsPRCommsAgency,
+      family: "Marketing",
+      from: ["hasAccountTitle", "hasPRCommsAgencyContext"],
+    },
+    { rule: "jobTitleIsMarketing", hit: jobTitleIsMarketing, family: "Marketing" },
+    // Ahead of Consulting / StrategyOps / Operations, whose "operations
+    // manager" and "program coordinator" phrases would otherwise claim
+    // warehouse and nonprofit program titles.
+    { rule: "jobTitleIsMedia", hit: jobTitleIsMedia, family: "Media" },
+    { rule: "jobTitleIsSupplyChain", hit: jobTitleIsSupplyChain, family: "SupplyChain" },
+    { rule: "jobTitleIsNonprofit", hit: jobTitleIsNonprofit, family: "Nonprofit" },
+    { rule: "jobTitleIsRealEstate", hit: jobTitleIsRealEstate, family: "RealEstate" },
+    { rule: "jobTitleIsConsulting", hit: jobTitleIsConsulting, family: "Consulting" },
+    { rule: "jobTitleIsStrategyOps", hit: jobTitleIsStrategyOps, family: "Consulting" },
+    { rule: "jobTitleIsFinance", hit: jobTitleIsFinance, family: "Finance" },
+    { rule: "jobTitleIsAnalytics", hit: jobTitleIsAnalytics, family: "Analytics" },
+    { rule: "jobTitleIsOperations", hit: jobTitleIsOperations, family: "Operations" },
+    { rule: "jobTitleIsSales", hit: jobTitleIsSales, family: "Sales" },
+  ]
+  const familyRule = familyCascade.find((r) => r.hit)
+  const jobFamily: JobFamily = familyRule ? familyRule.family : jobFamilyFromTags
+  if (familyRule) {
+    tracer?.record(
+      "jobFamily",
+      jobFamily,
+      familyRule.rule,
+      (familyRule.from || [familyRule.rule]).flatMap((r) => ruleMatches[r] || [])
+    )
+  } else {
+    tracer?.record(
+      "jobFamily",
+      jobFamily,
+      "familyFromFunctionTags",
+      requirementUnits.filter((u) => u.functionTag).map((u) => tracer.locate(u.snippet)),
+      `function tags: ${functionTags.join(", ") || "none"}`
+    )
+  }
+  const analytics = detectAnalytics(jobTextRaw, functionTags, requirementUnits, tracer)
+  const location = detectLocationMode(jobTextRaw, tracer)
   const yearsRequired = extractYearsRequired(normalized)
   const gradYearHint = extractGradYearHint(normalized)
 
@@ -3493,18 +3999,22 @@ export function extractJobSignals(
   const hourlyKeywords = asStringArray((POLICY as any)?.extraction?.hourly?.keywords).map(norm)
 
   const mbaRequired = includesAny(normalized, mbaKeywords)
+  tracer?.phrases("mbaRequired", mbaRequired, "extraction.mba.keywords", mbaKeywords.filter((k) => includesPhrase(normalized, k)))
 
   // Bachelor's degree detection
-  const bachelorRequired =
-    /\b(bachelor'?s?\s*(degree)?|b\.?s\.?|b\.?a\.?)\s*(degree)?\s*(required|minimum|plus|and\s+above)/i.test(jobTextRaw) ||
-    /\brequires?\s+a?\s*(bachelor'?s?|undergraduate)\s*degree/i.test(jobTextRaw) ||
-    /\bdegree\s+required/i.test(jobTextRaw) ||
-    /\beducation[:\s]+bachelor/i.test(jobTextRaw) ||
-    /\bminimum\s+[^.]{0,30}bachelor/i.test(jobTextRaw) ||
-    /\bbachelor'?s?\s+(or\s+(higher|above|equivalent))/i.test(jobTextRaw)
-  const bachelorPreferred =
-    !bachelorRequired &&
-    /\bbachelor'?s?\s*(degree)?\s*preferred/i.test(jobTextRaw)
+  const bachelorRequiredPatterns: RegExp[] = [
+    /\b(bachelor'?s?\s*(degree)?|b\.?s\.?|b\.?a\.?)\s*(degree)?\s*(required|minimum|plus|and\s+above)/i,
+    /\brequires?\s+a?\s*(bachelor'?s?|undergraduate)\s*degree/i,
+    /\bdegree\s+required/i,
+    /\beducation[:\s]+bachelor/i,
+    /\bminimum\s+[^.]{0,30}bachelor/i,
+    /\bbachelor'?s?\s+(or\s+(higher|above|equivalent))/i,
+  ]
+  const bachelorPreferredPattern = /\bbachelor'?s?\s*(degree)?\s*preferred/i
+  const bachelorRequired = bachelorRequiredPatterns.some((re) => re.test(jobTextRaw))
+  const bachelorPreferred = !bachelorRequired && bachelorPreferredPattern.test(jobTextRaw)
+  if (bachelorRequired) tracer?.regex("bachelorRequired", true, "bachelorRequiredPatterns", jobTextRaw, bachelorRequiredPatterns)
+  if (bachelorPreferred) tracer?.regex("bachelorPreferred", true, "bachelorPreferredPattern", jobTextRaw, bachelorPreferredPattern)
 // Credential hard requirements
   const lawSchoolKeywords = asStringArray((POLICY as any)?.extraction?.credential?.lawSchoolKeywords).map(norm)
   const medSchoolKeywords = asStringArray((POLICY as any)?.extraction?.credential?.medSchoolKeywords).map(norm)
@@ -3666,7 +4176,8 @@ export function extractJobSignals(
     "training & certification",
   ]
 
-  function isCredentialSponsored(credKeywords: string[], text: string): boolean {
+  // First SPONSOR_PHRASES entry near a credential keyword, or null.
+  function sponsorPhraseNear(credKeywords: string[], text: string): string | null {
     const lower = text.toLowerCase()
     for (const kw of credKeywords) {
       const idx = lower.indexOf(kw.toLowerCase())
@@ -3675,9 +4186,14 @@ export function extractJobSignals(
       const windowStart = Math.max(0, idx - 200)
       const windowEnd = Math.min(lower.length, idx + kw.length + 200)
       const context = lower.slice(windowStart, windowEnd)
-      if (SPONSOR_PHRASES.some((sp) => context.includes(sp))) return true
+      const sponsor = SPONSOR_PHRASES.find((sp) => context.includes(sp))
+      if (sponsor) return sponsor
     }
-    return false
+    return null
+  }
+
+  function isCredentialSponsored(credKeywords: string[], text: string): boolean {
+    return sponsorPhraseNear(credKeywords, text) !== null
   }
 
   let credentialSponsored = false
@@ -3689,10 +4205,10 @@ export function extractJobSignals(
   // the Series requirement as a hard gate on these postings generates
   // false passes for every early-career candidate targeting wealth
   // management support roles.
-  const isSupportAssociateTitle =
-    /\b(client associate|service associate|relationship associate|wealth management associate|financial services associate|client service associate|branch associate|investment associate|advisor associate|registered client associate|registered service associate|sales associate|operations associate)\b/i.test(
-      jobTitleSlice
-    )
+  const isSupportAssociateTitle = ruleHit(
+    "isSupportAssociateTitle",
+    /\b(client associate|service associate|relationship associate|wealth management associate|financial services associate|client service associate|branch associate|investment associate|advisor associate|registered client associate|registered service associate|sales associate|operations associate)\b/i
+  )
   if (requiresFinraLicense && isSupportAssociateTitle) {
     credentialSponsored = true
   }
@@ -3795,24 +4311,71 @@ export function extractJobSignals(
     ? "social work license (LCSW/LMSW)"
     : null
 
+  if (tracer) {
+    const credentialLists: Array<{ signal: string; hit: boolean; rule: string; keywords: string[] }> = [
+      { signal: "requiresLawSchool", hit: requiresLawSchool, rule: "extraction.credential.lawSchoolKeywords", keywords: lawSchoolKeywords },
+      { signal: "requiresMedSchool", hit: requiresMedSchool, rule: "extraction.credential.medSchoolKeywords", keywords: medSchoolKeywords },
+      { signal: "requiresCPA", hit: requiresCPA, rule: "extraction.credential.cpaKeywords", keywords: cpaKeywords },
+      { signal: "requiresGradDegree", hit: requiresGradDegree, rule: "extraction.credential.graduateDegreeKeywords", keywords: gradDegreeKeywords },
+      { signal: "requiresFinraLicense", hit: requiresFinraLicense, rule: "extraction.credential.finraKeywords", keywords: finraKeywords },
+      { signal: "requiresInsuranceLicense", hit: requiresInsuranceLicense, rule: "extraction.credential.insuranceLicenseKeywords", keywords: insuranceLicenseKeywords },
+      { signal: "requiresRealEstateLicense", hit: requiresRealEstateLicense, rule: "extraction.credential.realEstateLicenseKeywords", keywords: realEstateLicenseKeywords },
+      { signal: "requiresTeachingCredential", hit: requiresTeachingCredential, rule: "extraction.credential.teachingCredentialKeywords", keywords: teachingCredentialKeywords },
+      { signal: "requiresPELicense", hit: requiresPELicense, rule: "extraction.credential.engineeringLicenseKeywords", keywords: engineeringLicenseKeywords },
+      { signal: "requiresCDL", hit: requiresCDL, rule: "extraction.credential.cdlKeywords", keywords: cdlKeywords },
+      { signal: "requiresCFA", hit: requiresCFA, rule: "extraction.credential.cfaKeywords", keywords: cfaKeywords },
+      { signal: "requiresCFP", hit: requiresCFP, rule: "extraction.credential.cfpKeywords", keywords: cfpKeywords },
+      { signal: "requiresPMP", hit: requiresPMP, rule: "extraction.credential.pmpKeywords", keywords: pmpKeywords },
+      { signal: "requiresSocialWorkLicense", hit: requiresSocialWorkLicense, rule: "extraction.credential.socialWorkLicenseKeywords", keywords: socialWorkKeywords },
+    ]
+    const fired = credentialLists.filter((c) => c.hit)
+    for (const c of fired) {
+      const hits = c.keywords.filter((k) => includesPhrase(normalized, k))
+      tracer.phrases(c.signal, true, c.rule, hits, hits.length ? undefined : "policy list empty; built-in pattern matched")
+    }
+    if (credentialSponsored && requiresFinraLicense && isSupportAssociateTitle) {
+      tracer.record("credentialSponsored", true, "isSupportAssociateTitle", ruleMatches.isSupportAssociateTitle)
+    } else if (credentialSponsored) {
+      const sponsor = sponsorPhraseNear(fired.flatMap((c) => c.keywords), normalized)
+      tracer.record("credentialSponsored", true, "SPONSOR_PHRASES", sponsor ? [tracer.locate(sponsor)] : [])
+    }
+    if (credentialRequired) {
+      tracer.record("credentialRequired", true, "requiresHardCredential", [], credentialDetail || undefined)
+    }
+  }
+
+  const governmentContextPattern =
+    /\b(federal government|state government|county government|city government|municipal government|public sector agency|government agency|department of|ministry of)\b/i
   const isGovernment =
     includesAny(normalized, govKeywords) ||
     functionTags.includes("government_cleared") ||
-    /\b(federal government|state government|county government|city government|municipal government|public sector agency|government agency|department of|ministry of)\b/i.test(normalized)
-
-  const explicitSalesEvidence =
-    requirementUnits.filter((u) =>
-      [
-        "prospecting_pipeline_management",
-        "account_management",
-        "territory_execution",
-        "crm_usage",
-        "post_sale_support",
-        "product_training_enablement",
-        "med_device_industry_knowledge",
-        "client_commercial_work",
-      ].includes(u.key)
-    ).length >= 2
+    governmentContextPattern.test(normalized)
+  if (tracer && isGovernment) {
+    tracer.phrases("isGovernment", true, "extraction.government.keywords", govKeywords.filter((k) => includesPhrase(normalized, k)))
+    if (functionTags.includes("government_cleared")) {
+      tracer.record(
+        "isGovernment",
+        true,
+        "government_cleared tag",
+        requirementUnits.filter((u) => u.functionTag === "government_cleared").map((u) => tracer.locate(u.snippet))
+      )
+    }
+    tracer.regex("isGovernment", true, "governmentContextPattern", normalized, governmentContextPattern)
+  }
+
+  const salesEvidenceUnits = requirementUnits.filter((u) =>
+    [
+      "prospecting_pipeline_management",
+      "account_management",
+      "territory_execution",
+      "crm_usage",
+      "post_sale_support",
+      "product_training_enablement",
+      "med_device_industry_knowledge",
+      "client_commercial_work",
+    ].includes(u.key)
+  )
+  const explicitSalesEvidence = salesEvidenceUnits.length >= 2
 
   // Hard sales keywords — quota, commission, closing, cold call are unambiguous
   // regardless of job title
@@ -3827,7 +4390,37 @@ export function extractJobSignals(
     : includesAny(normalized, salesKeywords) || explicitSalesEvidence
 
   const isContract = includesAny(normalized, contractKeywords)
-  const isHourly = includesAny(normalized, hourlyKeywords) || /\$\s*\d+(\.\d+)?\s*\/\s*(hr|hour)\b/i.test(jobTextRaw)
+  const hourlyRatePattern = /\$\s*\d+(\.\d+)?\s*\/\s*(hr|hour)\b/i
+  const isHourly = includesAny(normalized, hourlyKeywords) || hourlyRatePattern.test(jobTextRaw)
+
+  if (tracer) {
+    const hitsIn = (phrases: string[]) => phrases.filter((p) => includesPhrase(normalized, p))
+    if (jobTitleIsMarketing || jobTitleIsPRCommsAgency) {
+      tracer.phrases(
+        "isSalesHeavy",
+        isSalesHeavy,
+        "hardSalesKeywords",
+        hitsIn(hardSalesKeywords),
+        "marketing / PR-agency title: only hard sales keywords count"
+      )
+    } else if (isSalesHeavy) {
+      tracer.phrases("isSalesHeavy", true, "extraction.sales.keywords", hitsIn(salesKeywords))
+      if (explicitSalesEvidence) {
+        tracer.record(
+          "isSalesHeavy",
+          true,
+          "explicitSalesEvidence",
+          salesEvidenceUnits.map((u) => tracer.locate(u.snippet)),
+          salesEvidenceUnits.map((u) => u.key).join(", ")
+        )
+      }
+    }
+    tracer.phrases("isContract", isContract, "extraction.contract.keywords", hitsIn(contractKeywords))
+    if (isHourly) {
+      tracer.phrases("isHourly", true, "extraction.hourly.keywords", hitsIn(hourlyKeywords))
+      tracer.regex("isHourly", true, "hourlyRatePattern", jobTextRaw, hourlyRatePattern)
+    }
+  }
 
   const { required, preferred } = extractToolRequirements(jobTextRaw)
 
@@ -3842,26 +4435,28 @@ export function extractJobSignals(
   //
   // We require either an explicit program name OR structured training language
   // that is specific to the role, not generic company culture/benefits boilerplate.
-  const isTrainingProgram = (() => {
+  const trainingProgramPatterns: RegExp[] = [
     // Explicit program names — high confidence
-    if (/\b(development program|training program|rotational program|advisor development program|advisor training program|associate development program|associate training program|analyst program|scholar program|apprentice|apprenticeship)\b/i.test(jobTextLower)) return true
+    /\b(development program|training program|rotational program|advisor development program|advisor training program|associate development program|associate training program|analyst program|scholar program|apprentice|apprenticeship)\b/i,
     // Role-specific structured training language (not benefits boilerplate)
-    if (/\b(you will (learn|be trained|be taught|develop skills)|we('ll| will) (teach you|train you|prepare you)|dedicated (study|training) time|on-the-job (training|learning)|training is provided|hands.on training|will receive training|receive dedicated training|study time (for|to)|will sponsor.{0,20}(certification|license|series|finra|sie))\b/i.test(jobTextLower)) return true
+    /\b(you will (learn|be trained|be taught|develop skills)|we('ll| will) (teach you|train you|prepare you)|dedicated (study|training) time|on-the-job (training|learning)|training is provided|hands.on training|will receive training|receive dedicated training|study time (for|to)|will sponsor.{0,20}(certification|license|series|finra|sie))\b/i,
     // Credential sponsorship language — strong indicator of training program
-    if (/\b(sponsor.{0,15}(certification|license|series|finra|sie|nmls)|certification.{0,15}sponsor|we (provide|offer|cover).{0,20}(licensing|certification|training))\b/i.test(jobTextLower)) return true
+    /\b(sponsor.{0,15}(certification|license|series|finra|sie|nmls)|certification.{0,15}sponsor|we (provide|offer|cover).{0,20}(licensing|certification|training))\b/i,
     // Skills the candidate WILL gain as part of the role progression
-    if (/\bskills (you|they|we|our) (will|can) (develop|gain|build|learn)\b/i.test(jobTextLower)) return true
-    if (/\bgain (exposure|experience|skills) in\b/i.test(jobTextLower)) return true
+    /\bskills (you|they|we|our) (will|can) (develop|gain|build|learn)\b/i,
+    /\bgain (exposure|experience|skills) in\b/i,
     // No experience required language in entry-level context
-    if (/\bno (prior )?(experience|certification|license) (required|necessary|needed)\b/i.test(jobTextLower)) return true
-    return false
-  })()
+    /\bno (prior )?(experience|certification|license) (required|necessary|needed)\b/i,
+  ]
+  const isTrainingProgram = trainingProgramPatterns.some((re) => re.test(jobTextLower))
   if (isTrainingProgram) {
     console.log("[extract] Training program detected — aspirational skills will not be treated as hard requirements")
+    tracer?.regex("isTrainingProgram", true, "trainingProgramPatterns", jobTextLower, trainingProgramPatterns)
     // Training programs provide credentials as part of the role — never gate on them
     if (credentialRequired) {
       console.log("[extract] Suppressing credentialRequired for training program")
       credentialRequired = false
+      tracer?.record("credentialRequired", false, "isTrainingProgram", [], "suppressed: training program provides the credential")
     }
   }
 
@@ -3870,33 +4465,36 @@ export function extractJobSignals(
   // Used to detect mismatches with the candidate's stated role preferences.
 
   // Content/execution signals — coordinator, content, events, social, operations
-  const contentExecutionHits = [
+  const contentExecutionTerms = [
     "coordinate posts", "social media calendar", "content calendar",
     "develop content", "content creation", "social media content",
     "event coordination", "event planning", "event logistics",
     "manage social", "community management", "influencer",
     "blog content", "email newsletter", "graphic design",
     "canva", "copy", "copywriting",
-  ].filter(term => jobTextLower.includes(term)).length
+  ].filter(term => jobTextLower.includes(term))
+  const contentExecutionHits = contentExecutionTerms.length
 
   const isContentExecutionHeavy = contentExecutionHits >= 3
 
   // Analytical signals — data, research, measurement, modeling
-  const analyticalHits = [
+  const analyticalTerms = [
     "sql", "python", "tableau", "power bi", "data analysis",
     "statistical", "regression", "modeling", "quantitative",
     "market research", "consumer research", "survey", "a/b test",
     "attribution", "analytics", "reporting", "insights",
     "data-driven", "kpi", "metrics", "measurement",
-  ].filter(term => jobTextLower.includes(term)).length
+  ].filter(term => jobTextLower.includes(term))
+  const analyticalHits = analyticalTerms.length
 
   // Strategic signals — planning, brand, GTM, consulting
-  const strategicHits = [
+  const strategicTerms = [
     "brand strategy", "go-to-market", "gtm", "market strategy",
     "strategic planning", "competitive analysis", "positioning",
     "consulting", "advisory", "market entry", "business strategy",
     "product strategy", "growth strategy", "brand management",
-  ].filter(term => jobTextLower.includes(term)).length
+  ].filter(term => jobTextLower.includes(term))
+  const strategicHits = strategicTerms.length
 
   // Classify job archetype
   const jobArchetype: "analytical" | "strategic" | "execution" | "mixed" | "unclear" = (() => {
@@ -3911,17 +4509,18 @@ export function extractJobSignals(
 
   // ── Job industry detection ──────────────────────────────────────────────────
   // Detects the industry vertical of the role for interest alignment scoring
-  const jobIndustry: string | null = (() => {
-    if (/(nba|nfl|mlb|nhl|mls|sports league|athletic|espn|sports marketing|sports industry|professional sports|team sports)/i.test(jobTextLower)) return "sports"
-    if (/(entertainment|music industry|film|streaming|gaming|media entertainment)/i.test(jobTextLower)) return "entertainment"
-    if (/(fashion|luxury|beauty|lifestyle brand|apparel|footwear)/i.test(jobTextLower)) return "luxury/fashion"
-    if (/(consumer goods|cpg|fmcg|packaged goods|food and beverage|beverage brand)/i.test(jobTextLower)) return "consumer goods"
-    if (/(saas|software company|tech company|technology company|startup|fintech)/i.test(jobTextLower)) return "technology"
-    if (/(private equity|investment bank|asset management|hedge fund|venture capital)/i.test(jobTextLower)) return "finance"
-    if (/(healthcare company|hospital|health system|pharmaceutical|biotech)/i.test(jobTextLower)) return "healthcare"
-    if (/(real estate firm|property management|commercial real estate|reit)/i.test(jobTextLower)) return "real estate"
-    return null
-  })()
+  const jobIndustryPatterns: Array<[string, RegExp]> = [
+    ["sports", /(nba|nfl|mlb|nhl|mls|sports league|athletic|espn|sports marketing|sports industry|professional sports|team sports)/i],
+    ["entertainment", /(entertainment|music industry|film|streaming|gaming|media entertainment)/i],
+    ["luxury/fashion", /(fashion|luxury|beauty|lifestyle brand|apparel|footwear)/i],
+    ["consumer goods", /(consumer goods|cpg|fmcg|packaged goods|food and beverage|beverage brand)/i],
+    ["technology", /(saas|software company|tech company|technology company|startup|fintech)/i],
+    ["finance", /(private equity|investment bank|asset management|hedge fund|venture capital)/i],
+    ["healthcare", /(healthcare company|hospital|health system|pharmaceutical|biotech)/i],
+    ["real estate", /(real estate firm|property management|commercial real estate|reit)/i],
+  ]
+  const industryRule = jobIndustryPatterns.find(([, re]) => re.test(jobTextLower))
+  const jobIndustry: string | null = industryRule ? industryRule[0] : null
 
   if (jobArchetype !== "unclear") {
     console.log("[extract] Job archetype:", jobArchetype, "| Content hits:", contentExecutionHits, "| Analytical hits:", analyticalHits, "| Strategic hits:", strategicHits)
@@ -3929,6 +4528,17 @@ export function extractJobSignals(
   if (jobIndustry) {
     console.log("[extract] Job industry detected:", jobIndustry)
   }
+  if (tracer) {
+    const archetypeNote = `analytical ${analyticalHits}, strategic ${strategicHits}, execution ${contentExecutionHits}`
+    if (jobArchetype === "analytical") tracer.phrases("jobArchetype", jobArchetype, "analyticalTerms", analyticalTerms, archetypeNote)
+    if (jobArchetype === "strategic") tracer.phrases("jobArchetype", jobArchetype, "strategicTerms", strategicTerms, archetypeNote)
+    if (jobArchetype === "execution") tracer.phrases("jobArchetype", jobArchetype, "contentExecutionTerms", contentExecutionTerms, archetypeNote)
+    if (jobArchetype === "mixed") {
+      tracer.phrases("jobArchetype", jobArchetype, "analyticalTerms+strategicTerms+contentExecutionTerms", [...analyticalTerms, ...strategicTerms, ...contentExecutionTerms], archetypeNote)
+    }
+    if (isContentExecutionHeavy) tracer.phrases("isContentExecutionHeavy", true, "contentExecutionTerms", contentExecutionTerms)
+    if (industryRule) tracer.regex("jobIndustry", industryRule[0], `jobIndustryPatterns:${industryRule[0]}`, jobTextLower, industryRule[1])
+  }
 
   // Generic industry domain requirement detection — fires when a job explicitly
   // requires experience in a domain-specific industry that a generalist
@@ -4017,6 +4627,13 @@ export function extractJobSignals(
 
   if (requiresDomainIndustryExperience) {
     console.log("[extract] Domain industry experience requirement detected:", detectedDomain)
+    tracer?.record(
+      "requiresDomainIndustryExperience",
+      true,
+      "DOMAIN_INDUSTRY_TERMS",
+      [tracer.locate(domainMatch[0].trim())],
+      `domain: ${detectedDomain}`
+    )
   }
 
   // ── Advisory / consulting / banking background requirement ─────────────
@@ -4050,6 +4667,7 @@ export function extractJobSignals(
   // scoring layer to consume since the extractor only sees the JD side.
   if (requiresAdvisoryBackground) {
     console.log("[extract] Advisory/consulting/banking background requirement detected")
+    tracer?.regex("requiresAdvisoryBackground", true, "advisoryBackgroundPatterns", jobTextRaw, advisoryBackgroundPatterns)
   }
 
   // ── Financial modeling / valuations / public filings requirement ──────
@@ -4078,6 +4696,7 @@ export function extractJobSignals(
   )
   if (requiresFinancialModeling) {
     console.log("[extract] Financial modeling requirement detected")
+    tracer?.regex("requiresFinancialModeling", true, "financialModelingPatterns", jobTextRaw, financialModelingPatterns)
   }
 
   const reportingStrong = requirementUnits.some(
@@ -4087,7 +4706,7 @@ export function extractJobSignals(
 // Compute finance sub-family when job is Finance
   const jobFinanceSubFamily: import("./signals").FinanceSubFamily =
     jobFamily === "Finance"
-      ? inferJobFinanceSubFamily(normalized, requirementUnits, functionTags)
+      ? inferJobFinanceSubFamily(normalized, requirementUnits, functionTags, tracer)
       : null
 
   // Compute sales sub-family when job is Sales (or has sales_bd tag).
@@ -4096,7 +4715,17 @@ export function extractJobSignals(
   // sub-segment (medical device) we want to distinguish.
   const jobSalesSubFamily: import("./signals").SalesSubFamily =
     jobFamily === "Sales" || functionTags.includes("sales_bd")
-      ? inferJobSalesSubFamily(jobTextRaw, userTitleNorm)
+      ? inferJobSalesSubFamily(jobTextRaw, userTitleNorm, tracer)
+      : null
+
+  const jobMarketingSubFamily: MarketingSubFamily =
+    jobFamily === "Marketing"
+      ? inferJobMarketingSubFamily(jobTextRaw, userTitleNorm, requirementUnits, tracer)
+      : null
+
+  const jobEngineeringSubFamily: EngineeringSubFamily =
+    jobFamily === "Engineering" || jobFamily === "IT_Software"
+      ? inferJobEngineeringSubFamily(jobTextRaw, userTitleNorm, tracer)
       : null
 
   // Territory-based role with no disclosed location. Pharmaceutical and
@@ -4126,6 +4755,47 @@ export function extractJobSignals(
       jobTextRaw
     )
 
+  const workAuth = extractWorkAuthSignals(jobTextRaw)
+  const gpa = extractGpaRequirement(jobTextRaw)
+  const internship = detectInternshipSignals(jobTextRaw)
+  const workConditions = extractWorkConditions(jobTextRaw)
+  const languages = extractLanguageRequirements(jobTextRaw, opts?.userJobTitle)
+  const employerType = extractEmployerType(jobTextRaw, { isGovernment })
+  if (tracer) {
+    if (workAuth.restriction !== "none") {
+      tracer.evidence("workAuth.restriction", workAuth.restriction, "extraction.workAuth", workAuth.evidence)
+    }
+    if (gpa.minimum != null) tracer.evidence("gpa.minimum", gpa.minimum, "extractGpaRequirement", gpa.evidence)
+    if (internship.isInternship) {
+      tracer.evidence("internship.isInternship", true, "extraction.internship.keywords", internship.evidence.internshipLine)
+    }
+    const { travel, shifts, relocation, physical } = workConditions
+    if (travel.percent !== null || travel.frequent) {
+      tracer.evidence("workConditions.travel", travel.percent ?? "frequent", "extractWorkConditions", travel.evidence)
+    }
+    if (shifts.patterns.length) {
+      tracer.evidence("workConditions.shifts", shifts.patterns.join(","), "extractWorkConditions", shifts.evidence)
+    }
+    if (relocation.required) tracer.evidence("workConditions.relocation", true, "extractWorkConditions", relocation.evidence)
+    if (physical.liftLbs !== null || physical.demands.length) {
+      tracer.evidence("workConditions.physical", physical.liftLbs ?? physical.demands.join(","), "extractWorkConditions", physical.evidence)
+    }
+    for (const l of languages) {
+      tracer.evidence("languages", `${l.language}:${l.required ? "required" : "preferred"}`, "extractLanguageRequirements", l.evidence)
+    }
+    for (const dim of ["model", "stage", "sector"] as const) {
+      const value = employerType[dim]
+      if (value) tracer.evidence(`employerType.${dim}`, value, "extractEmployerType", employerType.evidence[dim])
+    }
+    tracer.record(
+      "extractionConfidence.level",
+      extractionConfidence.level,
+      "computeExtractionConfidence",
+      [],
+      `score ${extractionConfidence.score}${extractionConfidence.reasons.length ? `; ${extractionConfidence.reasons.join(" ")}` : ""}`
+    )
+  }
+
 return {
     rawHash,
     jobTitle,
@@ -4133,6 +4803,8 @@ return {
     jobFamily,
     financeSubFamily: jobFinanceSubFamily,
     salesSubFamily: jobSalesSubFamily,
+    marketingSubFamily: jobMarketingSubFamily,
+    engineeringSubFamily: jobEngineeringSubFamily,
     // Territory-without-location and pharma-training-preference are
     // stashed on the signals object as any-typed properties consumed by
     // the scoring layer. They intentionally are not on StructuredJobSignals
@@ -4141,6 +4813,7 @@ return {
     ...(mentionsPharmaTraining ? { mentionsPharmaTraining: true } : {}),
     analytics,
     function_tags: functionTags,
+    extractionConfidence,
     signal_debug: {
       hits: mergedDebugHits,
       notes: [
@@ -4151,12 +4824,15 @@ return {
           ? "Weak-posting fallback extraction activated because no standard requirement units were detected."
           : "Standard extraction path used.",
       ],
+      ...(tracer ? { attribution: tracer.entries() } : {}),
     },
     location,
     isGovernment,
+    employerType,
     isSalesHeavy,
     isContract,
     isHourly,
+    pay: parsePay(jobTextRaw),
     yearsRequired,
     mbaRequired,
     bachelorRequired,
@@ -4164,10 +4840,15 @@ return {
     credentialRequired,
     credentialDetail,
     credentialSponsored,
+    workAuth,
+    workConditions,
+    languages,
     gradYearHint,
+    gpa,
     requiredTools: required,
     preferredTools: preferred,
     isSeniorRole: isSeniorRole,
+    seniority,
     isTrainingProgram: isTrainingProgram,
     requiresAECExperience: requiresAECExperience,
     requiresDomainIndustryExperience: requiresDomainIndustryExperience,
@@ -4181,7 +4862,7 @@ return {
     jobIndustry: jobIndustry,
     reportingSignals: { strong: reportingStrong },
     requirement_units: requirementUnits,
-    internship: detectInternshipSignals(jobTextRaw),
+    internship,
   }
 }
 
@@ -4208,6 +4889,9 @@ export function extractProfileSignals(
     constraints: defaultConstraintsFromText(profileTextRaw, wantsInternship),
     tools: extractedTools,
     gradYear: inferProfileGradYear(profileTextRaw),
+    languages: extractProfileLanguages(profileTextRaw),
+    employerPreferences: inferEmployerPreferences(profileTextRaw),
+    ...inferProfileGpa(profileTextRaw),
     degreeStatus: inferCandidateDegreeStatus(profileTextRaw, inferProfileGradYear(profileTextRaw), new Date().getFullYear()),
     yearsExperienceApprox: inferYearsExperienceApprox(profileTextRaw),
     statedInterests: {
@@ -4221,7 +4905,7 @@ export function extractProfileSignals(
   }
 
   const mergedTools = Array.from(
-    new Set([...(base.tools || []), ...((overrides?.tools || []).map(canonicalTool))])
+    new Set([...(base.tools || []), ...((overrides?.tools || []).map(canonicalToolId))])
   )
 
   const mergedTags = Array.from(
@@ -4258,14 +4942,16 @@ export function extractProfileSignals(
         ? overrides.profile_evidence_units
         : base.profile_evidence_units,
     gradYear: overrides?.gradYear ?? base.gradYear,
+    gpa: overrides?.gpa ?? base.gpa,
+    gpaListedOnResume: overrides?.gpaListedOnResume ?? base.gpaListedOnResume,
     statedInterests: overrides?.statedInterests || base.statedInterests,
     yearsExperienceApprox: overrides?.yearsExperienceApprox ?? base.yearsExperienceApprox,
   }
 
   // Infer finance sub-family from profile evidence when profile targets Finance
-  const profileFinanceFamilies = (merged.targetFamilies || []).map((f: string) => f.toLowerCase())
+  const profileTargetFamilies = (merged.targetFamilies || []).map((f: string) => f.toLowerCase())
   const profileFinanceSubFamily: import("./signals").FinanceSubFamily =
-    profileFinanceFamilies.includes("finance")
+    profileTargetFamilies.includes("finance")
       ? inferProfileFinanceSubFamily(
           normalized,
           merged.profile_evidence_units || []
@@ -4281,10 +4967,18 @@ export function extractProfileSignals(
     targetRolesRaw || null,
     profileTextRaw
   )
+  const marketingTargetSubsegments = inferMarketingSubsegments(targetRolesRaw || null)
+
+  const profileEngineeringSubFamily: EngineeringSubFamily =
+    profileTargetFamilies.includes("engineering") || profileTargetFamilies.includes("it_software")
+      ? inferProfileEngineeringSubFamily(targetRolesRaw, profileTextRaw)
+      : null
 
   return {
     ...merged,
     financeSubFamily: profileFinanceSubFamily,
+    ...(profileEngineeringSubFamily ? { engineeringSubFamily: profileEngineeringSubFamily } : {}),
     ...(salesTargetSubsegments.length > 0 ? { salesTargetSubsegments } : {}),
+    ...(marketingTargetSubsegments.length > 0 ? { marketingTargetSubsegments } : {}),
   }
 }
\ No newline at end of file
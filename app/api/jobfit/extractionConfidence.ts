@@ -0,0 +1,77 @@
+// FILE: app/api/jobfit/extractionConfidence.ts
+//
+// How much the extractor had to work with. A two-line posting or a page
+// of company boilerplate still produces a score — buildFallbackJobUnits
+// guesses requirement units from whatever lines there are — and that
+// score looks exactly as confident as one from a full JD.
+//
+// computeExtractionConfidence scores the extraction 0–100 from four
+// things the extractor already knows:
+//
+//   requirement units   up to 40  (fallback units count half)
+//   section headers     up to 20  (responsibilities, qualifications)
+//   text length         up to 25  (full marks at 300 words)
+//   title / company     up to 15
+//
+// Below LOW_CONFIDENCE_BELOW the result switches to the insufficient-
+// detail mode (see resolveDecisionChain and runJobFit): the student gets
+// guidance to paste the full posting instead of a decision band.
+
+import type { ExtractionConfidence } from "./signals"
+
+export type ExtractionConfidenceInputs = ExtractionConfidence["inputs"]
+
+// Thresholds on the 0–100 score.
+export const LOW_CONFIDENCE_BELOW = 40
+const HIGH_CONFIDENCE_FROM = 70
+
+const FULL_UNITS = 6
+const FULL_WORDS = 300
+
+export function countWords(text: string): number {
+  return String(text || "")
+    .split(/\s+/)
+    .filter((w) => /[a-z0-9]/i.test(w)).length
+}
+
+export function computeExtractionConfidence(inputs: ExtractionConfidenceInputs): ExtractionConfidence {
+  const reasons: string[] = []
+
+  const unitWeight = inputs.fallbackUsed ? 20 : 40
+  const unitPoints = (Math.min(inputs.requirementUnits, FULL_UNITS) / FULL_UNITS) * unitWeight
+  if (inputs.requirementUnits === 0) {
+    reasons.push("No concrete requirements or responsibilities could be read from the posting.")
+  } else if (inputs.fallbackUsed) {
+    reasons.push("Requirements were inferred from general text because the posting lists none explicitly.")
+  } else if (inputs.requirementUnits < 3) {
+    reasons.push(`Only ${inputs.requirementUnits} requirement${inputs.requirementUnits === 1 ? "" : "s"} could be read from the posting.`)
+  }
+
+  const hasResponsibilities = inputs.sectionsDetected.includes("responsibilities")
+  const hasQualifications = inputs.sectionsDetected.includes("qualifications")
+  const sectionPoints = (hasResponsibilities ? 10 : 0) + (hasQualifications ? 10 : 0)
+  if (!hasResponsibilities && !hasQualifications) {
+    reasons.push("No responsibilities or qualifications section was found.")
+  }
+
+  const lengthPoints = (Math.min(inputs.wordCount, FULL_WORDS) / FULL_WORDS) * 25
+  if (inputs.wordCount < FULL_WORDS / 2) {
+    reasons.push(`The posting is short (${inputs.wordCount} words).`)
+  }
+
+  const identityPoints = (inputs.titleDetected ? 10 : 0) + (inputs.companyDetected ? 5 : 0)
+  if (!inputs.titleDetected) reasons.push("No job title was found.")
+
+  const score = Math.round(unitPoints + sectionPoints + lengthPoints + identityPoints)
+  const level = score >= HIGH_CONFIDENCE_FROM ? "high" : score >= LOW_CONFIDENCE_BELOW ? "medium" : "low"
+
+  return { score, level, reasons, inputs }
+}
+
+export function insufficientDetailGuidance(confidence: ExtractionConfidence): string {
+  const what = confidence.inputs.wordCount < FULL_WORDS / 2 ? "a short snippet" : "mostly company or benefits text"
+  return (
+    `This posting looks like ${what}, so there is not enough detail to judge your fit. ` +
+    "Paste the full job description — responsibilities and qualifications included — and run JobFit again."
+  )
+}
@@ -0,0 +1,161 @@
+// FILE: app/api/jobfit/gpa.ts
+//
+// GPA minimums — ported from the V1 engine's hardGates GPA rule into the
+// live pipeline.
+//
+// Job side: "3.5+ GPA required", "minimum GPA of 3.3", "GPA 3.0 or
+// higher preferred". A minimum is required unless its own line softens
+// it (preferred / ideally / a plus) — banking and consulting postings
+// list GPA cutoffs without saying "required" and still screen on them.
+//
+// Profile side: the intake "GPA:" answer wins; otherwise the resume. We
+// also record whether the resume itself lists a GPA, because recruiters
+// screen the resume, not our intake form.
+//
+// V1 semantics kept: below a required minimum blocks; a missing GPA does
+// not (it becomes a risk the student can fix by adding it).
+
+import type { StructuredJobSignals, StructuredProfileSignals } from "./signals"
+
+const GPA_VALUE = String.raw`([1-4]\.\d{1,2})`
+
+// Each pattern captures the minimum in group 1.
+const JOB_GPA_PATTERNS: RegExp[] = [
+  new RegExp(String.raw`\b(?:minimum|min\.?)\s+(?:cumulative\s+|overall\s+|undergraduate\s+)?gpa\s*(?:of|:|requirement of)?\s*${GPA_VALUE}`, "i"),
+  new RegExp(String.raw`\bgpa\s*(?:of\s*)?(?:at least|above|over|greater than|minimum of|no lower than|:)?\s*${GPA_VALUE}\s*(?:\+|or (?:higher|above|better|greater))`, "i"),
+  new RegExp(String.raw`\bgpa\s+(?:of\s+)?(?:at least|above|over|greater than|minimum of|no lower than)\s+${GPA_VALUE}`, "i"),
+  new RegExp(String.raw`${GPA_VALUE}\s*\+?\s*(?:\/\s*4\.0+\s*)?(?:cumulative\s+|overall\s+|undergraduate\s+)?gpa\b`, "i"),
+  new RegExp(String.raw`\bgpa\s+(?:requirement|required|minimum)\s*(?:of|:)?\s*${GPA_VALUE}`, "i"),
+]
+
+const PREFERRED_LINE = /\b(preferred|preferably|ideally|a plus|nice to have|desired|strongly encouraged)\b/i
+
+// Profile GPA: "GPA: 3.72", "3.6/4.0 GPA", "Cumulative GPA 3.5". Scales
+// other than 4.0 (5.0, 100, percentages) are ignored rather than converted.
+const PROFILE_GPA_PATTERNS: RegExp[] = [
+  new RegExp(String.raw`\b(?:cumulative\s+|overall\s+|major\s+)?gpa\s*[:\-–]?\s*${GPA_VALUE}(?!\s*\/\s*(?:5|10|100))`, "i"),
+  new RegExp(String.raw`${GPA_VALUE}\s*(?:\/\s*4(?:\.0+)?\s*)?(?:cumulative\s+|overall\s+)?gpa\b`, "i"),
+]
+
+function splitLines(text: string): string[] {
+  return String(text || "")
+    .split(/\n+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+function validGpa(n: number): boolean {
+  return Number.isFinite(n) && n >= 2.0 && n <= 4.0
+}
+
+export function extractGpaRequirement(jobTextRaw: string): StructuredJobSignals["gpa"] {
+  for (const line of splitLines(jobTextRaw)) {
+    for (const re of JOB_GPA_PATTERNS) {
+      const m = line.match(re)
+      if (!m) continue
+      const minimum = Number(m[1])
+      if (!validGpa(minimum)) continue
+      return {
+        minimum,
+        required: !PREFERRED_LINE.test(line),
+        evidence: line.slice(0, 240),
+      }
+    }
+  }
+  return { minimum: null, required: false, evidence: null }
+}
+
+export function parseGpa(raw: unknown): number | null {
+  const s = String(raw ?? "").trim()
+  if (!s) return null
+  const m = s.match(/([1-4](?:\.\d{1,2})?)/)
+  if (!m) return null
+  const scale = s.match(/\/\s*(\d+(?:\.\d+)?)/)
+  if (scale && Number(scale[1]) !== 4) return null
+  const n = Number(m[1])
+  return validGpa(n) ? n : null
+}
+
+function findGpa(text: string): number | null {
+  for (const re of PROFILE_GPA_PATTERNS) {
+    const m = String(text || "").match(re)
+    if (m && validGpa(Number(m[1]))) return Number(m[1])
+  }
+  return null
+}
+
+export function inferProfileGpa(
+  profileText: string
+): Pick<StructuredProfileSignals, "gpa" | "gpaListedOnResume"> {
+  const raw = String(profileText || "")
+  const marker = raw.match(/\n\s*(?:resume|resume_paste)\s*:/i)
+  const split = marker && marker.index != null ? marker.index : null
+  // Without a Resume: section there is no telling intake answers from
+  // resume text. A GPA found there still counts, but not as on the resume.
+  const header = split === null ? raw : raw.slice(0, split)
+  const resume = split === null ? "" : raw.slice(split)
+
+  const explicit = header.match(/^\s*gpa\s*:\s*([^\n]+)/im)
+  const fromIntake = explicit ? parseGpa(explicit[1]) : null
+  const fromResume = resume ? findGpa(resume) : null
+
+  return {
+    gpa: fromIntake ?? fromResume ?? (split === null ? findGpa(raw) : null),
+    gpaListedOnResume: fromResume !== null,
+  }
+}
+
+/* ------------------------------ comparison ------------------------------ */
+
+export type GpaIssue = {
+  kind: "below_minimum" | "not_listed"
+  blocking: boolean
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+export function gpaIssue(
+  requirement: StructuredJobSignals["gpa"] | undefined,
+  profile: Pick<StructuredProfileSignals, "gpa" | "gpaListedOnResume">
+): GpaIssue | null {
+  if (!requirement || requirement.minimum === null) return null
+  const min = requirement.minimum.toFixed(1)
+  const jobFact = requirement.evidence
+    ? `Posting states: "${requirement.evidence}"`
+    : `Posting lists a ${min} GPA minimum.`
+
+  if (profile.gpa === null || profile.gpa === undefined) {
+    return {
+      kind: "not_listed",
+      blocking: false,
+      jobFact,
+      profileFact: "Your resume does not list a GPA.",
+      detail: `The posting screens on a ${min}+ GPA and your resume does not list one. If yours clears the bar, add it; if not, expect an automated screen-out.`,
+    }
+  }
+
+  if (profile.gpa < requirement.minimum) {
+    return {
+      kind: "below_minimum",
+      blocking: requirement.required,
+      jobFact,
+      profileFact: `Your GPA is ${profile.gpa.toFixed(2)}.`,
+      detail: requirement.required
+        ? `This role requires a ${min}+ GPA. Your ${profile.gpa.toFixed(2)} is below the cutoff, and GPA screens are usually automated.`
+        : `The posting prefers a ${min}+ GPA. Your ${profile.gpa.toFixed(2)} is below that, so the rest of your application has to carry more weight.`,
+    }
+  }
+
+  if (!profile.gpaListedOnResume) {
+    return {
+      kind: "not_listed",
+      blocking: false,
+      jobFact,
+      profileFact: `Your GPA (${profile.gpa.toFixed(2)}) is not on your resume.`,
+      detail: `Your GPA clears the ${min} minimum but is not on your resume. Add it — screeners filter on what the resume shows.`,
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,292 @@
+// FILE: app/api/jobfit/languages.ts
+//
+// Spoken-language requirements — "bilingual Spanish/English required",
+// "fluent Mandarin a plus".
+//
+// Job side: extractLanguageRequirements only reads a language name that
+// is the object of a speaking phrase — "fluent in Spanish", "bilingual
+// English/Spanish", "Mandarin speaker". "Chinese market", "French Quarter
+// office" or "translate requirements for German clients" are not
+// requirements, and the level comes from that phrase alone. English is
+// never extracted — every posting assumes it.
+// A requirement is preferred when its own sentence softens it or it sits
+// under a "Preferred / Nice to have" header.
+//
+// Profile side: extractProfileLanguages reads a "Languages:" line or the
+// same speaking phrases as the job side, anywhere in the profile —
+// languages on the resume are the proof recruiters see.
+//
+// languageGaps compares the two: a match at the posted level is a WHY, a
+// required language with no proof is a high-severity risk, a lower level
+// or a missing preferred language is a softer one.
+
+import type {
+  LanguageProficiency,
+  LanguageRequirement,
+  ProfileLanguage,
+} from "./signals"
+
+// Canonical name -> aliases. Chinese matches Mandarin or Cantonese on the
+// other side (see sameLanguage).
+const LANGUAGES: Array<[string, RegExp]> = [
+  ["Spanish", /\bspanish\b/i],
+  ["Mandarin", /\bmandarin\b/i],
+  ["Cantonese", /\bcantonese\b/i],
+  ["Chinese", /\bchinese\b(?!\s+(?:market|markets|clients?|customers?|companies|government|new year))/i],
+  ["French", /\bfrench\b/i],
+  ["German", /\bgerman\b/i],
+  ["Portuguese", /\bportuguese\b/i],
+  ["Italian", /\bitalian\b/i],
+  ["Japanese", /\bjapanese\b/i],
+  ["Korean", /\bkorean\b/i],
+  ["Arabic", /\barabic\b/i],
+  ["Russian", /\brussian\b/i],
+  ["Hindi", /\bhindi\b/i],
+  ["Urdu", /\burdu\b/i],
+  ["Bengali", /\bbengali\b/i],
+  ["Punjabi", /\bpunjabi\b/i],
+  ["Gujarati", /\bgujarati\b/i],
+  ["Vietnamese", /\bvietnamese\b/i],
+  ["Tagalog", /\b(?:tagalog|filipino)\b/i],
+  ["Thai", /\bthai\b/i],
+  ["Polish", /\bpolish\b(?!\s+(?:and|your|the|our))/i],
+  ["Dutch", /\bdutch\b/i],
+  ["Greek", /\bgreek\b(?!\s+(?:life|organi[sz]ations?|letter))/i],
+  ["Turkish", /\bturkish\b/i],
+  ["Hebrew", /\bhebrew\b/i],
+  ["Persian", /\b(?:farsi|persian)\b/i],
+  ["Haitian Creole", /\b(?:haitian )?creole\b/i],
+  ["Swahili", /\bswahili\b/i],
+  ["Somali", /\bsomali\b/i],
+  ["ASL", /\b(?:asl|american sign language)\b/i],
+]
+
+// Any language name, English included, so "bilingual English/Spanish"
+// and "fluent in Spanish and Portuguese" read as one list.
+const LANGUAGE_WORD = String.raw`(?:english|${[
+  ...LANGUAGES.map(([name]) => name.toLowerCase()),
+  "farsi",
+  "filipino",
+  "creole",
+  "american sign language",
+].join("|")})`
+const LANGUAGE_LIST = String.raw`${LANGUAGE_WORD}(?:\s*(?:,|\/|&|\band\b|\bor\b)\s*${LANGUAGE_WORD})*`
+
+// The language has to follow the speaking word directly ("fluent in",
+// "native speaker of", "translate into") or be followed by one
+// ("Spanish-speaking", "Mandarin (fluent)", "Korean language skills").
+// "Native mobile app experience" and "verbal communication skills ... with
+// Japanese partners" name no language requirement.
+const SPEAKING_BEFORE = String.raw`(?:bilingual|multilingual|fluen(?:t|cy|tly)|proficien(?:t|cy)|speak(?:s|ing)?|speakers? of|spoken|native(?: speakers?(?: of)?)?|conversational|mother tongue|read(?:ing)?,? (?:and|&) writ(?:e|ing|ten)|written and (?:verbal|oral)|verbal and written|interpret(?:er|ing)?|translat(?:e|ing|or)(?: (?:from|into|to|between))?|communicat(?:e|ion|ing) in)`
+const SPEAKING_AFTER = String.raw`(?:languages?|speakers?|speaking|fluency|proficiency|native|fluent|bilingual|proficient|conversational|interpret(?:er|ing|ation)|translat(?:ion|or))`
+const SPEAKING_PHRASE_RE = new RegExp(
+  String.raw`\b${SPEAKING_BEFORE}(?:\s+(?:in|with|of|both|a|an|business|professional|working|level|skills?|abilit(?:y|ies)|capabilit(?:y|ies)|communication))*\s*\(?\s*${LANGUAGE_LIST}\b` +
+    String.raw`|\b${LANGUAGE_LIST}\s*(?:\(|-|–|,|:)?\s*${SPEAKING_AFTER}\b`,
+  "gi"
+)
+
+const PREFERRED_RE = /\b(?:preferred|a plus|plus|nice to have|ideally|desired|desirable|advantage(?:ous)?|bonus|helpful|beneficial|not required)\b/i
+
+const PREFERRED_HEADER_RE = /^(?:preferred|desired|bonus|nice[- ]to[- ]haves?|pluses)\b[a-z ]{0,40}:?$/i
+
+// Any other short line ending in a colon, or a known header, ends the
+// preferred block.
+const HEADER_RE = /^[A-Za-z][A-Za-z /&'-]{0,50}:$|^(?:required|minimum|basic|qualifications|requirements|responsibilities|benefits)\b[a-z ]{0,30}$/i
+
+const PROFICIENCY_RES: Array<[LanguageProficiency, RegExp]> = [
+  ["native", /\b(?:native|mother tongue|heritage speaker|first language)\b/i],
+  ["fluent", /\b(?:fluen(?:t|cy|tly)|bilingual|full professional)\b/i],
+  ["professional", /\b(?:professional(?: working)? proficiency|proficien(?:t|cy)|business[- ]level|advanced)\b/i],
+  ["conversational", /\b(?:conversational|intermediate|limited working)\b/i],
+  ["basic", /\b(?:basic|elementary|beginner|some knowledge|learning)\b/i],
+]
+
+const PROFICIENCY_RANK: Record<LanguageProficiency, number> = {
+  native: 5,
+  fluent: 4,
+  professional: 3,
+  conversational: 2,
+  basic: 1,
+  unspecified: 0,
+}
+
+function splitSentences(text: string): string[] {
+  return String(text || "")
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+function languagesIn(text: string): string[] {
+  return LANGUAGES.filter(([, re]) => re.test(text)).map(([name]) => name)
+}
+
+function proficiencyIn(text: string): LanguageProficiency {
+  for (const [level, re] of PROFICIENCY_RES) if (re.test(text)) return level
+  return "unspecified"
+}
+
+// Each language a sentence says someone speaks, with the level read from
+// its own phrase.
+function spokenLanguagesIn(sentence: string): Array<{ language: string; proficiency: LanguageProficiency }> {
+  const out: Array<{ language: string; proficiency: LanguageProficiency }> = []
+  for (const [phrase] of sentence.matchAll(SPEAKING_PHRASE_RE)) {
+    const proficiency = proficiencyIn(phrase)
+    for (const language of languagesIn(phrase)) out.push({ language, proficiency })
+  }
+  return out
+}
+
+/* ------------------------------ job side ------------------------------ */
+
+export function extractLanguageRequirements(jobTextRaw: string, jobTitle?: string): LanguageRequirement[] {
+  const out = new Map<string, LanguageRequirement>()
+  let inPreferredBlock = false
+
+  const lines = [String(jobTitle || "").trim(), ...String(jobTextRaw || "").split(/\n+/)]
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/^[\s•*·\-–]+/, "").trim()
+    if (!line) continue
+    if (PREFERRED_HEADER_RE.test(line)) {
+      inPreferredBlock = true
+      continue
+    }
+    if (HEADER_RE.test(line)) inPreferredBlock = false
+
+    for (const sentence of splitSentences(line)) {
+      for (const { language, proficiency } of spokenLanguagesIn(sentence)) {
+        const required = !inPreferredBlock && !PREFERRED_RE.test(sentence)
+        const prev = out.get(language)
+        // Keep the strictest statement when a language appears twice.
+        if (
+          prev &&
+          (Number(prev.required) > Number(required) ||
+            (prev.required === required && PROFICIENCY_RANK[prev.proficiency] >= PROFICIENCY_RANK[proficiency]))
+        ) {
+          continue
+        }
+        out.set(language, { language, required, proficiency, evidence: sentence.slice(0, 240) })
+      }
+    }
+  }
+  return [...out.values()]
+}
+
+/* ------------------------------ profile side ------------------------------ */
+
+const LANGUAGES_LINE_RE = /^\s*(?:[-•*]\s*)?(?:spoken\s+)?languages?(?:\s+skills)?\s*:\s*(.+)$/i
+
+export function extractProfileLanguages(profileText: string): ProfileLanguage[] {
+  const text = String(profileText || "")
+  const resumeStart = text.search(/\n\s*(?:resume|resume_paste)\s*:/i)
+  const out = new Map<string, ProfileLanguage>()
+
+  const add = (language: string, proficiency: LanguageProficiency, evidence: string, offset: number) => {
+    const prev = out.get(language)
+    if (prev && PROFICIENCY_RANK[prev.proficiency] >= PROFICIENCY_RANK[proficiency]) return
+    out.set(language, {
+      language,
+      proficiency,
+      evidence: evidence.slice(0, 240),
+      source: resumeStart >= 0 && offset < resumeStart ? "profile" : "resume",
+    })
+  }
+
+  let offset = 0
+  for (const rawLine of text.split("\n")) {
+    const lineOffset = offset
+    offset += rawLine.length + 1
+    const line = rawLine.trim()
+    if (!line) continue
+
+    // "Languages: Spanish (native), French (conversational)" — each item
+    // carries its own level.
+    const listed = line.match(LANGUAGES_LINE_RE)
+    if (listed) {
+      for (const item of listed[1].split(/[,;|]|\band\b/i)) {
+        for (const language of languagesIn(item)) add(language, proficiencyIn(item), line, lineOffset)
+      }
+      continue
+    }
+
+    for (const sentence of splitSentences(line)) {
+      for (const { language, proficiency } of spokenLanguagesIn(sentence)) add(language, proficiency, sentence, lineOffset)
+    }
+  }
+  return [...out.values()]
+}
+
+/* ------------------------------ comparison ------------------------------ */
+
+export type LanguageGap = {
+  requirement: LanguageRequirement
+  match: ProfileLanguage | null
+  level: "match" | "below_level" | "missing"
+  jobFact: string
+  profileFact: string | null
+  detail: string
+}
+
+// An unstated job level still needs more than a classroom "basic".
+const DEFAULT_REQUIRED_RANK = PROFICIENCY_RANK.conversational
+// A profile language listed without a level counts as working knowledge.
+const DEFAULT_PROFILE_RANK = PROFICIENCY_RANK.professional
+
+function sameLanguage(a: string, b: string): boolean {
+  if (a === b) return true
+  const chinese = new Set(["Chinese", "Mandarin", "Cantonese"])
+  return (a === "Chinese" && chinese.has(b)) || (b === "Chinese" && chinese.has(a))
+}
+
+function levelText(level: LanguageProficiency): string {
+  return level === "unspecified" ? "" : `${level} `
+}
+
+export function languageGaps(
+  requirements: LanguageRequirement[] | null | undefined,
+  languages: ProfileLanguage[] | null | undefined
+): LanguageGap[] {
+  const out: LanguageGap[] = []
+  for (const req of requirements || []) {
+    const match = (languages || []).find((l) => sameLanguage(req.language, l.language)) || null
+    const jobFact = `Posting ${req.required ? "requires" : "prefers"} ${levelText(req.proficiency)}${req.language}.`
+
+    if (!match) {
+      out.push({
+        requirement: req,
+        match: null,
+        level: "missing",
+        jobFact,
+        profileFact: null,
+        detail: req.required
+          ? `The posting requires ${req.language} and your profile does not show it. If you speak it, list it with your level on your resume.`
+          : `${req.language} is a plus for this role and your profile does not show it.`,
+      })
+      continue
+    }
+
+    const needed = req.proficiency === "unspecified" ? DEFAULT_REQUIRED_RANK : PROFICIENCY_RANK[req.proficiency]
+    const have = match.proficiency === "unspecified" ? DEFAULT_PROFILE_RANK : PROFICIENCY_RANK[match.proficiency]
+    const profileFact = match.evidence
+    if (have >= needed) {
+      out.push({
+        requirement: req,
+        match,
+        level: "match",
+        jobFact,
+        profileFact,
+        detail: `You show ${levelText(match.proficiency)}${match.language}, which the posting ${req.required ? "requires" : "values"}.`,
+      })
+    } else {
+      out.push({
+        requirement: req,
+        match,
+        level: "below_level",
+        jobFact,
+        profileFact,
+        detail: `Your ${match.language} is listed as ${match.proficiency}; the posting asks for ${req.proficiency}. Expect it to be tested in the interview.`,
+      })
+    }
+  }
+  return out
+}
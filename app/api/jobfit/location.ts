@@ -0,0 +1,290 @@
+// FILE: app/api/jobfit/location.ts
+//
+// Job locations, remote eligibility regions and time-zone requirements,
+// plus the metro table both sides are matched through.
+//
+// Job side: extractJobLocations reads every metro a posting names, so "New
+// York, Chicago or Austin" is three locations, not whichever city the old
+// extractCity checked first. Remote restrictions ("Remote (US East Coast
+// only)", "must reside in Texas or Oklahoma") become remoteRegions, and
+// working-hours lines ("must work EST hours") become timeZones.
+//
+// Matching: a job location matches a preferred city when both resolve to
+// the same metro (Hoboken is New York, Cambridge, MA is Boston, Boca Raton
+// is South Florida), or when the preference is a state the metro is in.
+// Job locations are any-of — one acceptable city is enough.
+
+import type { WorkingTimeZone } from "./signals"
+
+type Metro = {
+  name: string
+  // Metros that cross state lines list every state they span.
+  states: string[]
+  tz: WorkingTimeZone
+  aliases: RegExp
+}
+
+// Ambiguous names (Portland, Phoenix, Charlotte the person, Cambridge UK)
+// need their state. Names that double as employers or teams carry a
+// negative lookahead.
+const METROS: Metro[] = [
+  {
+    name: "New York City",
+    states: ["NY", "NJ"],
+    tz: "ET",
+    aliases:
+      /\b(?:new york(?! (?:state|life|times|university|stock|post|magazine|yankees|mets|giants|jets|knicks|rangers|presbyterian))|nyc|manhattan|brooklyn|queens|bronx|jersey city|hoboken|newark)\b/,
+  },
+  {
+    name: "Boston",
+    states: ["MA"],
+    tz: "ET",
+    aliases: /\b(?:boston(?! (?:scientific|consulting|dynamics|red sox|celtics|bruins|college|university))|cambridge,? ma|somerville,? ma|waltham)\b/,
+  },
+  {
+    name: "Washington DC",
+    states: ["DC", "VA", "MD"],
+    tz: "ET",
+    aliases: /\b(?:washington,? d\.?c\.?|d\.c\.|arlington,? va|alexandria,? va|bethesda|reston|tysons|mclean)(?![a-z])/,
+  },
+  { name: "Philadelphia", states: ["PA", "NJ"], tz: "ET", aliases: /\b(?:philadelphia|philly|king of prussia|conshohocken)\b/ },
+  { name: "Pittsburgh", states: ["PA"], tz: "ET", aliases: /\bpittsburgh\b/ },
+  { name: "Baltimore", states: ["MD"], tz: "ET", aliases: /\bbaltimore\b/ },
+  { name: "Atlanta", states: ["GA"], tz: "ET", aliases: /\b(?:atlanta|alpharetta|sandy springs)\b/ },
+  { name: "Charlotte", states: ["NC"], tz: "ET", aliases: /\bcharlotte\b/ },
+  { name: "Raleigh-Durham", states: ["NC"], tz: "ET", aliases: /\b(?:raleigh|durham|research triangle|chapel hill)\b/ },
+  {
+    name: "Miami",
+    states: ["FL"],
+    tz: "ET",
+    aliases:
+      /\b(?:miami(?! (?:dolphins|heat|marlins|hurricanes|university))|south florida|fort lauderdale|ft\.? lauderdale|boca raton|west palm beach|coral gables|doral)\b/,
+  },
+  { name: "Tampa", states: ["FL"], tz: "ET", aliases: /\b(?:tampa(?! bay (?:buccaneers|lightning|rays))|st\.? petersburg,? fl|clearwater)\b/ },
+  { name: "Orlando", states: ["FL"], tz: "ET", aliases: /\borlando\b/ },
+  { name: "Jacksonville", states: ["FL"], tz: "ET", aliases: /\bjacksonville\b/ },
+  { name: "Ocala", states: ["FL"], tz: "ET", aliases: /\bocala\b/ },
+  { name: "Detroit", states: ["MI"], tz: "ET", aliases: /\bdetroit\b/ },
+  { name: "Chicago", states: ["IL"], tz: "CT", aliases: /\b(?:chicago(?! (?:bulls|bears|cubs|white sox|blackhawks|booth))|evanston|oak brook|schaumburg)\b/ },
+  { name: "Minneapolis", states: ["MN"], tz: "CT", aliases: /\b(?:minneapolis|st\.? paul|saint paul)\b/ },
+  { name: "St. Louis", states: ["MO"], tz: "CT", aliases: /\b(?:st\.? louis|saint louis)\b/ },
+  { name: "Nashville", states: ["TN"], tz: "CT", aliases: /\bnashville\b/ },
+  { name: "Austin", states: ["TX"], tz: "CT", aliases: /\b(?:austin|round rock)\b/ },
+  { name: "Dallas", states: ["TX"], tz: "CT", aliases: /\b(?:dallas|fort worth|plano|irving,? tx|frisco,? tx)\b/ },
+  { name: "Houston", states: ["TX"], tz: "CT", aliases: /\b(?:houston|the woodlands|sugar land)\b/ },
+  { name: "Denver", states: ["CO"], tz: "MT", aliases: /\b(?:denver|boulder,? co)\b/ },
+  { name: "Salt Lake City", states: ["UT"], tz: "MT", aliases: /\bsalt lake city\b/ },
+  { name: "Phoenix", states: ["AZ"], tz: "MT", aliases: /\b(?:phoenix,? az|scottsdale|tempe)\b/ },
+  {
+    name: "Los Angeles",
+    states: ["CA"],
+    tz: "PT",
+    aliases: /\b(?:los angeles|la,? ca|santa monica|culver city|burbank|pasadena|long beach)\b/,
+  },
+  {
+    name: "San Francisco",
+    states: ["CA"],
+    tz: "PT",
+    aliases: /\b(?:san francisco|bay area|oakland|san jose|palo alto|mountain view|menlo park|sunnyvale|redwood city)\b/,
+  },
+  { name: "San Diego", states: ["CA"], tz: "PT", aliases: /\bsan diego\b/ },
+  { name: "Seattle", states: ["WA"], tz: "PT", aliases: /\b(?:seattle|bellevue,? wa|redmond,? wa|kirkland,? wa)\b/ },
+  { name: "Portland", states: ["OR"], tz: "PT", aliases: /\bportland,? (?:or|oregon)\b/ },
+]
+
+const STATES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA", colorado: "CO",
+  connecticut: "CT", delaware: "DE", florida: "FL", georgia: "GA", hawaii: "HI", idaho: "ID",
+  illinois: "IL", indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY", louisiana: "LA",
+  maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN", mississippi: "MS",
+  missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV", "new hampshire": "NH", "new jersey": "NJ",
+  "new mexico": "NM", "north carolina": "NC", "north dakota": "ND", ohio: "OH", oklahoma: "OK",
+  oregon: "OR", pennsylvania: "PA", "rhode island": "RI", "south carolina": "SC", "south dakota": "SD",
+  tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT", virginia: "VA", washington: "WA",
+  "west virginia": "WV", wisconsin: "WI", wyoming: "WY",
+}
+
+const STATE_NAME_RE = new RegExp(
+  String.raw`\b(${Object.keys(STATES)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})\b(?!,? d\.?c)`,
+  "g"
+)
+
+const TZ_OFFSET: Record<WorkingTimeZone, number> = { ET: -5, CT: -6, MT: -7, PT: -8 }
+
+function lower(s: string | null | undefined): string {
+  return String(s || "").toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+function sentences(text: string): string[] {
+  return String(text || "")
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+export function metroFor(place: string | null | undefined): Metro | null {
+  const t = lower(place)
+  if (!t) return null
+  return METROS.find((m) => m.aliases.test(t)) || null
+}
+
+function stateFor(place: string | null | undefined): string | null {
+  const t = lower(place).replace(/[.,]/g, "").trim()
+  if (!t) return null
+  if (STATES[t]) return STATES[t]
+  const abbr = t.toUpperCase()
+  return Object.values(STATES).includes(abbr) ? abbr : null
+}
+
+/* ------------------------------ job side ------------------------------ */
+
+const REMOTE_SCOPE_RE =
+  /\b(?:remote|work from home|wfh|must (?:reside|live|be located|be based)|(?:candidates?|applicants?) (?:located|based|residing) in|open to (?:candidates|applicants) in|eligible (?:states|locations))\b/i
+
+// Region words inside a remote / residency sentence.
+const REGION_RES: Array<[string, RegExp]> = [
+  ["US East", /\b(?:east coast|eastern (?:us|united states|half))\b/i],
+  ["US Central", /\b(?:midwest|central (?:us|united states))\b/i],
+  ["US West", /\b(?:west coast|pacific northwest|western (?:us|united states))\b/i],
+  // Uppercase only — "join us" is not a region.
+  ["US", /\b(?:US|U\.S\.?|USA)\b|\b[Uu]nited [Ss]tates\b/],
+  ["Canada", /\bcanada\b/i],
+  ["UK", /\bUK\b|\b[Uu]nited [Kk]ingdom\b/],
+  ["Europe", /\b(?:europe|emea|eu)\b/i],
+  ["LATAM", /\b(?:latam|latin america)\b/i],
+  ["APAC", /\bapac\b/i],
+]
+
+const TZ_CONTEXT_RE = /\b(?:time ?zones?|hours|overlap|schedule|available|working|remote)\b/i
+
+// [zone, abbreviation, spelled out]. Abbreviations are matched
+// case-sensitively so "est. 1998" does not read as Eastern time; bare
+// "CT"/"ET" are skipped entirely (Connecticut, "et al.").
+const TZ_RES: Array<[WorkingTimeZone, RegExp, RegExp]> = [
+  ["ET", /\b(?:EST|EDT)\b/, /\beastern (?:standard |daylight )?(?:time|hours)\b/i],
+  ["CT", /\b(?:CST|CDT)\b/, /\bcentral (?:standard |daylight )?(?:time|hours)\b/i],
+  ["MT", /\b(?:MST|MDT)\b/, /\bmountain (?:standard |daylight )?(?:time|hours)\b/i],
+  ["PT", /\b(?:PST|PDT)\b/, /\bpacific (?:standard |daylight )?(?:time|hours)\b/i],
+]
+
+export type JobLocations = {
+  cities: string[]
+  remoteRegions: string[]
+  timeZones: WorkingTimeZone[]
+}
+
+export function extractJobLocations(jobText: string): JobLocations {
+  const t = lower(jobText)
+
+  // Order of first appearance — the first city named is usually the
+  // primary one ("New York, Chicago or Austin").
+  const found: Array<{ name: string; at: number }> = []
+  for (const m of METROS) {
+    const re = new RegExp(m.aliases.source, "g")
+    const hit = re.exec(t)
+    if (hit) found.push({ name: m.name, at: hit.index })
+  }
+  const cities = found.sort((a, b) => a.at - b.at).map((f) => f.name)
+
+  const regions = new Set<string>()
+  const timeZones = new Set<WorkingTimeZone>()
+  for (const s of sentences(jobText)) {
+    if (REMOTE_SCOPE_RE.test(s)) {
+      for (const [label, re] of REGION_RES) if (re.test(s)) regions.add(label)
+      const sl = lower(s)
+      if (/\b(?:must|reside|located|based|live|eligible|states?)\b/.test(sl)) {
+        STATE_NAME_RE.lastIndex = 0
+        let m: RegExpExecArray | null
+        while ((m = STATE_NAME_RE.exec(sl)) !== null) regions.add(STATES[m[1]])
+      }
+    }
+    if (TZ_CONTEXT_RE.test(s)) {
+      for (const [tz, abbr, words] of TZ_RES) if (abbr.test(s) || words.test(s)) timeZones.add(tz)
+    }
+  }
+
+  // "US East" or a state list narrows "US"; the narrower one is the restriction.
+  if ([...regions].some((r) => r.startsWith("US ") || Object.values(STATES).includes(r))) regions.delete("US")
+  for (const r of regions) {
+    if (r === "US East") timeZones.add("ET")
+    if (r === "US West") timeZones.add("PT")
+  }
+
+  return { cities, remoteRegions: [...regions], timeZones: [...timeZones] }
+}
+
+/* ------------------------------ matching ------------------------------ */
+
+function samePlace(jobCity: string, preferred: string): boolean {
+  const jm = metroFor(jobCity)
+  const pm = metroFor(preferred)
+  if (jm && pm) return jm.name === pm.name
+  const ps = stateFor(preferred)
+  if (jm && ps) return jm.states.includes(ps)
+  return lower(jobCity).replace(/[.,]/g, "") === lower(preferred).replace(/[.,]/g, "")
+}
+
+// Any-of: the posting lists several acceptable locations and one match
+// is enough.
+export function locationsMatch(jobCities: Array<string | null | undefined>, preferred: string[]): boolean {
+  const jobs = jobCities.filter((c): c is string => typeof c === "string" && c.trim().length > 0)
+  const prefs = (preferred || []).filter((p) => typeof p === "string" && p.trim().length > 0)
+  return jobs.some((j) => prefs.some((p) => samePlace(j, p)))
+}
+
+function eligibleFor(region: string, metro: Metro): boolean {
+  if (region === "US") return true
+  if (region === "US East") return metro.tz === "ET"
+  if (region === "US Central") return metro.tz === "CT"
+  if (region === "US West") return metro.tz === "PT" || metro.tz === "MT"
+  if (/^[A-Z]{2}$/.test(region)) return metro.states.includes(region)
+  // Canada, UK, Europe, LATAM, APAC — the metro table is US only.
+  return false
+}
+
+export type LocationConflict = {
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+// Remote role with a residency restriction none of the preferred cities
+// satisfy. Returns null whenever a preferred place is not in the metro
+// table — we cannot tell where it is, so we do not flag it.
+export function remoteRegionConflict(
+  location: { mode: string; remoteRegions?: string[] } | null | undefined,
+  preferred: string[] | undefined
+): LocationConflict | null {
+  const regions = location?.remoteRegions || []
+  if (location?.mode !== "remote" || !regions.length || !preferred?.length) return null
+  const metros = preferred.map(metroFor)
+  if (metros.some((m) => m === null)) return null
+  if (metros.some((m) => regions.some((r) => eligibleFor(r, m as Metro)))) return null
+  return {
+    jobFact: `Remote role limited to ${regions.join(", ")}.`,
+    profileFact: `Your preferred locations are ${preferred.join(", ")}.`,
+    detail: "The posting is remote but only hires in regions that do not include your preferred locations.",
+  }
+}
+
+// Working-hours requirement two or more hours away from every preferred
+// location. One hour (ET vs CT) is workable and not flagged.
+export function timeZoneConflict(
+  location: { timeZones?: WorkingTimeZone[] } | null | undefined,
+  preferred: string[] | undefined
+): LocationConflict | null {
+  const zones = location?.timeZones || []
+  if (!zones.length || !preferred?.length) return null
+  const metros = preferred.map(metroFor)
+  if (metros.some((m) => m === null)) return null
+  const close = (metros as Metro[]).some((m) => zones.some((z) => Math.abs(TZ_OFFSET[z] - TZ_OFFSET[m.tz]) <= 1))
+  if (close) return null
+  const profileZones = Array.from(new Set((metros as Metro[]).map((m) => m.tz)))
+  return {
+    jobFact: `Posting expects ${zones.join("/")} working hours.`,
+    profileFact: `Your preferred locations are on ${profileZones.join("/")} time.`,
+    detail: "The required working hours are at least two hours off from where you want to be based.",
+  }
+}
@@ -0,0 +1,220 @@
+// FILE: app/api/jobfit/normalizeJobText.ts
+//
+// One normalization pass for job-description text, whichever way it came
+// in. Before this, parse-job-url stripped tags to spaces (flattening every
+// <li> into one run-on line), parse-job-text trusted whatever the LLM
+// returned, and extract.ts's cleanLine only knew about "•" and "·". The
+// same posting pasted from a browser and scraped from its URL therefore
+// produced different requirement units — and different fingerprints, so
+// the jobfit_runs cache treated them as two jobs.
+//
+// normalizeJobText runs, in order:
+//
+//   HTML → text        block tags and <br> become line breaks, <li> becomes
+//                      a "- " line, entities are decoded (twice-escaped
+//                      JSON-LD descriptions included)
+//   characters         NBSP / zero-width / soft hyphen, smart quotes, dashes
+//   de-hyphenation     "manage-\nment" → "management"
+//   bullets            •, ·, ▪, ◦, ●, ■, ➢, ➤, ►, ✓, *, – and numbered
+//                      markers at line start all become "- "; inline " • "
+//                      runs are split onto their own lines
+//   boilerplate        EEO / accommodation / E-Verify / privacy-notice
+//                      headings and sentences are dropped, not the whole
+//                      line they sit on, so a one-paragraph posting that
+//                      ends "...is an equal opportunity employer." keeps
+//                      its duties; sentences that also carry work-
+//                      authorization or pay language are kept because
+//                      workAuth.ts and pay.ts read them
+//   whitespace         trim each line, collapse runs of spaces, at most one
+//                      blank line between blocks and none inside a list
+//                      or under a heading
+//
+// The output is stable under a second pass (normalizeJobText(x) ===
+// normalizeJobText(normalizeJobText(x))), which is what lets the
+// fingerprint and extractJobSignals both call it without coordinating.
+// Non-empty input never normalizes to "": a posting that is nothing but
+// boilerplate comes back with the boilerplate kept.
+//
+// Bump JD_NORMALIZER_VERSION when a rule changes what the output looks
+// like; it is stamped into the fingerprint payload.
+
+import he from "he"
+
+export const JD_NORMALIZER_VERSION = "jdnorm-2"
+
+const BLOCK_TAG_RE =
+  /<\/?(p|div|section|article|header|footer|h[1-6]|ul|ol|table|tr|blockquote|pre|dl|dt|dd)\b[^>]*>/gi
+
+// A description that arrived entity-escaped ("&lt;p&gt;Duties&lt;/p&gt;",
+// common in JSON-LD) has to be decoded once before tags can be seen.
+const ESCAPED_TAG_RE = /&lt;\/?(p|div|br|ul|ol|li|strong|b|em|span|h[1-6])\b/i
+const HTML_TAG_RE = /<\/?(p|div|br|ul|ol|li|strong|b|em|span|h[1-6]|section|table)\b[^>]*>/i
+
+export function looksLikeHtml(text: string): boolean {
+  return HTML_TAG_RE.test(text) || ESCAPED_TAG_RE.test(text)
+}
+
+export function htmlToText(html: string): string {
+  let s = String(html || "")
+  if (ESCAPED_TAG_RE.test(s) && !HTML_TAG_RE.test(s)) s = he.decode(s)
+  s = s
+    .replace(/<(script|style|noscript|svg|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/li>/gi, "\n")
+    .replace(BLOCK_TAG_RE, "\n\n")
+    .replace(/<[^>]+>/g, "")
+  return he.decode(s)
+}
+
+// ── Character-level cleanup ──────────────────────────────────────────
+
+function normalizeCharacters(s: string): string {
+  return s
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, " ")
+    .replace(/[\u200b-\u200d\u2060\ufeff\u00ad]/g, "")
+    .replace(/[\u2018\u2019\u201b\u2032]/g, "'")
+    .replace(/[\u201c\u201d\u201f\u2033]/g, '"')
+    .replace(/[\u2010\u2011]/g, "-")
+    .replace(/\u2026/g, "...")
+    .replace(/\t/g, " ")
+}
+
+// "manage-\nment" → "management". Only lower-case on both sides, so a
+// line ending in a real compound ("full-\nTime") or a dash bullet is left
+// alone.
+function dehyphenate(s: string): string {
+  return s.replace(/([a-z])-[ ]*\n[ ]*([a-z])/g, "$1$2")
+}
+
+// ── Bullets ──────────────────────────────────────────────────────────
+
+const BULLET_CHARS = "•·▪▫◦●○■□➢➤►▶✓✔❖◆◇→–—*"
+const LEADING_BULLET_RE = new RegExp(`^[${BULLET_CHARS}-]+\\s*(?=\\S)`)
+const NUMBERED_RE = /^\(?(\d{1,2}|[a-z])[.)]\s+(?=[A-Za-z])/
+const INLINE_BULLET_RE = /\s+[•▪◦●■➢➤►✓✔]\s+/g
+
+function canonicalizeBullets(line: string): string[] {
+  // Split "Excel • SQL • Tableau"-style inline runs only when there are at
+  // least two separators; a single "·" is usually a location separator.
+  const inline = line.match(INLINE_BULLET_RE)
+  const parts = inline && inline.length >= 2 ? line.split(INLINE_BULLET_RE) : [line]
+  return parts.map((part, i) => {
+    const t = part.trim()
+    if (!t) return ""
+    if (LEADING_BULLET_RE.test(t)) return "- " + t.replace(LEADING_BULLET_RE, "")
+    if (NUMBERED_RE.test(t)) return "- " + t.replace(NUMBERED_RE, "")
+    return i > 0 ? "- " + t : t
+  })
+}
+
+// ── Boilerplate ──────────────────────────────────────────────────────
+
+const BOILERPLATE_HEADER_RE =
+  /^(equal (employment )?opportunity( employer)?( statement)?|eeo( statement)?|eeo\/aa|eoe|reasonable accommodations?|accommodations?|e-?verify|(applicant |candidate )?privacy (notice|policy)|diversity,? equity,? (and|&) inclusion statement)\s*:?$/i
+
+const BOILERPLATE_RES: RegExp[] = [
+  /\bequal (employment )?opportunity( and affirmative action)? employer\b/i,
+  /\b(is|are) (an? |proud(ly)? (to be )?an? )?equal (employment )?opportunity\b/i,
+  /\bwithout regard to (their )?(race|color|religion|sex|age|national origin|sexual orientation|gender)/i,
+  /\breasonable accommodations?\b.*\b(disabilit|application|hiring|interview)/i,
+  /\b(participates? in|uses?) e-?verify\b|\be-?verify (employer|participation)\b/i,
+  /\b(applicant|candidate|recruitment) privacy (notice|policy)\b/i,
+  /\bfair chance (ordinance|act|initiative)\b|\barrest (and|or) conviction records?\b/i,
+  /\bpay transparency non-?discrimination\b/i,
+  /\b(affirmative action|protected veterans?) (employer|status)\b/i,
+  /\bknow your rights\b.*\b(workplace|discrimination)\b/i,
+]
+
+// Sentences that share EEO language but still carry a signal the
+// extractor reads — sponsorship, citizenship, clearance, pay.
+const KEEP_RE =
+  /\b(sponsor(ship)?|visa|authori[sz](ed|ation) to work|work authori[sz]ation|citizen(ship)?|clearance|salary|pay range|base pay|compensation range|hourly rate|per hour)\b|\$\s?\d/i
+
+export function isBoilerplateLine(line: string): boolean {
+  const t = line.replace(/^- /, "").trim()
+  if (!t) return false
+  if (KEEP_RE.test(t)) return false
+  if (BOILERPLATE_HEADER_RE.test(t)) return true
+  return BOILERPLATE_RES.some((re) => re.test(t))
+}
+
+// A sentence ends at . ! or ? followed by a capitalized word.
+const SENTENCE_BREAK_RE = /(?<=[.!?])\s+(?=["'(]?[A-Z])/
+
+// The line with its boilerplate sentences removed; "" when nothing else
+// was on it.
+function stripBoilerplate(line: string): string {
+  const bullet = line.startsWith("- ") ? "- " : ""
+  const kept = line
+    .slice(bullet.length)
+    .split(SENTENCE_BREAK_RE)
+    .filter((s) => !isBoilerplateLine(s))
+  return kept.length ? bullet + kept.join(" ") : ""
+}
+
+// ── Entry points ─────────────────────────────────────────────────────
+
+// cheerio's .html() on a tag-free node still returns entities.
+const ENTITY_RE = /&(#\d+|#x[0-9a-f]+|[a-z]+);/i
+
+function decodeMarkup(s: string): string {
+  if (looksLikeHtml(s)) return htmlToText(s)
+  return ENTITY_RE.test(s) ? he.decode(s) : s
+}
+
+export function normalizeJobText(input: string): string {
+  let s = decodeMarkup(String(input || ""))
+  s = dehyphenate(normalizeCharacters(s))
+  return normalizeLines(s, true) || normalizeLines(s, false)
+}
+
+function normalizeLines(s: string, dropBoilerplate: boolean): string {
+  const out: string[] = []
+  for (const rawLine of s.split("\n")) {
+    const collapsed = rawLine.replace(/ {2,}/g, " ").trim()
+    if (!collapsed) {
+      out.push("")
+      continue
+    }
+    for (const part of canonicalizeBullets(collapsed)) {
+      const line = dropBoilerplate ? stripBoilerplate(part) : part
+      if (line) out.push(line)
+    }
+  }
+
+  return dropLayoutBlanks(out).join("\n").trim()
+}
+
+// Browsers and HTML block tags disagree about blank lines: a copied page
+// keeps list items and a heading's first paragraph tight, while <li> and
+// <h3>/<p> pairs come out of htmlToText with gaps. A blank line survives
+// only where it separates prose from what follows — never between two
+// bullets, after a heading-like line, or in a run.
+const HEADING_LIKE_RE = /^(?!- )\S+(\s+\S+){0,7}$/
+
+function dropLayoutBlanks(lines: string[]): string[] {
+  const out: string[] = []
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i]) {
+      out.push(lines[i])
+      continue
+    }
+    const prev = out[out.length - 1]
+    if (!prev) continue
+    const next = lines.slice(i + 1).find(Boolean)
+    if (!next) continue
+    if (prev.startsWith("- ") && next.startsWith("- ")) continue
+    if (HEADING_LIKE_RE.test(prev) && !/[.!?;,]$/.test(prev)) continue
+    out.push("")
+  }
+  return out
+}
+
+// Single-line fields (title, company, location, job type): same
+// character rules, no structure.
+export function cleanJobField(input: string): string {
+  return normalizeCharacters(decodeMarkup(String(input || ""))).replace(/\s+/g, " ").trim()
+}
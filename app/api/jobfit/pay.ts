@@ -0,0 +1,256 @@
+// FILE: app/api/jobfit/pay.ts
+//
+// Structured compensation for the live JobFit pipeline.
+//
+// Job side: parsePay turns "$22–$25/hour", "$65,000 - $75,000 per year",
+// "between $70,000 and $90,000", "$80K base", "$4,000/month", "$2,500 stipend" into min/max, currency,
+// basis, and an annualized range. extractPay in extract.ts still returns
+// the raw "$X/hr" string for the internship block; this is the parse
+// everything else should read.
+//
+// Profile side: inferPayFloor reads a minimum from the intake header
+// ("minimum salary $60k", "nothing under $20/hr"). Like work auth, the
+// resume body is not scanned — "managed a minimum $50K budget" is not a
+// salary requirement.
+//
+// Floors are compared in USD only. A floor stated against a GBP or EUR
+// posting is skipped rather than guessed at.
+
+import type { PayBasis, ProfileConstraints, StructuredPay } from "./signals"
+
+const HOURS_PER_YEAR = 2080
+
+const ANNUALIZE: Record<PayBasis, number | null> = {
+  hourly: HOURS_PER_YEAR,
+  weekly: 52,
+  monthly: 12,
+  annual: 1,
+  stipend: null,
+}
+
+// Plausible ranges per basis. Anything outside is a revenue figure, a
+// budget, or a parse error — not pay.
+const PLAUSIBLE: Record<PayBasis, [number, number]> = {
+  hourly: [7, 500],
+  weekly: [200, 10000],
+  monthly: [800, 50000],
+  annual: [15000, 2000000],
+  stipend: [100, 100000],
+}
+
+const CURRENCY = String.raw`(US\$|C\$|CA\$|\$|£|€|USD\s?|CAD\s?|GBP\s?|EUR\s?)`
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s?([kK])?`
+// "and" only separates a range after "between" — "$60,000 and $5,000" on
+// their own are two separate figures.
+const RANGE_SEPARATOR = String.raw`(?:\s?(?:-|–|—|to)\s?|(?<=\bbetween\s[^;]{0,25})\s?and\s+)`
+const PAY_RE = new RegExp(
+  String.raw`${CURRENCY}\s?${AMOUNT}(?:${RANGE_SEPARATOR}${CURRENCY}?\s?${AMOUNT})?`,
+  "g"
+)
+
+const PAY_CONTEXT = /\b(salary|pay|paid|compensation|wage|wages|rate|stipend|base|range|earn|ote|hourly|per hour)\b/i
+const NOT_PAY_CONTEXT = /\b(revenue|budget|portfolio|aum|assets|raised|funding|valuation|sales of|deals?|transactions?)\b/i
+
+function currencyCode(symbol: string): string {
+  const s = symbol.trim().toUpperCase()
+  if (s === "C$" || s === "CA$" || s === "CAD") return "CAD"
+  if (s === "£" || s === "GBP") return "GBP"
+  if (s === "€" || s === "EUR") return "EUR"
+  return "USD"
+}
+
+function toNumber(digits: string, k?: string): number {
+  const n = Number(String(digits).replace(/,/g, ""))
+  return k ? n * 1000 : n
+}
+
+function periodFrom(text: string): PayBasis | null {
+  const t = text.toLowerCase()
+  if (/^\s*(?:\/|per|an|a|each)\s*(?:hour|hr)\b|^\s*hourly\b/.test(t)) return "hourly"
+  if (/^\s*(?:\/|per|a|each)\s*(?:week|wk)\b|^\s*weekly\b/.test(t)) return "weekly"
+  if (/^\s*(?:\/|per|a|each)\s*(?:month|mo)\b|^\s*monthly\b/.test(t)) return "monthly"
+  if (/^\s*(?:\/|per|a|each)\s*(?:year|yr|annum)\b|^\s*(?:annually|annual|yearly|salary)\b/.test(t)) return "annual"
+  return null
+}
+
+function periodFromLine(line: string): PayBasis | null {
+  const t = line.toLowerCase()
+  if (/\b(per hour|hourly|an hour|\/hr|\/hour)\b/.test(t)) return "hourly"
+  if (/\b(per week|weekly)\b/.test(t)) return "weekly"
+  if (/\b(per month|monthly)\b/.test(t)) return "monthly"
+  if (/\b(per year|annual|annually|yearly|per annum|base salary)\b/.test(t)) return "annual"
+  if (/\bstipend\b/.test(t)) return "stipend"
+  return null
+}
+
+function basisFromMagnitude(n: number): PayBasis | null {
+  if (n >= PLAUSIBLE.hourly[0] && n <= 200) return "hourly"
+  if (n >= PLAUSIBLE.annual[0]) return "annual"
+  return null
+}
+
+function splitLines(text: string): string[] {
+  return String(text || "")
+    .split(/\n+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+function annualize(n: number | null, basis: PayBasis): number | null {
+  const factor = ANNUALIZE[basis]
+  if (n === null || factor === null) return null
+  return Math.round(n * factor)
+}
+
+export function parsePay(jobTextRaw: string): StructuredPay | null {
+  for (const line of splitLines(jobTextRaw)) {
+    PAY_RE.lastIndex = 0
+    let m: RegExpExecArray | null
+    while ((m = PAY_RE.exec(line)) !== null) {
+      const after = line.slice(m.index + m[0].length)
+      // "$5M", "$2 billion" — scale words mean this is not pay.
+      if (/^\s?(m|mm|b|bn|million|billion)\b/i.test(after)) continue
+
+      const lo = toNumber(m[2], m[3])
+      const hi = m[5] ? toNumber(m[5], m[6]) : null
+      // "$80-100K": the k on the upper bound applies to both.
+      const loScaled = hi !== null && m[6] && !m[3] && lo < 1000 ? lo * 1000 : lo
+
+      const explicit = periodFrom(after)
+      if (!explicit && !PAY_CONTEXT.test(line)) continue
+      if (!explicit && NOT_PAY_CONTEXT.test(line)) continue
+
+      const basis = explicit || periodFromLine(line) || basisFromMagnitude(hi ?? loScaled)
+      if (!basis) continue
+
+      const [floor, ceiling] = PLAUSIBLE[basis]
+      const min = Math.min(loScaled, hi ?? loScaled)
+      const max = Math.max(loScaled, hi ?? loScaled)
+      if (min < floor || max > ceiling) continue
+
+      const annualizedMin = annualize(min, basis)
+      const annualizedMax = annualize(max, basis)
+      const periodText = explicit ? (after.match(/^\s*\S+(?:\s+(?:hour|hr|week|wk|month|mo|year|yr|annum))?/)?.[0] || "") : ""
+
+      return {
+        min,
+        max,
+        currency: currencyCode(m[1]),
+        basis,
+        annualizedMin,
+        annualizedMax,
+        annualizedEstimate:
+          annualizedMin !== null && annualizedMax !== null ? Math.round((annualizedMin + annualizedMax) / 2) : null,
+        raw: (m[0] + periodText).trim(),
+        evidence: line.slice(0, 240),
+      }
+    }
+  }
+  return null
+}
+
+/* ------------------------------ profile side ------------------------------ */
+
+const FLOOR_RE = new RegExp(
+  String.raw`(?:minimum|min\.?|at least|no less than|not less than|nothing (?:under|below|less than)|(?:no|not) (?:\w+ )?(?:under|below|paying less than)|(?:salary|pay) floor(?: of)?)` +
+    String.raw`([^$\d\n]{0,30})(\$)?\s?${AMOUNT}`,
+  "gi"
+)
+
+export function inferPayFloor(profileText: string): Pick<ProfileConstraints, "minAnnualPay" | "minHourlyRate"> {
+  const out = { minAnnualPay: null as number | null, minHourlyRate: null as number | null }
+  const header = String(profileText || "").split(/\n\s*(?:resume|resume_paste)\s*:/i)[0]
+
+  FLOOR_RE.lastIndex = 0
+  let m: RegExpExecArray | null
+  while ((m = FLOOR_RE.exec(header)) !== null) {
+    const lead = m[1] || ""
+    const hasDollar = Boolean(m[2])
+    const n = toNumber(m[3], m[4])
+    const after = header.slice(m.index + m[0].length)
+    const explicit = periodFrom(after)
+    // "at least 3 days in office" — without a currency sign, a k suffix,
+    // an explicit period, or a pay word, the number is not a pay floor.
+    if (!hasDollar && !m[4] && !explicit && !PAY_CONTEXT.test(lead)) continue
+
+    const basis = explicit || basisFromMagnitude(n)
+    if (basis === "hourly" && out.minHourlyRate === null) out.minHourlyRate = n
+    else if (basis === "annual" && out.minAnnualPay === null) out.minAnnualPay = n
+    else if (basis === "monthly" && out.minAnnualPay === null) out.minAnnualPay = n * 12
+    else if (basis === "weekly" && out.minAnnualPay === null) out.minAnnualPay = n * 52
+  }
+  return out
+}
+
+/* ------------------------------ comparison ------------------------------ */
+
+export type PayShortfall = {
+  level: "below_floor" | "range_straddles_floor"
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+function money(n: number, currency: string): string {
+  const v = Number.isInteger(n) ? n.toLocaleString("en-US") : n.toFixed(2)
+  return currency === "USD" ? `$${v}` : `${currency} ${v}`
+}
+
+function describePay(pay: StructuredPay): string {
+  const unit = pay.basis === "hourly" ? "/hr" : pay.basis === "annual" ? "/yr" : pay.basis === "monthly" ? "/mo" : pay.basis === "weekly" ? "/wk" : " stipend"
+  const lo = pay.min ?? pay.max
+  const hi = pay.max ?? pay.min
+  if (lo === null || hi === null) return pay.raw
+  return lo === hi ? `${money(lo, pay.currency)}${unit}` : `${money(lo, pay.currency)}–${money(hi, pay.currency)}${unit}`
+}
+
+// Hourly postings compare against an hourly floor directly so a $20/hr
+// floor vs "$19.50/hr" does not drift through the 2080-hour conversion.
+// Everything else compares annualized.
+export function payShortfall(
+  pay: StructuredPay | null | undefined,
+  constraints: Partial<ProfileConstraints> | undefined
+): PayShortfall | null {
+  if (!pay || !constraints || pay.currency !== "USD") return null
+  const minHourly = constraints.minHourlyRate ?? null
+  const minAnnual = constraints.minAnnualPay ?? null
+  if (minHourly === null && minAnnual === null) return null
+
+  let top: number | null
+  let bottom: number | null
+  let floor: number
+  let floorText: string
+  if (pay.basis === "hourly" && minHourly !== null) {
+    top = pay.max
+    bottom = pay.min
+    floor = minHourly
+    floorText = `${money(minHourly, "USD")}/hr`
+  } else {
+    top = pay.annualizedMax
+    bottom = pay.annualizedMin
+    floor = minAnnual ?? (minHourly as number) * HOURS_PER_YEAR
+    floorText = minAnnual !== null ? `${money(minAnnual, "USD")}/yr` : `${money(minHourly as number, "USD")}/hr (~${money(floor, "USD")}/yr)`
+  }
+  if (top === null || bottom === null) return null
+
+  const jobFact = `Posting lists ${describePay(pay)}${pay.basis !== "annual" && pay.annualizedEstimate ? ` (~${money(pay.annualizedEstimate, "USD")}/yr)` : ""}.`
+  const profileFact = `Your minimum is ${floorText}.`
+
+  if (top < floor) {
+    return {
+      level: "below_floor",
+      jobFact,
+      profileFact,
+      detail: "The posted pay is below the minimum you set, even at the top of the range.",
+    }
+  }
+  if (bottom < floor) {
+    return {
+      level: "range_straddles_floor",
+      jobFact,
+      profileFact,
+      detail: "The bottom of the posted range is below your minimum. Offers for early-career hires usually land near the bottom.",
+    }
+  }
+  return null
+}
@@ -1,5 +1,7 @@
 // FILE: app/api/jobfit/policy.ts
 
+import { toolIdsForTier } from "./toolOntology"
+
 export type PenaltyKey =
   | "location_mismatch_constrained"
   | "sales_mismatch"
@@ -18,10 +20,17 @@ export type PenaltyKey =
   | "missing_ownership_scope_proof"
   | "credential_requirement_mismatch"
   | "finance_subfamily_mismatch"
+  | "engineering_subfamily_mismatch"
+  | "marketing_subsegment_mismatch"
   | "role_archetype_mismatch"
   | "content_role_conflict"
   | "degree_in_progress"
   | "degree_unknown"
+  | "work_authorization_mismatch"
+  | "pay_below_minimum"
+  | "gpa_below_minimum"
+  | "work_condition_conflict"
+  | "language_requirement_missing"
 
 export type Severity = 1 | 2 | 3 | 4 | 5
 
@@ -41,6 +50,7 @@ export type PenaltyPolicy = {
  * - extraction.years.patterns
  * - extraction.grad.patterns
  * - extraction.credential.*
+ * - extraction.workAuth.* (read by workAuth.ts)
  */
 export type ExtractionPolicy = {
   location: {
@@ -90,6 +100,14 @@ export type ExtractionPolicy = {
     pharmacyLicenseKeywords: string[]   // PharmD / pharmacy license
     physicalTherapyLicenseKeywords: string[] // PT license
   }
+  workAuth: {
+    citizenshipPhrases: string[]          // citizens only
+    clearancePhrases: string[]            // clearance implies citizenship
+    usPersonPhrases: string[]             // citizens + permanent residents (ITAR/EAR)
+    noSponsorshipPhrases: string[]
+    authRequiredPhrases: string[]         // "must be authorized to work" — silent on sponsorship
+    sponsorshipAvailablePhrases: string[]
+  }
 }
 
 export type JobFitPolicy = {
@@ -113,7 +131,7 @@ export type JobFitPolicy = {
   extraction: ExtractionPolicy
 }
 
-export const POLICY: JobFitPolicy = {
+export const BASE_POLICY: JobFitPolicy = {
   version: "jobfit_policy_v4_2026-03-14",
 
   score: {
@@ -235,6 +253,18 @@ export const POLICY: JobFitPolicy = {
       multiplier: 2.2,
       maxStackCount: 1,
     },
+    engineering_subfamily_mismatch: {
+      label: "Engineering / IT discipline mismatch (e.g. mechanical vs software)",
+      severity: 4,
+      multiplier: 2.2,
+      maxStackCount: 1,
+    },
+    marketing_subsegment_mismatch: {
+      label: "Marketing track mismatch (e.g. brand vs performance)",
+      severity: 3,
+      multiplier: 2.5,
+      maxStackCount: 1,
+    },
     role_archetype_mismatch: {
       label: "Role type mismatch with stated interests",
       severity: 3,
@@ -259,11 +289,42 @@ export const POLICY: JobFitPolicy = {
       multiplier: 2.0,
       maxStackCount: 1,
     },
+    work_authorization_mismatch: {
+      label: "Work authorization / visa sponsorship conflict",
+      severity: 5,
+      multiplier: 5.0,
+      maxStackCount: 1,
+    },
+    pay_below_minimum: {
+      label: "Pay below stated minimum",
+      severity: 4,
+      multiplier: 3.0,
+      maxStackCount: 1,
+    },
+    gpa_below_minimum: {
+      label: "GPA below posted minimum",
+      severity: 4,
+      multiplier: 3.2,
+      maxStackCount: 1,
+    },
+    work_condition_conflict: {
+      label: "Travel, schedule or physical demands near a stated limit",
+      severity: 3,
+      multiplier: 2.5,
+      maxStackCount: 2,
+    },
+    language_requirement_missing: {
+      label: "Required language not shown",
+      severity: 4,
+      multiplier: 3.0,
+      maxStackCount: 1,
+    },
   },
 
+  // Tiers live on the ontology entries (see ./toolOntology).
   tools: {
-    core: ["Excel", "SQL", "Python", "Tableau", "Power BI", "Google Analytics", "GA4"],
-    preferred: ["Looker", "Amplitude", "Mixpanel", "HubSpot", "Salesforce", "Marketo", "Klaviyo"],
+    core: toolIdsForTier("core"),
+    preferred: toolIdsForTier("preferred"),
   },
 
   bullets: {
@@ -279,6 +340,8 @@ export const POLICY: JobFitPolicy = {
       WHY_AI_TOOLS_MATCH: "The posting calls out AI tools, which aligns with your AI experience or training.",
       WHY_MARKETING_ROTATION_MATCH:
         "The internship spans multiple marketing functions, which fits broader brand work.",
+      WHY_LANGUAGE_MATCH: "You speak a language the posting asks for.",
+      WHY_EMPLOYER_TYPE_MATCH: "The employer is the kind of organization you said you want to work for.",
     },
     risk: {
       RISK_LOCATION: "Location or work setup looks misaligned with your stated constraints.",
@@ -297,6 +360,19 @@ export const POLICY: JobFitPolicy = {
         "The posting requires professional enrollment or credentials that are not present in your background.",
       RISK_MISSING_PROOF:
         "The role emphasizes capabilities where your profile does not yet show strong enough proof.",
+      RISK_WORK_AUTH: "The posting's work-authorization requirements may not fit your visa status.",
+      RISK_PAY_BELOW_MIN: "The posted pay is below the minimum you set.",
+      RISK_GPA_BELOW_MIN: "Your GPA is below the posting's stated minimum.",
+      RISK_GPA_NOT_LISTED: "The posting screens on GPA and your resume does not show one.",
+      RISK_TRAVEL: "The posting's travel may exceed the limit you set.",
+      RISK_SCHEDULE: "The posting's schedule touches hours you ruled out.",
+      RISK_RELOCATION: "The posting expects relocation, which you ruled out.",
+      RISK_LANGUAGE_REQUIRED: "The posting requires a language your profile does not show.",
+      RISK_LANGUAGE_LEVEL: "The posting asks for a higher language level than your profile shows.",
+      RISK_LANGUAGE_PREFERRED: "The posting prefers a language your profile does not show.",
+      RISK_EMPLOYER_TYPE: "The employer is a type of organization you ruled out or did not ask for.",
+      RISK_PHYSICAL: "The posting lists physical requirements that may conflict with your limits.",
+      RISK_TIMEZONE: "The required working hours are in a time zone well off from where you want to be based.",
     },
     pass: {
       GATE_GRAD_MISMATCH: "Pass. The posting is screening for a different graduation window.",
@@ -306,6 +382,13 @@ export const POLICY: JobFitPolicy = {
       GATE_CREDENTIAL_REQUIRED:
         "Pass. The posting requires a professional credential or enrollment (law school, medical school, CPA, bar admission) that the profile does not show.",
       GATE_HEAVY_ANALYTICS: "Pass. This is analytics-heavy and conflicts with your stated preferences.",
+      GATE_GPA_BELOW_MIN: "Pass. Your GPA is below the posting's required minimum.",
+      GATE_WORK_AUTH:
+        "Pass. The posting's sponsorship or citizenship requirements exclude your current work-authorization status.",
+      GATE_TRAVEL_LIMIT: "Pass. The posting's travel requirement is well above the limit you set.",
+      GATE_SCHEDULE_CONFLICT: "Pass. The posting's schedule requires shifts you ruled out.",
+      GATE_RELOCATION_REQUIRED: "Pass. The posting requires relocation and you said you will not relocate.",
+      GATE_PHYSICAL_DEMANDS: "Pass. The posting's physical requirements conflict with the limits you set.",
     },
   },
 
@@ -576,6 +659,153 @@ export const POLICY: JobFitPolicy = {
         "licensed physical therapist", "dpt required",
         "physical therapy license required",
       ],
-    }
+    },
+
+    workAuth: {
+      citizenshipPhrases: [
+        "u.s. citizenship required", "us citizenship required", "u.s. citizenship is required",
+        "us citizenship is required", "requires u.s. citizenship", "requires us citizenship",
+        "must be a u.s. citizen", "must be a us citizen", "must be us citizen",
+        "u.s. citizens only", "us citizens only", "open to u.s. citizens only",
+        "only u.s. citizens", "only us citizens",
+      ],
+      // Security / government wording only — a bare "clearance required"
+      // is as often medical or background clearance.
+      clearancePhrases: [
+        "active secret clearance", "secret clearance", "top secret clearance", "top secret/sci", "ts/sci",
+        "security clearance required", "security clearance is required", "active security clearance",
+        "government clearance", "government security clearance", "federal security clearance",
+        "ability to obtain a security clearance", "able to obtain a security clearance",
+        "obtain and maintain a security clearance", "eligible for a security clearance",
+      ],
+      usPersonPhrases: [
+        "u.s. person", "us person", "itar", "export control regulations",
+        "u.s. citizen or permanent resident", "us citizen or permanent resident",
+        "u.s. citizens or permanent residents", "us citizens or permanent residents",
+        "u.s. citizen or green card holder", "us citizen or green card holder",
+      ],
+      noSponsorshipPhrases: [
+        "will not sponsor", "unable to sponsor", "not able to sponsor", "cannot sponsor", "can not sponsor",
+        "do not sponsor", "does not sponsor", "not sponsor visas", "no visa sponsorship",
+        "no sponsorship", "sponsorship is not available", "sponsorship not available",
+        "not eligible for sponsorship", "not offer sponsorship", "not offer visa sponsorship",
+        "not provide sponsorship", "not provide visa sponsorship", "without sponsorship",
+        "without visa sponsorship", "without the need for sponsorship", "without the need for visa sponsorship",
+        "without requiring sponsorship", "without requiring visa sponsorship",
+        "require sponsorship now or in the future", "now or in the future require sponsorship",
+        "now or in the future require visa sponsorship", "will not require sponsorship",
+        "must not require sponsorship",
+      ],
+      authRequiredPhrases: [
+        "authorized to work in the united states", "authorized to work in the u.s.",
+        "authorized to work in the us", "legally authorized to work",
+        "eligible to work in the united states", "eligible to work in the u.s.", "eligible to work in the us",
+        "work authorization required", "valid work authorization",
+      ],
+      sponsorshipAvailablePhrases: [
+        "visa sponsorship available", "visa sponsorship is available", "sponsorship is available",
+        "sponsorship available", "will sponsor visas", "will sponsor h-1b", "h-1b sponsorship available",
+        "open to sponsoring", "we sponsor visas", "will provide visa sponsorship", "opt/cpt welcome",
+        "international students welcome",
+      ],
+    },
   },
-}
\ No newline at end of file
+}
+
+/* ------------------------------ overlays ------------------------------ */
+
+// Policy overlays (jobfit_policies table) let thresholds, multipliers, and
+// keyword lists change per cohort without a deploy. An overlay is a
+// partial JobFitPolicy deep-merged onto BASE_POLICY:
+//   - objects merge key by key
+//   - arrays REPLACE (a keyword list in an overlay is the whole list)
+//   - RegExp arrays (years/grad patterns) accept strings, compiled with "i"
+//   - keys that do not exist in BASE_POLICY are dropped with a warning, so
+//     a typo cannot silently become a no-op that looks applied
+//
+// Engine modules keep reading `POLICY`. It is a live binding that points
+// at BASE_POLICY except inside runWithPolicy, which swaps it for the
+// duration of a synchronous evaluation.
+
+export type PolicyOverlay = Record<string, unknown>
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === "object" && !Array.isArray(x) && !(x instanceof RegExp)
+}
+
+function mergeNode(base: unknown, overlay: unknown, path: string, dropped: string[]): unknown {
+  if (overlay === undefined) return base
+  if (Array.isArray(base)) {
+    if (!Array.isArray(overlay)) {
+      dropped.push(path)
+      return base
+    }
+    if (base.length > 0 && base[0] instanceof RegExp) {
+      return overlay.map((p) => (p instanceof RegExp ? p : new RegExp(String(p), "i")))
+    }
+    return overlay.slice()
+  }
+  if (isPlainObject(base)) {
+    if (!isPlainObject(overlay)) {
+      dropped.push(path)
+      return base
+    }
+    const out: Record<string, unknown> = { ...base }
+    for (const [k, v] of Object.entries(overlay)) {
+      if (!(k in base)) {
+        dropped.push(path ? `${path}.${k}` : k)
+        continue
+      }
+      out[k] = mergeNode(base[k], v, path ? `${path}.${k}` : k, dropped)
+    }
+    return out
+  }
+  if (base !== null && typeof overlay !== typeof base) {
+    dropped.push(path)
+    return base
+  }
+  return overlay
+}
+
+/**
+ * Deep-merge an overlay onto a base policy. `version` is stamped onto the
+ * result so every run records exactly which policy scored it.
+ */
+export function mergePolicyOverlay(
+  base: JobFitPolicy,
+  overlay: PolicyOverlay | null | undefined,
+  version: string
+): JobFitPolicy {
+  if (!overlay || Object.keys(overlay).length === 0) return { ...base, version }
+  const dropped: string[] = []
+  // version is owned by the table row, never by the overlay body
+  const rest = { ...overlay }
+  delete rest.version
+  const merged = mergeNode(base, rest, "", dropped) as JobFitPolicy
+  if (dropped.length > 0) {
+    console.warn(`[policy] overlay ${version} ignored unknown or mistyped keys:`, dropped.join(", "))
+  }
+  return { ...merged, version }
+}
+
+export let POLICY: JobFitPolicy = BASE_POLICY
+
+/**
+ * Run `fn` with `policy` as the active POLICY. `fn` must be synchronous —
+ * the swap is undone when it returns, so an awaited continuation would
+ * silently run against the base policy. A returned promise throws.
+ */
+export function runWithPolicy<T>(policy: JobFitPolicy | null | undefined, fn: () => T): T {
+  if (!policy || policy === POLICY) return fn()
+  const previous = POLICY
+  POLICY = policy
+  try {
+    const out = fn()
+    if (out && typeof (out as { then?: unknown }).then === "function") {
+      throw new Error("runWithPolicy: fn must be synchronous")
+    }
+    return out
+  } finally {
+    POLICY = previous
+  }
+}
@@ -29,6 +29,7 @@ import {
   runJobFitForProfile,
   JOBFIT_LOGIC_VERSION,
 } from "../_lib/runJobFitForProfile"
+import { ensureApplicationForCachedRun, recordJobFitRun } from "../_lib/jobfitApplications"
 
 import { TAXONOMY_V4_STAMP } from "../_v4/taxonomy"
 import { TYPES_V4_STAMP } from "../_v4/types"
@@ -216,6 +217,7 @@ export async function POST(req: NextRequest) {
       clientProfileId: profileId,
       effectiveProfileText: assembled.effectiveProfileText,
       profileOverrides: assembled.profileOverrides,
+      policyVersion: assembled.policy.policyVersion,
     })
 
     console.log("[jobfit/route] PRE-CACHE-CHECK:", { hasSupabase: !!supabase, forceRerun, hasRealProfileId, profileId, fingerprint_hash: fingerprint_hash?.slice(0, 12) })
@@ -250,77 +252,22 @@ export async function POST(req: NextRequest) {
           }
 
           // Ensure a signal_application exists even on cache hits
-          try {
-            let cachedCompany = String(cleaned?.job_signals?.companyName || "").trim()
-            let cachedTitle = String(cleaned?.job_signals?.jobTitle || "").trim()
-            const cachedLocation = String(cleaned?.job_signals?.location?.city || "").trim()
-            const cachedTitleFromUser = Boolean(userJobTitle)
-            const cachedCompanyFromUser = Boolean(userCompanyName)
-            if (!cachedTitleFromUser) {
-              cachedTitle = cachedTitle
-                .replace(
-                  /^(?:position\s+title|job\s+title|job\s+position|role\s+title|title|position|role|job)\s*[:\-–—]\s*/i,
-                  ""
-                )
-                .trim()
-            }
-            if (!cachedCompanyFromUser) {
-              cachedCompany = cachedCompany
-                .replace(
-                  /^(?:company\s+name|employer\s+name|company|employer|organization|organisation)\s*[:\-–—]\s*/i,
-                  ""
-                )
-                .trim()
-            }
-            const isGarbageCached = (s: string) => {
-              if (!s) return true
-              const t = s.trim().toLowerCase()
-              if (/^(position|about|overview|description|summary|responsibilities|qualifications|requirements|who we are|company description|job description|role description)$/i.test(t)) return true
-              if (/^about the (job|role|position|company|team)$/i.test(t)) return true
-              if (/^recruiting for/i.test(t)) return true
-              if (/^(apply|posted|deadline|date|salary|location|remote|hybrid)\s*[:]/i.test(t)) return true
-              return false
-            }
-            if (!cachedCompanyFromUser && isGarbageCached(cachedCompany)) cachedCompany = ""
-            if (!cachedTitleFromUser && isGarbageCached(cachedTitle)) cachedTitle = ""
-
-            let existingCachedApp: any = null
-            if (cachedCompany) {
-              const { data } = await supabase
-                .from("signal_applications")
-                .select("id")
-                .eq("profile_id", profileId)
-                .ilike("company_name", cachedCompany)
-                .ilike("job_title", cachedTitle || "")
-                .maybeSingle()
-              existingCachedApp = data
-            }
-
-            if (!existingCachedApp?.id) {
-              await supabase.from("signal_applications").insert({
-                profile_id: profileId,
-                company_name: cachedCompany || "(Unknown Company)",
-                job_title: cachedTitle || "(Unknown Role)",
-                location: cachedLocation || "",
-                job_url: userJobUrl,
-                signal_decision: String(cleaned?.decision || ""),
-                signal_score: (cleaned as any)?.score ?? null,
-                signal_run_at: new Date().toISOString(),
-                persona_id: personaId || null,
-                application_status: "saved",
-                interest_level: 1,
-              })
-              console.log("[jobfit/route] created application from cache hit:", cachedCompany || "(unknown)", cachedTitle || "(unknown)")
-            }
-          } catch (appErr: any) {
-            console.warn("[jobfit/route] cache-hit application create failed:", appErr?.message)
-          }
+          await ensureApplicationForCachedRun({
+            supabase,
+            profileId,
+            personaId,
+            jobUrl: userJobUrl,
+            result: cleaned,
+            userJobTitle,
+            userCompanyName,
+          })
 
           return withCorsJson(req, {
             ...(cleaned as any),
             fingerprint_code,
             fingerprint_hash,
             jobfit_logic_version: JOBFIT_LOGIC_VERSION,
+            policy_version: assembled.policy.policyVersion,
             reused: true,
             debug: { ...(cleaned as any)?.debug, cache_hit: true },
           })
@@ -351,157 +298,24 @@ export async function POST(req: NextRequest) {
     const profileVersionAtRun = pipelineResult.profileVersionAtRun
     const personaVersionAtRun = pipelineResult.personaVersionAtRun
 
+    // Persist the run and create/update the signal_applications row.
+    // Shared with /api/jobfit/batch via ../_lib/jobfitApplications.
     if (supabase && hasRealProfileId) {
-      try {
-        const { data: runRow, error: runInsertErr } = await supabase.from("jobfit_runs").insert({
-          client_profile_id: profileId,
-          job_url: userJobUrl,
-          fingerprint_hash,
-          fingerprint_code,
-          verdict: String((result as any)?.decision ?? (result as any)?.verdict ?? "unknown"),
-          result_json: result,
-          job_description: jobText,
-          persona_id: personaId || null,
-          profile_version_at_run: profileVersionAtRun,
-          persona_version_at_run: personaVersionAtRun,
-        }).select("id").single()
-
-        if (runInsertErr) {
-          console.warn("[jobfit/route] jobfit_runs insert failed:", runInsertErr.message)
-        }
-
-        // Auto-create or update signal_applications
-        const rawCompanyName = (result as any)?.job_signals?.companyName
-        const rawJobTitle = (result as any)?.job_signals?.jobTitle
-        const jobLocation = String((result as any)?.job_signals?.location?.city || "").trim()
-        let companyName = String(rawCompanyName || "").trim()
-        let jobTitle = String(rawJobTitle || "").trim()
-        const runId = runRow?.id || null
-
-        // User-provided values win unconditionally. If the caller supplied
-        // job_title / company_name explicitly, trust them and skip the
-        // prefix-cleaning and garbage-filter heuristics (those exist to
-        // scrub bad extractor output, not to second-guess the user).
-        const jobTitleFromUser = Boolean(userJobTitle)
-        const companyNameFromUser = Boolean(userCompanyName)
-
-        if (!jobTitleFromUser) {
-          // Strip common label prefixes. The compound forms ("position
-          // title", "job title") must come BEFORE the single-word forms
-          // so the longest match wins — otherwise "Position Title: X"
-          // would only strip "Position" and leave " Title: X" behind,
-          // which then trips the garbage filter below.
-          jobTitle = jobTitle
-            .replace(
-              /^(?:position\s+title|job\s+title|job\s+position|role\s+title|title|position|role|job)\s*[:\-–—]\s*/i,
-              ""
-            )
-            .trim()
-        }
-        if (!companyNameFromUser) {
-          companyName = companyName
-            .replace(
-              /^(?:company\s+name|employer\s+name|company|employer|organization|organisation)\s*[:\-–—]\s*/i,
-              ""
-            )
-            .trim()
-        }
-
-        // Garbage filter — catches strings that ARE section headers, not
-        // strings that happen to START with section-header words. The old
-        // implementation used `\b` after the keyword, which false-positived
-        // on legitimate titles like "Position Control Analyst". We now
-        // require the entire trimmed string to equal a bare header, or
-        // match one of the specific metadata-row patterns.
-        // Only applied to extractor output, never to user-provided values.
-        const isGarbage = (s: string) => {
-          if (!s) return true
-          const t = s.trim().toLowerCase()
-          if (/^(position|about|overview|description|summary|responsibilities|qualifications|requirements|who we are|company description|job description|role description)$/i.test(t)) return true
-          if (/^about the (job|role|position|company|team)$/i.test(t)) return true
-          if (/^recruiting for/i.test(t)) return true
-          // Metadata rows ("Apply:", "Posted: ...", "Salary: ..."), keyword
-          // must be followed by colon to qualify — we don't want to kill
-          // titles like "Remote Content Strategist".
-          if (/^(apply|posted|deadline|date|salary|location|remote|hybrid)\s*[:]/i.test(t)) return true
-          return false
-        }
-        if (!companyNameFromUser && isGarbage(companyName)) companyName = ""
-        if (!jobTitleFromUser && isGarbage(jobTitle)) jobTitle = ""
-
-        console.log("[jobfit/route] auto-application signals:", {
-          rawCompanyName, rawJobTitle, companyName, jobTitle, runId, profileId,
-          hasJobSignals: !!(result as any)?.job_signals,
-          jobSignalKeys: (result as any)?.job_signals ? Object.keys((result as any).job_signals).slice(0, 15) : [],
-        })
-
-        if (runId) {
-          let existingApp: any = null
-          if (companyName) {
-            const { data, error: lookupErr } = await supabase
-              .from("signal_applications")
-              .select("id")
-              .eq("profile_id", profileId)
-              .ilike("company_name", companyName)
-              .ilike("job_title", jobTitle || "")
-              .maybeSingle()
-
-            if (lookupErr) {
-              console.warn("[jobfit/route] application lookup failed:", lookupErr.message)
-            }
-            existingApp = data
-          }
-
-          if (existingApp?.id) {
-            const { error: updateErr } = await supabase.from("signal_applications").update({
-              signal_decision: String((result as any)?.decision || ""),
-              signal_score: (result as any)?.score ?? null,
-              signal_run_at: new Date().toISOString(),
-              jobfit_run_id: runId,
-              updated_at: new Date().toISOString(),
-            }).eq("id", existingApp.id)
-
-            if (updateErr) console.warn("[jobfit/route] application update failed:", updateErr.message)
-
-            await supabase.from("jobfit_runs").update({
-              application_id: existingApp.id,
-            }).eq("id", runId)
-
-            console.log("[jobfit/route] updated existing application:", existingApp.id)
-          } else {
-            const { data: newApp, error: createErr } = await supabase.from("signal_applications").insert({
-              profile_id: profileId,
-              company_name: companyName || "(Unknown Company)",
-              job_title: jobTitle || "(Unknown Role)",
-              location: jobLocation || "",
-              job_url: userJobUrl,
-              signal_decision: String((result as any)?.decision || ""),
-              signal_score: (result as any)?.score ?? null,
-              signal_run_at: new Date().toISOString(),
-              jobfit_run_id: runId,
-              persona_id: personaId || null,
-              application_status: "saved",
-              interest_level: 1,
-            }).select("id").single()
-
-            if (createErr) {
-              console.error("[jobfit/route] application create FAILED:", createErr.message, createErr.details, createErr.hint)
-            } else {
-              console.log("[jobfit/route] created new application:", newApp?.id)
-            }
-
-            if (newApp?.id) {
-              await supabase.from("jobfit_runs").update({
-                application_id: newApp.id,
-              }).eq("id", runId)
-            }
-          }
-        } else {
-          console.log("[jobfit/route] skipping auto-application:", { companyName: companyName || "(empty)", runId: runId || "(null)" })
-        }
-      } catch (e: any) {
-        console.warn("[jobfit/route] cache insert failed:", e?.message || String(e))
-      }
+      await recordJobFitRun({
+        supabase,
+        profileId,
+        personaId,
+        jobUrl: userJobUrl,
+        jobText,
+        result,
+        fingerprint_hash,
+        fingerprint_code,
+        profileVersionAtRun,
+        personaVersionAtRun,
+        policyVersion: pipelineResult.policy_version,
+        userJobTitle,
+        userCompanyName,
+      })
     }
 
     // Track successful run — use profileId as session_id for dedup
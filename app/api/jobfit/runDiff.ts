@@ -0,0 +1,384 @@
+// FILE: app/api/jobfit/runDiff.ts
+//
+// "Why did my score change?" — structured diff between two JobFit results.
+//
+// Inputs are two persisted result_json blobs (or one stored run and one
+// fresh evaluation). Both carry why_codes, risk_codes, gate_triggered,
+// score_breakdown and the job/profile signals they were scored from, so
+// the diff never re-runs the engine.
+//
+// The report separates the three things that can move a score:
+//   - the posting changed (job_signals.rawHash differs),
+//   - the profile changed (tools, years, target families, constraints…),
+//   - the engine changed (jobfit_logic_version / policy_version differ).
+// A coach reading "68 → 81" needs to know which of those happened before
+// reading code-level changes — a logic-version bump explains a shift the
+// student did nothing to cause.
+//
+// Pure and synchronous. No I/O, no LLM.
+
+import { familyDisplayName } from "./deterministicBulletRendererV4"
+import type { GateTriggered, ResultDecision, RiskCode, Severity, WhyCode } from "./signals"
+
+export type RunDiffInput = {
+  decision?: ResultDecision
+  score?: number
+  why_codes?: WhyCode[]
+  risk_codes?: RiskCode[]
+  gate_triggered?: GateTriggered
+  score_breakdown?: { components?: Array<{ label: string; points: number; note: string }> }
+  job_signals?: Record<string, any>
+  profile_signals?: Record<string, any>
+  jobfit_logic_version?: string
+  policy_version?: string
+}
+
+export type CodeDiff<T> = {
+  added: T[]
+  removed: T[]
+  changed: Array<{ code: string; before: T; after: T; fields: string[] }>
+}
+
+export type ComponentDiff = {
+  label: string
+  before: { points: number; note: string } | null
+  after: { points: number; note: string } | null
+  delta: number
+}
+
+export type SignalDiff = {
+  side: "job" | "profile"
+  field: string
+  label: string
+  before: unknown
+  after: unknown
+  // Set-valued fields only.
+  added?: string[]
+  removed?: string[]
+}
+
+export type RunDiffReport = {
+  decision: { before: ResultDecision | null; after: ResultDecision | null; changed: boolean }
+  score: { before: number | null; after: number | null; delta: number }
+  gate: { before: GateTriggered; after: GateTriggered; changed: boolean }
+  causes: {
+    job_changed: boolean
+    profile_changed: boolean
+    logic_version: { before: string | null; after: string | null; changed: boolean }
+    policy_version: { before: string | null; after: string | null; changed: boolean }
+  }
+  why_codes: CodeDiff<WhyCode>
+  risk_codes: CodeDiff<RiskCode>
+  components: ComponentDiff[]
+  job_signals: SignalDiff[]
+  profile_signals: SignalDiff[]
+  summary: string[]
+}
+
+type FieldSpec = { path: string; label: string; kind: "set" | "value"; display?: (v: any) => string }
+
+const familyList = (v: any) => (Array.isArray(v) ? v.map((f) => familyDisplayName(f)).join(", ") : String(v ?? "—"))
+
+const languageList = (v: unknown) =>
+  Array.isArray(v) && v.length
+    ? v
+        .map((l: { language: string; required?: boolean; proficiency: string }) => {
+          const req = typeof l.required === "boolean" ? (l.required ? "required" : "preferred") : null
+          return `${l.language} (${[req, l.proficiency].filter(Boolean).join(", ")})`
+        })
+        .join(", ")
+    : "—"
+
+// Signals worth explaining. Debug-only and evidence-text fields are left
+// out on purpose — they churn on every re-extraction without meaning
+// anything to a student.
+const JOB_FIELDS: FieldSpec[] = [
+  { path: "jobFamily", label: "job family", kind: "value", display: (v) => familyDisplayName(v) },
+  { path: "financeSubFamily", label: "finance sub-family", kind: "value" },
+  { path: "salesSubFamily", label: "sales sub-family", kind: "value" },
+  { path: "marketingSubFamily", label: "marketing sub-family", kind: "value" },
+  { path: "engineeringSubFamily", label: "engineering / IT sub-family", kind: "value" },
+  { path: "jobArchetype", label: "role archetype", kind: "value" },
+  { path: "yearsRequired", label: "years required", kind: "value" },
+  { path: "isSeniorRole", label: "senior role", kind: "value" },
+  { path: "seniority.level", label: "title level", kind: "value" },
+  { path: "seniority.impliedYears", label: "title-implied years", kind: "value" },
+  { path: "requiredTools", label: "required tools", kind: "set" },
+  { path: "preferredTools", label: "preferred tools", kind: "set" },
+  { path: "function_tags", label: "function tags", kind: "set" },
+  { path: "location.mode", label: "work mode", kind: "value" },
+  { path: "location.city", label: "job location", kind: "value" },
+  { path: "location.cities", label: "job locations", kind: "set" },
+  { path: "location.remoteRegions", label: "remote regions", kind: "set" },
+  { path: "location.timeZones", label: "required time zones", kind: "set" },
+  { path: "employerType.model", label: "agency vs in-house", kind: "value" },
+  { path: "employerType.stage", label: "company stage", kind: "value" },
+  { path: "employerType.sector", label: "employer sector", kind: "value" },
+  { path: "isContract", label: "contract role", kind: "value" },
+  { path: "isHourly", label: "hourly pay", kind: "value" },
+  { path: "pay.annualizedEstimate", label: "annualized pay", kind: "value" },
+  { path: "mbaRequired", label: "MBA required", kind: "value" },
+  { path: "credentialRequired", label: "credential required", kind: "value" },
+  { path: "workAuth.restriction", label: "work authorization restriction", kind: "value" },
+  { path: "gpa.minimum", label: "GPA minimum", kind: "value" },
+  { path: "workConditions.travel.percent", label: "travel %", kind: "value" },
+  { path: "workConditions.shifts.patterns", label: "shift patterns", kind: "set" },
+  { path: "workConditions.relocation.required", label: "relocation required", kind: "value" },
+  { path: "workConditions.physical.liftLbs", label: "lifting requirement (lbs)", kind: "value" },
+  { path: "languages", label: "language requirements", kind: "value", display: languageList },
+  { path: "gradYearHint", label: "graduation year hint", kind: "value" },
+]
+
+const PROFILE_FIELDS: FieldSpec[] = [
+  { path: "targetFamilies", label: "target families", kind: "set", display: familyList },
+  { path: "marketingTargetSubsegments", label: "target marketing tracks", kind: "set" },
+  { path: "engineeringSubFamily", label: "engineering / IT track", kind: "value" },
+  { path: "tools", label: "tools", kind: "set" },
+  { path: "function_tags", label: "function tags", kind: "set" },
+  { path: "yearsExperienceApprox", label: "years of experience", kind: "value" },
+  { path: "gradYear", label: "graduation year", kind: "value" },
+  { path: "degreeStatus", label: "degree status", kind: "value" },
+  { path: "gpa", label: "GPA", kind: "value" },
+  { path: "gpaListedOnResume", label: "GPA on resume", kind: "value" },
+  { path: "languages", label: "languages", kind: "value", display: languageList },
+  { path: "employerPreferences.prefer", label: "preferred employer types", kind: "set" },
+  { path: "employerPreferences.avoid", label: "ruled-out employer types", kind: "set" },
+  { path: "roleArchetype", label: "target archetype", kind: "value" },
+  { path: "locationPreference.mode", label: "location preference", kind: "value" },
+  { path: "constraints", label: "constraints", kind: "value" },
+]
+
+function getPath(obj: any, path: string): unknown {
+  return path.split(".").reduce((acc, k) => (acc == null ? undefined : acc[k]), obj)
+}
+
+function normSet(v: unknown): string[] {
+  if (!Array.isArray(v)) return []
+  return Array.from(new Set(v.map((x) => String(x).trim().toLowerCase()).filter(Boolean))).sort()
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function show(v: unknown): string {
+  if (v === null || v === undefined || v === "") return "—"
+  if (typeof v === "boolean") return v ? "yes" : "no"
+  return String(v)
+}
+
+function diffSignals(side: "job" | "profile", specs: FieldSpec[], before: any, after: any): SignalDiff[] {
+  const out: SignalDiff[] = []
+  for (const spec of specs) {
+    const b = getPath(before, spec.path)
+    const a = getPath(after, spec.path)
+
+    if (spec.kind === "set") {
+      const bs = normSet(b)
+      const as = normSet(a)
+      const added = as.filter((x) => !bs.includes(x))
+      const removed = bs.filter((x) => !as.includes(x))
+      if (added.length || removed.length) {
+        out.push({ side, field: spec.path, label: spec.label, before: b ?? [], after: a ?? [], added, removed })
+      }
+      continue
+    }
+
+    // Constraints are an object of flags; report each flipped flag on its own.
+    if (spec.path === "constraints") {
+      const keys = Array.from(new Set([...Object.keys((b as object) || {}), ...Object.keys((a as object) || {})])).sort()
+      for (const k of keys) {
+        const bv = (b as any)?.[k]
+        const av = (a as any)?.[k]
+        if (!sameValue(bv, av)) {
+          out.push({ side, field: `constraints.${k}`, label: `constraint ${k}`, before: bv ?? null, after: av ?? null })
+        }
+      }
+      continue
+    }
+
+    if (!sameValue(b, a)) out.push({ side, field: spec.path, label: spec.label, before: b ?? null, after: a ?? null })
+  }
+  return out
+}
+
+// WHY codes can repeat with different match keys (one per matched tool
+// or function), so identity is code + match_key. Risk codes repeat too
+// (one RISK_MISSING_PROOF per unproven requirement); repeats are keyed by
+// occurrence, so "three missing-proof risks → one" reads as two removed.
+function keyed<T extends { code: string }>(codes: T[] | undefined, keyOf: (c: T) => string): Map<string, T> {
+  const m = new Map<string, T>()
+  for (const c of codes || []) {
+    let k = keyOf(c)
+    for (let i = 2; m.has(k); i++) k = `${keyOf(c)}#${i}`
+    m.set(k, c)
+  }
+  return m
+}
+
+function diffCodes<T extends { code: string }>(
+  before: T[] | undefined,
+  after: T[] | undefined,
+  keyOf: (c: T) => string,
+  compareFields: Array<keyof T>
+): CodeDiff<T> {
+  const b = keyed(before, keyOf)
+  const a = keyed(after, keyOf)
+  const out: CodeDiff<T> = { added: [], removed: [], changed: [] }
+  for (const [k, code] of a) if (!b.has(k)) out.added.push(code)
+  for (const [k, code] of b) {
+    const next = a.get(k)
+    if (!next) {
+      out.removed.push(code)
+      continue
+    }
+    const fields = compareFields.filter((f) => !sameValue(code[f], next[f])).map(String)
+    if (fields.length) out.changed.push({ code: code.code, before: code, after: next, fields })
+  }
+  return out
+}
+
+function diffComponents(before: RunDiffInput, after: RunDiffInput): ComponentDiff[] {
+  const b = new Map((before.score_breakdown?.components || []).map((c) => [c.label, c]))
+  const a = new Map((after.score_breakdown?.components || []).map((c) => [c.label, c]))
+  const labels = Array.from(new Set([...b.keys(), ...a.keys()]))
+  const out: ComponentDiff[] = []
+  for (const label of labels) {
+    const bc = b.get(label) || null
+    const ac = a.get(label) || null
+    if (bc && ac && bc.points === ac.points && bc.note === ac.note) continue
+    out.push({
+      label,
+      before: bc ? { points: bc.points, note: bc.note } : null,
+      after: ac ? { points: ac.points, note: ac.note } : null,
+      delta: (ac?.points ?? 0) - (bc?.points ?? 0),
+    })
+  }
+  return out
+}
+
+function gateKey(g: GateTriggered | undefined): string {
+  return !g || g.type === "none" ? "none" : `${g.type}:${g.gateCode}`
+}
+
+function codeName(code: string): string {
+  return code.replace(/^(WHY|RISK|GATE)_/, "").replace(/_/g, " ").toLowerCase()
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 1, medium: 2, high: 3 }
+
+function signalLine(d: SignalDiff): string {
+  const spec = [...JOB_FIELDS, ...PROFILE_FIELDS].find((s) => s.path === d.field)
+  const who = d.side === "job" ? "Posting" : "Profile"
+  if (d.added || d.removed) {
+    const parts: string[] = []
+    if (d.added?.length) parts.push(`adds ${d.added.join(", ")}`)
+    if (d.removed?.length) parts.push(`drops ${d.removed.join(", ")}`)
+    return `${who} ${d.label}: ${parts.join("; ")}.`
+  }
+  const fmt = spec?.display || show
+  return `${who} ${d.label}: ${fmt(d.before)} → ${fmt(d.after)}.`
+}
+
+// Ordered by how much each line explains: outcome, cause, gate, then
+// the largest code- and signal-level moves. Capped so the summary stays
+// a paragraph, not a second report.
+const MAX_SUMMARY_LINES = 8
+
+function buildSummary(r: Omit<RunDiffReport, "summary">): string[] {
+  const lines: string[] = []
+  const { before: sb, after: sa, delta } = r.score
+
+  if (sb !== null && sa !== null) {
+    const sign = delta > 0 ? "+" : ""
+    const decision = r.decision.changed
+      ? `; decision ${r.decision.before} → ${r.decision.after}`
+      : `; decision unchanged (${r.decision.after})`
+    lines.push(`Score ${sb} → ${sa} (${sign}${delta})${decision}.`)
+  }
+
+  const causes: string[] = []
+  if (r.causes.job_changed) causes.push("the posting text")
+  if (r.causes.profile_changed) causes.push("your profile")
+  if (r.causes.logic_version.changed || r.causes.policy_version.changed) causes.push("the scoring engine")
+  if (causes.length) lines.push(`What changed: ${causes.join(", ")}.`)
+  else lines.push("Inputs and engine version are identical; differences come from re-extraction only.")
+
+  if (r.gate.changed) {
+    if (r.gate.after.type === "none" && r.gate.before.type !== "none") {
+      lines.push(`Gate cleared: ${codeName(r.gate.before.gateCode)}.`)
+    } else if (r.gate.after.type !== "none") {
+      lines.push(`Gate now applies: ${codeName(r.gate.after.gateCode)} — ${r.gate.after.detail}`)
+    }
+  }
+
+  const riskAdded = r.risk_codes.added.slice().sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+  const riskRemoved = r.risk_codes.removed.slice().sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+  const cleared = Array.from(new Set(riskRemoved.map((c) => codeName(c.code))))
+  const raised = Array.from(new Set(riskAdded.map((c) => `${codeName(c.code)} (${c.severity})`)))
+  if (cleared.length) lines.push(`Risks cleared: ${cleared.join(", ")}.`)
+  if (raised.length) lines.push(`New risks: ${raised.join(", ")}.`)
+
+  const whyAdded = Array.from(new Set(r.why_codes.added.map((c) => codeName(c.code))))
+  const whyRemoved = Array.from(new Set(r.why_codes.removed.map((c) => codeName(c.code))))
+  if (whyAdded.length) lines.push(`New strengths: ${whyAdded.join(", ")}.`)
+  if (whyRemoved.length) lines.push(`Strengths no longer matched: ${whyRemoved.join(", ")}.`)
+
+  for (const d of [...r.profile_signals, ...r.job_signals]) lines.push(signalLine(d))
+
+  if (r.causes.logic_version.changed) {
+    lines.push(`Scoring logic ${show(r.causes.logic_version.before)} → ${show(r.causes.logic_version.after)}.`)
+  }
+  if (r.causes.policy_version.changed) {
+    lines.push(`Scoring policy ${show(r.causes.policy_version.before)} → ${show(r.causes.policy_version.after)}.`)
+  }
+
+  return lines.slice(0, MAX_SUMMARY_LINES)
+}
+
+export function diffJobFitResults(before: RunDiffInput, after: RunDiffInput): RunDiffReport {
+  const job_signals = diffSignals("job", JOB_FIELDS, before.job_signals, after.job_signals)
+  const profile_signals = diffSignals("profile", PROFILE_FIELDS, before.profile_signals, after.profile_signals)
+
+  const jobHashBefore = before.job_signals?.rawHash ?? null
+  const jobHashAfter = after.job_signals?.rawHash ?? null
+  const logicBefore = before.jobfit_logic_version ?? null
+  const logicAfter = after.jobfit_logic_version ?? null
+  const policyBefore = before.policy_version ?? null
+  const policyAfter = after.policy_version ?? null
+
+  const scoreBefore = typeof before.score === "number" ? before.score : null
+  const scoreAfter = typeof after.score === "number" ? after.score : null
+  const gateBefore: GateTriggered = before.gate_triggered || { type: "none" }
+  const gateAfter: GateTriggered = after.gate_triggered || { type: "none" }
+
+  const report: Omit<RunDiffReport, "summary"> = {
+    decision: {
+      before: before.decision ?? null,
+      after: after.decision ?? null,
+      changed: (before.decision ?? null) !== (after.decision ?? null),
+    },
+    score: {
+      before: scoreBefore,
+      after: scoreAfter,
+      delta: scoreBefore !== null && scoreAfter !== null ? scoreAfter - scoreBefore : 0,
+    },
+    gate: { before: gateBefore, after: gateAfter, changed: gateKey(gateBefore) !== gateKey(gateAfter) },
+    causes: {
+      // Hashes missing on either side (very old runs) fall back to the
+      // signal diff — a job-side signal change means the posting moved.
+      job_changed:
+        jobHashBefore && jobHashAfter ? jobHashBefore !== jobHashAfter : job_signals.length > 0,
+      profile_changed: profile_signals.length > 0,
+      logic_version: { before: logicBefore, after: logicAfter, changed: Boolean(logicBefore && logicAfter && logicBefore !== logicAfter) },
+      policy_version: { before: policyBefore, after: policyAfter, changed: Boolean(policyBefore && policyAfter && policyBefore !== policyAfter) },
+    },
+    why_codes: diffCodes(before.why_codes, after.why_codes, (c) => `${c.code}|${c.match_key ?? ""}`, ["weight", "match_strength"]),
+    risk_codes: diffCodes(before.risk_codes, after.risk_codes, (c) => c.code, ["severity", "weight"]),
+    components: diffComponents(before, after),
+    job_signals,
+    profile_signals,
+  }
+
+  return { ...report, summary: buildSummary(report) }
+}
@@ -14,8 +14,17 @@ import type {
   StructuredProfileSignals,
   WhyCode,
 } from "./signals"
-import { getFinanceSubFamilyDistance } from "./extract"
+import { getEngineeringSubFamilyDistance, getFinanceSubFamilyDistance } from "./extract"
 import { familyDisplayName } from "./deterministicBulletRendererV4"
+import { workAuthConflict } from "./workAuth"
+import { payShortfall } from "./pay"
+import { workConditionConflicts, type WorkConditionKind } from "./workConditions"
+import { gpaIssue } from "./gpa"
+import { languageGaps } from "./languages"
+import { employerTypeFit } from "./employerType"
+import { locationsMatch, remoteRegionConflict, timeZoneConflict } from "./location"
+import { canonicalToolId, capabilitiesAdjacent, toolSubstitute } from "./toolOntology"
+import { seniorityGap } from "./seniority"
 
 export const SCORING_V5_STAMP =
   "SCORING_V5_STAMP__2026_03_14__CAPABILITY_COVERAGE_AND_DIRECTNESS"
@@ -27,6 +36,15 @@ export type Penalty = {
   risk: RiskCode
 }
 
+// Counterfactual knobs. Excluded penalty keys are dropped before stack caps
+// and diminishing returns are applied, exactly as if the rule never fired;
+// excluded risk codes are dropped from the risk list (and take their
+// penalty with them). Normal scoring never passes these.
+export type ScoreOptions = {
+  excludePenaltyKeys?: string[]
+  excludeRiskCodes?: string[]
+}
+
 export type ScoreResult = {
   score: number
   penalties: Penalty[]
@@ -37,6 +55,13 @@ export type ScoreResult = {
 
 type Severity = "low" | "medium" | "high"
 
+const WORK_CONDITION_RISK_CODES: Record<WorkConditionKind, string> = {
+  travel: "RISK_TRAVEL",
+  schedule: "RISK_SCHEDULE",
+  relocation: "RISK_RELOCATION",
+  physical: "RISK_PHYSICAL",
+}
+
 type ToolOverlapResult = {
   overlap: string[]
   required: string[]
@@ -66,37 +91,6 @@ type RequirementCoverage = {
   nearMiss: boolean
 }
 
-const ADJACENCY: Record<string, string[]> = {
-  brand_messaging: ["content_execution", "visual_communication", "communications_writing"],
-  communications_writing: ["drafting_documentation", "stakeholder_coordination"],
-  visual_communication: ["brand_messaging", "content_execution"],
-  content_execution: ["brand_messaging", "visual_communication", "performance_optimization"],
-  consumer_research: ["analysis_reporting", "policy_regulatory_research", "strategy_problem_solving"],
-  analysis_reporting: ["financial_analysis", "performance_optimization", "consumer_research"],
-  performance_optimization: ["analysis_reporting", "content_execution"],
-  product_positioning: ["brand_messaging", "communications_writing"],
-
-  prospecting_pipeline_management: ["account_management", "territory_execution", "client_commercial_work"],
-  account_management: ["prospecting_pipeline_management", "post_sale_support", "client_commercial_work"],
-  territory_execution: ["account_management", "hospital_or_environment", "prospecting_pipeline_management"],
-  crm_usage: [],
-  post_sale_support: ["account_management", "product_training_enablement"],
-  product_training_enablement: ["post_sale_support", "clinical_stakeholder_fluency"],
-  hospital_or_environment: ["clinical_stakeholder_fluency", "clinical_patient_work"],
-  clinical_stakeholder_fluency: ["hospital_or_environment", "clinical_patient_work", "product_training_enablement"],
-  med_device_industry_knowledge: ["hospital_or_environment", "product_training_enablement"],
-
-  client_commercial_work: ["stakeholder_coordination", "account_management", "prospecting_pipeline_management"],
-  policy_regulatory_research: ["drafting_documentation", "analysis_reporting", "communications_writing"],
-  financial_analysis: ["analysis_reporting"],
-  accounting_operations: ["analysis_reporting", "operations_execution"],
-  operations_execution: ["stakeholder_coordination", "analysis_reporting", "drafting_documentation"],
-  strategy_problem_solving: ["analysis_reporting", "consumer_research", "stakeholder_coordination"],
-  stakeholder_coordination: ["operations_execution", "communications_writing", "account_management"],
-  drafting_documentation: ["communications_writing", "policy_regulatory_research"],
-  clinical_patient_work: ["hospital_or_environment", "clinical_stakeholder_fluency"],
-}
-
 const DIRECT_PROOF_REQUIRED_KEYS = new Set([
   "prospecting_pipeline_management",
   "account_management",
@@ -154,47 +148,9 @@ function applyDiminishingReturns(penaltySum: number): number {
   return softCap + reduced
 }
 
-function normalizeCity(s: string | null | undefined): string {
-  const t = norm(s)
-  if (!t) return ""
-  if (t.includes("new york") || t.includes("nyc")) return "new york"
-  if (t.includes("boston")) return "boston"
-  if (t.includes("philadelphia") || t.includes("philly")) return "philadelphia"
-  if (t.includes("washington") && (t.includes("dc") || t.includes("d.c"))) return "washington, d.c."
-  if (t.includes("chicago")) return "chicago"
-  if (t.includes("miami")) return "miami"
-  if (t.includes("atlanta")) return "atlanta"
-  if (t.includes("charlotte")) return "charlotte"
-  if (t.includes("austin")) return "austin"
-  if (t.includes("los angeles") || t === "la") return "los angeles"
-  return t
-}
-
-function locationCityMatches(jobCity: string, preferredCities: string[]): boolean {
-  const j = normalizeCity(jobCity)
-  if (!j) return false
-  const prefs = (preferredCities || []).map(normalizeCity).filter(Boolean)
-  return prefs.includes(j)
-}
-
 function toolMissing(profileTools: string[], tool: string): boolean {
-  const p = uniqueLower(profileTools)
-  return !p.includes(norm(tool))
-}
-
-function hasAdjacentToolProof(profileTools: string[], missingTool: string): boolean {
-  const p = uniqueLower(profileTools)
-  const m = norm(missingTool)
-
-  if (m === "python") return p.includes("r") || p.includes("sql")
-  if (m === "tableau" || m === "power bi") return p.includes("excel") || p.includes("sql")
-  if (m === "sql") return p.includes("python") || p.includes("r") || p.includes("excel")
-  if (m === "google analytics") return p.includes("excel") || p.includes("sql")
-  if (m === "crm") return p.includes("salesforce") || p.includes("hubspot")
-  if (m === "salesforce") return p.includes("crm") || p.includes("hubspot")
-  if (m === "hubspot") return p.includes("crm") || p.includes("salesforce")
-
-  return false
+  const p = uniqueLower(profileTools).map(canonicalToolId)
+  return !p.includes(canonicalToolId(tool))
 }
 
 function downgradeSeverity(sev: Severity): Severity {
@@ -245,6 +201,33 @@ function formatSalesSubsegment(key: string): string {
   }
 }
 
+function formatEngineeringSubFamily(key: string): string {
+  switch (key) {
+    case "mechanical": return "mechanical engineering"
+    case "civil": return "civil engineering"
+    case "electrical": return "electrical engineering"
+    case "chemical": return "chemical engineering"
+    case "industrial": return "industrial / manufacturing engineering"
+    case "software": return "software engineering"
+    case "data": return "data engineering / data science"
+    case "it_support": return "IT support"
+    case "cybersecurity": return "cybersecurity"
+    default: return key.replace(/_/g, " ")
+  }
+}
+
+function formatMarketingSubsegment(key: string): string {
+  switch (key) {
+    case "brand": return "brand"
+    case "growth_performance": return "growth / performance"
+    case "product_marketing": return "product marketing"
+    case "content_social": return "content / social"
+    case "communications_pr": return "PR / communications"
+    case "other_marketing": return "general marketing"
+    default: return key
+  }
+}
+
 // Detects when a profile evidence snippet is a bare skills-list keyword
 // rather than a narrative accomplishment. Used to cap WHY_TOOL_PROOF
 // weight so that listing "Microsoft Office Suite · Google Workspace ·
@@ -292,12 +275,6 @@ function jobFactFromUnit(unit: JobRequirementUnit): string {
   return text || unit.label
 }
 
-function isAdjacent(jobKey: string, profileKey: string): boolean {
-  const jobAdj = ADJACENCY[jobKey] || []
-  const profileAdj = ADJACENCY[profileKey] || []
-  return jobAdj.includes(profileKey) || profileAdj.includes(jobKey)
-}
-
 function dedupeByMatch(items: WhyEvidenceMatch[]): WhyEvidenceMatch[] {
   const seen = new Set<string>()
   const out: WhyEvidenceMatch[] = []
@@ -425,7 +402,7 @@ function buildEvidenceMatches(job: StructuredJobSignals, profile: StructuredProf
 
       if (ju.key === pu.key) {
         matchStrength = "direct"
-      } else if (isAdjacent(ju.key, pu.key)) {
+      } else if (capabilitiesAdjacent(ju.key, pu.key)) {
         matchStrength = "adjacent"
       }
 
@@ -890,7 +867,11 @@ function capabilitySeverity(jobUnit: JobRequirementUnit, nearMiss: boolean): Sev
   return "low"
 }
 
-export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfileSignals): ScoreResult {
+export function scoreJobFit(
+  job: StructuredJobSignals,
+  profile: StructuredProfileSignals,
+  opts: ScoreOptions = {}
+): ScoreResult {
   const penalties: Penalty[] = []
   const riskOnlyCodes: RiskCode[] = []
 
@@ -905,31 +886,41 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
 
   {
     const profileConstrained = !!profile.locationPreference.constrained
-    const jobCity = job.location?.city ?? null
-    const allowedCities = profile.locationPreference.allowedCities
-
-    const hasJobCity =
-      typeof jobCity === "string" && jobCity.trim().length > 0
+    const jobCities = (job.location?.cities?.length ? job.location.cities : [job.location?.city]).filter(
+      (c): c is string => typeof c === "string" && c.trim().length > 0
+    )
+    const allowedCities = profile.locationPreference.allowedCities || []
+    const isRemote = job.location?.mode === "remote"
 
     const hasAllowedCities =
       Array.isArray(allowedCities) && allowedCities.length > 0
 
+    // A remote posting's city is usually HQ; its eligibility regions are
+    // what decide whether the candidate's location works.
     const cityMismatch =
-      hasJobCity &&
+      !isRemote &&
+      jobCities.length > 0 &&
       hasAllowedCities &&
-      !locationCityMatches(jobCity, allowedCities)
+      !locationsMatch(jobCities, allowedCities)
+    const regionConflict = hasAllowedCities ? remoteRegionConflict(job.location, allowedCities) : null
+
+    const jobLocationFact = cityMismatch
+      ? `Job location indicates ${jobCities.join(" or ")}.`
+      : regionConflict?.jobFact ?? ""
 
-    if (cityMismatch) {
+    if (cityMismatch || regionConflict) {
       if (profileConstrained) {
         const amt = computePenaltyAmount("location_mismatch_constrained")
 
         penalties.push({
           key: "location_mismatch_constrained",
           amount: amt,
-          note: `Constrained city mismatch (job: ${jobCity})`,
+          note: cityMismatch
+            ? `Constrained city mismatch (job: ${jobCities.join(", ")})`
+            : `Constrained remote region mismatch (job: ${(job.location.remoteRegions || []).join(", ")})`,
           risk: {
             code: "RISK_LOCATION",
-            job_fact: `Job location indicates ${jobCity}.`,
+            job_fact: jobLocationFact,
             profile_fact: `Allowed cities are ${allowedCities.join(", ")}.`,
             risk: "Your location constraints do not match the job location.",
             severity: "high",
@@ -939,7 +930,7 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
       } else {
         riskOnlyCodes.push({
           code: "RISK_LOCATION",
-          job_fact: `Job location indicates ${jobCity}.`,
+          job_fact: jobLocationFact,
           profile_fact: `Preferred cities are ${allowedCities.join(", ")}.`,
           risk: "The job location sits outside your stated preferred cities.",
           severity: "medium",
@@ -947,6 +938,18 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
         })
       }
     }
+
+    const tz = hasAllowedCities && job.location?.mode !== "in_person" ? timeZoneConflict(job.location, allowedCities) : null
+    if (tz) {
+      riskOnlyCodes.push({
+        code: "RISK_TIMEZONE",
+        job_fact: tz.jobFact,
+        profile_fact: tz.profileFact,
+        risk: tz.detail,
+        severity: "low",
+        weight: 0,
+      })
+    }
   }
 
   if (profile.constraints.hardNoFullyRemote && job.location?.mode === "remote") {
@@ -1008,6 +1011,33 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
     })
   }
 
+  const workAuth = workAuthConflict(job.workAuth, profile.constraints.workAuthStatus)
+  if (workAuth && workAuth.level === "block") {
+    const amt = computePenaltyAmount("work_authorization_mismatch")
+    penalties.push({
+      key: "work_authorization_mismatch",
+      amount: amt,
+      note: `Work authorization conflict (${job.workAuth.restriction})`,
+      risk: {
+        code: "RISK_WORK_AUTH",
+        job_fact: workAuth.jobFact,
+        profile_fact: workAuth.profileFact,
+        risk: workAuth.detail,
+        severity: "high",
+        weight: -amt,
+      },
+    })
+  } else if (workAuth) {
+    riskOnlyCodes.push({
+      code: "RISK_WORK_AUTH",
+      job_fact: workAuth.jobFact,
+      profile_fact: workAuth.profileFact,
+      risk: workAuth.detail,
+      severity: "medium",
+      weight: 0,
+    })
+  }
+
   if (job.isContract && profile.constraints.hardNoContract) {
     const amt = computePenaltyAmount("contract_mismatch") + 6
     penalties.push({
@@ -1079,30 +1109,177 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
     }
   }
 
-  // Seniority mismatch — fire a risk flag when the job title signals a senior/manager
-  // level and the candidate has <= 2 years of experience. This catches cases where
-  // keyword match is strong but the role is structurally above the candidate's level.
-  if (job.isSeniorRole && profile.yearsExperienceApprox !== null && profile.yearsExperienceApprox <= 2) {
-    // Seniority mismatch reduces the score directly — a Manager/Director/Senior title
-    // requires experience the candidate doesn't have yet. This should be reflected in
-    // the score, not just surfaced as a risk flag. Penalty of 18 brings a near-perfect
-    // keyword match (97) down to solid Apply range (~79).
-    const seniorityPenaltyAmt = 18
-    const seniorityRisk: RiskCode = {
-      code: "RISK_EXPERIENCE",
-      job_fact: "Job title indicates a senior, manager, or leadership-level role.",
-      profile_fact: `Profile shows approximately ${profile.yearsExperienceApprox} year${profile.yearsExperienceApprox === 1 ? "" : "s"} of experience.`,
-      risk: "This role is titled at a level above where early-career candidates are typically competitive. Strong keyword match alone does not overcome a seniority gap — hiring managers screen on title-level experience first.",
-      severity: "medium",
-      weight: -seniorityPenaltyAmt,
+  const gpa = gpaIssue(job.gpa, profile)
+  if (gpa && gpa.kind === "below_minimum") {
+    const amt = computePenaltyAmount("gpa_below_minimum")
+    penalties.push({
+      key: "gpa_below_minimum",
+      amount: amt,
+      note: `GPA ${profile.gpa} below ${job.gpa.required ? "required" : "preferred"} minimum ${job.gpa.minimum}`,
+      risk: {
+        code: "RISK_GPA_BELOW_MIN",
+        job_fact: gpa.jobFact,
+        profile_fact: gpa.profileFact,
+        risk: gpa.detail,
+        severity: job.gpa.required ? "high" : "medium",
+        weight: -amt,
+      },
+    })
+  } else if (gpa) {
+    // No penalty: the student may well clear the bar. Unknown GPA is a
+    // medium risk; a known-good GPA that is just missing from the resume
+    // is a low-severity fix.
+    riskOnlyCodes.push({
+      code: "RISK_GPA_NOT_LISTED",
+      job_fact: gpa.jobFact,
+      profile_fact: gpa.profileFact,
+      risk: gpa.detail,
+      severity: profile.gpa == null ? "medium" : "low",
+      weight: 0,
+    })
+  }
+
+  const payGap = payShortfall(job.pay, profile.constraints)
+  if (payGap && payGap.level === "below_floor") {
+    const amt = computePenaltyAmount("pay_below_minimum")
+    penalties.push({
+      key: "pay_below_minimum",
+      amount: amt,
+      note: `Posted pay below stated minimum (${job.pay?.raw})`,
+      risk: {
+        code: "RISK_PAY_BELOW_MIN",
+        job_fact: payGap.jobFact,
+        profile_fact: payGap.profileFact,
+        risk: payGap.detail,
+        severity: "high",
+        weight: -amt,
+      },
+    })
+  } else if (payGap) {
+    riskOnlyCodes.push({
+      code: "RISK_PAY_BELOW_MIN",
+      job_fact: payGap.jobFact,
+      profile_fact: payGap.profileFact,
+      risk: payGap.detail,
+      severity: "low",
+      weight: 0,
+    })
+  }
+
+  // Languages. A match is a WHY (no score change — the capability matches
+  // already carry the score); a required language with no proof is
+  // penalized like any other screen the student would fail.
+  for (const gap of languageGaps(job.languages, profile.languages)) {
+    const req = gap.requirement
+    if (gap.level === "match") {
+      whyCodes.push({
+        code: "WHY_LANGUAGE_MATCH",
+        job_fact: gap.jobFact,
+        profile_fact: gap.profileFact || "",
+        note: gap.detail,
+        match_key: `language_${req.language.toLowerCase().replace(/\s+/g, "_")}`,
+        match_strength: "direct",
+      })
+    } else if (gap.level === "missing" && req.required) {
+      const amt = computePenaltyAmount("language_requirement_missing")
+      penalties.push({
+        key: "language_requirement_missing",
+        amount: amt,
+        note: `Required language not shown (${req.language})`,
+        risk: {
+          code: "RISK_LANGUAGE_REQUIRED",
+          job_fact: gap.jobFact,
+          profile_fact: "Your profile does not list this language.",
+          risk: gap.detail,
+          severity: "high",
+          weight: -amt,
+        },
+      })
+    } else {
+      riskOnlyCodes.push({
+        code: gap.level === "below_level" ? "RISK_LANGUAGE_LEVEL" : "RISK_LANGUAGE_PREFERRED",
+        job_fact: gap.jobFact,
+        profile_fact: gap.profileFact || "Your profile does not list this language.",
+        risk: gap.detail,
+        severity: gap.level === "below_level" && req.required ? "medium" : "low",
+        weight: 0,
+      })
+    }
+  }
+
+  // Employer type is a stated preference, not a screen — context only.
+  // A public-sector employer under hardNoGovernment is already penalized
+  // above, so it is not flagged twice.
+  for (const fit of employerTypeFit(job.employerType, profile.employerPreferences)) {
+    if (fit.level === "match") {
+      whyCodes.push({
+        code: "WHY_EMPLOYER_TYPE_MATCH",
+        job_fact: fit.jobFact,
+        profile_fact: fit.profileFact,
+        note: fit.detail,
+        match_key: `employer_${fit.tag}`,
+        match_strength: "direct",
+      })
+      continue
     }
+    if (fit.tag === "public" && profile.constraints.hardNoGovernment && job.isGovernment) continue
+    riskOnlyCodes.push({
+      code: "RISK_EMPLOYER_TYPE",
+      job_fact: fit.jobFact,
+      profile_fact: fit.profileFact,
+      risk: fit.detail,
+      severity: fit.level === "ruled_out" ? "medium" : "low",
+      weight: 0,
+    })
+  }
+
+  // Blocking work-condition conflicts never reach scoring (see
+  // evaluateGates); what is left is borderline and costs a little.
+  for (const c of workConditionConflicts(job.workConditions, profile.constraints)) {
+    if (c.level !== "risk") continue
+    const amt = computePenaltyAmount("work_condition_conflict")
     penalties.push({
-      key: "experience_years_gap",
-      amount: seniorityPenaltyAmt,
-      note: "Seniority mismatch — manager/senior-level title vs early-career profile",
-      risk: seniorityRisk,
+      key: "work_condition_conflict",
+      amount: amt,
+      note: `Work condition near stated limit (${c.kind})`,
+      risk: {
+        code: WORK_CONDITION_RISK_CODES[c.kind],
+        job_fact: c.jobFact,
+        profile_fact: c.profileFact,
+        risk: c.detail,
+        severity: "medium",
+        weight: -amt,
+      },
     })
-    console.log("[scoring] Seniority mismatch penalty applied — score impact:", -seniorityPenaltyAmt)
+  }
+
+  // Seniority mismatch — compare the years the title level implies (see
+  // ./seniority) against the profile's experience. Graded: a 3+ year gap
+  // is the full 18-point screen (brings a near-perfect keyword match of
+  // 97 down to solid Apply, ~79), two years is half that, one year is a
+  // risk note with no score impact.
+  const seniorityShortfall = seniorityGap(job.seniority, profile.yearsExperienceApprox)
+  if (seniorityShortfall) {
+    const seniorityRisk: RiskCode = {
+      code: "RISK_EXPERIENCE",
+      job_fact: seniorityShortfall.jobFact,
+      profile_fact: seniorityShortfall.profileFact,
+      risk: seniorityShortfall.detail,
+      severity: seniorityShortfall.severity,
+      weight: 0,
+    }
+    if (seniorityShortfall.severity === "low") {
+      riskOnlyCodes.push(seniorityRisk)
+    } else {
+      const seniorityPenaltyAmt = seniorityShortfall.severity === "high" ? 18 : 9
+      penalties.push({
+        key: "experience_years_gap",
+        amount: seniorityPenaltyAmt,
+        note: `Seniority mismatch — ${job.seniority.level}-level title implies ${job.seniority.impliedYears}+ years, profile approx ${profile.yearsExperienceApprox}`,
+        risk: { ...seniorityRisk, weight: -seniorityPenaltyAmt },
+      })
+      console.log("[scoring] Seniority mismatch penalty applied — score impact:", -seniorityPenaltyAmt)
+    }
   }
 
   // Domain industry experience requirement — fires a risk flag when the job
@@ -1205,6 +1382,40 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
     console.log(`[scoring] Sales sub-segment mismatch fired: profile=${profileLabel} vs job=${jobLabel}`)
   }
 
+  // Marketing sub-segment mismatch. Same shape as sales: only fires when
+  // the profile names specific marketing tracks and the JD is a different
+  // concrete one. Tracks share more skills than sales sub-segments do, so
+  // this is a medium risk with a policy-weighted penalty.
+  const profileMarketingSubsegments = (profile.marketingTargetSubsegments || []) as string[]
+  const jobMarketingSubFamily = job.marketingSubFamily
+  if (
+    job.jobFamily === "Marketing" &&
+    profileMarketingSubsegments.length > 0 &&
+    jobMarketingSubFamily &&
+    jobMarketingSubFamily !== "other_marketing" &&
+    !profileMarketingSubsegments.includes(jobMarketingSubFamily)
+  ) {
+    const profileLabel = profileMarketingSubsegments.map(formatMarketingSubsegment).join(" / ")
+    const jobLabel = formatMarketingSubsegment(jobMarketingSubFamily)
+    const amt = computePenaltyAmount("marketing_subsegment_mismatch")
+    const marketingRisk: RiskCode = {
+      code: "RISK_MARKETING_SUBSEGMENT",
+      job_fact: `This is a ${jobLabel} marketing role.`,
+      profile_fact: `You explicitly target ${profileLabel} marketing.`,
+      risk: `Marketing tracks are not interchangeable. You told us you want ${profileLabel} work, but this role is ${jobLabel}. The core skills overlap, but the day-to-day deliverables and the next role it sets you up for are different. Apply if you see it as a bridge, not because it says "marketing".`,
+      severity: "medium",
+      weight: -amt,
+    }
+    penalties.push({
+      key: "marketing_subsegment_mismatch",
+      amount: amt,
+      note: `Profile targets ${profileLabel}; job is ${jobLabel}`,
+      risk: marketingRisk,
+    })
+    riskOnlyCodes.push(marketingRisk)
+    console.log(`[scoring] Marketing sub-segment mismatch fired: profile=${profileLabel} vs job=${jobLabel}`)
+  }
+
   // Undisclosed territory risk — JDs that reference "within territory"
   // or "within 30 miles of territory boundaries" without specifying the
   // actual territory location. Candidate should confirm location before
@@ -1530,15 +1741,16 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
 
     for (const tool of requiredMissing) {
       let sev: Severity = "high"
-      const hasAdjacent = hasAdjacentToolProof(profileTools, tool)
-      if (hasAdjacent) sev = downgradeSeverity(sev)
+      const substitute = toolSubstitute(profileTools, tool)
+      if (substitute) sev = downgradeSeverity(sev)
 
-      // Required tools subtract from score — not just a risk flag
-      const toolPenaltyAmt = hasAdjacent ? 4 : 8
+      // Required tools subtract from score — not just a risk flag. A
+      // substitute tool scales the penalty by how well it stands in.
+      const toolPenaltyAmt = Math.round(8 * (1 - (substitute?.weight ?? 0)))
       penalties.push({
         key: "missing_core_capability_direct_proof",
         amount: toolPenaltyAmt,
-        note: `Missing required tool: ${tool}`,
+        note: `Missing required tool: ${tool}${substitute ? ` (partly covered by ${substitute.id})` : ""}`,
         risk: {
           code: "RISK_MISSING_TOOLS",
           job_fact: `Posting lists ${tool} as required.`,
@@ -1552,15 +1764,15 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
 
     for (const tool of preferredMissing) {
       let sev: Severity = "medium"
-      const hasAdjacent = hasAdjacentToolProof(profileTools, tool)
-      if (hasAdjacent) sev = downgradeSeverity(sev)
+      const substitute = toolSubstitute(profileTools, tool)
+      if (substitute) sev = downgradeSeverity(sev)
 
       // Preferred tools: subtract smaller amount
-      const toolPenaltyAmt = hasAdjacent ? 2 : 4
+      const toolPenaltyAmt = Math.round(4 * (1 - (substitute?.weight ?? 0)))
       penalties.push({
         key: "missing_core_capability_direct_proof",
         amount: toolPenaltyAmt,
-        note: `Missing preferred tool: ${tool}`,
+        note: `Missing preferred tool: ${tool}${substitute ? ` (partly covered by ${substitute.id})` : ""}`,
         risk: {
           code: "RISK_MISSING_TOOLS",
           job_fact: `Posting lists ${tool} as preferred.`,
@@ -1622,6 +1834,48 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
     }
   }
 
+  // Engineering / IT sub-family mismatch. The field gate only checks that
+  // both sides are technical; this catches discipline gaps inside that
+  // (mechanical vs civil, data engineering vs help desk).
+  if (
+    (job.jobFamily === "Engineering" || job.jobFamily === "IT_Software") &&
+    job.engineeringSubFamily &&
+    profile.engineeringSubFamily
+  ) {
+    const distance = getEngineeringSubFamilyDistance(job.engineeringSubFamily, profile.engineeringSubFamily)
+    const jobSubLabel = formatEngineeringSubFamily(job.engineeringSubFamily)
+    const profileSubLabel = formatEngineeringSubFamily(profile.engineeringSubFamily)
+    if (distance >= 2) {
+      const baseAmt = computePenaltyAmount("engineering_subfamily_mismatch")
+      const amt = distance === 3 ? baseAmt * 1.5 : baseAmt
+      penalties.push({
+        key: "engineering_subfamily_mismatch",
+        amount: amt,
+        note: `Engineering sub-family mismatch: job=${job.engineeringSubFamily}, profile=${profile.engineeringSubFamily}`,
+        risk: {
+          code: "RISK_ENGINEERING_SUBFAMILY",
+          job_fact: `This is a ${jobSubLabel} role.`,
+          profile_fact: `Your background and targets point to ${profileSubLabel}.`,
+          risk:
+            distance === 3
+              ? `${jobSubLabel.charAt(0).toUpperCase() + jobSubLabel.slice(1)} and ${profileSubLabel} share a broad label but not the coursework, tools, or licensure path. Hiring managers screen for the specific discipline, so this is closer to a career change than a stretch.`
+              : `${jobSubLabel.charAt(0).toUpperCase() + jobSubLabel.slice(1)} is a different discipline from ${profileSubLabel}. Some fundamentals carry over, but expect to be screened against candidates trained in this track.`,
+          severity: distance === 3 ? "high" : "medium",
+          weight: -amt,
+        },
+      })
+    } else if (distance === 1) {
+      riskOnlyCodes.push({
+        code: "RISK_ENGINEERING_SUBFAMILY",
+        job_fact: `This is a ${jobSubLabel} role.`,
+        profile_fact: `Your background and targets point to ${profileSubLabel}.`,
+        risk: `Your ${profileSubLabel} background is adjacent to ${jobSubLabel}. The core skills transfer, but be ready to show project work in this specific track.`,
+        severity: "low",
+        weight: 0,
+      })
+    }
+  }
+
   if (job.yearsRequired !== null && profile.yearsExperienceApprox !== null) {
     if (profile.yearsExperienceApprox + 1 < job.yearsRequired) {
       riskOnlyCodes.push({
@@ -1682,10 +1936,14 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
     })
   }
 
+  const excludedKeys = new Set(opts.excludePenaltyKeys || [])
+  const excludedRisks = new Set(opts.excludeRiskCodes || [])
+
   const counts: Record<string, number> = {}
   const capped: Penalty[] = []
 
   for (const p of penalties) {
+    if (excludedKeys.has(String(p.key)) || excludedRisks.has(p.risk.code)) continue
     const maxStack = POLICY.penalties[p.key]?.maxStackCount ?? 999
     counts[p.key] = (counts[p.key] || 0) + 1
     if (counts[p.key] <= maxStack) capped.push(p)
@@ -1759,6 +2017,7 @@ export function scoreJobFit(job: StructuredJobSignals, profile: StructuredProfil
   score = clamp(score, POLICY.score.minScore, POLICY.score.maxScore)
 
   const riskCodes = dedupeRiskCodes([...capped.map((p) => p.risk), ...riskOnlyCodes, ...majorGapRisks])
+    .filter((r) => !excludedRisks.has(r.code))
 
   return {
     score: Math.round(score),
@@ -0,0 +1,180 @@
+// FILE: app/api/jobfit/seniority.ts
+//
+// Title-level normalization — places a job title on the seniority ladder
+// (intern, entry, early, mid, senior, lead, manager, director, exec) and
+// infers the years of experience that level usually implies.
+//
+// Job side: titleSeniority reads the title only. Level words in a company
+// blurb ("reporting to the Senior Manager") say nothing about the role.
+// Rules run most-specific first, so "Associate Director" is a director
+// rung with a lower bar than "Director", "Senior Associate" is mid rather
+// than senior, and "Account Manager" is an individual-contributor title,
+// not a people manager. Roman-numeral levels ("Analyst II") count too.
+// Some titles read a rung higher than they are: "Staff Accountant" is the
+// entry accounting seat, "Associate Product Manager" and "Manager in
+// Training" are new-grad programs. A level word after "to the" or
+// "office of the" names who the role supports, not the role, so
+// "Associate to the CEO" is an associate.
+//
+// seniorityGap compares the implied years against the profile's
+// yearsExperienceApprox and grades the shortfall: one year is a note, two
+// is a real stretch, three or more is the level screen most early-career
+// candidates do not get past.
+
+import type { SeniorityLevel, TitleSeniority } from "./signals"
+
+type LadderRule = {
+  level: SeniorityLevel
+  years: number
+  re: RegExp
+}
+
+const LADDER: LadderRule[] = [
+  { level: "intern", years: 0, re: /\b(?:intern|internship|co-?op|summer (?:analyst|associate))\b/ },
+
+  { level: "exec", years: 12, re: /\b(?:chief [a-z]+ officer|ceo|cfo|coo|cto|cmo|cio|svp|evp|(?:senior |executive )?vice president|vp|president)\b/ },
+
+  { level: "director", years: 7, re: /\b(?:associate|assistant) director\b/ },
+  { level: "director", years: 10, re: /\b(?:senior director|managing director|director|head of)\b/ },
+
+  // Entry programs that carry "manager" in the title.
+  {
+    level: "entry",
+    years: 0,
+    re: /\b(?:associate product (?:marketing )?manager|apm|manager[- ]in[- ]training|manager trainee)\b/,
+  },
+
+  // "Manager" titles that are individual-contributor roles.
+  {
+    level: "early",
+    years: 1,
+    re: /\b(?:account|social media|community|office|case|leasing|customer success|client success|assistant property) manager\b/,
+  },
+  { level: "manager", years: 3, re: /\b(?:associate|assistant) manager\b/ },
+  { level: "manager", years: 8, re: /\b(?:senior|sr\.?) manager\b/ },
+  { level: "manager", years: 5, re: /\bmanager\b/ },
+
+  { level: "lead", years: 8, re: /\bprincipal\b/ },
+  { level: "lead", years: 7, re: /\bstaff (?:engineer|scientist|developer|data scientist)\b/ },
+  { level: "lead", years: 5, re: /\b(?:team lead|lead)\b(?! gen)/ },
+
+  // Senior individual-contributor titles, allowing a domain word or two in
+  // between ("Senior Financial Analyst").
+  { level: "mid", years: 2, re: /\b(?:senior|sr\.?) (?:[a-z&]+ ){0,2}associate\b/ },
+  {
+    level: "mid",
+    years: 3,
+    re: /\b(?:senior|sr\.?) (?:[a-z&]+ ){0,2}(?:analyst|consultant|coordinator|specialist|accountant|representative|recruiter|auditor)\b/,
+  },
+  { level: "senior", years: 5, re: /\b(?:senior|sr\.?)(?![a-z])/ },
+
+  { level: "senior", years: 6, re: /\b(?:iv|level 4)\b/ },
+  { level: "mid", years: 4, re: /\b(?:iii|level 3)\b/ },
+  { level: "early", years: 2, re: /\b(?:ii|level 2)\b/ },
+  { level: "mid", years: 3, re: /\b(?:mid[- ]level|experienced)\b/ },
+
+  { level: "entry", years: 0, re: /\b(?:i|level 1)\b(?!\.)/ },
+  {
+    level: "entry",
+    years: 0,
+    re: /\b(?:junior|jr\.?|entry[- ]level|new grad(?:uate)?|graduate|trainee|apprentice|rotational|assistant|coordinator|associate|analyst|representative|fellow|staff accountant)\b/,
+  },
+]
+
+const LEVEL_RANK: Record<SeniorityLevel, number> = {
+  unknown: -1,
+  intern: 0,
+  entry: 1,
+  early: 2,
+  mid: 3,
+  senior: 4,
+  lead: 5,
+  manager: 6,
+  director: 7,
+  exec: 8,
+}
+
+// "Executive Assistant to the CEO", "Analyst, Office of the CFO".
+const SUPPORTED_PRINCIPAL_RE = /\b(?:to|office of) the [^,;|()]*/g
+
+export function titleSeniority(title: string | null | undefined): TitleSeniority {
+  const t = String(title || "")
+    .toLowerCase()
+    .replace(SUPPORTED_PRINCIPAL_RE, "")
+    .replace(/\s+/g, " ")
+    .trim()
+  if (t) {
+    for (const rule of LADDER) {
+      const m = t.match(rule.re)
+      if (m) return { level: rule.level, impliedYears: rule.years, evidence: m[0] }
+    }
+  }
+  return { level: "unknown", impliedYears: null, evidence: null }
+}
+
+export function isSeniorLevel(level: SeniorityLevel): boolean {
+  return LEVEL_RANK[level] >= LEVEL_RANK.senior
+}
+
+export type SeniorityGap = {
+  severity: "high" | "medium" | "low"
+  gapYears: number
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+const LEVEL_LABEL: Record<SeniorityLevel, string> = {
+  unknown: "an unplaced",
+  intern: "an intern",
+  entry: "an entry",
+  early: "an early-career",
+  mid: "a mid",
+  senior: "a senior",
+  lead: "a lead",
+  manager: "a manager",
+  director: "a director",
+  exec: "an executive",
+}
+
+export function seniorityGap(
+  seniority: TitleSeniority | null | undefined,
+  yearsExperience: number | null | undefined
+): SeniorityGap | null {
+  if (!seniority || seniority.impliedYears === null || yearsExperience === null || yearsExperience === undefined) {
+    return null
+  }
+  const gapYears = seniority.impliedYears - yearsExperience
+  if (gapYears < 1) return null
+
+  const years = seniority.impliedYears
+  const have = `Profile shows approximately ${yearsExperience} year${yearsExperience === 1 ? "" : "s"} of experience.`
+  const jobFact = `Job title reads as ${LEVEL_LABEL[seniority.level]}-level role ("${seniority.evidence}"), which usually means ${years}+ years of experience.`
+
+  if (gapYears >= 3) {
+    return {
+      severity: "high",
+      gapYears,
+      jobFact,
+      profileFact: have,
+      detail:
+        "This role is titled at a level above where early-career candidates are typically competitive. Strong keyword match alone does not overcome a seniority gap — hiring managers screen on title-level experience first.",
+    }
+  }
+  if (gapYears >= 2) {
+    return {
+      severity: "medium",
+      gapYears,
+      jobFact,
+      profileFact: have,
+      detail: "The title is a rung or two above your experience. Lead with your most senior-looking work and be ready to explain the jump.",
+    }
+  }
+  return {
+    severity: "low",
+    gapYears,
+    jobFact,
+    profileFact: have,
+    detail: "The title suggests slightly more experience than you show. Usually workable if the rest of the match is strong.",
+  }
+}
@@ -0,0 +1,100 @@
+// FILE: app/api/jobfit/shadow-report/route.ts
+//
+// GET /api/jobfit/shadow-report — V3 vs V4 agreement by job family.
+//
+// Query: ?days=30 (1–365, default 30)
+// Auth:  Bearer token; the caller's profile must be a coach. The report
+//        is aggregate only — no student or posting is identifiable in it.
+//
+// Reads jobfit_shadow_comparisons (written by ../../_lib/jobfitShadow.ts
+// when JOBFIT_V4_SHADOW is on) and aggregates with
+// summarizeShadowComparisons. Rows are paged in 1000s — PostgREST's
+// default max — up to MAX_ROWS.
+//
+// No V4 evaluator ships yet, so shadow mode is inert and the report is
+// empty until one is registered with setV4ShadowEngine. engine_installed
+// in the response says which case an empty report is.
+
+import { type NextRequest } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+
+import { getAuthedProfileText } from "../../_lib/authProfile"
+import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import {
+  SHADOW_ENGINE_V4,
+  summarizeShadowComparisons,
+  v4ShadowEngineInstalled,
+  type ShadowComparisonRow,
+} from "../../_lib/jobfitShadow"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const PAGE_SIZE = 1000
+const MAX_ROWS = 50_000
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !key) throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY")
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+async function verifyCoach(profileId: string, supabase: ReturnType<typeof getSupabaseAdmin>): Promise<boolean> {
+  const { data } = await supabase
+    .from("client_profiles")
+    .select("is_coach")
+    .eq("id", profileId)
+    .single()
+  return data?.is_coach === true
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return corsOptionsResponse(req.headers.get("origin"))
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { profileId } = await getAuthedProfileText(req)
+    const supabase = getSupabaseAdmin()
+
+    const isCoach = await verifyCoach(profileId, supabase)
+    if (!isCoach) {
+      return withCorsJson(req, { ok: false, error: "Forbidden: caller is not a coach" }, 403)
+    }
+
+    const daysRaw = Number(new URL(req.url).searchParams.get("days") || 30)
+    const days = Number.isFinite(daysRaw) ? Math.min(365, Math.max(1, Math.floor(daysRaw))) : 30
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const rows: ShadowComparisonRow[] = []
+    for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("jobfit_shadow_comparisons")
+        .select("job_family, v3_decision, v4_decision, v3_score, v4_capability_score")
+        .eq("shadow_engine", SHADOW_ENGINE_V4)
+        .gte("created_at", since)
+        .order("created_at", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+      if (error) throw new Error(`jobfit_shadow_comparisons lookup failed: ${error.message}`)
+      rows.push(...((data || []) as ShadowComparisonRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return withCorsJson(req, {
+      ok: true,
+      engine: SHADOW_ENGINE_V4,
+      engine_installed: v4ShadowEngineInstalled(),
+      days,
+      since,
+      truncated: rows.length >= MAX_ROWS,
+      report: summarizeShadowComparisons(rows),
+    })
+  } catch (err: any) {
+    const msg = err?.message || String(err)
+    const status = msg.toLowerCase().includes("unauthorized") ? 401 : 500
+    return withCorsJson(req, { ok: false, error: msg }, status)
+  }
+}
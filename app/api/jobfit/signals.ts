@@ -5,6 +5,11 @@
 // Deterministic only. No prose generation logic here.
 
 export type Decision = "Priority Apply" | "Apply" | "Review" | "Pass"
+// Reported instead of a band when the posting was too thin to judge. It is
+// not a rung on the Pass → Priority Apply ladder, so it stays out of
+// Decision and everything that ranks or caps by band.
+export const INSUFFICIENT_DETAIL = "Insufficient Detail"
+export type ResultDecision = Decision | typeof INSUFFICIENT_DETAIL
 export type LocationConstraint = "constrained" | "not_constrained" | "unclear"
 
 export type JobFamily =
@@ -23,6 +28,11 @@ export type JobFamily =
   | "Healthcare"
   | "Legal"
   | "Trades"
+  | "Education"
+  | "Nonprofit"
+  | "Media"
+  | "RealEstate"
+  | "SupplyChain"
   | "Other"
 
 // Sub-family for Finance jobs — distinguishes IB, FP&A, credit, etc.
@@ -52,8 +62,111 @@ export type SalesSubFamily =
   | "other_sales"     // Sales but sub-family unclear
   | null              // Not a Sales job
 
+// Sub-family for Marketing jobs. Same idea as SalesSubFamily — a brand
+// manager, a paid-media marketer and a PR coordinator are different
+// tracks. Fires RISK_MARKETING_SUBSEGMENT when the profile targets one
+// track and the JD is clearly another. Values line up with the marketing
+// FunctionTags.
+export type MarketingSubFamily =
+  | "brand"              // Brand management / strategy, integrated campaigns
+  | "growth_performance" // Paid media, SEO/SEM, lifecycle/email, demand gen, acquisition
+  | "product_marketing"  // PMM, go-to-market, positioning, launches, enablement
+  | "content_social"     // Content creation, social media, community, copywriting
+  | "communications_pr"  // PR, media relations, corporate communications
+  | "other_marketing"    // Marketing but sub-family unclear
+  | null                 // Not a Marketing job
+
+// Sub-family for Engineering and IT_Software jobs. The family gate treats
+// both as single blocks; this splits them so a mechanical grad is not
+// scored as a match for a civil posting, or a data engineer for a help
+// desk. Distance between sub-families lives in extract.ts
+// (getEngineeringSubFamilyDistance).
+export type EngineeringSubFamily =
+  | "mechanical"        // Mechanical / aerospace design, HVAC, thermal, CAD
+  | "civil"             // Civil / structural / geotechnical / environmental
+  | "electrical"        // Electrical, electronics, power, controls, hardware
+  | "chemical"          // Chemical engineering, process chemistry, refining
+  | "industrial"        // Industrial / manufacturing / quality engineering
+  | "software"          // Software development, web/mobile, DevOps/SRE
+  | "data"              // Data engineering, data science, ML
+  | "it_support"        // Help desk, desktop support, sysadmin, networking
+  | "cybersecurity"     // Security operations, infosec, pen testing, GRC
+  | "other_engineering" // Engineering/IT but sub-family unclear
+  | null                // Not an Engineering or IT_Software job
+
 export type LocationMode = "in_person" | "hybrid" | "remote" | "unclear"
 
+export type WorkingTimeZone = "ET" | "CT" | "MT" | "PT"
+
+// Title-level ladder; same rungs as the V1 engine's SeniorityHint.
+export type SeniorityLevel =
+  | "intern"
+  | "entry"
+  | "early"
+  | "mid"
+  | "senior"
+  | "lead"
+  | "manager"
+  | "director"
+  | "exec"
+  | "unknown"
+
+export type TitleSeniority = {
+  level: SeniorityLevel
+  // Minimum years of experience the level usually implies. Null when
+  // the title does not place on the ladder.
+  impliedYears: number | null
+  // The title phrase that set the level ("associate director", "ii").
+  evidence: string | null
+}
+
+// Who the employer is, read from the posting's own language ("our
+// clients", "Series B", "Fortune 500", "501(c)(3)"). Each dimension is
+// null when the posting gives no usable cue.
+export type EmployerModel = "agency" | "in_house"
+export type EmployerStage = "startup" | "growth" | "enterprise"
+export type EmployerSector = "public" | "nonprofit" | "private"
+
+export type StructuredEmployerType = {
+  model: EmployerModel | null
+  stage: EmployerStage | null
+  sector: EmployerSector | null
+  // Phrase that decided each dimension.
+  evidence: {
+    model: string | null
+    stage: string | null
+    sector: string | null
+  }
+}
+
+// Employer types a candidate can ask for or rule out in the intake
+// ("in-house only", "no agencies", "open to startups").
+export type EmployerTypeTag = EmployerModel | EmployerStage | Exclude<EmployerSector, "private">
+
+export type EmployerTypePreferences = {
+  prefer: EmployerTypeTag[]
+  avoid: EmployerTypeTag[]
+}
+
+// How much the extractor had to work with (see extractionConfidence.ts).
+// "low" switches the result to the insufficient-detail mode.
+export type ExtractionConfidence = {
+  score: number
+  level: "high" | "medium" | "low"
+  // Plain-language reasons the score lost points.
+  reasons: string[]
+  inputs: {
+    wordCount: number
+    requirementUnits: number
+    // True when buildFallbackJobUnits supplied the units.
+    fallbackUsed: boolean
+    // Section kinds found by a header in segmentJobText.
+    sectionsDetected: string[]
+    titleDetected: boolean
+    companyDetected: boolean
+  }
+}
+
 export type Severity = "low" | "medium" | "high"
 
 export type FunctionTag =
@@ -77,6 +190,11 @@ export type FunctionTag =
   | "software_it"
   | "healthcare_clinical"
   | "trades_skilled"
+  | "education_teaching"
+  | "nonprofit_program"
+  | "media_entertainment"
+  | "real_estate"
+  | "supply_chain_logistics"
   | "other"
 
 export type EvidenceKind =
@@ -98,6 +216,87 @@ export type MatchStrength = "direct" | "adjacent"
 // "mixed"       = meaningful blend of 2+ archetypes
 export type RoleArchetype = "analytical" | "strategic" | "execution" | "mixed" | "unclear"
 
+// Job-side work-authorization restriction. Same vocabulary as the legacy
+// jobfit-engine WorkAuthRestrictionType, plus citizenship_required (which
+// includes cleared roles — clearances are only granted to citizens).
+// "us_only" = U.S. persons (citizens + permanent residents), e.g. ITAR.
+export type WorkAuthRestriction =
+  | "none"
+  | "citizenship_required"
+  | "us_only"
+  | "requires_sponsorship_not_available"
+  | "must_have_work_auth"
+  | "unknown"
+
+export type WorkAuthStatus =
+  | "us_citizen"
+  | "permanent_resident"
+  | "has_work_auth"
+  | "needs_sponsorship"
+  | "unknown"
+
+// How a posting states compensation. "stipend" is a lump sum with no
+// period — it is never annualized.
+export type PayBasis = "hourly" | "weekly" | "monthly" | "annual" | "stipend"
+
+export type StructuredPay = {
+  min: number | null
+  max: number | null
+  currency: string              // ISO code: "USD", "GBP", "EUR", "CAD"
+  basis: PayBasis
+  annualizedMin: number | null  // hourly x 2080, weekly x 52, monthly x 12
+  annualizedMax: number | null
+  annualizedEstimate: number | null // midpoint of the annualized range
+  raw: string
+  evidence: string | null
+}
+
+export type LanguageProficiency = "native" | "fluent" | "professional" | "conversational" | "basic" | "unspecified"
+
+// A spoken language the posting asks for. English is never listed.
+export type LanguageRequirement = {
+  language: string             // canonical name: "Spanish", "Mandarin", "ASL"
+  required: boolean            // false = preferred / a plus
+  proficiency: LanguageProficiency
+  evidence: string
+}
+
+export type ProfileLanguage = {
+  language: string
+  proficiency: LanguageProficiency
+  evidence: string
+  source: "resume" | "profile"
+}
+
+// Schedule patterns a posting can require and a candidate can rule out.
+export type ShiftPattern = "overnight" | "rotating" | "weekends" | "evenings" | "on_call"
+
+export type PhysicalDemand = "prolonged_standing" | "climbing" | "outdoor_exposure"
+
+// Travel, schedule, relocation and physical requirements stated in the
+// posting. Each block carries the line it came from.
+export type StructuredWorkConditions = {
+  travel: {
+    percent: number | null   // highest stated figure: "up to 75% travel" -> 75
+    frequent: boolean        // "extensive travel" with no figure
+    evidence: string | null
+  }
+  shifts: {
+    patterns: ShiftPattern[]
+    occasional: boolean      // "occasional weekends as needed"
+    evidence: string | null
+  }
+  relocation: {
+    required: boolean
+    evidence: string | null
+  }
+  physical: {
+    liftLbs: number | null
+    demands: PhysicalDemand[]
+    evidence: string | null
+  }
+}
+
 export type ProfileConstraints = {
   hardNoHourlyPay: boolean
   prefFullTime: boolean
@@ -109,6 +308,16 @@ export type ProfileConstraints = {
   // New — explicit content/execution role exclusions
   hardNoContentOnly: boolean   // "no pure social media content roles", "no coordinator roles"
   hardNoPartTime: boolean      // "full time only", "no part time"
+  workAuthStatus: WorkAuthStatus // "F-1 / OPT, will need sponsorship", "US citizen"
+  // Pay floor — "minimum salary $60k", "nothing under $20/hr". Null = not stated.
+  minAnnualPay: number | null
+  minHourlyRate: number | null
+  // Work-condition hard nos — "no more than 25% travel", "no weekends",
+  // "not willing to relocate", "no heavy lifting". Null / empty = not stated.
+  maxTravelPercent: number | null
+  hardNoShifts: ShiftPattern[]
+  hardNoRelocation: boolean
+  hardNoPhysicalDemands: boolean
 }
 
 export type ProfileEvidenceUnit = {
@@ -145,6 +354,14 @@ export type StructuredProfileSignals = {
   }
   tools: string[]
   gradYear: number | null
+  // Spoken languages from a "Languages:" line or "fluent in ..." phrasing.
+  languages: ProfileLanguage[]
+  // Employer types asked for or ruled out in the intake header.
+  employerPreferences: EmployerTypePreferences
+  // 4.0 scale. Intake answer first, then resume. gpaListedOnResume is
+  // tracked separately — screeners only see the resume.
+  gpa: number | null
+  gpaListedOnResume: boolean
   degreeStatus: "has_degree" | "in_progress" | "no_degree" | "unknown"
   yearsExperienceApprox: number | null
 
@@ -169,6 +386,12 @@ export type StructuredProfileSignals = {
   // Sub-segments of Sales the candidate explicitly targets. Parsed from
   // target_roles. Used to detect mismatch against job-side salesSubFamily.
   salesTargetSubsegments?: SalesSubFamily[]
+  // Marketing tracks the candidate explicitly targets, from target_roles.
+  // Compared against job-side marketingSubFamily.
+  marketingTargetSubsegments?: MarketingSubFamily[]
+  // Engineering / IT track from target roles or the resume. Set only when
+  // the profile targets Engineering or IT_Software.
+  engineeringSubFamily?: EngineeringSubFamily
 
   // Resume text — needed for some gate exemption checks
   resumeText?: string
@@ -177,6 +400,27 @@ export type StructuredProfileSignals = {
   profileHeaderText?: string
 }
 
+// Keyword attribution for one extracted job signal (extractJobSignals
+// with { trace: true }). `rule` names the keyword list or detector that
+// fired — "extraction.sales.keywords" for a POLICY list, "title:<name>"
+// for a title regex. `section` is the segmentJobText section the line
+// sits in, or "title" for the user-provided job title. line/section are
+// null when a match spans a line break.
+export type SignalAttributionMatch = {
+  phrase: string
+  line: string | null
+  section: string | null
+  header: string | null
+}
+
+export type SignalAttribution = {
+  signal: string
+  value: string | number | boolean | null
+  rule: string
+  matches: SignalAttributionMatch[]
+  note?: string
+}
+
 export type StructuredJobSignals = {
   rawHash: string
   jobTitle: string | null
@@ -185,22 +429,39 @@ export type StructuredJobSignals = {
   financeSubFamily: FinanceSubFamily
   // Sub-family for Sales jobs. Null when jobFamily is not Sales.
   salesSubFamily: SalesSubFamily
+  // Sub-family for Marketing jobs. Null when jobFamily is not Marketing.
+  marketingSubFamily: MarketingSubFamily
+  // Sub-family for Engineering and IT_Software jobs. Null otherwise.
+  engineeringSubFamily: EngineeringSubFamily
   analytics: { isHeavy: boolean; isLight: boolean }
   function_tags?: FunctionTag[]
+  extractionConfidence: ExtractionConfidence
   signal_debug?: {
     hits?: Record<string, number>
     notes?: string[]
+    attribution?: SignalAttribution[]
   }
   location: {
     mode: LocationMode
     constrained: boolean
+    // First city the posting names; kept for readers that want one.
     city: string | null
+    // Every metro the posting names, in order — any of them is acceptable.
+    cities: string[]
+    // Remote eligibility ("US", "US East", "Canada", two-letter states).
+    remoteRegions: string[]
+    // Required working-hours zones.
+    timeZones: WorkingTimeZone[]
     evidence: string | null
   }
   isGovernment: boolean
+  // Agency vs in-house, startup vs enterprise, public / nonprofit / private.
+  employerType: StructuredEmployerType
   isSalesHeavy: boolean
   isContract: boolean
   isHourly: boolean
+  // Parsed compensation. Null when the posting states no usable pay figure.
+  pay: StructuredPay | null
   yearsRequired: number | null
   mbaRequired: boolean
   bachelorRequired: boolean
@@ -208,7 +469,24 @@ export type StructuredJobSignals = {
 credentialRequired: boolean
   credentialDetail: string | null
   credentialSponsored: boolean
+  // Visa sponsorship / citizenship / clearance language. Unrelated to
+  // credentialSponsored, which is about the employer sponsoring a license.
+  workAuth: {
+    restriction: WorkAuthRestriction
+    sponsorshipAvailable: boolean | null
+    clearanceRequired: boolean
+    evidence: string | null
+  }
+  workConditions: StructuredWorkConditions
+  languages: LanguageRequirement[]
   gradYearHint: number | null
+  // Explicit GPA cutoff ("3.5+ GPA required"). required=false when the
+  // line softens it to a preference.
+  gpa: {
+    minimum: number | null
+    required: boolean
+    evidence: string | null
+  }
   requiredTools: string[]
   preferredTools: string[]
   reportingSignals: { strong: boolean }
@@ -234,7 +512,9 @@ credentialRequired: boolean
     }
   }
   // Fields added for interest-alignment scoring
+  // True when the title sits at senior or above on the seniority ladder.
   isSeniorRole: boolean
+  seniority: TitleSeniority
   isTrainingProgram: boolean
   requiresAECExperience: boolean
   requiresDomainIndustryExperience: boolean
@@ -290,9 +570,13 @@ export type ScoreBreakdown = {
   clamped_score?: number
 }
 
+// "insufficient_detail" when the posting was too thin to extract from.
+// decision is INSUFFICIENT_DETAIL in that mode and score is null.
+export type ResultMode = "standard" | "insufficient_detail"
+
 export type EvalOutput = {
-  decision: Decision
-  score: number
+  decision: ResultDecision
+  score: number | null
   bullets: string[]
   risk_flags: string[]
   next_step: string
@@ -303,6 +587,13 @@ export type EvalOutput = {
   job_signals?: StructuredJobSignals
   profile_signals?: StructuredProfileSignals
   score_breakdown?: ScoreBreakdown
+  result_mode?: ResultMode
+  // Set only in the insufficient-detail mode.
+  insufficient_detail?: {
+    confidence: number
+    reasons: string[]
+    guidance: string
+  }
 }
 
 export function emptyEvalOutput(): EvalOutput {
@@ -0,0 +1,324 @@
+// FILE: app/api/jobfit/toolOntology.ts
+//
+// The one place tool and skill knowledge lives: canonical tool ids, the
+// aliases postings and resumes use for them, a category, and how well one
+// tool stands in for another. Extraction (extract.ts), POLICY.tools, the
+// missing-tool penalty and capability adjacency in scoring.ts, and the
+// keyword coverage used by /api/positioning all read from here.
+//
+// Ids are the lowercase strings stored on job_signals / profile_signals
+// ("power bi", "google analytics"), so changing an id is a data migration,
+// not a rename. Bump TOOL_ONTOLOGY_VERSION whenever entries, aliases or
+// weights change — it is returned by /api/jobfit/tools and lets a stored
+// run be traced to the dictionary that produced it.
+//
+// coveredBy is directional: it lists profile tools that partially prove
+// the entry when the posting asks for it, weighted 0..1. Scoring scales the
+// missing-tool penalty by (1 - weight), so 0.5 halves it.
+
+export const TOOL_ONTOLOGY_VERSION = "TOOL_ONTOLOGY__2026_10_19__A"
+
+export type ToolCategory =
+  | "office"
+  | "bi_visualization"
+  | "programming"
+  | "statistics"
+  | "database"
+  | "web_analytics"
+  | "product_analytics"
+  | "crm"
+  | "marketing_automation"
+  | "ecommerce"
+  | "design"
+  | "cad"
+  | "structural_analysis"
+  | "simulation"
+  | "construction_pm"
+  | "cloud"
+  | "devops"
+  | "version_control"
+  | "project_management"
+
+export type ToolEntry = {
+  id: string
+  label: string
+  category: ToolCategory
+  aliases: string[]
+  // POLICY.tools tier — the tools the engine treats as broadly important.
+  tier?: "core" | "preferred"
+  coveredBy?: Record<string, number>
+}
+
+// Order matters: extraction reports tools in this order and canonicalToolId
+// returns the first entry whose alias appears in the input.
+export const TOOLS: ToolEntry[] = [
+  { id: "excel", label: "Excel", category: "office", aliases: ["excel", "microsoft excel"], tier: "core", coveredBy: { "google sheets": 0.75 } },
+  { id: "powerpoint", label: "PowerPoint", category: "office", aliases: ["powerpoint", "power point", "ppt"], coveredBy: { "google slides": 0.75 } },
+  { id: "word", label: "Word", category: "office", aliases: ["word", "microsoft word"], coveredBy: { "google docs": 0.75 } },
+  { id: "sql", label: "SQL", category: "database", aliases: ["sql"], tier: "core", coveredBy: { python: 0.5, r: 0.5, excel: 0.5 } },
+  { id: "python", label: "Python", category: "programming", aliases: ["python"], tier: "core", coveredBy: { r: 0.5, sql: 0.5 } },
+  { id: "r", label: "R", category: "statistics", aliases: ["r", "r studio", "rstudio"], coveredBy: { python: 0.5 } },
+  {
+    id: "tableau",
+    label: "Tableau",
+    category: "bi_visualization",
+    aliases: ["tableau"],
+    tier: "core",
+    coveredBy: { "power bi": 0.75, looker: 0.6, excel: 0.5, sql: 0.5 },
+  },
+  {
+    id: "power bi",
+    label: "Power BI",
+    category: "bi_visualization",
+    aliases: ["power bi", "powerbi"],
+    tier: "core",
+    coveredBy: { tableau: 0.75, looker: 0.6, excel: 0.5, sql: 0.5 },
+  },
+  { id: "figma", label: "Figma", category: "design", aliases: ["figma"] },
+  { id: "photoshop", label: "Photoshop", category: "design", aliases: ["photoshop", "adobe photoshop"] },
+  { id: "illustrator", label: "Illustrator", category: "design", aliases: ["illustrator", "adobe illustrator"] },
+  { id: "indesign", label: "InDesign", category: "design", aliases: ["indesign", "adobe indesign"] },
+  { id: "canva", label: "Canva", category: "design", aliases: ["canva"] },
+  { id: "hubspot", label: "HubSpot", category: "crm", aliases: ["hubspot"], tier: "preferred", coveredBy: { crm: 0.5, salesforce: 0.5 } },
+  {
+    id: "salesforce",
+    label: "Salesforce",
+    category: "crm",
+    aliases: ["salesforce", "sales force"],
+    tier: "preferred",
+    coveredBy: { crm: 0.5, hubspot: 0.5 },
+  },
+  { id: "shopify", label: "Shopify", category: "ecommerce", aliases: ["shopify"] },
+  {
+    id: "google analytics",
+    label: "Google Analytics",
+    category: "web_analytics",
+    aliases: ["google analytics", "ga4"],
+    tier: "core",
+    coveredBy: { excel: 0.5, sql: 0.5 },
+  },
+  { id: "spss", label: "SPSS", category: "statistics", aliases: ["spss"] },
+  { id: "autocad", label: "AutoCAD", category: "cad", aliases: ["autocad", "auto cad"] },
+  { id: "crm", label: "CRM", category: "crm", aliases: ["crm", "customer relationship management"], coveredBy: { salesforce: 0.5, hubspot: 0.5 } },
+
+  // Engineering tools
+  { id: "revit", label: "Revit", category: "cad", aliases: ["revit", "autodesk revit"] },
+  { id: "solidworks", label: "SolidWorks", category: "cad", aliases: ["solidworks", "solid works"], coveredBy: { catia: 0.6 } },
+  { id: "catia", label: "CATIA", category: "cad", aliases: ["catia"], coveredBy: { solidworks: 0.6 } },
+  { id: "staad pro", label: "STAAD.Pro", category: "structural_analysis", aliases: ["staad", "staad pro", "staad.pro"] },
+  { id: "sap2000", label: "SAP2000", category: "structural_analysis", aliases: ["sap2000", "sap 2000"] },
+  { id: "etabs", label: "ETABS", category: "structural_analysis", aliases: ["etabs"] },
+  { id: "risa", label: "RISA", category: "structural_analysis", aliases: ["risa"] },
+  { id: "ansys", label: "ANSYS", category: "simulation", aliases: ["ansys"], coveredBy: { abaqus: 0.6 } },
+  { id: "abaqus", label: "Abaqus", category: "simulation", aliases: ["abaqus"], coveredBy: { ansys: 0.6 } },
+  { id: "matlab", label: "MATLAB", category: "programming", aliases: ["matlab"] },
+  { id: "microstation", label: "MicroStation", category: "cad", aliases: ["microstation"] },
+  { id: "civil3d", label: "Civil 3D", category: "cad", aliases: ["civil 3d", "civil3d"] },
+  { id: "tekla", label: "Tekla", category: "structural_analysis", aliases: ["tekla"] },
+  { id: "primavera", label: "Primavera P6", category: "construction_pm", aliases: ["primavera", "p6"] },
+  { id: "procore", label: "Procore", category: "construction_pm", aliases: ["procore"] },
+  { id: "bluebeam", label: "Bluebeam", category: "construction_pm", aliases: ["bluebeam"] },
+
+  // Software / IT tools
+  { id: "aws", label: "AWS", category: "cloud", aliases: ["aws", "amazon web services"], coveredBy: { azure: 0.6, gcp: 0.6 } },
+  { id: "azure", label: "Azure", category: "cloud", aliases: ["azure", "microsoft azure"], coveredBy: { aws: 0.6, gcp: 0.6 } },
+  { id: "gcp", label: "Google Cloud", category: "cloud", aliases: ["gcp", "google cloud"], coveredBy: { aws: 0.6, azure: 0.6 } },
+  { id: "docker", label: "Docker", category: "devops", aliases: ["docker"] },
+  { id: "kubernetes", label: "Kubernetes", category: "devops", aliases: ["kubernetes", "k8s"], coveredBy: { docker: 0.5 } },
+  { id: "terraform", label: "Terraform", category: "devops", aliases: ["terraform"] },
+  { id: "jenkins", label: "Jenkins", category: "devops", aliases: ["jenkins"] },
+  { id: "git", label: "Git", category: "version_control", aliases: ["git", "github", "gitlab"] },
+  { id: "jira", label: "Jira", category: "project_management", aliases: ["jira"], coveredBy: { asana: 0.5, trello: 0.5 } },
+  { id: "react", label: "React", category: "programming", aliases: ["react", "reactjs", "react.js"] },
+  { id: "node", label: "Node.js", category: "programming", aliases: ["node", "nodejs", "node.js"] },
+  { id: "java", label: "Java", category: "programming", aliases: ["java"], coveredBy: { kotlin: 0.6, "c++": 0.5 } },
+  { id: "c++", label: "C++", category: "programming", aliases: ["c++", "cpp"], coveredBy: { java: 0.5 } },
+  { id: "golang", label: "Go", category: "programming", aliases: ["golang", "go lang"] },
+  { id: "typescript", label: "TypeScript", category: "programming", aliases: ["typescript"] },
+  { id: "swift", label: "Swift", category: "programming", aliases: ["swift"], coveredBy: { kotlin: 0.5 } },
+  { id: "kotlin", label: "Kotlin", category: "programming", aliases: ["kotlin"], coveredBy: { java: 0.6, swift: 0.5 } },
+
+  // Analytics / marketing stack
+  { id: "looker", label: "Looker", category: "bi_visualization", aliases: ["looker"], tier: "preferred", coveredBy: { tableau: 0.6, "power bi": 0.6 } },
+  { id: "amplitude", label: "Amplitude", category: "product_analytics", aliases: ["amplitude"], tier: "preferred", coveredBy: { mixpanel: 0.75 } },
+  { id: "mixpanel", label: "Mixpanel", category: "product_analytics", aliases: ["mixpanel"], tier: "preferred", coveredBy: { amplitude: 0.75 } },
+  { id: "marketo", label: "Marketo", category: "marketing_automation", aliases: ["marketo"], tier: "preferred", coveredBy: { hubspot: 0.5, klaviyo: 0.5 } },
+  { id: "klaviyo", label: "Klaviyo", category: "marketing_automation", aliases: ["klaviyo"], tier: "preferred", coveredBy: { hubspot: 0.5, marketo: 0.5 } },
+  { id: "sas", label: "SAS", category: "statistics", aliases: ["sas"], coveredBy: { r: 0.5, spss: 0.5, stata: 0.5 } },
+  { id: "stata", label: "Stata", category: "statistics", aliases: ["stata"], coveredBy: { r: 0.5, spss: 0.5, sas: 0.5 } },
+
+  // Google Workspace apps — also credited through the suite expansion below.
+  { id: "google sheets", label: "Google Sheets", category: "office", aliases: ["google sheets"], coveredBy: { excel: 0.75 } },
+  { id: "google docs", label: "Google Docs", category: "office", aliases: ["google docs"], coveredBy: { word: 0.75 } },
+  { id: "google slides", label: "Google Slides", category: "office", aliases: ["google slides"], coveredBy: { powerpoint: 0.75 } },
+
+  { id: "asana", label: "Asana", category: "project_management", aliases: ["asana"], coveredBy: { jira: 0.5, trello: 0.5 } },
+  { id: "trello", label: "Trello", category: "project_management", aliases: ["trello"], coveredBy: { jira: 0.5, asana: 0.5 } },
+]
+
+// Suite names credit the individual apps. A candidate who writes
+// "Microsoft Office Suite" should not be penalized for a posting that lists
+// Excel.
+export const TOOL_SUITES: Array<{ id: string; pattern: RegExp; expandsTo: string[] }> = [
+  {
+    id: "microsoft office",
+    pattern: /\b(microsoft office suite|ms office suite|ms office|microsoft office|office 365|o365|office suite)\b/i,
+    expandsTo: ["excel", "powerpoint", "word"],
+  },
+  {
+    id: "google workspace",
+    pattern: /\b(google workspace|g ?suite|google g ?suite)\b/i,
+    expandsTo: ["google sheets", "google docs", "google slides"],
+  },
+  {
+    id: "adobe creative cloud",
+    pattern: /\b(adobe creative cloud|creative cloud|adobe creative suite|creative suite)\b/i,
+    expandsTo: ["photoshop", "illustrator", "indesign"],
+  },
+]
+
+// Capability keys (the requirement units scoring matches on) that count as
+// adjacent evidence for one another. Checked in both directions.
+export const CAPABILITY_ADJACENCY: Record<string, string[]> = {
+  brand_messaging: ["content_execution", "visual_communication", "communications_writing"],
+  communications_writing: ["drafting_documentation", "stakeholder_coordination"],
+  visual_communication: ["brand_messaging", "content_execution"],
+  content_execution: ["brand_messaging", "visual_communication", "performance_optimization"],
+  consumer_research: ["analysis_reporting", "policy_regulatory_research", "strategy_problem_solving"],
+  analysis_reporting: ["financial_analysis", "performance_optimization", "consumer_research"],
+  performance_optimization: ["analysis_reporting", "content_execution"],
+  product_positioning: ["brand_messaging", "communications_writing"],
+
+  prospecting_pipeline_management: ["account_management", "territory_execution", "client_commercial_work"],
+  account_management: ["prospecting_pipeline_management", "post_sale_support", "client_commercial_work"],
+  territory_execution: ["account_management", "hospital_or_environment", "prospecting_pipeline_management"],
+  crm_usage: [],
+  post_sale_support: ["account_management", "product_training_enablement"],
+  product_training_enablement: ["post_sale_support", "clinical_stakeholder_fluency"],
+  hospital_or_environment: ["clinical_stakeholder_fluency", "clinical_patient_work"],
+  clinical_stakeholder_fluency: ["hospital_or_environment", "clinical_patient_work", "product_training_enablement"],
+  med_device_industry_knowledge: ["hospital_or_environment", "product_training_enablement"],
+
+  client_commercial_work: ["stakeholder_coordination", "account_management", "prospecting_pipeline_management"],
+  policy_regulatory_research: ["drafting_documentation", "analysis_reporting", "communications_writing"],
+  financial_analysis: ["analysis_reporting"],
+  accounting_operations: ["analysis_reporting", "operations_execution"],
+  operations_execution: ["stakeholder_coordination", "analysis_reporting", "drafting_documentation"],
+  strategy_problem_solving: ["analysis_reporting", "consumer_research", "stakeholder_coordination"],
+  stakeholder_coordination: ["operations_execution", "communications_writing", "account_management"],
+  drafting_documentation: ["communications_writing", "policy_regulatory_research"],
+  clinical_patient_work: ["hospital_or_environment", "clinical_stakeholder_fluency"],
+}
+
+const TOOLS_BY_ID = new Map(TOOLS.map((t) => [t.id, t]))
+
+// Same normalization and phrase boundary extract.ts uses, so a tool
+// resolves identically wherever it is read.
+function norm(s: string): string {
+  return String(s || "")
+    .toLowerCase()
+    .replace(/\u00a0/g, " ")
+    .replace(/[•·]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function includesPhrase(hay: string, phrase: string): boolean {
+  const p = norm(phrase)
+  if (!p) return false
+  const escaped = p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`(^|\\W)${escaped}($|\\W)`, "i").test(hay)
+}
+
+export function toolById(id: string): ToolEntry | null {
+  return TOOLS_BY_ID.get(norm(id)) || null
+}
+
+export function toolIdsForTier(tier: "core" | "preferred"): string[] {
+  return TOOLS.filter((t) => t.tier === tier).map((t) => t.id)
+}
+
+// Canonical id for a raw tool string; unknown tools come back normalized.
+export function canonicalToolId(raw: string): string {
+  const n = norm(raw)
+  for (const tool of TOOLS) {
+    if (tool.aliases.some((a) => includesPhrase(n, a))) return tool.id
+  }
+  return n
+}
+
+// Every tool a piece of text mentions, suites expanded, in ontology order.
+export function extractToolMentions(text: string): string[] {
+  const t = norm(text)
+  const out = new Set<string>()
+  for (const tool of TOOLS) {
+    if (tool.aliases.some((alias) => includesPhrase(t, alias))) out.add(tool.id)
+  }
+  for (const suite of TOOL_SUITES) {
+    if (suite.pattern.test(t)) for (const id of suite.expandsTo) out.add(id)
+  }
+  return Array.from(out)
+}
+
+// True when the phrase names a known tool or suite anywhere in it.
+export function isToolPhrase(phrase: string): boolean {
+  const t = norm(phrase)
+  return TOOLS.some((tool) => tool.aliases.some((a) => includesPhrase(t, a))) || TOOL_SUITES.some((s) => s.pattern.test(t))
+}
+
+// Best partial proof the profile has for a tool it is missing.
+export function toolSubstitute(profileTools: string[], missingTool: string): { id: string; weight: number } | null {
+  const entry = toolById(canonicalToolId(missingTool))
+  if (!entry?.coveredBy) return null
+  const have = new Set(profileTools.map(canonicalToolId))
+  let best: { id: string; weight: number } | null = null
+  for (const [id, weight] of Object.entries(entry.coveredBy)) {
+    if (have.has(id) && (!best || weight > best.weight)) best = { id, weight }
+  }
+  return best
+}
+
+export function capabilitiesAdjacent(a: string, b: string): boolean {
+  return (CAPABILITY_ADJACENCY[a] || []).includes(b) || (CAPABILITY_ADJACENCY[b] || []).includes(a)
+}
+
+export type ToolResolution = {
+  input: string
+  normalized: string
+  id: string
+  known: boolean
+  label: string | null
+  category: ToolCategory | null
+  tier: "core" | "preferred" | null
+  matchedAlias: string | null
+  suite: string | null
+  expandsTo: string[]
+  coveredBy: Array<{ id: string; weight: number }>
+  covers: Array<{ id: string; weight: number }>
+}
+
+// How a raw string resolved — backs the /api/jobfit/tools debug route.
+export function resolveTool(raw: string): ToolResolution {
+  const normalized = norm(raw)
+  const id = canonicalToolId(raw)
+  const entry = toolById(id)
+  const matchedAlias = entry?.aliases.find((a) => includesPhrase(normalized, a)) ?? null
+  const suite = TOOL_SUITES.find((s) => s.pattern.test(normalized)) || null
+  return {
+    input: raw,
+    normalized,
+    id,
+    known: Boolean(entry),
+    label: entry?.label ?? null,
+    category: entry?.category ?? null,
+    tier: entry?.tier ?? null,
+    matchedAlias,
+    suite: suite?.id ?? null,
+    expandsTo: suite?.expandsTo ?? [],
+    coveredBy: Object.entries(entry?.coveredBy || {}).map(([id, weight]) => ({ id, weight })),
+    covers: TOOLS.filter((t) => entry && t.coveredBy?.[entry.id] !== undefined).map((t) => ({
+      id: t.id,
+      weight: t.coveredBy![entry!.id],
+    })),
+  }
+}
@@ -0,0 +1,52 @@
+// FILE: app/api/jobfit/tools/route.ts
+//
+// GET /api/jobfit/tools — show how raw tool strings resolve against the
+// tool ontology (../toolOntology.ts).
+//
+//   ?q=MS Office&q=powerbi   one resolution per q: canonical id, category,
+//                             matched alias, suite expansion, substitutes
+//   ?text=<any text>          the tool ids extraction would pull from it
+//
+// With no parameters it returns the whole ontology. Read-only, no auth —
+// the ontology ships in the bundle anyway.
+
+import { type NextRequest } from "next/server"
+
+import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import {
+  CAPABILITY_ADJACENCY,
+  TOOL_ONTOLOGY_VERSION,
+  TOOL_SUITES,
+  TOOLS,
+  extractToolMentions,
+  resolveTool,
+} from "../toolOntology"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function OPTIONS(req: NextRequest) {
+  return corsOptionsResponse(req.headers.get("origin"))
+}
+
+export async function GET(req: NextRequest) {
+  const queries = req.nextUrl.searchParams.getAll("q").filter((q) => q.trim().length > 0)
+  const text = req.nextUrl.searchParams.get("text")
+
+  if (!queries.length && !text) {
+    return withCorsJson(req, {
+      ok: true,
+      version: TOOL_ONTOLOGY_VERSION,
+      tools: TOOLS,
+      suites: TOOL_SUITES.map((s) => ({ id: s.id, pattern: s.pattern.source, expandsTo: s.expandsTo })),
+      capability_adjacency: CAPABILITY_ADJACENCY,
+    })
+  }
+
+  return withCorsJson(req, {
+    ok: true,
+    version: TOOL_ONTOLOGY_VERSION,
+    results: queries.map(resolveTool),
+    mentions: text ? extractToolMentions(text) : null,
+  })
+}
@@ -0,0 +1,216 @@
+// FILE: app/api/jobfit/workAuth.ts
+//
+// Work-authorization signals for the live JobFit pipeline.
+//
+// Job side: reads sponsorship / citizenship / clearance language out of the
+// posting and collapses it to a single restriction, using the same
+// vocabulary as the legacy jobfit-engine WorkAuthRestrictionType (plus
+// citizenship_required, which the legacy engine folded into us_only).
+//
+// Profile side: infers the candidate's status from the intake header. The
+// resume body is deliberately NOT scanned — "processed H-1B petitions" on
+// an HR internship or "International Student Association" on a citizen's
+// resume would otherwise mark them as needing sponsorship and hard-gate
+// them out of every "no sponsorship" posting.
+//
+// Both constraints.ts (gate) and scoring.ts (risk/penalty) go through
+// workAuthConflict so they can never disagree about what blocks.
+
+import { POLICY } from "./policy"
+import type { StructuredJobSignals, WorkAuthRestriction, WorkAuthStatus } from "./signals"
+
+function norm(s: string): string {
+  return String(s || "")
+    .toLowerCase()
+    .replace(/\u00a0/g, " ")
+    .replace(/[•·]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function includesPhrase(hay: string, phrase: string): boolean {
+  const p = norm(phrase)
+  if (!p) return false
+  return new RegExp(`(^|\\W)${escapeRegExp(p)}($|\\W)`, "i").test(hay)
+}
+
+// Sentence split that does not break "U.S. citizen" / "U.S. person" apart.
+function splitSentences(text: string): string[] {
+  return String(text || "")
+    .split(/\n+|(?<=[.!?])(?<!\b[A-Za-z]\.[A-Za-z]\.)\s+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+function firstLineMatching(lines: string[], phrases: string[], skip?: RegExp): string | null {
+  for (const line of lines) {
+    const n = norm(line)
+    if (skip && skip.test(n)) continue
+    if (phrases.some((p) => includesPhrase(n, p))) return line.slice(0, 240)
+  }
+  return null
+}
+
+// "No clearance required", "clearance is not required" — mentions that
+// rule a clearance out rather than in.
+const CLEARANCE_NEGATION = /\b(no|not|without)\b[^.]{0,40}\bclearance\b|\bclearance\b[^.]{0,40}\bnot (required|needed)\b/
+
+// "Will you now or in the future require sponsorship?" — an application
+// question asks the candidate; it says nothing about what the employer offers.
+const APPLICATION_QUESTION = /\?$|^(will|do|does|are|would|have|can|could) you\b/
+
+export function extractWorkAuthSignals(jobTextRaw: string): StructuredJobSignals["workAuth"] {
+  const cfg = POLICY.extraction.workAuth
+  const lines = splitSentences(jobTextRaw)
+
+  const citizenshipLine = firstLineMatching(lines, cfg.citizenshipPhrases)
+  const clearanceLine = firstLineMatching(lines, cfg.clearancePhrases, CLEARANCE_NEGATION)
+  const usOnlyLine = firstLineMatching(lines, cfg.usPersonPhrases)
+  const noSponsorshipLine = firstLineMatching(lines, cfg.noSponsorshipPhrases, APPLICATION_QUESTION)
+  const authRequiredLine = firstLineMatching(lines, cfg.authRequiredPhrases, APPLICATION_QUESTION)
+  const sponsorshipLine = noSponsorshipLine ? null : firstLineMatching(lines, cfg.sponsorshipAvailablePhrases, APPLICATION_QUESTION)
+
+  // Most restrictive wins. A cleared role is a citizenship requirement in
+  // practice even when the posting never says "citizen".
+  let restriction: WorkAuthRestriction = "unknown"
+  let evidence: string | null = null
+  if (citizenshipLine || clearanceLine) {
+    restriction = "citizenship_required"
+    evidence = citizenshipLine || clearanceLine
+  } else if (usOnlyLine) {
+    restriction = "us_only"
+    evidence = usOnlyLine
+  } else if (noSponsorshipLine) {
+    restriction = "requires_sponsorship_not_available"
+    evidence = noSponsorshipLine
+  } else if (authRequiredLine) {
+    restriction = "must_have_work_auth"
+    evidence = authRequiredLine
+  } else if (sponsorshipLine) {
+    restriction = "none"
+    evidence = sponsorshipLine
+  }
+
+  return {
+    restriction,
+    sponsorshipAvailable: sponsorshipLine ? true : noSponsorshipLine ? false : null,
+    clearanceRequired: Boolean(clearanceLine),
+    evidence,
+  }
+}
+
+/* ------------------------------ profile side ------------------------------ */
+
+function classifyStatusStatement(t: string, explicitField: boolean): WorkAuthStatus {
+  // Sponsorship cues come first: "Non-US citizen, F-1 OPT" names a
+  // citizenship, and reading it as one would clear the student past every
+  // citizens-only and no-sponsorship posting.
+  const noSponsorshipNeeded =
+    /\b(do not|don't|does not|will not|won't|never) (need|require) (any )?(visa |work )?sponsorship\b/.test(t)
+  if (
+    (!noSponsorshipNeeded && /\b(need|needs|require|requires|requiring|will need|will require) (visa |h-?1b |work )?sponsorship\b/.test(t)) ||
+    /\bf-?1\b|\bj-?1\b|\bh-?1b\b|\bstem opt\b|\b(on|f-?1) opt\b|\bopt (ead|eligible)\b|\bcpt\b/.test(t)
+  ) {
+    return "needs_sponsorship"
+  }
+  if (
+    /\b(u\.?s\.?|united states|american) citizen(ship)?\b/.test(t) &&
+    !/\bnot (a )?(u\.?s\.?|united states) citizen\b|\bnon[- ]?(u\.?s\.?|united states|american)?[- ]?citizen\b/.test(t)
+  ) {
+    return "us_citizen"
+  }
+  if (/\b(green card|permanent resident|lawful permanent|lpr)\b/.test(t)) return "permanent_resident"
+  if (noSponsorshipNeeded) return "has_work_auth"
+  // Inside an explicit "Work authorization:" answer, looser wording is
+  // safe — the student is describing themselves, not a past job.
+  if (explicitField && /\b(international student|visa|sponsor)\b/.test(t)) return "needs_sponsorship"
+  if (/\b(authorized|eligible) to work\b|\bwork authorization\b|\bead\b/.test(t)) return "has_work_auth"
+  return "unknown"
+}
+
+export function inferWorkAuthStatus(profileText: string): WorkAuthStatus {
+  const raw = String(profileText || "")
+
+  const explicit = raw.match(/work authori[sz]ation\s*(?:status)?\s*:\s*([^\n]+)/i)
+  if (explicit) {
+    const fromField = classifyStatusStatement(norm(explicit[1]), true)
+    if (fromField !== "unknown") return fromField
+  }
+
+  const header = raw.split(/\n\s*(?:resume|resume_paste)\s*:/i)[0]
+  return classifyStatusStatement(norm(header), false)
+}
+
+/* ------------------------------ conflict ------------------------------ */
+
+export type WorkAuthConflict = {
+  level: "block" | "risk"
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+const STATUS_LABEL: Record<WorkAuthStatus, string> = {
+  us_citizen: "U.S. citizen",
+  permanent_resident: "U.S. permanent resident",
+  has_work_auth: "authorized to work in the U.S.",
+  needs_sponsorship: "needs visa sponsorship",
+  unknown: "work authorization not stated",
+}
+
+// Unknown status never blocks: most citizens never say they are citizens,
+// and gating them on "will not sponsor" boilerplate would Pass half the
+// board. Only a stated status can conflict.
+export function workAuthConflict(
+  workAuth: StructuredJobSignals["workAuth"] | undefined,
+  status: WorkAuthStatus | undefined
+): WorkAuthConflict | null {
+  if (!workAuth || !status || status === "unknown") return null
+  const { restriction, evidence } = workAuth
+  const jobFact = evidence ? `Posting states: "${evidence}"` : "Posting restricts work authorization."
+  const profileFact = `Profile work authorization: ${STATUS_LABEL[status]}.`
+
+  if (restriction === "citizenship_required" && status !== "us_citizen") {
+    return {
+      level: "block",
+      jobFact,
+      profileFact,
+      detail: workAuth.clearanceRequired
+        ? "This role requires a U.S. security clearance, which is only granted to U.S. citizens. Your profile indicates you are not a U.S. citizen."
+        : "This role is open to U.S. citizens only. Your profile indicates you are not a U.S. citizen.",
+    }
+  }
+
+  if (restriction === "us_only" && (status === "has_work_auth" || status === "needs_sponsorship")) {
+    return {
+      level: "block",
+      jobFact,
+      profileFact,
+      detail: "This role is restricted to U.S. citizens and permanent residents (export-control / U.S. person requirement). Your profile indicates neither.",
+    }
+  }
+
+  if (restriction === "requires_sponsorship_not_available" && status === "needs_sponsorship") {
+    return {
+      level: "block",
+      jobFact,
+      profileFact,
+      detail: "This employer states it will not sponsor work visas. Your profile indicates you will need sponsorship, so the application will be screened out.",
+    }
+  }
+
+  if (restriction === "must_have_work_auth" && status === "needs_sponsorship") {
+    return {
+      level: "risk",
+      jobFact,
+      profileFact,
+      detail: "The posting requires U.S. work authorization but does not say whether it sponsors. Confirm sponsorship before investing in this application.",
+    }
+  }
+
+  return null
+}
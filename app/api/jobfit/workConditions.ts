@@ -0,0 +1,435 @@
+// FILE: app/api/jobfit/workConditions.ts
+//
+// Travel, schedule, relocation and physical requirements — the dealbreakers
+// students otherwise find out about in the interview.
+//
+// Job side: extractWorkConditions reads "up to 75% travel", "rotating
+// weekend shifts", "must be willing to relocate", "must be able to lift
+// 50 lbs". Schedule words only count when a requirement governs them
+// ("must work weekends", "weekend shifts"), and lines that rule them out
+// ("no nights or weekends!", "weekends are yours") are skipped. "Occasional evenings as needed" is kept but flagged.
+//
+// Profile side: inferWorkConditionLimits reads the intake header, same as
+// inferPayFloor. "No travel" is a 0% ceiling, "no heavy travel" / "limited
+// travel" is 25%, "minimal travel" is 10%.
+//
+// workConditionConflicts compares the two. Clear conflicts block (they
+// become gates in constraints.ts); borderline ones — a travel figure just
+// over the ceiling, occasional weekends, moderate lifting — are risks.
+
+import type {
+  PhysicalDemand,
+  ProfileConstraints,
+  ShiftPattern,
+  StructuredWorkConditions,
+} from "./signals"
+
+// Sentences, not lines — benefits paragraphs run several requirements
+// together and a perk in one sentence should not colour the next.
+function splitSentences(text: string): string[] {
+  return String(text || "")
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+}
+
+function evidenceOf(line: string): string {
+  return line.slice(0, 240)
+}
+
+/* ------------------------------ travel ------------------------------ */
+
+// Group 1 (and 2 for a range) capture the percentage. The figure has to
+// be a share of the job's time: "travel expenses reimbursed at 100%" and
+// "100% of travel costs covered" are about money.
+const TRAVEL_EXPENSE = String.raw`(?:expenses?|costs?|reimburse\w*|allowance|stipend|per diem)`
+const TRAVEL_PERCENT_RES: RegExp[] = [
+  new RegExp(
+    String.raw`(\d{1,3})\s*%?(?:\s*(?:-|–|to)\s*(\d{1,3}))?\s*%\s*(?:of\s+(?:the\s+)?time\s+)?(?:[a-z]+\s+)?travel(?!\s+${TRAVEL_EXPENSE}\b)`,
+    "i"
+  ),
+  new RegExp(
+    String.raw`\btravel(?:ing|ling)?\b(?:(?!\s*${TRAVEL_EXPENSE}\b)[^.%\d]){0,40}?(\d{1,3})\s*%(?:\s*(?:-|–|to)\s*(\d{1,3})\s*%)?`,
+    "i"
+  ),
+]
+
+const TRAVEL_FREQUENT_RE =
+  /\b(?:extensive|frequent|significant|heavy|constant|considerable)\s+(?:domestic\s+|international\s+|overnight\s+|national\s+)?travel\b|\bon the road\b|\btravel (?:is )?(?:required )?(?:weekly|extensively|frequently)\b/i
+
+function extractTravel(lines: string[]): StructuredWorkConditions["travel"] {
+  let percent: number | null = null
+  let evidence: string | null = null
+  for (const line of lines) {
+    for (const re of TRAVEL_PERCENT_RES) {
+      const m = line.match(re)
+      if (!m) continue
+      const n = Math.max(Number(m[1]), m[2] ? Number(m[2]) : 0)
+      if (n > 100) continue
+      if (percent === null || n > percent) {
+        percent = n
+        evidence = evidenceOf(line)
+      }
+    }
+  }
+
+  const frequentLine = lines.find((l) => TRAVEL_FREQUENT_RE.test(l)) || null
+  return {
+    percent,
+    frequent: Boolean(frequentLine),
+    evidence: evidence ?? (frequentLine ? evidenceOf(frequentLine) : null),
+  }
+}
+
+/* ------------------------------ schedule ------------------------------ */
+
+// Weekend and evening words count only when a requirement governs them —
+// "must work weekends", "availability on Saturdays", "evening shifts",
+// "weekends required" — not "weekend team events" or "weekends are yours".
+// Other schedule words may sit in the list ("work nights and weekends").
+const SCHEDULE_DAY = String.raw`(?:weekends?|saturdays?|sundays?|evenings?|nights|holidays?)`
+const SCHEDULE_JOIN = String.raw`\s*(?:,|\/|&|\band\b|\bor\b)\s*`
+const SCHEDULE_GOVERNOR =
+  String.raw`(?:work(?:s|ing)?|availab(?:le|ility)(?: to work)?|` +
+  String.raw`shifts? (?:include|includes|including|on|during)|schedules? (?:include|includes|including|requires?)|coverage (?:on|during))`
+const SCHEDULE_FILLER = String.raw`(?:on|during|some|most|all|every|alternating|occasional|rotating|the)`
+const SCHEDULE_DEMAND = String.raw`(?:shifts?|hours|work|coverage|availability|as needed|when needed|(?:is |are |will be )?(?:required|expected|mandatory))`
+
+function governedSchedule(word: string): RegExp {
+  return new RegExp(
+    String.raw`\b${SCHEDULE_GOVERNOR}(?:\s+${SCHEDULE_FILLER})*\s+(?:${SCHEDULE_DAY}${SCHEDULE_JOIN})*${word}\b|` +
+      String.raw`\b${word}(?:${SCHEDULE_JOIN}${SCHEDULE_DAY})*\s+${SCHEDULE_DEMAND}\b`,
+    "i"
+  )
+}
+
+// Bare "nights" only as a work schedule ("work nights", "nights and
+// weekends", "nights required"), not "trivia nights every month".
+const SHIFT_PATTERN_RES: Array<[ShiftPattern, RegExp]> = [
+  [
+    "overnight",
+    /\b(?:overnight (?:shifts?|hours|schedule)|overnights|night shifts?|graveyard shift|third shift|3rd shift|(?:work(?:ing)?|includ(?:es|ing)|on)\s+nights|nights\s*(?:,|\/|&|and|or)\s*(?:weekends?|evenings?|holidays?)|nights (?:are |will be )?(?:required|expected))\b/i,
+  ],
+  ["rotating", /\b(?:rotating (?:shifts?|schedule|weekends?|holidays?)|shift rotation)\b/i],
+  ["weekends", governedSchedule(String.raw`(?:weekends?|saturdays?|sundays?)`)],
+  ["evenings", new RegExp(String.raw`${governedSchedule(String.raw`evenings?`).source}|\b(?:second|2nd) shift\b`, "i")],
+  ["on_call", /\bon[- ]call\b/i],
+]
+
+// Patterns that carry their own schedule wording skip the context check.
+const GOVERNED_SHIFTS = new Set<ShiftPattern>(["overnight", "weekends", "evenings"])
+
+const SHIFT_CONTEXT_RE =
+  /\b(?:shifts?|schedules?|scheduling|availability|available|hours|coverage|rotation|required|needed|must|including|includes)\b/i
+
+// "No nights or weekends!", "we never ask you to work weekends", "weekends
+// are yours", "shift differential for evening positions" — a perk, not a
+// requirement. The negation has to sit in the same clause.
+const SHIFT_NEGATED_RE =
+  /\b(?:no|never|not|without)\b[^.;:,!?]{0,40}\b(?:nights?|weekends?|evenings?|on[- ]call|overnights?|shifts?)\b|\b(?:nights?|weekends?|evenings?)\s+(?:are\s+)?(?:off|free|yours|your own)\b|\bshift differentials?\b/i
+
+const SHIFT_OCCASIONAL_RE =
+  /\b(?:occasional(?:ly)?|as needed|when needed|periodic(?:ally)?|at times|from time to time|some|may (?:be required to|include|require))\b/i
+
+function extractShifts(lines: string[]): StructuredWorkConditions["shifts"] {
+  const patterns = new Set<ShiftPattern>()
+  let evidence: string | null = null
+  let allOccasional = true
+  for (const line of lines) {
+    if (SHIFT_NEGATED_RE.test(line)) continue
+    const hits = SHIFT_PATTERN_RES
+      .filter(([p, re]) => re.test(line) && (GOVERNED_SHIFTS.has(p) || SHIFT_CONTEXT_RE.test(line)))
+      .map(([p]) => p)
+    if (!hits.length) continue
+    for (const p of hits) patterns.add(p)
+    if (!SHIFT_OCCASIONAL_RE.test(line)) allOccasional = false
+    if (!evidence) evidence = evidenceOf(line)
+  }
+  return {
+    patterns: [...patterns],
+    occasional: patterns.size > 0 && allOccasional,
+    evidence,
+  }
+}
+
+/* ------------------------------ relocation ------------------------------ */
+
+const RELOCATION_REQUIRED_RES: RegExp[] = [
+  /\b(?:must|required to|will need to|expected to|need to)\s+(?:be\s+)?(?:willing\s+(?:and\s+able\s+)?to\s+)?relocate\b/i,
+  /\bwilling(?:ness)? to relocate\b/i,
+  // Not "open to relocation assistance" — that is the company's offer.
+  /\bopen to relocat(?:e|ing)\b|\bopen to relocation\b(?!\s+(?:assistance|package|support|benefits?|bonus|stipend|reimbursement))/i,
+  /\brelocation (?:is |will be )?(?:required|mandatory|expected)\b/i,
+]
+
+// "Willingness to relocate a plus" is a preference, not a requirement.
+const RELOCATION_SOFT_RE = /\b(?:preferred|a plus|ideally|nice to have|not required)\b/i
+
+function extractRelocation(lines: string[]): StructuredWorkConditions["relocation"] {
+  const line = lines.find((l) => RELOCATION_REQUIRED_RES.some((re) => re.test(l)) && !RELOCATION_SOFT_RE.test(l))
+  return { required: Boolean(line), evidence: line ? evidenceOf(line) : null }
+}
+
+/* ------------------------------ physical ------------------------------ */
+
+const LIFT_CONTEXT_RE = /\b(?:lift(?:ing)?|carry(?:ing)?|push(?:ing)?|pull(?:ing)?|move|moving|handle|handling)\b/i
+const LIFT_WEIGHT_RE = /\b(\d{2,3})\s*(?:\+\s*)?(?:-\s*)?(?:lbs?\b\.?|pounds?\b)/gi
+
+const PHYSICAL_DEMAND_RES: Array<[PhysicalDemand, RegExp]> = [
+  [
+    "prolonged_standing",
+    /\b(?:extended|prolonged|long) periods? of (?:time )?(?:standing|walking)\b|\b(?:stand(?:ing)?|on (?:your|their|one's) feet)\b[^.]{0,30}\b(?:extended|prolonged|long|entire|full|8|10|12)[- ](?:periods?|shifts?|hours?|day)\b/i,
+  ],
+  ["climbing", /\bclimb(?:ing)?\s+(?:ladders?|stairs|scaffold\w*|poles?|roofs?)\b/i],
+  [
+    "outdoor_exposure",
+    /\b(?:outdoors?|outside)\b[^.]{0,30}\b(?:all|various|inclement|extreme|adverse)\s+(?:weather|conditions|temperatures)\b|\bexposure to (?:weather|extreme (?:heat|cold|temperatures)|the elements)\b/i,
+  ],
+]
+
+function extractPhysical(lines: string[]): StructuredWorkConditions["physical"] {
+  let liftLbs: number | null = null
+  let evidence: string | null = null
+  const demands = new Set<PhysicalDemand>()
+  for (const line of lines) {
+    if (LIFT_CONTEXT_RE.test(line)) {
+      LIFT_WEIGHT_RE.lastIndex = 0
+      let m: RegExpExecArray | null
+      while ((m = LIFT_WEIGHT_RE.exec(line)) !== null) {
+        const n = Number(m[1])
+        if (n < 10 || n > 200) continue
+        if (liftLbs === null || n > liftLbs) {
+          liftLbs = n
+          evidence = evidenceOf(line)
+        }
+      }
+    }
+    for (const [d, re] of PHYSICAL_DEMAND_RES) {
+      if (!re.test(line)) continue
+      demands.add(d)
+      if (!evidence) evidence = evidenceOf(line)
+    }
+  }
+  return { liftLbs, demands: [...demands], evidence }
+}
+
+export function extractWorkConditions(jobTextRaw: string): StructuredWorkConditions {
+  const lines = splitSentences(jobTextRaw)
+  return {
+    travel: extractTravel(lines),
+    shifts: extractShifts(lines),
+    relocation: extractRelocation(lines),
+    physical: extractPhysical(lines),
+  }
+}
+
+/* ------------------------------ profile side ------------------------------ */
+
+const TRAVEL_CAP_RES: RegExp[] = [
+  /(?:no more than|not more than|max(?:imum)?|under|less than|below|up to|at most|<=?|≤)\s*(\d{1,3})\s*%\s*(?:of\s+(?:the\s+)?time\s+)?travel/i,
+  /\btravel\s*(?:of\s*)?:?\s*(?:no more than|not more than|max(?:imum)?|under|less than|below|up to|at most|<=?|≤)\s*:?\s*(\d{1,3})\s*%/i,
+]
+
+const NO_TRAVEL_RE =
+  /\bno travel(?:ing)?\b(?!\s+restrictions?)|\b(?:can(?:'|no)?t|cannot|unable to|not willing to|won'?t|will not) travel\b/i
+const LIMITED_TRAVEL_RE =
+  /\bno (?:heavy|extensive|frequent|significant|constant|lots of|a lot of) travel\b|\b(?:limited|light) travel\b/i
+const MINIMAL_TRAVEL_RE = /\b(?:minimal|little|rare) travel\b/i
+
+function inferMaxTravelPercent(t: string): number | null {
+  for (const re of TRAVEL_CAP_RES) {
+    const m = t.match(re)
+    if (m && Number(m[1]) <= 100) return Number(m[1])
+  }
+  if (NO_TRAVEL_RE.test(t)) return 0
+  if (MINIMAL_TRAVEL_RE.test(t)) return 10
+  if (LIMITED_TRAVEL_RE.test(t)) return 25
+  return null
+}
+
+// The refusal has to govern the shift words directly — "no nights,
+// weekends or on-call" rules out all three, "not available on weekends"
+// rules out weekends. "Not a night owl, but can work evenings" and "no
+// experience working weekends" rule out nothing.
+const SHIFT_WORD = String.raw`(?:overnights?|overnight shifts?|night shifts?|nights|graveyard(?: shifts?)?|rotating(?: shifts?| schedules?)?|weekends?|evenings?|on[- ]call|holidays?)`
+const REFUSAL_CLAUSE_RE = new RegExp(
+  String.raw`\b(?:no|not|never|can(?:'|no)?t work|cannot work|unable to work|won'?t work|unavailable)\b` +
+    String.raw`((?:\s+(?:available|willing|able|to|work|working|on|for|during|any))*\s+${SHIFT_WORD}` +
+    String.raw`(?:\s*(?:,|\/|&|\band\b|\bor\b|\bnor\b)\s*(?:or\s+)?${SHIFT_WORD})*)\b`,
+  "gi"
+)
+
+const SHIFT_REFUSAL_RES: Array<[ShiftPattern, RegExp]> = [
+  ["overnight", /\b(?:overnights?|overnight shifts?|night shifts?|nights|graveyard)\b/i],
+  ["rotating", /\brotating\b/i],
+  ["weekends", /\bweekends?\b/i],
+  ["evenings", /\bevenings?\b/i],
+  ["on_call", /\bon[- ]call\b/i],
+]
+
+const ALL_SHIFTS: ShiftPattern[] = SHIFT_REFUSAL_RES.map(([p]) => p)
+
+function inferHardNoShifts(t: string): ShiftPattern[] {
+  if (/\bno shift work\b|\bno shifts\b/i.test(t)) return [...ALL_SHIFTS]
+
+  const out = new Set<ShiftPattern>()
+  if (/\bweekdays only\b|\bmonday\s*(?:-|–|through|to)\s*friday only\b/i.test(t)) out.add("weekends")
+
+  REFUSAL_CLAUSE_RE.lastIndex = 0
+  let m: RegExpExecArray | null
+  while ((m = REFUSAL_CLAUSE_RE.exec(t)) !== null) {
+    const clause = m[1] || ""
+    for (const [p, re] of SHIFT_REFUSAL_RES) if (re.test(clause)) out.add(p)
+  }
+  return ALL_SHIFTS.filter((p) => out.has(p))
+}
+
+const NO_RELOCATION_RE =
+  /\bno relocation\b|\bnot relocating\b|\bnot (?:willing|open|able) to relocate\b|\b(?:can(?:'|no)?t|cannot|won'?t|will not|unable to|do not want to|don'?t want to) relocate\b/i
+
+const NO_PHYSICAL_RE =
+  /\bno (?:heavy |physical |manual )?lifting\b|\bno (?:physical|manual) (?:labor|labour|work|jobs?|roles?|demands)\b|\bno physically (?:demanding|intensive)\b|\b(?:can(?:'|no)?t|cannot|unable to) (?:lift|stand for long)\b|\bphysical limitations?\b/i
+
+export function inferWorkConditionLimits(
+  profileText: string
+): Pick<ProfileConstraints, "maxTravelPercent" | "hardNoShifts" | "hardNoRelocation" | "hardNoPhysicalDemands"> {
+  const header = String(profileText || "").split(/\n\s*(?:resume|resume_paste)\s*:/i)[0]
+  return {
+    maxTravelPercent: inferMaxTravelPercent(header),
+    hardNoShifts: inferHardNoShifts(header),
+    hardNoRelocation: NO_RELOCATION_RE.test(header),
+    hardNoPhysicalDemands: NO_PHYSICAL_RE.test(header),
+  }
+}
+
+/* ------------------------------ comparison ------------------------------ */
+
+export type WorkConditionKind = "travel" | "schedule" | "relocation" | "physical"
+
+export type WorkConditionConflict = {
+  kind: WorkConditionKind
+  level: "block" | "risk"
+  jobFact: string
+  profileFact: string
+  detail: string
+}
+
+// Travel over the ceiling by this much or more blocks; less is a risk.
+const TRAVEL_BLOCK_MARGIN = 25
+const LIFT_BLOCK_LBS = 50
+const LIFT_RISK_LBS = 25
+
+const SHIFT_LABEL: Record<ShiftPattern, string> = {
+  overnight: "overnight shifts",
+  rotating: "rotating shifts",
+  weekends: "weekends",
+  evenings: "evenings",
+  on_call: "on-call",
+}
+
+const DEMAND_LABEL: Record<PhysicalDemand, string> = {
+  prolonged_standing: "long periods of standing",
+  climbing: "climbing",
+  outdoor_exposure: "outdoor work in all weather",
+}
+
+function listOf(items: string[]): string {
+  if (items.length <= 1) return items.join("")
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+}
+
+function travelConflict(
+  travel: StructuredWorkConditions["travel"],
+  max: number | null | undefined
+): WorkConditionConflict | null {
+  if (max == null) return null
+  const profileFact = max === 0 ? "You ruled out travel." : `You set a travel limit of ${max}%.`
+
+  if (travel.percent !== null) {
+    if (travel.percent <= max) return null
+    return {
+      kind: "travel",
+      level: travel.percent - max >= TRAVEL_BLOCK_MARGIN ? "block" : "risk",
+      jobFact: `Posting lists up to ${travel.percent}% travel.`,
+      profileFact,
+      detail: `The role's travel (${travel.percent}%) is above the limit you set.`,
+    }
+  }
+  if (travel.frequent && max <= 25) {
+    return {
+      kind: "travel",
+      level: "risk",
+      jobFact: "Posting calls for frequent or extensive travel.",
+      profileFact,
+      detail: "The posting describes heavy travel without a figure. Ask how much before applying.",
+    }
+  }
+  return null
+}
+
+function scheduleConflict(
+  shifts: StructuredWorkConditions["shifts"],
+  hardNo: ShiftPattern[] | undefined
+): WorkConditionConflict | null {
+  const hits = shifts.patterns.filter((p) => (hardNo || []).includes(p))
+  if (!hits.length) return null
+  const labels = listOf(hits.map((p) => SHIFT_LABEL[p]))
+  return {
+    kind: "schedule",
+    level: shifts.occasional ? "risk" : "block",
+    jobFact: `Posting's schedule includes ${labels}${shifts.occasional ? " (occasionally)" : ""}.`,
+    profileFact: `You ruled out ${labels}.`,
+    detail: shifts.occasional
+      ? `The posting mentions occasional ${labels}. Confirm how often before applying.`
+      : `The schedule requires ${labels}, which you said you cannot work.`,
+  }
+}
+
+function relocationConflict(
+  relocation: StructuredWorkConditions["relocation"],
+  hardNo: boolean | undefined
+): WorkConditionConflict | null {
+  if (!relocation.required || !hardNo) return null
+  return {
+    kind: "relocation",
+    level: "block",
+    jobFact: "Posting requires relocation.",
+    profileFact: "You said you will not relocate.",
+    detail: "The role requires relocating, which you ruled out.",
+  }
+}
+
+function physicalConflict(
+  physical: StructuredWorkConditions["physical"],
+  hardNo: boolean | undefined
+): WorkConditionConflict | null {
+  if (!hardNo) return null
+  const parts: string[] = []
+  if (physical.liftLbs !== null && physical.liftLbs >= LIFT_RISK_LBS) parts.push(`lifting up to ${physical.liftLbs} lbs`)
+  parts.push(...physical.demands.map((d) => DEMAND_LABEL[d]))
+  if (!parts.length) return null
+
+  const blocking = physical.liftLbs !== null && physical.liftLbs >= LIFT_BLOCK_LBS
+  return {
+    kind: "physical",
+    level: blocking ? "block" : "risk",
+    jobFact: `Posting requires ${listOf(parts)}.`,
+    profileFact: "You ruled out physically demanding work.",
+    detail: blocking
+      ? "The role's physical requirements conflict with the limits you set."
+      : "The role has some physical requirements. Check whether they fit the limits you set.",
+  }
+}
+
+export function workConditionConflicts(
+  conditions: StructuredWorkConditions | null | undefined,
+  constraints: Partial<ProfileConstraints> | undefined
+): WorkConditionConflict[] {
+  if (!conditions || !constraints) return []
+  return [
+    travelConflict(conditions.travel, constraints.maxTravelPercent),
+    scheduleConflict(conditions.shifts, constraints.hardNoShifts),
+    relocationConflict(conditions.relocation, constraints.hardNoRelocation),
+    physicalConflict(conditions.physical, constraints.hardNoPhysicalDemands),
+  ].filter((c): c is WorkConditionConflict => c !== null)
+}
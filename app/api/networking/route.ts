@@ -1,13 +1,13 @@
 import crypto from "crypto"
 import { createClient } from "@supabase/supabase-js"
 import { getAuthedProfileText } from "../_lib/authProfile"
-import OpenAI from "openai"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
+import { llmRequestOptions, openaiClient } from "../_lib/llmClient"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+const client = openaiClient()
 
 const MISSING = "__MISSING__"
 const NETWORKING_PROMPT_VERSION = "networking_v4_2026_03_16"
@@ -419,7 +419,7 @@ ${raw}
       { role: "system", content: repairSystem },
       { role: "user", content: repairUser },
     ],
-  })
+  }, llmRequestOptions("networking.repair"))
 
   const repairedText = extractOutputText(resp)
   return safeJsonParse(repairedText)
@@ -892,7 +892,7 @@ Make the messages feel specifically grounded in this user and this role.
         { role: "system", content: system },
         { role: "user", content: user },
       ],
-    })
+    }, llmRequestOptions("networking.plan"))
 
     const raw = extractOutputText(resp)
     let parsed = safeJsonParse(raw)
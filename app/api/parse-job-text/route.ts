@@ -1,23 +1,13 @@
 import { type NextRequest } from "next/server"
-import he from "he"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
+import { llmFetch } from "../_lib/llmClient"
+import { cleanJobField, normalizeJobText } from "../jobfit/normalizeJobText"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 export const maxDuration = 30
 
 // ── Text cleaning ──
-function cleanText(raw: string): string {
-  const stripped = raw.replace(/<[^>]+>/g, " ")
-  const decoded = he.decode(stripped)
-  return decoded
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .replace(/[ \t]{2,}/g, " ")
-    .trim()
-}
-
 function truncate(s: string, max: number): string {
   return s.length > max ? s.slice(0, max) : s
 }
@@ -37,7 +27,9 @@ export async function POST(req: NextRequest) {
   }
 
   // 1. Validate text
-  const text = String(body?.text ?? "").trim()
+  // Normalize before the length check and the prompt so a pasted page of
+  // HTML or "•" runs reaches the model in the same shape as everything else.
+  const text = normalizeJobText(String(body?.text ?? ""))
   if (text.length < 50) {
     return withCorsJson(
       req,
@@ -79,7 +71,7 @@ ${truncatedText}`
   }
 
   try {
-    const res = await fetch("https://api.anthropic.com/v1/messages", {
+    const res = await llmFetch("parse_job_text", "https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -126,11 +118,11 @@ ${truncatedText}`
 
     // 4. Clean all fields
     parsed = {
-      jobTitle: cleanText(String(data.jobTitle || "")),
-      companyName: cleanText(String(data.companyName || "")),
-      jobDescription: truncate(cleanText(String(data.jobDescription || "")), 4000),
-      location: data.location ? cleanText(String(data.location)) || null : null,
-      jobType: data.jobType ? cleanText(String(data.jobType)) || null : null,
+      jobTitle: cleanJobField(String(data.jobTitle || "")),
+      companyName: cleanJobField(String(data.companyName || "")),
+      jobDescription: truncate(normalizeJobText(String(data.jobDescription || "")), 4000),
+      location: data.location ? cleanJobField(String(data.location)) || null : null,
+      jobType: data.jobType ? cleanJobField(String(data.jobType)) || null : null,
     }
   } catch (err) {
     console.error("[parse-job-text] parse error:", err)
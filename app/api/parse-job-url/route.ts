@@ -1,7 +1,8 @@
 import { type NextRequest } from "next/server"
 import * as cheerio from "cheerio"
-import he from "he"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
+import { llmFetch } from "../_lib/llmClient"
+import { cleanJobField, htmlToText, normalizeJobText } from "../jobfit/normalizeJobText"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -37,21 +38,9 @@ function detectPlatform(hostname: string): Platform {
 }
 
 // ── Text cleaning ──
-function cleanText(raw: string): string {
-  // Strip HTML tags
-  const stripped = raw.replace(/<[^>]+>/g, " ")
-  // Decode HTML entities
-  const decoded = he.decode(stripped)
-  // Collapse excess whitespace / newlines
-  const collapsed = decoded
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .replace(/[ \t]{2,}/g, " ")
-    .trim()
-  return collapsed
-}
-
+// Descriptions go through the shared JD normalizer (list structure kept,
+// bullets canonical, EEO footer dropped) so a scraped posting scores the
+// same as the pasted one. Single-line fields use cleanJobField.
 function truncate(s: string, max: number): string {
   return s.length > max ? s.slice(0, max) : s
 }
@@ -85,17 +74,17 @@ function extractJsonLd(html: string): {
       for (const item of candidates) {
         if ((item as any)["@type"] !== "JobPosting") continue
 
-        const jobTitle = cleanText(item.title || item.jobTitle || "")
+        const jobTitle = cleanJobField(item.title || item.jobTitle || "")
 
         let companyName = ""
         if (typeof item.hiringOrganization === "string") {
-          companyName = cleanText(item.hiringOrganization)
+          companyName = cleanJobField(item.hiringOrganization)
         } else if (item.hiringOrganization?.name) {
-          companyName = cleanText(item.hiringOrganization.name)
+          companyName = cleanJobField(item.hiringOrganization.name)
         }
 
         const jobDescription = truncate(
-          cleanText(item.description || ""),
+          normalizeJobText(item.description || ""),
           4000
         )
 
@@ -135,20 +124,20 @@ function extractJsonLd(html: string): {
 function parseIndeed(
   $: cheerio.CheerioAPI
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $("h1.jobsearch-JobInfoHeader-title").first().text() ||
     $('[data-testid="jobsearch-JobInfoHeader-title"]').first().text() ||
     $("h1").first().text()
   )
 
-  const companyName = cleanText(
+  const companyName = cleanJobField(
     $('[data-testid="inlineHeader-companyName"] a').first().text() ||
     $('[data-testid="inlineHeader-companyName"]').first().text() ||
     $(".jobsearch-CompanyInfoContainer").first().text()
   )
 
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $("#jobDescriptionText").html() ||
       $('[data-testid="jobDescriptionText"]').html() ||
       $(".jobsearch-jobDescriptionText").html() ||
@@ -157,13 +146,13 @@ function parseIndeed(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $('[data-testid="job-location"]').first().text() ||
     $('[data-testid="inlineHeader-companyLocation"]').first().text() ||
     $(".jobsearch-JobInfoHeader-subtitle [data-testid]").last().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $('[data-testid="job-type-display"]').first().text() ||
     $(".jobsearch-JobMetadataHeader-item").first().text()
   )
@@ -174,7 +163,7 @@ function parseIndeed(
 function parseGreenhouse(
   $: cheerio.CheerioAPI
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $("h1.app-title").first().text() ||
     $("h1.job-title").first().text() ||
     $("h1").first().text()
@@ -185,10 +174,10 @@ function parseGreenhouse(
   const pageTitle = $("title").text()
   const atMatch = pageTitle.match(/\bat\s+(.+?)\s*[-–|]\s*Greenhouse/i)
   if (atMatch) {
-    companyName = cleanText(atMatch[1])
+    companyName = cleanJobField(atMatch[1])
   }
   if (!companyName) {
-    companyName = cleanText(
+    companyName = cleanJobField(
       $('[class*="company-name"]').first().text() ||
       $("meta[property='og:site_name']").attr("content") ||
       ""
@@ -196,7 +185,7 @@ function parseGreenhouse(
   }
 
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $("#content").html() ||
       $(".job-description").html() ||
       $('[class*="description"]').html() ||
@@ -205,13 +194,13 @@ function parseGreenhouse(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $(".location").first().text() ||
     $('[class*="location"]').first().text() ||
     $(".department-info .location").first().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $('[class*="employment-type"]').first().text() ||
     $('[class*="job-type"]').first().text()
   )
@@ -222,21 +211,21 @@ function parseGreenhouse(
 function parseLever(
   $: cheerio.CheerioAPI
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $('h2[data-qa="posting-name"]').first().text() ||
     $("h2.posting-headline").first().text() ||
     $("h2").first().text() ||
     $("h1").first().text()
   )
 
-  const companyName = cleanText(
+  const companyName = cleanJobField(
     $('meta[property="og:site_name"]').attr("content") ||
     $('[class*="company"]').first().text() ||
     ""
   )
 
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $('[data-qa="posting-description"]').html() ||
       $(".posting-description").html() ||
       $('[class*="description"]').html() ||
@@ -245,13 +234,13 @@ function parseLever(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $(".posting-categories .location").first().text() ||
     $('[data-qa="posting-categories"] .location').first().text() ||
     $('[class*="location"]').first().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $(".posting-categories .commitment").first().text() ||
     $('[data-qa="posting-categories"] .commitment').first().text() ||
     $('[class*="work-type"]').first().text()
@@ -263,20 +252,20 @@ function parseLever(
 function parseHandshake(
   $: cheerio.CheerioAPI
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $('[data-hook*="job-title"]').first().text() ||
     $('[data-hook="job-name"]').first().text() ||
     $("h1").first().text()
   )
 
-  const companyName = cleanText(
+  const companyName = cleanJobField(
     $('[data-hook*="employer-name"]').first().text() ||
     $('[data-hook="employer-profile-name"]').first().text() ||
     $('[class*="employer-name"]').first().text()
   )
 
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $('[data-hook*="description"]').html() ||
       $('[data-hook="about-job"]').html() ||
       $('[class*="description"]').html() ||
@@ -285,13 +274,13 @@ function parseHandshake(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $('[data-hook*="location"]').first().text() ||
     $('[data-hook="job-location"]').first().text() ||
     $('[class*="location"]').first().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $('[data-hook*="job-type"]').first().text() ||
     $('[data-hook*="employment-type"]').first().text() ||
     $('[class*="job-type"]').first().text()
@@ -304,7 +293,7 @@ function parseWorkday(
   $: cheerio.CheerioAPI,
   url: URL
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $('[data-automation-id="jobPostingHeader"]').first().text() ||
     $('[data-automation-id="Job_Posting_Title"]').first().text() ||
     $("h2.css-13bxd").first().text() ||
@@ -318,7 +307,7 @@ function parseWorkday(
     companyName = subMatch[1].replace(/-/g, " ")
   }
   if (!companyName) {
-    companyName = cleanText(
+    companyName = cleanJobField(
       $('meta[property="og:site_name"]').attr("content") ||
       $('[class*="company"]').first().text() ||
       ""
@@ -326,7 +315,7 @@ function parseWorkday(
   }
 
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $('[data-automation-id="jobPostingDescription"]').html() ||
       $('[data-automation-id="Job_Description"]').html() ||
       $('[class*="description"]').html() ||
@@ -335,13 +324,13 @@ function parseWorkday(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $('[data-automation-id="locations"]').first().text() ||
     $('[data-automation-id="job-posting-location"]').first().text() ||
     $('[class*="location"]').first().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $('[data-automation-id="time"]').first().text() ||
     $('[data-automation-id="jobPostingJobSchedule"]').first().text() ||
     $('[class*="job-type"]').first().text()
@@ -353,13 +342,13 @@ function parseWorkday(
 function parseIcims(
   $: cheerio.CheerioAPI
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $("#header-text h1").first().text() ||
     $(".iCIMS_Header h1").first().text() ||
     $("h1").first().text()
   )
 
-  const companyName = cleanText(
+  const companyName = cleanJobField(
     $('meta[property="og:site_name"]').attr("content") ||
     $(".iCIMS_Logo img").attr("alt") ||
     $('[class*="company"]').first().text() ||
@@ -367,7 +356,7 @@ function parseIcims(
   )
 
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $(".iCIMS_JobContent").html() ||
       $(".iCIMS_Expandable_Text").html() ||
       $('[class*="job-content"]').html() ||
@@ -376,13 +365,13 @@ function parseIcims(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $('[class*="iCIMS_InfoMsg"]').first().text() ||
     $('[class*="location"]').first().text() ||
     $(".iCIMS_Subtitle").first().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $('[class*="job-type"]').first().text() ||
     $('[class*="employment"]').first().text()
   )
@@ -394,14 +383,14 @@ function parseUnknown(
   $: cheerio.CheerioAPI
 ): { jobTitle: string; companyName: string; jobDescription: string; location: string; jobType: string } {
   // Job title: prefer class-hinted h1, fall back to first h1
-  const jobTitle = cleanText(
+  const jobTitle = cleanJobField(
     $('h1[class*="job-title"]').first().text() ||
     $('h1[class*="jobtitle"]').first().text() ||
     $('h1[class*="posting"]').first().text() ||
     $("h1").first().text()
   )
 
-  const companyName = cleanText(
+  const companyName = cleanJobField(
     $('meta[property="og:site_name"]').attr("content") ||
     $('[class*="company-name"]').first().text() ||
     $('[class*="employer"]').first().text() ||
@@ -410,7 +399,7 @@ function parseUnknown(
 
   // Description: prefer semantic job containers, fall back to article/main
   const jobDescription = truncate(
-    cleanText(
+    normalizeJobText(
       $('[class*="job-description"]').html() ||
       $('[class*="jobdescription"]').html() ||
       $('[class*="job-details"]').html() ||
@@ -423,13 +412,13 @@ function parseUnknown(
     4000
   )
 
-  const location = cleanText(
+  const location = cleanJobField(
     $('[class*="location"]').first().text() ||
     $('[class*="job-location"]').first().text() ||
     $('[itemprop="jobLocation"]').first().text()
   )
 
-  const jobType = cleanText(
+  const jobType = cleanJobField(
     $('[class*="job-type"]').first().text() ||
     $('[class*="employment-type"]').first().text() ||
     $('[class*="work-type"]').first().text()
@@ -452,7 +441,7 @@ async function claudeFallback(html: string): Promise<{
   // Strip script/style/nav tags to reduce noise
   const $ = cheerio.load(html)
   $("script, style, nav, header, footer, noscript, iframe, svg").remove()
-  const stripped = truncate($.text().replace(/\s{3,}/g, "\n\n").trim(), 6000)
+  const stripped = truncate(normalizeJobText(htmlToText($.html())), 6000)
 
   const prompt = `Extract job posting data from the following page text. Return ONLY valid JSON with these fields:
 {
@@ -469,7 +458,7 @@ Page text:
 ${stripped}`
 
   try {
-    const res = await fetch("https://api.anthropic.com/v1/messages", {
+    const res = await llmFetch("parse_job_url.fallback", "https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -495,11 +484,11 @@ ${stripped}`
     const parsed = JSON.parse(cleaned)
 
     return {
-      jobTitle: cleanText(String(parsed.jobTitle || "")),
-      companyName: cleanText(String(parsed.companyName || "")),
-      jobDescription: truncate(cleanText(String(parsed.jobDescription || "")), 4000),
-      location: cleanText(String(parsed.location || "")),
-      jobType: cleanText(String(parsed.jobType || "")),
+      jobTitle: cleanJobField(String(parsed.jobTitle || "")),
+      companyName: cleanJobField(String(parsed.companyName || "")),
+      jobDescription: truncate(normalizeJobText(String(parsed.jobDescription || "")), 4000),
+      location: cleanJobField(String(parsed.location || "")),
+      jobType: cleanJobField(String(parsed.jobType || "")),
     }
   } catch (err) {
     console.error("[parse-job-url] Claude fallback parse error:", err)
@@ -1,15 +1,15 @@
 // app/api/positioning/route.ts
 import crypto from "crypto"
-import OpenAI from "openai"
 import { createClient } from "@supabase/supabase-js"
 import { getAuthedProfileText } from "../_lib/authProfile"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
 import { computeKeywordCoverage } from "../_lib/keywordCoverage"
+import { llmRequestOptions, openaiClient } from "../_lib/llmClient"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+const client = openaiClient()
 
 const MISSING = "__MISSING__"
 const POSITIONING_PROMPT_VERSION = "positioning_v1_2026_02_07"
@@ -382,7 +382,7 @@ Return JSON only. No markdown. No extra text.
         { role: "system", content: system },
         { role: "user", content: user },
       ],
-    })
+    }, llmRequestOptions("positioning"))
 
     // @ts-ignore
     const raw = (resp as any).output_text || ""
@@ -2,6 +2,9 @@
 import { createClient } from "@supabase/supabase-js"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
 import { getAuthedProfileText } from "../_lib/authProfile"
+import { inferWorkAuthStatus } from "../jobfit/workAuth"
+import { parseGpa } from "../jobfit/gpa"
+import { inferWorkConditionLimits } from "../jobfit/workConditions"
 
 // ---------- ENV ----------
 const SUPABASE_URL = process.env.SUPABASE_URL
@@ -30,6 +33,7 @@ type IntakeBody = {
   university?: string | null
   major?: string | null
   grad_year?: string | null
+  gpa?: string | null
 
   job_type?: string | null
   target_roles?: string | null
@@ -42,6 +46,7 @@ type IntakeBody = {
   entry_openness?: string | null
   hard_nos?: string | null
   constraints?: string | null
+  work_authorization?: string | null
 
   resume_text?: string | null
   writing_samples?: string | null
@@ -349,6 +354,7 @@ function buildCanonicalProfileText(body: IntakeBody): string {
     line("University", body.university),
     line("Major", body.major),
     line("Graduation year", body.grad_year),
+    line("GPA", body.gpa),
 
     line("Job type", body.job_type),
     line("Target roles", body.target_roles),
@@ -361,6 +367,7 @@ function buildCanonicalProfileText(body: IntakeBody): string {
     line("Openness to non-obvious entry points", body.entry_openness),
     line("Hard no's", body.hard_nos),
     line("Constraints", body.constraints),
+    line("Work authorization", body.work_authorization),
 
     section("Resume", body.resume_text),
     section("Writing samples", body.writing_samples),
@@ -386,6 +393,7 @@ function buildProfileStructuredForJobFit(body: IntakeBody) {
   const targetLocations = clampText(body.target_locations, 4000)
   const preferredLocations = clampText(body.preferred_locations, 4000)
   const gradYear = parseGradYear(body.grad_year)
+  const gpa = parseGpa(body.gpa)
   const yearsExperienceApprox = inferYearsExperienceApprox(resumeText)
   const tools = extractTools(resumeText)
   const targetFamilies = inferTargetFamilies(targetRoles)
@@ -393,6 +401,7 @@ function buildProfileStructuredForJobFit(body: IntakeBody) {
   return {
     tools,
     gradYear,
+    gpa,
     yearsExperienceApprox,
     targetFamilies,
     statedInterests: {
@@ -416,6 +425,12 @@ function buildProfileStructuredForJobFit(body: IntakeBody) {
       preferNotAnalyticsHeavy: /\bnot analytics-heavy\b/i.test(
         toText(body.constraints)
       ),
+      workAuthStatus: inferWorkAuthStatus(
+        `Work authorization: ${toText(body.work_authorization)}`
+      ),
+      ...inferWorkConditionLimits(
+        `${toText(body.hard_nos)}\n${toText(body.constraints)}`
+      ),
     },
     intakeMeta: {
       currentStatus: toText(body.current_status) || null,
@@ -556,6 +571,7 @@ export async function POST(req: Request) {
     const university = clampText(body.university, 300)
     const major = clampText(body.major, 300)
     const grad_year = clampText(body.grad_year, 20)
+    const gpa = clampText(body.gpa, 20)
 
     const target_locations = clampText(body.target_locations, 4000)
     const preferred_locations = clampText(body.preferred_locations, 4000)
@@ -566,6 +582,7 @@ export async function POST(req: Request) {
     const entry_openness = clampText(body.entry_openness, 200)
     const hard_nos = clampText(body.hard_nos, 4000)
     const constraints = clampText(body.constraints, 4000)
+    const work_authorization = clampText(body.work_authorization, 500)
 
     const writing_samples = clampText(body.writing_samples, 60000)
     const extra_context = clampText(body.extra_context, 20000)
@@ -581,6 +598,7 @@ export async function POST(req: Request) {
       university,
       major,
       grad_year,
+      gpa,
 
       job_type,
       target_roles,
@@ -593,6 +611,7 @@ export async function POST(req: Request) {
       entry_openness,
       hard_nos,
       constraints,
+      work_authorization,
 
       resume_text,
       writing_samples,
@@ -606,6 +625,7 @@ export async function POST(req: Request) {
       university,
       major,
       grad_year,
+      gpa,
 
       job_type,
       target_roles,
@@ -618,6 +638,7 @@ export async function POST(req: Request) {
       entry_openness,
       hard_nos,
       constraints,
+      work_authorization,
 
       resume_text,
       writing_samples,
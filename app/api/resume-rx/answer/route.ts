@@ -4,8 +4,8 @@
 
 import { type NextRequest } from "next/server"
 import { createClient } from "@supabase/supabase-js"
-import Anthropic from "@anthropic-ai/sdk"
 import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { anthropicClient, llmRequestOptions, type LlmPurpose } from "../../_lib/llmClient"
 import { PERI_SYSTEM_PROMPT } from "@/lib/resume-rx-prompt"
 
 export const runtime = "nodejs"
@@ -201,15 +201,19 @@ export async function POST(req: NextRequest) {
       section: section || "Unknown",
     }
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+    const anthropic = anthropicClient()
 
     let userPrompt: string
+    let purpose: LlmPurpose
     if (type === "project") {
       userPrompt = buildProjectPrompt(item, session, answers, source_material)
+      purpose = "resume_rx.answer.project"
     } else if (type === "bullet") {
       userPrompt = buildBulletPrompt({ ...item, original }, session, answers, source_material)
+      purpose = "resume_rx.answer.bullet"
     } else {
       userPrompt = buildCourseworkPrompt(item, session, answers)
+      purpose = "resume_rx.answer.coursework"
     }
 
     const message = await anthropic.messages.create({
@@ -217,7 +221,7 @@ export async function POST(req: NextRequest) {
       max_tokens: 1024,
       system: PERI_SYSTEM_PROMPT,
       messages: [{ role: "user", content: userPrompt }],
-    })
+    }, llmRequestOptions(purpose))
 
     const rawText = message.content
       .filter((b) => b.type === "text")
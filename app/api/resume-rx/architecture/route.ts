@@ -4,8 +4,8 @@
 
 import { type NextRequest } from "next/server"
 import { createClient } from "@supabase/supabase-js"
-import Anthropic from "@anthropic-ai/sdk"
 import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { anthropicClient, llmRequestOptions } from "../../_lib/llmClient"
 import { PERI_SYSTEM_PROMPT } from "@/lib/resume-rx-prompt"
 
 export const runtime = "nodejs"
@@ -111,7 +111,7 @@ export async function POST(req: NextRequest) {
     if (!session) return withCorsJson(req, { error: "Session not found" }, 404)
     if (session.profile_id !== profileId) return withCorsJson(req, { error: "Forbidden" }, 403)
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+    const anthropic = anthropicClient()
 
     const userPrompt = `Generate the optimal section architecture for this resume.
 
@@ -143,7 +143,7 @@ Return ONLY valid JSON — no markdown, no explanation:
       max_tokens: 1024,
       system: PERI_SYSTEM_PROMPT,
       messages: [{ role: "user", content: userPrompt }],
-    })
+    }, llmRequestOptions("resume_rx.architecture"))
 
     const rawText = message.content
       .filter((b) => b.type === "text")
@@ -4,8 +4,8 @@
 
 import { type NextRequest } from "next/server"
 import { createClient } from "@supabase/supabase-js"
-import Anthropic from "@anthropic-ai/sdk"
 import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { anthropicClient, llmRequestOptions } from "../../_lib/llmClient"
 import { PERI_SYSTEM_PROMPT } from "@/lib/resume-rx-prompt"
 
 export const runtime = "nodejs"
@@ -108,7 +108,7 @@ export async function POST(req: NextRequest) {
     if (!session) return withCorsJson(req, { error: "Session not found" }, 404)
     if (session.profile_id !== profileId) return withCorsJson(req, { error: "Forbidden" }, 403)
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+    const anthropic = anthropicClient()
 
     const approvedBullets: any[] = Array.isArray(session.approved_bullets) ? session.approved_bullets : []
     const approvedBulletsText = approvedBullets.map((b: any) => `- ${b.text}`).join("\n")
@@ -184,7 +184,7 @@ Return the complete resume as plain text only — no JSON wrapper, no explanatio
       max_tokens: 4096,
       system: PERI_SYSTEM_PROMPT,
       messages: [{ role: "user", content: assemblePrompt }],
-    })
+    }, llmRequestOptions("resume_rx.assemble"))
 
     const final_resume_text = assembleMsg.content
       .filter((b) => b.type === "text")
@@ -228,7 +228,7 @@ Return ONLY valid JSON — no markdown:
       max_tokens: 1024,
       system: PERI_SYSTEM_PROMPT,
       messages: [{ role: "user", content: coachingPrompt }],
-    })
+    }, llmRequestOptions("resume_rx.coaching"))
 
     const coachingRaw = coachingMsg.content
       .filter((b) => b.type === "text")
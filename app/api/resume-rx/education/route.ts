@@ -4,8 +4,8 @@
 
 import { type NextRequest } from "next/server"
 import { createClient } from "@supabase/supabase-js"
-import Anthropic from "@anthropic-ai/sdk"
 import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { anthropicClient, llmRequestOptions } from "../../_lib/llmClient"
 import { PERI_SYSTEM_PROMPT } from "@/lib/resume-rx-prompt"
 
 export const runtime = "nodejs"
@@ -126,7 +126,7 @@ export async function POST(req: NextRequest) {
 
     const resolvedEducation = { ...education, gpa, show_gpa: resolved_show_gpa }
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+    const anthropic = anthropicClient()
 
     const userPrompt = `Generate a polished Education section for this resume using the RESUME TEMPLATE FORMAT from your instructions.
 
@@ -167,7 +167,7 @@ Return ONLY valid JSON — no markdown, no explanation:
       max_tokens: 1024,
       system: PERI_SYSTEM_PROMPT,
       messages: [{ role: "user", content: userPrompt }],
-    })
+    }, llmRequestOptions("resume_rx.education"))
 
     const rawText = message.content
       .filter((b) => b.type === "text")
@@ -4,8 +4,8 @@
 
 import { type NextRequest } from "next/server"
 import { createClient } from "@supabase/supabase-js"
-import Anthropic from "@anthropic-ai/sdk"
 import { corsOptionsResponse, withCorsJson } from "../../_lib/cors"
+import { anthropicClient, llmRequestOptions } from "../../_lib/llmClient"
 import { PERI_SYSTEM_PROMPT } from "@/lib/resume-rx-prompt"
 
 export const runtime = "nodejs"
@@ -105,7 +105,7 @@ export async function POST(req: NextRequest) {
     if (!year_in_school) return withCorsJson(req, { error: "year_in_school is required" }, 400)
     if (!target_field) return withCorsJson(req, { error: "target_field is required" }, 400)
 
-    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+    const anthropic = anthropicClient()
 
     const userPrompt = `Analyze this resume. The candidate is a ${year_in_school} in mode: ${mode}, targeting ${target_field}.
 
@@ -158,7 +158,7 @@ ${resume_text}`
       max_tokens: 6000,
       system: PERI_SYSTEM_PROMPT,
       messages: [{ role: "user", content: userPrompt }],
-    })
+    }, llmRequestOptions("resume_rx.diagnosis"))
 
     const rawText = message.content
       .filter((b) => b.type === "text")
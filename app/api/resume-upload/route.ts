@@ -10,8 +10,9 @@
 
 import { type NextRequest } from "next/server"
 import { createClient } from "@supabase/supabase-js"
-import Anthropic from "@anthropic-ai/sdk"
+import type Anthropic from "@anthropic-ai/sdk"
 import { corsOptionsResponse, withCorsJson } from "../_lib/cors"
+import { anthropicClient, llmRequestOptions } from "../_lib/llmClient"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -74,9 +75,7 @@ export async function POST(req: NextRequest) {
       // Use Claude API to read PDF — pdf-parse requires DOM APIs
       // (DOMMatrix, ImageData) that don't exist in serverless environments.
       try {
-        const anthropic = new Anthropic({
-          apiKey: process.env.ANTHROPIC_API_KEY,
-        })
+        const anthropic = anthropicClient()
 
         const base64 = buffer.toString("base64")
 
@@ -102,7 +101,7 @@ export async function POST(req: NextRequest) {
               ],
             },
           ],
-        })
+        }, llmRequestOptions("resume_upload.pdf_text"))
 
         text = message.content
           .filter((block): block is Anthropic.TextBlock => block.type === "text")
@@ -94,6 +94,7 @@ const DECISION_STYLE: Record<string, { bg: string; color: string }> = {
   "Priority Apply": { bg: "rgba(15,214,104,0.15)", color: "#0FD668" },
   Apply: { bg: "rgba(74,222,128,0.12)", color: "#4ade80" },
   Review: { bg: "rgba(212,164,68,0.15)", color: "#D4A444" },
+  "Insufficient Detail": { bg: "rgba(148,163,184,0.12)", color: "#94A3B8" },
   Pass: { bg: "rgba(232,112,112,0.12)", color: "#E87070" },
 }
 
@@ -306,6 +307,7 @@ export default function CoachClientPage() {
         if (decision === 'Priority Apply') { setAnnPriority('urgent'); setAnnAction('apply'); setAnnNote('Strong fit — apply immediately. This aligns well with your background.') }
         else if (decision === 'Apply') { setAnnPriority('this_week'); setAnnAction('apply'); setAnnNote('Good opportunity worth pursuing this week.') }
         else if (decision === 'Review') { setAnnPriority('when_ready'); setAnnAction('research_first'); setAnnNote('Proceed carefully — review the requirements against your background before applying.') }
+        else if (decision === 'Insufficient Detail') { setAnnPriority('when_ready'); setAnnAction('research_first'); setAnnNote('The posting was too thin to judge — get the full job description before deciding.') }
         else { setAnnPriority('not_recommended'); setAnnAction('skip'); setAnnNote('Low fit based on your current profile — flagging for your awareness.') }
       } else {
         setRunError(j.error || "Analysis failed.")
@@ -934,7 +936,7 @@ export default function CoachClientPage() {
                     style={DECISION_STYLE[runResult.decision] || { bg: "rgba(255,255,255,0.08)", color: T.MUTED }}
                   />
                 )}
-                {runResult.score !== undefined && (
+                {runResult.score != null && (
                   <span style={{ fontSize: 14, color: T.DIM }}>Score: <span style={{ color: T.TEXT, fontWeight: 900 }}>{runResult.score}</span></span>
                 )}
               </div>
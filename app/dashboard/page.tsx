@@ -111,6 +111,7 @@ const DECISION_STYLE: Record<string, { bg: string; color: string }> = {
   "Priority Apply": { bg: "rgba(15,214,104,0.15)", color: "#0FD668" },
   Apply: { bg: "rgba(74,222,128,0.12)", color: "#4ade80" },
   Review: { bg: "rgba(212,164,68,0.15)", color: "#D4A444" },
+  "Insufficient Detail": { bg: "rgba(148,163,184,0.12)", color: "#94A3B8" },
   Pass: { bg: "rgba(232,112,112,0.12)", color: "#E87070" },
 }
 
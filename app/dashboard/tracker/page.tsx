@@ -19,6 +19,7 @@ const DECISION_STYLE: Record<string, { bg: string; color: string }> = {
   "Priority Apply": { bg: "rgba(15,214,104,0.15)", color: "#0FD668" },
   Apply: { bg: "rgba(74,222,128,0.12)", color: "#4ade80" },
   Review: { bg: "rgba(212,164,68,0.15)", color: "#D4A444" },
+  "Insufficient Detail": { bg: "rgba(148,163,184,0.12)", color: "#94A3B8" },
   Pass: { bg: "rgba(232,112,112,0.12)", color: "#E87070" },
 }
 
@@ -1300,7 +1301,7 @@ export default function TrackerPage() {
                 <div style={{ position: "absolute", top: 0, left: 0, right: 0, height: 2, background: "linear-gradient(90deg, transparent, #FEB06A, #E87070, transparent)", opacity: 0.5 }} />
                 <div style={{ fontSize: 9, fontWeight: 900, letterSpacing: 2.5, textTransform: "uppercase", color: "rgba(254,176,106,0.60)", marginBottom: 16 }}>Signal Decisions</div>
                 {(() => {
-                  const decisions = ["Priority Apply", "Apply", "Review", "Pass"]
+                  const decisions = ["Priority Apply", "Apply", "Review", "Insufficient Detail", "Pass"]
                   const dCounts = decisions.map(d => ({
                     decision: d,
                     count: applications.filter(a => a.signal_decision === d).length,
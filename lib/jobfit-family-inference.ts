@@ -27,7 +27,7 @@
 //   - When targetRoles is empty, falls back to scanning profileText for
 //     strong family signals. If both are empty, returns ["Other"].
 
-import type { JobFamily } from "@/app/api/jobfit/signals"
+import type { JobFamily, MarketingSubFamily } from "@/app/api/jobfit/signals"
 
 function lower(s: string | null | undefined): string {
   return String(s ?? "").toLowerCase()
@@ -326,6 +326,93 @@ export function inferTargetFamilies(
     out.push("Trades")
   }
 
+  // ── Education ──────────────────────────────────────────────────────────
+  if (
+    roles.includes("teacher") ||
+    roles.includes("teaching") ||
+    roles.includes("tutor") ||
+    roles.includes("educator") ||
+    roles.includes("education") ||
+    roles.includes("paraprofessional") ||
+    roles.includes("instructional design") ||
+    roles.includes("curriculum") ||
+    roles.includes("academic advis") ||
+    roles.includes("admissions counselor") ||
+    roles.includes("school counselor") ||
+    roles.includes("teach for america")
+  ) {
+    out.push("Education")
+  }
+
+  // ── Nonprofit ──────────────────────────────────────────────────────────
+  if (
+    roles.includes("nonprofit") ||
+    roles.includes("non-profit") ||
+    roles.includes("not for profit") ||
+    roles.includes("fundraising") ||
+    /(?<!business )development (associate|coordinator|officer)\b/.test(roles) ||
+    roles.includes("grant writ") ||
+    roles.includes("grants") ||
+    roles.includes("philanthropy") ||
+    roles.includes("volunteer coordinator") ||
+    roles.includes("social impact") ||
+    roles.includes("community organiz") ||
+    roles.includes("americorps")
+  ) {
+    out.push("Nonprofit")
+  }
+
+  // ── Media / Entertainment ──────────────────────────────────────────────
+  // "media" alone is left out — "social media" and "media buying" are
+  // Marketing targets.
+  if (
+    roles.includes("entertainment") ||
+    roles.includes("film") ||
+    roles.includes("television") ||
+    /tv/.test(roles) ||
+    roles.includes("broadcast") ||
+    roles.includes("journalis") ||
+    roles.includes("reporter") ||
+    /\b(associate|assistant|video|film|tv|news|segment|field) producer\b/.test(roles) ||
+    roles.includes("production assistant") ||
+    roles.includes("video editor") ||
+    roles.includes("post-production") ||
+    roles.includes("talent agency") ||
+    roles.includes("music industry") ||
+    roles.includes("media and entertainment") ||
+    roles.includes("media & entertainment")
+  ) {
+    out.push("Media")
+  }
+
+  // ── Real Estate ────────────────────────────────────────────────────────
+  // "commercial real estate" also maps to Finance above (CRE investment
+  // roles are classified there); a candidate targeting it gets both.
+  if (
+    roles.includes("real estate") ||
+    roles.includes("realtor") ||
+    roles.includes("leasing") ||
+    roles.includes("property manag") ||
+    roles.includes("proptech")
+  ) {
+    out.push("RealEstate")
+  }
+
+  // ── Supply Chain / Logistics ───────────────────────────────────────────
+  if (
+    roles.includes("supply chain") ||
+    roles.includes("logistics") ||
+    roles.includes("procurement") ||
+    roles.includes("purchasing") ||
+    roles.includes("demand plann") ||
+    roles.includes("inventory") ||
+    roles.includes("warehouse") ||
+    roles.includes("distribution center") ||
+    roles.includes("sourcing analyst")
+  ) {
+    out.push("SupplyChain")
+  }
+
   // ── Fallback: scan profile text if target roles produced nothing ───────
   // Only fires when targetRoles is empty AND profileText is available.
   // Avoids being the primary inference path (target roles are more reliable
@@ -343,6 +430,11 @@ export function inferTargetFamilies(
     if (text.includes("software engineer") || text.includes("full stack")) out.push("IT_Software")
     if (text.includes("mechanical engineer") || text.includes("biomedical engineer")) out.push("Engineering")
     if (text.includes("electrician") || text.includes("plumber")) out.push("Trades")
+    if (text.includes("student teaching") || text.includes("lesson plans")) out.push("Education")
+    if (text.includes("nonprofit") || text.includes("grant writing")) out.push("Nonprofit")
+    if (text.includes("film production") || text.includes("newsroom")) out.push("Media")
+    if (text.includes("real estate") || text.includes("property management")) out.push("RealEstate")
+    if (text.includes("supply chain") || text.includes("logistics")) out.push("SupplyChain")
   }
 
   // Dedupe preserving first-seen order
@@ -354,3 +446,85 @@ export function inferTargetFamilies(
   // silently dropped Engineering for biomedical candidates — that was a bug.
   return unique.length ? unique.slice(0, 4) : ["Other"]
 }
+
+/**
+ * Infer which Marketing tracks a candidate explicitly targets from their
+ * stated target roles. Compared against the job-side marketingSubFamily
+ * (app/api/jobfit/extract.ts) to fire RISK_MARKETING_SUBSEGMENT.
+ *
+ * Only target roles count — resume text describes what the candidate has
+ * done, not which track they want next. A bare "marketing" target returns
+ * [] (no preference), so generalists never trip the mismatch risk.
+ *
+ * @param targetRoles The candidate's target roles as free text.
+ *
+ * @returns Marketing sub-families named in the target roles, in match
+ *   order. Empty when none are named.
+ */
+export function inferMarketingSubsegments(targetRoles: string | null | undefined): MarketingSubFamily[] {
+  const roles = lower(targetRoles)
+  const out: MarketingSubFamily[] = []
+  if (!roles) return out
+
+  // ── Brand ──────────────────────────────────────────────────────────────
+  if (
+    roles.includes("brand manage") ||
+    roles.includes("brand marketing") ||
+    roles.includes("brand strategy") ||
+    roles.includes("brand associate") ||
+    roles.includes("brand coordinator") ||
+    roles.includes("assistant brand manager")
+  ) {
+    out.push("brand")
+  }
+
+  // ── Growth / performance ───────────────────────────────────────────────
+  if (
+    roles.includes("growth marketing") ||
+    roles.includes("growth marketer") ||
+    roles.includes("performance marketing") ||
+    roles.includes("digital marketing") ||
+    roles.includes("paid media") ||
+    roles.includes("paid social") ||
+    /\b(seo|sem)\b/.test(roles) ||
+    roles.includes("demand gen") ||
+    roles.includes("lifecycle marketing") ||
+    roles.includes("email marketing") ||
+    roles.includes("user acquisition")
+  ) {
+    out.push("growth_performance")
+  }
+
+  // ── Product marketing ──────────────────────────────────────────────────
+  if (
+    roles.includes("product marketing") ||
+    roles.includes("product marketer") ||
+    /\bpmm\b/.test(roles) ||
+    roles.includes("go-to-market")
+  ) {
+    out.push("product_marketing")
+  }
+
+  // ── Content / social ───────────────────────────────────────────────────
+  if (
+    roles.includes("content") ||
+    roles.includes("social media") ||
+    roles.includes("community manag") ||
+    roles.includes("copywrit") ||
+    roles.includes("influencer")
+  ) {
+    out.push("content_social")
+  }
+
+  // ── PR / communications ────────────────────────────────────────────────
+  if (
+    roles.includes("public relations") ||
+    /\bpr\b/.test(roles) ||
+    roles.includes("communications") ||
+    roles.includes("media relations")
+  ) {
+    out.push("communications_pr")
+  }
+
+  return out
+}
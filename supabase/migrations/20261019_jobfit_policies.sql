@@ -0,0 +1,77 @@
+-- JobFit policy overlays.
+--
+-- jobfit_policies holds named, versioned partial POLICY objects that are
+-- deep-merged onto the in-code BASE_POLICY (app/api/jobfit/policy.ts) at
+-- evaluation time. Tuning a threshold, a penalty multiplier, or a keyword
+-- list becomes a row insert instead of a deploy, and only the runs scored
+-- under that overlay lose their cache (the resolved policy version is part
+-- of the JobFit fingerprint).
+--
+-- jobfit_policy_assignments maps an overlay to a cohort. Resolution order
+-- (first match wins): profile → coach_org → experiment → default.
+--   profile     cohort_key = client_profiles.id
+--   coach_org   cohort_key = client_profiles.coach_org of the client's active coach
+--   experiment  cohort_key = experiment name; arm + traffic_pct split users by
+--               a stable hash of (experiment, profile id)
+--   default     cohort_key = '*'
+--
+-- Overlays are immutable by convention: to change one, insert a new
+-- version and repoint the assignment. Editing overlay JSON in place would
+-- serve stale cached runs under the same policy_version.
+
+CREATE TABLE IF NOT EXISTS public.jobfit_policies (
+  id           uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name         text        NOT NULL,
+  version      integer     NOT NULL DEFAULT 1,
+  overlay      jsonb       NOT NULL DEFAULT '{}'::jsonb,
+  description  text,
+  is_active    boolean     NOT NULL DEFAULT true,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT jobfit_policies_name_version_unique UNIQUE (name, version),
+  CONSTRAINT jobfit_policies_overlay_object_chk CHECK (jsonb_typeof(overlay) = 'object')
+);
+
+COMMENT ON TABLE  public.jobfit_policies IS
+  'Versioned partial JobFit POLICY overlays, deep-merged onto BASE_POLICY at evaluation time.';
+COMMENT ON COLUMN public.jobfit_policies.overlay IS
+  'Partial JobFitPolicy. Objects merge, arrays replace, unknown keys are ignored with a warning.';
+
+CREATE TABLE IF NOT EXISTS public.jobfit_policy_assignments (
+  id           uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id    uuid        NOT NULL REFERENCES public.jobfit_policies(id) ON DELETE CASCADE,
+
+  cohort_type  text        NOT NULL
+               CONSTRAINT jobfit_policy_assignments_cohort_type_chk
+               CHECK (cohort_type IN ('profile', 'coach_org', 'experiment', 'default')),
+  cohort_key   text        NOT NULL,
+
+  -- Experiment arms only. Arms of one experiment are laid out in arm order
+  -- over buckets 0–99; profiles past the last arm are not enrolled.
+  arm          text,
+  traffic_pct  smallint
+               CONSTRAINT jobfit_policy_assignments_traffic_pct_chk
+               CHECK (traffic_pct IS NULL OR (traffic_pct >= 0 AND traffic_pct <= 100)),
+
+  is_active    boolean     NOT NULL DEFAULT true,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT jobfit_policy_assignments_experiment_arm_chk
+    CHECK (cohort_type <> 'experiment' OR (arm IS NOT NULL AND traffic_pct IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobfit_policy_assignments_active
+  ON public.jobfit_policy_assignments (cohort_type, cohort_key)
+  WHERE is_active;
+
+ALTER TABLE public.jobfit_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.jobfit_policy_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Every run records the policy that scored it. Base-only runs record
+-- BASE_POLICY.version; overlay runs record "<base>+<name>@v<version>".
+ALTER TABLE public.jobfit_runs
+  ADD COLUMN IF NOT EXISTS policy_version text;
+
+CREATE INDEX IF NOT EXISTS idx_jobfit_runs_policy_version
+  ON public.jobfit_runs (policy_version);
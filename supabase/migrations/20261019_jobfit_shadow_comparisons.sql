@@ -0,0 +1,44 @@
+-- V4 shadow-mode comparisons.
+--
+-- When JOBFIT_V4_SHADOW is set and a V4 evaluator is registered with
+-- setV4ShadowEngine (app/api/_lib/jobfitShadow.ts), runJobFitForProfile
+-- runs it next to the live V3 engine and records both decisions here.
+-- No evaluator ships yet, so the table stays empty until one does. Users
+-- only ever see V3. The aggregate disagreement report is served by
+-- GET /api/jobfit/shadow-report.
+--
+-- One row per (profile, fingerprint, shadow engine); re-runs of the same
+-- job × profile overwrite rather than double-count.
+
+CREATE TABLE IF NOT EXISTS public.jobfit_shadow_comparisons (
+  id                     uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_profile_id      uuid        NOT NULL REFERENCES public.client_profiles(id) ON DELETE CASCADE,
+  persona_id             uuid        REFERENCES public.client_personas(id) ON DELETE SET NULL,
+  fingerprint_hash       text        NOT NULL,
+
+  shadow_engine          text        NOT NULL,
+  shadow_engine_version  text,
+  jobfit_logic_version   text,
+
+  job_family             text,
+  v3_decision            text        NOT NULL,
+  v3_score               integer,
+  v4_decision            text        NOT NULL,
+  v4_capability_score    integer,
+  v4_labels              jsonb,
+
+  agree                  boolean     NOT NULL,
+  -- V4 band minus V3 band (Pass=1 … Priority Apply=4). Positive = V4 more favorable.
+  rank_delta             smallint    NOT NULL DEFAULT 0,
+  shadow_latency_ms      integer,
+
+  created_at             timestamptz NOT NULL DEFAULT now(),
+  updated_at             timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT jobfit_shadow_comparisons_unique UNIQUE (client_profile_id, fingerprint_hash, shadow_engine)
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobfit_shadow_comparisons_engine_created
+  ON public.jobfit_shadow_comparisons (shadow_engine, created_at DESC);
+
+ALTER TABLE public.jobfit_shadow_comparisons ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+// tests/jobfit-regression/fingerprint-stability.ts
+//
+// The same posting reaches JobFit two ways: pasted from a browser (bullet
+// glyphs, NBSP, smart quotes, CRLF, a word hyphenated across a wrap, the
+// EEO footer) or scraped by /api/parse-job-url (cheerio .html() of the
+// description container). Both go through normalizeJobText, so they must
+// produce the same text, the same jobfit_runs fingerprint and the same
+// decision and score. Any rule added to the normalizer that treats the
+// two shapes differently fails here.
+//
+// USAGE:
+//   npx tsx tests/jobfit-regression/fingerprint-stability.ts
+//     Exits 1 on any mismatch, 0 when stable.
+
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { runJobFit } from "../../app/api/_lib/jobfitEvaluator"
+import { mapClientProfileToOverrides } from "../../app/api/_lib/jobfitProfileAdapter"
+import { computeJobFitFingerprint } from "../../app/api/_lib/runJobFitForProfile"
+import { normalizeJobText } from "../../app/api/jobfit/normalizeJobText"
+
+const FIXTURE = JSON.parse(
+  readFileSync(join(__dirname, "fixtures", "supplychain-logistics-analyst.json"), "utf8")
+)
+
+// The same posting as one paragraph that ends in the EEO sentence.
+const ONE_PARAGRAPH = JSON.parse(
+  readFileSync(join(__dirname, "fixtures", "eeo-sentence-one-paragraph-posting.json"), "utf8")
+)
+
+// What cheerio hands back for a Greenhouse #content node, entities and all.
+const URL_HTML = `<div class="job-post"><h1>Logistics Analyst</h1>
+<p>Lone Star Distribution &mdash; Dallas, TX</p>
+<h3>About Us</h3><p>Lone Star Distribution is a regional 3PL operating four distribution centers across Texas.</p>
+<h3>The Role</h3><p>The Logistics Analyst supports our transportation and warehouse teams with data and reporting.</p>
+<h3>Responsibilities</h3>
+<ul><li>Monitor inventory levels and order fulfillment performance across distribution centers</li><li>Analyze freight spend and carrier performance; recommend lane and carrier changes</li><li>Support demand planning and S&amp;OP with weekly reporting</li><li><span>Build dashboards in Excel and Power BI for operations leadership</span></li></ul>
+<h3>Qualifications</h3>
+<ul>
+  <li>Bachelor&#8217;s degree in Supply Chain, Logistics, Business or related field</li>
+  <li>0-2 years of supply chain or logistics experience, internships count</li>
+  <li>Advanced Excel; SQL or Power&nbsp;BI a plus</li>
+</ul>
+<p><strong>Equal Opportunity Employer</strong></p>
+<p>Lone Star Distribution is an equal opportunity employer. All qualified applicants will receive consideration without regard to race, color, religion, sex, national origin, disability or veteran status.</p>
+</div>`
+
+// The same page selected and copied from a browser.
+const PASTED = [
+  "Logistics Analyst",
+  "Lone Star Distribution — Dallas, TX",
+  "",
+  "About Us",
+  "Lone Star Distribution is a regional 3PL operating four distribution centers across Texas.",
+  "",
+  "The Role",
+  "The Logistics Analyst supports our transportation and warehouse teams with data and reporting.",
+  "",
+  "Responsibilities",
+  "•\tMonitor inventory levels and order fulfillment performance across distribution centers",
+  "•\tAnalyze freight spend and carrier performance; recommend lane and carrier changes",
+  "•\tSupport demand planning and S&OP with weekly reporting",
+  "•\tBuild dashboards in Excel and Power BI for operations leader-",
+  "ship",
+  "",
+  "",
+  "",
+  "Qualifications",
+  "•  Bachelor’s degree in Supply Chain, Logistics, Business or related field",
+  "•  0-2 years of supply chain or logistics experience, internships count",
+  "•  Advanced Excel; SQL or Power BI a plus",
+  "",
+  "Equal Opportunity Employer",
+  "Lone Star Distribution is an equal opportunity employer. All qualified applicants will receive consideration without regard to race, color, religion, sex, national origin, disability or veteran status.",
+].join("\r\n")
+
+let failures = 0
+
+function check(label: string, a: unknown, b: unknown) {
+  const ok = JSON.stringify(a) === JSON.stringify(b)
+  console.log(`${ok ? "ok  " : "FAIL"} ${label}`)
+  if (!ok) {
+    failures++
+    console.log("  url:   ", JSON.stringify(a))
+    console.log("  pasted:", JSON.stringify(b))
+  }
+}
+
+async function main() {
+  const fromUrl = normalizeJobText(URL_HTML)
+  const fromPaste = normalizeJobText(PASTED)
+  check("normalized text", fromUrl, fromPaste)
+  check("normalizer is idempotent", normalizeJobText(fromUrl), fromUrl)
+  check("EEO footer stripped", /equal opportunity/i.test(fromPaste), false)
+
+  // Only the EEO sentence goes; the paragraph it ends stays.
+  const paragraph = normalizeJobText(ONE_PARAGRAPH.job.text)
+  check("EEO sentence stripped", /equal opportunity/i.test(paragraph), false)
+  check("paragraph kept", paragraph.startsWith("Lone Star Distribution, a regional 3PL"), true)
+
+  const fingerprint = (jobText: string) =>
+    computeJobFitFingerprint({
+      jobText,
+      clientProfileId: FIXTURE.id,
+      effectiveProfileText: FIXTURE.profile.text,
+      profileOverrides: null,
+    }).fingerprint_hash
+  check("fingerprint", fingerprint(URL_HTML), fingerprint(PASTED))
+  check("one-paragraph posting has its own fingerprint", fingerprint(ONE_PARAGRAPH.job.text) === fingerprint(""), false)
+
+  const score = async (jobText: string) => {
+    const result = await runJobFit({
+      profileText: FIXTURE.profile.text,
+      jobText,
+      profileOverrides: mapClientProfileToOverrides({
+        profileText: FIXTURE.profile.text,
+        profileStructured: null,
+        targetRoles: FIXTURE.profile.targetRoles,
+      }),
+      userJobTitle: FIXTURE.job.jobTitle,
+      userCompanyName: FIXTURE.job.companyName,
+    })
+    return {
+      decision: result.decision,
+      score: result.score,
+      why: result.why_codes.map((w) => w.match_key),
+      risk: result.risk_codes.map((r) => r.code),
+      units: (result.job_signals?.requirement_units || []).map((u) => u.snippet),
+    }
+  }
+  const [urlRun, pasteRun] = [await score(URL_HTML), await score(PASTED)]
+  check("decision", urlRun.decision, pasteRun.decision)
+  check("score", urlRun.score, pasteRun.score)
+  check("why match keys", urlRun.why, pasteRun.why)
+  check("risk codes", urlRun.risk, pasteRun.risk)
+  check("requirement units", urlRun.units, pasteRun.units)
+
+  console.log(`\n${urlRun.decision} ${urlRun.score} — ${failures ? `${failures} mismatch(es)` : "stable"}`)
+  process.exit(failures ? 1 : 0)
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(2)
+})
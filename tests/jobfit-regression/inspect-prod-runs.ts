@@ -423,7 +423,7 @@ async function main() {
     decisionCounts[d] = (decisionCounts[d] || 0) + 1
   }
   console.log("Decision distribution:")
-  const decisionOrder = ["Priority Apply", "Apply", "Review", "Pass", "unknown"]
+  const decisionOrder = ["Priority Apply", "Apply", "Review", "Insufficient Detail", "Pass", "unknown"]
   const allDecisionKeys = Object.keys(decisionCounts).sort(
     (a, b) =>
       (decisionOrder.indexOf(a) === -1 ? 99 : decisionOrder.indexOf(a)) -
@@ -0,0 +1,155 @@
+// tests/jobfit-regression/lib/cases.ts
+//
+// Loads every offline case we have into one shape — the runJobFit input
+// plus the expected band, when the source states one:
+//
+//   - jobfit_tests/jobfit_case_bank.csv     expectedDecision, minScore, maxScore
+//   - fixtures/*.json                       expected.decision, expected.scoreRange
+//   - fixtures/*.csv (Case Number format)   no band
+//
+// Used by policy-ab.ts, metamorphic.ts and minimize.ts. run.ts keeps its
+// own loader because it posts to the live endpoint rather than calling
+// runJobFit.
+
+import { existsSync, readFileSync, readdirSync } from "node:fs"
+import { basename, join } from "node:path"
+import type { runJobFit } from "../../../app/api/_lib/jobfitEvaluator"
+import { mapClientProfileToOverrides } from "../../../app/api/_lib/jobfitProfileAdapter"
+import { loadBatchCases, parseCSV } from "../run-csv-in-process"
+
+// fixtures/*.json — see fixtures/_template.json and README.md.
+export type FixtureExpected = {
+  decision?: string
+  scoreRange?: [number, number]
+  requiredWhyKeys?: string[]
+  forbiddenWhyKeys?: string[]
+  requiredRiskCodes?: string[]
+  forbiddenRiskCodes?: string[]
+  requiredJobFamily?: string
+  forbiddenJobFamily?: string
+  resultMode?: string
+  notes?: string
+}
+
+export type FixtureFile = {
+  id: string
+  description?: string
+  profile?: { text?: string; targetRoles?: string }
+  job?: { text?: string; jobTitle?: string; companyName?: string }
+  expected?: FixtureExpected
+}
+
+export type RunJobFitInput = Omit<Parameters<typeof runJobFit>[0], "policy" | "debug">
+
+export type ExpectedBand = {
+  decision?: string
+  min?: number
+  max?: number
+}
+
+export type RegressionCase = {
+  id: string
+  source: string
+  band: ExpectedBand | null
+  input: RunJobFitInput
+  // Kept alongside the derived overrides so a case can be rewritten in
+  // the fixture format (minimize.ts).
+  targetRoles: string | null
+  // The parsed file, for cases loaded from fixtures/*.json.
+  fixture?: FixtureFile
+}
+
+const CASE_BANK_PATH = join(__dirname, "..", "..", "..", "jobfit_tests", "jobfit_case_bank.csv")
+const FIXTURES_DIR = join(__dirname, "..", "fixtures")
+
+function numberOrUndefined(s: string | undefined): number | undefined {
+  const t = String(s ?? "").trim()
+  const n = Number(t)
+  return t && Number.isFinite(n) ? n : undefined
+}
+
+export function loadCaseBank(): RegressionCase[] {
+  if (!existsSync(CASE_BANK_PATH)) return []
+  const rows = parseCSV(readFileSync(CASE_BANK_PATH, "utf8").replace(/^\uFEFF/, ""))
+  const header = rows[0].map((h) => h.trim())
+  const col = (name: string) => header.indexOf(name)
+  return rows
+    .slice(1)
+    .filter((r) => r.some((c) => c.trim()))
+    .map((r) => ({
+      id: r[col("id")].trim(),
+      source: "case_bank",
+      band: {
+        decision: r[col("expectedDecision")]?.trim() || undefined,
+        min: numberOrUndefined(r[col("minScore")]),
+        max: numberOrUndefined(r[col("maxScore")]),
+      },
+      input: { profileText: r[col("profileText")] || "", jobText: r[col("job")] || "" },
+      targetRoles: null,
+    }))
+}
+
+
+export function loadFixtureCases(): RegressionCase[] {
+  const out: RegressionCase[] = []
+  for (const file of readdirSync(FIXTURES_DIR).sort()) {
+    if (file.endsWith(".csv")) {
+      const source = basename(file, ".csv")
+      for (const c of loadBatchCases(join(FIXTURES_DIR, file))) {
+        out.push({
+          id: c.caseNo,
+          source,
+          band: null,
+          input: {
+            profileText: c.profileText,
+            jobText: c.jobText,
+            profileOverrides: c.profileOverrides,
+            userJobTitle: c.userJobTitle,
+            userCompanyName: c.userCompanyName,
+          },
+          targetRoles: c.targetRoles,
+        })
+      }
+      continue
+    }
+    if (!file.endsWith(".json") || file.startsWith("_")) continue
+    const fx = JSON.parse(readFileSync(join(FIXTURES_DIR, file), "utf8")) as FixtureFile
+    // Profile-only fixtures (joss-profile.json) are inputs to retest scripts.
+    if (!fx.profile?.text || !fx.job?.text || !fx.expected) continue
+    out.push({
+      id: fx.id,
+      source: "fixture",
+      band: {
+        decision: fx.expected.decision,
+        min: fx.expected.scoreRange?.[0],
+        max: fx.expected.scoreRange?.[1],
+      },
+      input: {
+        profileText: fx.profile.text,
+        jobText: fx.job.text,
+        profileOverrides: mapClientProfileToOverrides({
+          profileText: fx.profile.text,
+          profileStructured: null,
+          targetRoles: fx.profile.targetRoles || null,
+        }),
+        userJobTitle: fx.job.jobTitle,
+        userCompanyName: fx.job.companyName,
+      },
+      targetRoles: fx.profile.targetRoles || null,
+      fixture: fx,
+    })
+  }
+  return out
+}
+
+// The engine logs every extraction step; harness reports are unreadable
+// with it interleaved.
+export async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log
+  console.log = () => {}
+  try {
+    return await fn()
+  } finally {
+    console.log = log
+  }
+}
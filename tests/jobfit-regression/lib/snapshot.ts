@@ -15,11 +15,13 @@
 // decision-grade signals: the final label, the score band, counts
 // of direct proof and risks, and the family classification.
 
+import type { SignalAttribution } from "../../../app/api/jobfit/signals"
+
 export type CaseSnapshot = {
   id: string
   label: string
-  decision: string          // "Priority Apply" | "Apply" | "Review" | "Pass"
-  score: number
+  decision: string          // a band, or "Insufficient Detail" for a thin posting
+  score: number | null      // null when the posting was too thin to score
   whyCount: number
   directWhyCount: number    // count of WHY codes with match_strength === "direct"
   riskCount: number
@@ -41,7 +43,7 @@ export function toSnapshot(
     id,
     label,
     decision: String(result?.decision ?? ""),
-    score: Number(result?.score ?? 0),
+    score: result?.score == null ? null : Number(result.score),
     whyCount: whyCodes.length,
     directWhyCount: whyCodes.filter((w: any) => w?.match_strength === "direct").length,
     riskCount: riskCodes.length,
@@ -99,7 +101,7 @@ export function formatSnapshot(s: CaseSnapshot): string {
     " " +
     pad(s.decision, 16) +
     " score=" +
-    pad(s.score, 4) +
+    pad(s.score ?? "—", 4) +
     "why=" +
     s.whyCount +
     "(dir=" +
@@ -113,3 +115,30 @@ export function formatSnapshot(s: CaseSnapshot): string {
     pad(s.jobFamily, 12)
   )
 }
+
+// Snapshot fields that map 1:1 to a traced extraction signal.
+const ATTRIBUTED_FIELDS: Partial<Record<keyof CaseSnapshot, string>> = {
+  jobFamily: "jobFamily",
+  salesSubFamily: "salesSubFamily",
+  financeSubFamily: "financeSubFamily",
+}
+
+// Format the attribution trace behind a drifted field, one line per
+// matched phrase: rule, phrase, and the JD section/line it came from.
+// Returns [] for fields with no traced signal.
+export function formatAttribution(attribution: SignalAttribution[], field: keyof CaseSnapshot): string[] {
+  const signal = ATTRIBUTED_FIELDS[field]
+  if (!signal) return []
+  const entries = attribution.filter((a) => a.signal === signal)
+  if (entries.length === 0) return ["(no attribution recorded)"]
+
+  const out: string[] = []
+  for (const a of entries) {
+    out.push(`← ${a.rule}${a.note ? ` (${a.note})` : ""}`)
+    for (const m of a.matches) {
+      const where = m.section ? `[${m.section}]` : "[spans lines]"
+      out.push(`    "${m.phrase}" ${where} ${m.line ? m.line.slice(0, 100) : ""}`.trimEnd())
+    }
+  }
+  return out
+}
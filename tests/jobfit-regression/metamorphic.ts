@@ -0,0 +1,190 @@
+#!/usr/bin/env tsx
+// tests/jobfit-regression/metamorphic.ts
+//
+// Metamorphic checks over every fixture. Most of our past regressions had
+// the same shape: the posting did not change in any way a reader would
+// care about — sections in a different order, an EEO footer, an "About
+// Us" blurb, different bullet glyphs — and the decision moved anyway.
+//
+// Each transformation below rewrites the job text without changing what
+// the job asks for. Every fixture (fixtures/*.json and the Case Number
+// CSVs) is scored as-is and once per applicable transformation; the
+// transformed run must land on the same decision and within TOLERANCE
+// points of the original score.
+//
+// USAGE:
+//   npx tsx tests/jobfit-regression/metamorphic.ts
+//     Runs every transformation on every fixture. Exits 1 if any
+//     (case, transformation) pair breaks.
+//
+//   npx tsx tests/jobfit-regression/metamorphic.ts --only eeo_footer --case 0410n
+//     Narrow to one transformation and/or one case (both repeatable).
+//
+//   npx tsx tests/jobfit-regression/metamorphic.ts --tolerance 5
+//     Allowed score drift in points (default 3).
+
+import { runJobFit } from "../../app/api/_lib/jobfitEvaluator"
+import { segmentJobText } from "../../app/api/jobfit/extract"
+import { loadFixtureCases, quietly } from "./lib/cases"
+
+type Transformation = {
+  name: string
+  // null when the transformation does not apply to this text (e.g. a
+  // posting with a single section cannot be reordered).
+  apply: (jobText: string) => string | null
+}
+
+type Outcome = { decision: string; score: number }
+
+type Break = {
+  caseId: string
+  transformation: string
+  base: Outcome
+  transformed: Outcome
+  reason: string
+}
+
+const DEFAULT_TOLERANCE = 3
+
+const EEO_FOOTER = [
+  "Equal Opportunity Employer",
+  "We are an equal opportunity employer. All qualified applicants will receive consideration for employment without regard to race, color, religion, sex, sexual orientation, gender identity, national origin, disability or protected veteran status.",
+  "If you need a reasonable accommodation during the application or interview process, please contact our recruiting team.",
+].join("\n")
+
+// Deliberately bland: no industry, tool, location or employer-type words,
+// so any change it causes is the engine reading boilerplate as signal.
+const ABOUT_US = [
+  "About Us",
+  "We are a team of people who care about doing good work together. We believe in treating each other with respect, listening closely and celebrating wins as a group. Our people are at the heart of everything we do.",
+].join("\n")
+
+const BULLET_RE = /^(\s*)([-*•·▪◦●])\s+/
+
+function joinSections(sections: ReturnType<typeof segmentJobText>): string {
+  return sections
+    .map((s) => [s.headerText, ...s.lines].filter((l): l is string => l !== null).join("\n"))
+    .join("\n")
+}
+
+const TRANSFORMATIONS: Transformation[] = [
+  {
+    // Keep the preamble (title, company, location) first; reverse the
+    // headed sections after it.
+    name: "reorder_sections",
+    apply: (text) => {
+      const sections = segmentJobText(text)
+      const lead = sections[0]?.headerText === null ? [sections[0]] : []
+      const headed = sections.slice(lead.length)
+      if (headed.length < 2) return null
+      const body = headed.map((s) => ({ ...s, lines: [...s.lines] }))
+      // A trailing blank line belongs between sections, not inside one.
+      for (const s of body) while (s.lines.length && !s.lines[s.lines.length - 1].trim()) s.lines.pop()
+      return joinSections([...lead, ...body.reverse().map((s) => ({ ...s, lines: [...s.lines, ""] }))]).trim()
+    },
+  },
+  {
+    name: "eeo_footer",
+    apply: (text) => `${text.trimEnd()}\n\n${EEO_FOOTER}`,
+  },
+  {
+    name: "about_us_appended",
+    apply: (text) => `${text.trimEnd()}\n\n${ABOUT_US}`,
+  },
+  {
+    // "- " bullets become "•", anything else becomes "- ".
+    name: "bullet_glyphs",
+    apply: (text) => {
+      const lines = text.split("\n")
+      if (!lines.some((l) => BULLET_RE.test(l))) return null
+      return lines
+        .map((l) => {
+          const m = l.match(BULLET_RE)
+          if (!m) return l
+          return `${m[1]}${m[2] === "-" ? "•" : "-"} ${l.slice(m[0].length)}`
+        })
+        .join("\n")
+    },
+  },
+  {
+    name: "upper_headers",
+    apply: (text) => {
+      const sections = segmentJobText(text)
+      if (!sections.some((s) => s.headerText)) return null
+      return joinSections(sections.map((s) => ({ ...s, headerText: s.headerText?.toUpperCase() ?? null })))
+    },
+  },
+  {
+    // Double every space, pad line ends, double blank lines, CRLF.
+    name: "whitespace",
+    apply: (text) =>
+      text
+        .split("\n")
+        .map((l) => (l.trim() ? `${l.replace(/ /g, "  ")}  ` : ""))
+        .join("\n")
+        .replace(/\n\n/g, "\n\n\n")
+        .replace(/\n/g, "\r\n"),
+  },
+]
+
+function argValues(flag: string): string[] {
+  const args = process.argv.slice(2)
+  return args.flatMap((a, i) => (a === flag && args[i + 1] ? [args[i + 1]] : []))
+}
+
+async function main() {
+  const only = argValues("--only")
+  const caseIds = argValues("--case")
+  const tolerance = Number(argValues("--tolerance")[0] ?? DEFAULT_TOLERANCE)
+
+  const unknown = only.filter((n) => !TRANSFORMATIONS.some((t) => t.name === n))
+  if (unknown.length) {
+    console.error(`Unknown transformation(s): ${unknown.join(", ")}. Known: ${TRANSFORMATIONS.map((t) => t.name).join(", ")}`)
+    process.exit(2)
+  }
+
+  const transformations = only.length ? TRANSFORMATIONS.filter((t) => only.includes(t.name)) : TRANSFORMATIONS
+  const cases = loadFixtureCases().filter((c) => !caseIds.length || caseIds.includes(c.id))
+
+  const applied: Record<string, number> = {}
+  const breaks: Break[] = []
+
+  for (const c of cases) {
+    const base = await quietly(() => runJobFit(c.input))
+    const baseOutcome = { decision: String(base.decision), score: Number(base.score) }
+
+    for (const t of transformations) {
+      const jobText = t.apply(c.input.jobText)
+      if (jobText === null || jobText === c.input.jobText) continue
+      applied[t.name] = (applied[t.name] ?? 0) + 1
+
+      const result = await quietly(() => runJobFit({ ...c.input, jobText }))
+      const outcome = { decision: String(result.decision), score: Number(result.score) }
+      const reasons: string[] = []
+      if (outcome.decision !== baseOutcome.decision) reasons.push(`decision ${baseOutcome.decision} → ${outcome.decision}`)
+      if (Math.abs(outcome.score - baseOutcome.score) > tolerance) reasons.push(`score ${baseOutcome.score} → ${outcome.score}`)
+      if (reasons.length) {
+        breaks.push({ caseId: c.id, transformation: t.name, base: baseOutcome, transformed: outcome, reason: reasons.join("; ") })
+      }
+    }
+  }
+
+  console.log(`Metamorphic check — ${cases.length} case(s), tolerance ±${tolerance}\n`)
+  console.log(`${"TRANSFORMATION".padEnd(20)} ${"APPLIED".padStart(7)} ${"BROKEN".padStart(7)}`)
+  for (const t of transformations) {
+    const broken = breaks.filter((b) => b.transformation === t.name).length
+    console.log(`${t.name.padEnd(20)} ${String(applied[t.name] ?? 0).padStart(7)} ${String(broken).padStart(7)}`)
+  }
+
+  if (breaks.length) {
+    console.log(`\nBroken:`)
+    for (const b of breaks) console.log(`  ${b.caseId.padEnd(36)} ${b.transformation.padEnd(20)} ${b.reason}`)
+  }
+  console.log(`\n${breaks.length ? `${breaks.length} break(s)` : "All invariants hold."}`)
+  process.exit(breaks.length ? 1 : 0)
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(2)
+})
@@ -0,0 +1,222 @@
+#!/usr/bin/env tsx
+// tests/jobfit-regression/policy-ab.ts
+//
+// Policy A/B report. Runs the whole case bank through runJobFit in-process
+// twice — once with BASE_POLICY, once with a candidate policy — and
+// reports what the candidate would change before it is ever assigned to a
+// cohort in jobfit_policies.
+//
+// Cases:
+//   - jobfit_tests/jobfit_case_bank.csv   (expected decision + score band)
+//   - tests/jobfit-regression/fixtures/*.json   (expected.decision / scoreRange)
+//   - tests/jobfit-regression/fixtures/*.csv    (Case Number format; no band)
+//
+// The candidate file is an overlay in the same shape as
+// jobfit_policies.overlay: a partial JobFitPolicy deep-merged onto
+// BASE_POLICY by mergePolicyOverlay (arrays replace, unknown keys are
+// dropped with a warning).
+//
+// Report sections:
+//   - decision flips
+//   - score deltas by job family (base run's family)
+//   - risk codes newly firing / disappearing, per code and per case
+//   - cases that violate their expected band under the candidate
+//
+// USAGE:
+//   npx tsx tests/jobfit-regression/policy-ab.ts <candidate-overlay.json>
+//     Prints the report and writes it to
+//     tests/jobfit-regression/results/policy-ab-<candidate>.md.
+//     Exits 1 if any case that met its band under BASE_POLICY violates it
+//     under the candidate, 0 otherwise.
+//
+//   npx tsx tests/jobfit-regression/policy-ab.ts <candidate-overlay.json> --json <out.json>
+//     Also writes the per-case comparison as JSON.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { basename, join } from "node:path"
+import { runJobFit } from "../../app/api/_lib/jobfitEvaluator"
+import { BASE_POLICY, mergePolicyOverlay, type JobFitPolicy, type PolicyOverlay } from "../../app/api/jobfit/policy"
+import { loadCaseBank, loadFixtureCases, quietly, type ExpectedBand } from "./lib/cases"
+
+const RESULTS_DIR = join(__dirname, "results")
+
+type JobFitResult = Awaited<ReturnType<typeof runJobFit>>
+
+type RunSummary = {
+  decision: string
+  score: number | null
+  family: string
+  riskCodes: string[]
+}
+
+type CaseComparison = {
+  id: string
+  source: string
+  band: ExpectedBand | null
+  base: RunSummary
+  candidate: RunSummary
+}
+
+// ── Comparison ────────────────────────────────────────────────────────
+
+function summarize(result: JobFitResult | undefined): RunSummary {
+  const gate = result?.gate_triggered
+  const gateCode = gate && gate.type !== "none" ? gate.gateCode : null
+  return {
+    decision: String(result?.decision ?? "error"),
+    score: result?.score == null ? null : Number(result.score),
+    family: String(result?.job_signals?.jobFamily ?? "unknown"),
+    riskCodes: [...new Set([...(result?.risk_codes ?? []).map((r) => r.code), ...(gateCode ? [gateCode] : [])])].sort(),
+  }
+}
+
+function bandViolation(band: ExpectedBand | null, run: RunSummary): string | null {
+  if (!band) return null
+  const issues: string[] = []
+  if (band.decision && run.decision !== band.decision) issues.push(`decision ${run.decision} ≠ ${band.decision}`)
+  if ((band.min !== undefined || band.max !== undefined) && run.score === null) issues.push(`score withheld`)
+  if (band.min !== undefined && run.score !== null && run.score < band.min) issues.push(`score ${run.score} < ${band.min}`)
+  if (band.max !== undefined && run.score !== null && run.score > band.max) issues.push(`score ${run.score} > ${band.max}`)
+  return issues.length ? issues.join("; ") : null
+}
+
+async function compareAll(candidate: JobFitPolicy): Promise<CaseComparison[]> {
+  const out: CaseComparison[] = []
+  for (const c of [...loadCaseBank(), ...loadFixtureCases()]) {
+    const [base, cand] = await quietly(async () => [
+      await runJobFit(c.input),
+      await runJobFit({ ...c.input, policy: candidate }),
+    ])
+    out.push({ id: c.id, source: c.source, band: c.band, base: summarize(base), candidate: summarize(cand) })
+  }
+  return out
+}
+
+// ── Report ────────────────────────────────────────────────────────────
+
+function signed(n: number): string {
+  const r = Math.round(n * 10) / 10
+  return r > 0 ? `+${r}` : String(r)
+}
+
+function renderReport(candidate: JobFitPolicy, candidatePath: string, rows: CaseComparison[]): {
+  markdown: string
+  newViolations: number
+} {
+  const lines: string[] = []
+  lines.push(`# JobFit policy A/B`)
+  lines.push(``)
+  lines.push(`Base: \`${BASE_POLICY.version}\``)
+  lines.push(`Candidate: \`${candidate.version}\` (${candidatePath})`)
+  lines.push(`Generated: ${new Date().toISOString()}`)
+  lines.push(`Cases: ${rows.length}`)
+  lines.push(``)
+
+  // Decision flips
+  const flips = rows.filter((r) => r.base.decision !== r.candidate.decision)
+  lines.push(`## Decision flips (${flips.length})`)
+  lines.push(``)
+  if (flips.length) {
+    lines.push(`| case | source | family | base | candidate |`)
+    lines.push(`|---|---|---|---|---|`)
+    for (const r of flips) {
+      lines.push(`| ${r.id} | ${r.source} | ${r.base.family} | ${r.base.decision} ${r.base.score ?? "—"} | ${r.candidate.decision} ${r.candidate.score ?? "—"} |`)
+    }
+  } else {
+    lines.push(`None.`)
+  }
+  lines.push(``)
+
+  // Score deltas by family
+  const byFamily = new Map<string, number[]>()
+  for (const r of rows) {
+    const deltas = byFamily.get(r.base.family) ?? []
+    // A withheld score on either side has no delta to report.
+    if (r.base.score !== null && r.candidate.score !== null) deltas.push(r.candidate.score - r.base.score)
+    byFamily.set(r.base.family, deltas)
+  }
+  lines.push(`## Score deltas by family`)
+  lines.push(``)
+  lines.push(`| family | cases | changed | mean Δ | min Δ | max Δ |`)
+  lines.push(`|---|---|---|---|---|---|`)
+  for (const [family, deltas] of [...byFamily.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    if (!deltas.length) continue
+    const changed = deltas.filter((d) => d !== 0).length
+    const mean = deltas.reduce((a, b) => a + b, 0) / deltas.length
+    lines.push(`| ${family} | ${deltas.length} | ${changed} | ${signed(mean)} | ${signed(Math.min(...deltas))} | ${signed(Math.max(...deltas))} |`)
+  }
+  lines.push(``)
+
+  // Risk code churn
+  const added = new Map<string, string[]>()
+  const removed = new Map<string, string[]>()
+  for (const r of rows) {
+    const before = new Set(r.base.riskCodes)
+    const after = new Set(r.candidate.riskCodes)
+    for (const code of after) if (!before.has(code)) added.set(code, [...(added.get(code) ?? []), r.id])
+    for (const code of before) if (!after.has(code)) removed.set(code, [...(removed.get(code) ?? []), r.id])
+  }
+  lines.push(`## Risk codes`)
+  lines.push(``)
+  if (added.size || removed.size) {
+    lines.push(`| code | change | cases |`)
+    lines.push(`|---|---|---|`)
+    for (const [code, ids] of [...added.entries()].sort()) lines.push(`| ${code} | newly firing (${ids.length}) | ${ids.join(", ")} |`)
+    for (const [code, ids] of [...removed.entries()].sort()) lines.push(`| ${code} | disappeared (${ids.length}) | ${ids.join(", ")} |`)
+  } else {
+    lines.push(`No risk code changes.`)
+  }
+  lines.push(``)
+
+  // Band violations
+  const violations = rows
+    .map((r) => ({ r, before: bandViolation(r.band, r.base), after: bandViolation(r.band, r.candidate) }))
+    .filter((v) => v.after)
+  const newViolations = violations.filter((v) => !v.before).length
+  lines.push(`## Expected band violations under candidate (${violations.length}, ${newViolations} new)`)
+  lines.push(``)
+  if (violations.length) {
+    lines.push(`| case | source | new | violation |`)
+    lines.push(`|---|---|---|---|`)
+    for (const v of violations) lines.push(`| ${v.r.id} | ${v.r.source} | ${v.before ? "" : "yes"} | ${v.after} |`)
+  } else {
+    lines.push(`None.`)
+  }
+  lines.push(``)
+
+  return { markdown: lines.join("\n"), newViolations }
+}
+
+// ── Main ──────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2)
+  const candidatePath = args.find((a) => !a.startsWith("--"))
+  const jsonIdx = args.indexOf("--json")
+  const jsonOut = jsonIdx >= 0 ? args[jsonIdx + 1] : null
+  if (!candidatePath) {
+    console.error("Usage: npx tsx tests/jobfit-regression/policy-ab.ts <candidate-overlay.json> [--json <out.json>]")
+    process.exit(2)
+  }
+
+  const overlay = JSON.parse(readFileSync(candidatePath, "utf8")) as PolicyOverlay
+  const name = basename(candidatePath).replace(/\.json$/i, "")
+  const candidate = mergePolicyOverlay(BASE_POLICY, overlay, `candidate:${name}`)
+
+  const rows = await compareAll(candidate)
+  const { markdown, newViolations } = renderReport(candidate, candidatePath, rows)
+
+  mkdirSync(RESULTS_DIR, { recursive: true })
+  const mdPath = join(RESULTS_DIR, `policy-ab-${name}.md`)
+  writeFileSync(mdPath, markdown)
+  if (jsonOut) writeFileSync(jsonOut, JSON.stringify(rows, null, 2))
+
+  console.log(markdown)
+  console.log(`Report: ${mdPath}`)
+  process.exit(newViolations > 0 ? 1 : 0)
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(2)
+})
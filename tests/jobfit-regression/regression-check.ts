@@ -25,6 +25,13 @@
 //     Also prints the full snapshot table for every case, not just
 //     the diffs. Useful for spot-checking.
 //
+//   npx tsx tests/jobfit-regression/regression-check.ts --trace
+//     Runs extraction with the keyword attribution trace and, under each
+//     drifted jobFamily / salesSubFamily / financeSubFamily, prints the
+//     rule and matched phrases (with JD section) that produced the live
+//     value. Use it to find which POLICY.extraction entry caused a
+//     misclassification.
+//
 // HOW TO UPDATE THE BASELINE
 //   1. Make your change to the scoring engine.
 //   2. Run `npx tsx tests/jobfit-regression/regression-check.ts`.
@@ -45,7 +52,9 @@ import {
   toSnapshot,
   diffSnapshots,
   formatSnapshot,
+  formatAttribution,
 } from "./lib/snapshot"
+import type { SignalAttribution, StructuredJobSignals } from "../../app/api/jobfit/signals"
 
 // Import test case constants from each retest script.
 import { CASE as ryan013 } from "./retest-013-ryan"
@@ -69,6 +78,15 @@ const SYNTHETIC_CSV_PATH = join(
   "synthetic-cases-4102026.csv"
 )
 
+const TRACE = process.argv.includes("--trace")
+
+// Live attribution trace per case id, filled only under --trace.
+const liveAttribution: Record<string, SignalAttribution[]> = {}
+
+function keepAttribution(id: string, result: { job_signals?: StructuredJobSignals } | null) {
+  if (TRACE) liveAttribution[id] = result?.job_signals?.signal_debug?.attribution || []
+}
+
 // Run one of the inline retest cases through runJobFit and return a snapshot.
 async function runRetestCase(c: typeof RETEST_CASES[number]): Promise<CaseSnapshot> {
   // Same tolerant-parse pattern as run-csv-in-process for concatenated arrays.
@@ -101,8 +119,10 @@ async function runRetestCase(c: typeof RETEST_CASES[number]): Promise<CaseSnapsh
     profileOverrides,
     userJobTitle: c.userJobTitle,
     userCompanyName: c.userCompanyName,
+    debug: TRACE,
   } as any)
 
+  keepAttribution(c.id, result)
   return toSnapshot(c.id, c.label, result)
 }
 
@@ -111,17 +131,19 @@ async function collectLiveSnapshots(): Promise<Record<string, CaseSnapshot>> {
   const out: Record<string, CaseSnapshot> = {}
 
   // Batch cases from the production issues CSV.
-  const batch = await runBatch(BATCH_CSV_PATH, { verbose: false })
+  const batch = await runBatch(BATCH_CSV_PATH, { verbose: false, trace: TRACE })
   for (const b of batch) {
     const id = `batch-${b.caseNo}`
+    keepAttribution(id, b.result)
     out[id] = toSnapshot(id, b.label, b.result)
   }
 
   // Synthetic cases from the generated CSV.
   if (existsSync(SYNTHETIC_CSV_PATH)) {
-    const synthetic = await runBatch(SYNTHETIC_CSV_PATH, { verbose: false })
+    const synthetic = await runBatch(SYNTHETIC_CSV_PATH, { verbose: false, trace: TRACE })
     for (const s of synthetic) {
       const id = `synthetic-${s.caseNo}`
+      keepAttribution(id, s.result)
       out[id] = toSnapshot(id, `[synthetic] ${s.label}`, s.result)
     }
   }
@@ -236,6 +258,9 @@ async function main() {
       console.log(`  ${id} — ${label}`)
       for (const d of diffs) {
         console.log(`    ${d.field}: ${JSON.stringify(d.baseline)} → ${JSON.stringify(d.live)}`)
+        if (TRACE) {
+          for (const line of formatAttribution(liveAttribution[id] || [], d.field)) console.log(`      ${line}`)
+        }
       }
       console.log("")
     }
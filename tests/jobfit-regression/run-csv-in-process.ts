@@ -53,7 +53,7 @@ const CASE_OVERRIDES: Record<string, { jobTitle: string; companyName: string }>
 }
 
 // ── Minimal CSV parser (handles quoted fields with embedded newlines/commas/quotes)
-function parseCSV(text: string): string[][] {
+export function parseCSV(text: string): string[][] {
   const rows: string[][] = []
   let row: string[] = []
   let cell = ""
@@ -153,15 +153,23 @@ function pad(s: string, n: number): string {
   return s.length >= n ? s : s + " ".repeat(n - s.length)
 }
 
-// ── Exported: run the batch and return per-case results, no side effects.
+// ── Exported: parse a batch CSV into runJobFit inputs, one per case.
 //
-// The regression-check.ts entry point uses this to assemble live snapshots
-// without writing per-case fixture files or the review markdown. The main()
-// CLI path below still calls the same core logic via an internal helper.
-export async function runBatch(csvPath: string, opts?: {
-  verbose?: boolean
-}): Promise<BatchCaseResult[]> {
-  const verbose = opts?.verbose ?? false
+// Shared by runBatch and the policy-ab / metamorphic harnesses, which
+// need the per-case inputs rather than one pass over the whole file.
+export type BatchCaseInput = {
+  caseNo: string
+  profileName: string
+  label: string
+  profileText: string
+  profileOverrides: ReturnType<typeof mapClientProfileToOverrides>
+  targetRoles: string | null
+  jobText: string
+  userJobTitle?: string
+  userCompanyName?: string
+}
+
+export function loadBatchCases(csvPath: string): BatchCaseInput[] {
   const content = readFileSync(csvPath, "utf8")
   const rows = parseCSV(content)
   if (rows.length < 2) throw new Error("CSV has no data rows")
@@ -176,7 +184,7 @@ export async function runBatch(csvPath: string, opts?: {
   }
 
   const dataRows = rows.slice(1).filter((r) => r.some((c) => c.trim().length > 0))
-  const out: BatchCaseResult[] = []
+  const out: BatchCaseInput[] = []
 
   for (const row of dataRows) {
     const caseNo = row[idxCaseNo]?.trim() || "unnamed"
@@ -184,8 +192,6 @@ export async function runBatch(csvPath: string, opts?: {
     const profileJsonRaw = row[idxJson]?.trim() || ""
     const jobText = row[idxJob]?.trim() || ""
 
-    if (verbose) console.log(`▶ Case ${caseNo} (${profileName})`)
-
     let profileArray: any = null
     try {
       profileArray = JSON.parse(profileJsonRaw)
@@ -220,26 +226,55 @@ export async function runBatch(csvPath: string, opts?: {
       continue
     }
 
-    const profileText = buildProfileText(profileRow)
-    const profileOverrides = buildProfileOverrides(profileRow)
     const override = CASE_OVERRIDES[caseNo] || { jobTitle: "", companyName: "" }
+    out.push({
+      caseNo,
+      profileName,
+      label: `${caseNo} — ${profileName || profileRow.name || profileRow.email || "unknown"} / ${override.jobTitle || "(no title)"}`,
+      profileText: buildProfileText(profileRow),
+      profileOverrides: buildProfileOverrides(profileRow),
+      targetRoles: String(profileRow?.target_roles ?? "") || null,
+      jobText,
+      userJobTitle: override.jobTitle || undefined,
+      userCompanyName: override.companyName || undefined,
+    })
+  }
+
+  return out
+}
+
+// ── Exported: run the batch and return per-case results, no side effects.
+//
+// The regression-check.ts entry point uses this to assemble live snapshots
+// without writing per-case fixture files or the review markdown. The main()
+// CLI path below still calls the same core logic via an internal helper.
+export async function runBatch(csvPath: string, opts?: {
+  verbose?: boolean
+  // Run with debug on so job_signals carries the keyword attribution trace.
+  trace?: boolean
+}): Promise<BatchCaseResult[]> {
+  const verbose = opts?.verbose ?? false
+  const out: BatchCaseResult[] = []
+
+  for (const c of loadBatchCases(csvPath)) {
+    if (verbose) console.log(`▶ Case ${c.caseNo} (${c.profileName})`)
 
     let result: any
     try {
       result = await runJobFit({
-        profileText,
-        jobText,
-        profileOverrides,
-        userJobTitle: override.jobTitle || undefined,
-        userCompanyName: override.companyName || undefined,
+        profileText: c.profileText,
+        jobText: c.jobText,
+        profileOverrides: c.profileOverrides,
+        userJobTitle: c.userJobTitle,
+        userCompanyName: c.userCompanyName,
+        debug: opts?.trace ?? false,
       } as any)
     } catch (e: any) {
-      console.error(`  ✗ runJobFit threw for ${caseNo}: ${e.message}`)
+      console.error(`  ✗ runJobFit threw for ${c.caseNo}: ${e.message}`)
       continue
     }
 
-    const label = `${caseNo} — ${profileName || profileRow.name || profileRow.email || "unknown"} / ${override.jobTitle || "(no title)"}`
-    out.push({ caseNo, profileName, label, result })
+    out.push({ caseNo: c.caseNo, profileName: c.profileName, label: c.label, result })
 
     if (verbose) {
       const whyCount = (result?.why_codes ?? []).length
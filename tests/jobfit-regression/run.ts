@@ -32,7 +32,7 @@ type Fixture = {
     jobTitle?: string
   }
   expected: {
-    decision?: "Priority Apply" | "Apply" | "Review" | "Pass"
+    decision?: "Priority Apply" | "Apply" | "Review" | "Insufficient Detail" | "Pass"
     scoreRange?: [number, number]
     requiredWhyKeys?: string[]
     requiredRiskCodes?: string[]
@@ -40,6 +40,8 @@ type Fixture = {
     forbiddenRiskCodes?: string[]
     requiredJobFamily?: string
     forbiddenJobFamily?: string
+    // "insufficient_detail" for postings too thin to judge.
+    resultMode?: "standard" | "insufficient_detail"
     notes?: string
   }
 }
@@ -123,7 +125,7 @@ async function runFixture(fx: Fixture): Promise<ResultRow> {
     const result = await res.json()
     row.raw = result
     row.decision = String(result?.decision ?? "")
-    row.score = Number(result?.score ?? 0)
+    row.score = result?.score == null ? undefined : Number(result.score)
 
     // ── Assertions ─────────────────────────────────────────────
     const exp = fx.expected
@@ -183,6 +185,11 @@ async function runFixture(fx: Fixture): Promise<ResultRow> {
       row.issues.push(`forbidden jobFamily present: ${exp.forbiddenJobFamily}`)
     }
 
+    const resultMode = result?.result_mode ?? "standard"
+    if (exp.resultMode && resultMode !== exp.resultMode) {
+      row.issues.push(`result_mode expected '${exp.resultMode}', got '${resultMode}'`)
+    }
+
     if (row.issues.length > 0) row.status = "FAIL"
   } catch (err: any) {
     row.status = "ERROR"
@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+// tests/llm-standin/server.ts
+//
+// The LLM stand-in as a local HTTP server, for running the app itself
+// without provider access:
+//
+//   npx tsx tests/llm-standin/server.ts --mode synthetic --port 4010
+//   LLM_BASE_URL=http://127.0.0.1:4010 npm run dev
+//
+// Every OpenAI / Anthropic call the routes make goes through
+// app/api/_lib/llmClient.ts, which sends it here when LLM_BASE_URL is set.
+//
+// USAGE:
+//   --mode synthetic   Schema-valid canned output per purpose (default).
+//   --mode replay      Serve tests/llm-standin/recordings; 404 on a miss.
+//   --mode record      Forward to the real providers (needs the usual API
+//                      keys in the app's env) and save each response.
+//   --recordings <dir> Recordings directory for replay / record.
+//   --port <n>         Default 4010.
+
+import { createServer } from "node:http"
+import { createLlmStandIn, type StandInMode } from "./standIn"
+
+function argValue(flag: string): string | undefined {
+  const args = process.argv.slice(2)
+  const i = args.indexOf(flag)
+  return i >= 0 ? args[i + 1] : undefined
+}
+
+const mode = (argValue("--mode") ?? "synthetic") as StandInMode
+if (!["synthetic", "replay", "record"].includes(mode)) {
+  console.error(`Unknown --mode "${mode}". Use synthetic, replay or record.`)
+  process.exit(2)
+}
+const port = Number(argValue("--port") ?? 4010)
+const standIn = createLlmStandIn({ mode, recordingsDir: argValue("--recordings") })
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = []
+  req.on("data", (c: Buffer) => chunks.push(c))
+  req.on("end", async () => {
+    const headers = new Headers()
+    for (const [k, v] of Object.entries(req.headers)) if (typeof v === "string") headers.set(k, v)
+    const path = new URL(req.url ?? "/", "http://localhost").pathname
+    try {
+      const { status, body } = await standIn.handle(path, headers, Buffer.concat(chunks).toString("utf8"))
+      const call = standIn.calls[standIn.calls.length - 1]
+      console.log(`${status} ${path} ${call?.purpose ?? "-"} ${call?.key ?? ""}`)
+      res.writeHead(status, { "content-type": "application/json" })
+      res.end(JSON.stringify(body))
+    } catch (e) {
+      console.error(e)
+      res.writeHead(500, { "content-type": "application/json" })
+      res.end(JSON.stringify({ error: { message: String(e) } }))
+    }
+  })
+})
+
+server.listen(port, "127.0.0.1", () => {
+  console.log(`LLM stand-in (${mode}) on http://127.0.0.1:${port} — recordings: ${standIn.recordingsDir}`)
+})
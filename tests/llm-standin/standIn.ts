@@ -0,0 +1,266 @@
+// tests/llm-standin/standIn.ts
+//
+// Local stand-in for the OpenAI and Anthropic HTTP APIs. Speaks the three
+// endpoints our routes use — Anthropic /v1/messages, OpenAI /v1/responses
+// and /v1/chat/completions — and answers in one of three modes:
+//
+//   replay     Requests are keyed by prompt hash (model + system + user
+//              text + attached documents). The stored response for that
+//              key is returned; a miss is a provider-shaped 404 naming
+//              the key, so a changed prompt fails loudly instead of
+//              silently going live.
+//   record     Forwards to the real provider (or `upstream`) and stores
+//              every 2xx response under its key for later replay.
+//   synthetic  No recordings needed. The purpose header set by
+//              app/api/_lib/llmClient.ts picks a generator from
+//              synthetic.ts that returns output in the shape the calling
+//              route parses.
+//
+// Used in-process by the route tests (setLlmTransport(standIn.fetch)) and
+// over HTTP by server.ts.
+
+import { createHash } from "node:crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { LLM_PURPOSE_HEADER, type LlmPurpose, type LlmTransport } from "../../app/api/_lib/llmClient"
+import { SYNTHETIC } from "./synthetic"
+
+export type StandInMode = "replay" | "record" | "synthetic"
+
+export type LlmProvider = "anthropic" | "openai"
+
+// The parts of a request that decide what the model says, flattened
+// across the three request formats.
+export type LlmCall = {
+  key: string
+  provider: LlmProvider
+  path: string
+  purpose: string | null
+  model: string
+  system: string
+  prompt: string
+  documents: string[]
+}
+
+export type Recording = {
+  key: string
+  purpose: string | null
+  provider: LlmProvider
+  path: string
+  model: string
+  prompt_preview: string
+  status: number
+  response: unknown
+}
+
+export type StandInResponse = { status: number; body: unknown }
+
+export const DEFAULT_RECORDINGS_DIR = join(__dirname, "recordings")
+
+const PROVIDER_ORIGIN: Record<LlmProvider, string> = {
+  anthropic: "https://api.anthropic.com",
+  openai: "https://api.openai.com",
+}
+
+// ── Request parsing ──────────────────────────────────────────────────
+
+type Json = Record<string, unknown>
+
+function asRecord(v: unknown): Json {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Json) : {}
+}
+
+function providerForPath(path: string): LlmProvider | null {
+  if (path === "/v1/messages") return "anthropic"
+  if (path === "/v1/responses" || path === "/v1/chat/completions") return "openai"
+  return null
+}
+
+// Text and base64 documents out of any of the content encodings: a bare
+// string, Anthropic blocks ({type:"text"} / {type:"document"}) or OpenAI
+// parts ({type:"input_text"} / {type:"text"}).
+function collectContent(content: unknown, text: string[], documents: string[]) {
+  if (typeof content === "string") {
+    text.push(content)
+    return
+  }
+  if (!Array.isArray(content)) return
+  for (const part of content) {
+    const p = asRecord(part)
+    if (typeof p.text === "string") text.push(p.text)
+    const data = asRecord(p.source).data
+    if (p.type === "document" && typeof data === "string") documents.push(data)
+  }
+}
+
+export function parseLlmCall(path: string, purpose: string | null, body: Json): LlmCall | null {
+  const provider = providerForPath(path)
+  if (!provider) return null
+
+  const system: string[] = []
+  const prompt: string[] = []
+  const documents: string[] = []
+
+  collectContent(body.system, system, documents)
+  if (typeof body.instructions === "string") system.push(body.instructions)
+
+  const turns = Array.isArray(body.messages) ? body.messages : Array.isArray(body.input) ? body.input : []
+  if (typeof body.input === "string") prompt.push(body.input)
+  for (const turn of turns) {
+    const t = asRecord(turn)
+    const role = String(t.role ?? "user")
+    collectContent(t.content, role === "system" || role === "developer" ? system : prompt, documents)
+  }
+
+  const model = String(body.model ?? "")
+  const fields = { path, model, system: system.join("\n\n"), prompt: prompt.join("\n\n"), documents }
+  const key = createHash("sha256").update(JSON.stringify(fields)).digest("hex").slice(0, 24)
+  return { key, provider, purpose, ...fields }
+}
+
+// ── Provider-shaped responses ────────────────────────────────────────
+
+function tokens(s: string): number {
+  return Math.max(1, Math.ceil(s.length / 4))
+}
+
+export function providerResponse(call: LlmCall, text: string): unknown {
+  const id = call.key.slice(0, 16)
+  if (call.path === "/v1/messages") {
+    return {
+      id: `msg_standin_${id}`,
+      type: "message",
+      role: "assistant",
+      model: call.model,
+      content: [{ type: "text", text }],
+      stop_reason: "end_turn",
+      stop_sequence: null,
+      usage: { input_tokens: tokens(call.system + call.prompt), output_tokens: tokens(text) },
+    }
+  }
+  if (call.path === "/v1/responses") {
+    return {
+      id: `resp_standin_${id}`,
+      object: "response",
+      created_at: 0,
+      status: "completed",
+      model: call.model,
+      output: [
+        {
+          type: "message",
+          id: `msg_standin_${id}`,
+          status: "completed",
+          role: "assistant",
+          content: [{ type: "output_text", text, annotations: [] }],
+        },
+      ],
+      usage: {
+        input_tokens: tokens(call.system + call.prompt),
+        output_tokens: tokens(text),
+        total_tokens: tokens(call.system + call.prompt) + tokens(text),
+      },
+    }
+  }
+  return {
+    id: `chatcmpl-standin-${id}`,
+    object: "chat.completion",
+    created: 0,
+    model: call.model,
+    choices: [{ index: 0, message: { role: "assistant", content: text, refusal: null }, finish_reason: "stop", logprobs: null }],
+    usage: {
+      prompt_tokens: tokens(call.system + call.prompt),
+      completion_tokens: tokens(text),
+      total_tokens: tokens(call.system + call.prompt) + tokens(text),
+    },
+  }
+}
+
+function providerError(provider: LlmProvider, status: number, message: string): StandInResponse {
+  const body =
+    provider === "anthropic"
+      ? { type: "error", error: { type: status === 404 ? "not_found_error" : "invalid_request_error", message } }
+      : { error: { message, type: "invalid_request_error", code: null, param: null } }
+  return { status, body }
+}
+
+// ── Stand-in ─────────────────────────────────────────────────────────
+
+export function createLlmStandIn(opts: {
+  mode: StandInMode
+  recordingsDir?: string
+  // Where record mode sends requests. Defaults to the real provider via
+  // global fetch, with the caller's API key headers passed through.
+  upstream?: LlmTransport
+}) {
+  const recordingsDir = opts.recordingsDir ?? DEFAULT_RECORDINGS_DIR
+  const calls: LlmCall[] = []
+
+  const recordingPath = (key: string) => join(recordingsDir, `${key}.json`)
+
+  async function handle(path: string, headers: Headers, bodyText: string): Promise<StandInResponse> {
+    const body = asRecord(JSON.parse(bodyText || "{}"))
+    const call = parseLlmCall(path, headers.get(LLM_PURPOSE_HEADER), body)
+    if (!call) return { status: 404, body: { error: { message: `Stand-in does not serve ${path}` } } }
+    calls.push(call)
+
+    if (opts.mode === "synthetic") {
+      const generate = call.purpose ? SYNTHETIC[call.purpose as LlmPurpose] : undefined
+      if (!generate) {
+        return providerError(call.provider, 400, `No synthetic generator for purpose "${call.purpose ?? "(none)"}"`)
+      }
+      return { status: 200, body: providerResponse(call, generate(call)) }
+    }
+
+    if (opts.mode === "replay") {
+      const file = recordingPath(call.key)
+      if (!existsSync(file)) {
+        return providerError(
+          call.provider,
+          404,
+          `No recording for ${call.purpose ?? "(no purpose)"} prompt ${call.key} in ${recordingsDir}. Re-record with --mode record.`
+        )
+      }
+      const rec = JSON.parse(readFileSync(file, "utf8")) as Recording
+      return { status: rec.status, body: rec.response }
+    }
+
+    const upstreamHeaders = new Headers(headers)
+    upstreamHeaders.delete("host")
+    upstreamHeaders.delete("content-length")
+    const res = await (opts.upstream ?? fetch)(PROVIDER_ORIGIN[call.provider] + path, {
+      method: "POST",
+      headers: upstreamHeaders,
+      body: bodyText,
+    })
+    const text = await res.text()
+    const response: unknown = text ? JSON.parse(text) : null
+    if (res.ok) {
+      const rec: Recording = {
+        key: call.key,
+        purpose: call.purpose,
+        provider: call.provider,
+        path,
+        model: call.model,
+        prompt_preview: call.prompt.slice(0, 200),
+        status: res.status,
+        response,
+      }
+      mkdirSync(recordingsDir, { recursive: true })
+      writeFileSync(recordingPath(call.key), JSON.stringify(rec, null, 2) + "\n")
+    }
+    return { status: res.status, body: response }
+  }
+
+  // Drop-in for setLlmTransport: same signature as fetch, never touches
+  // the network except to reach `upstream` in record mode.
+  const standInFetch: LlmTransport = async (url, init) => {
+    const headers = new Headers(init?.headers)
+    const bodyText = typeof init?.body === "string" ? init.body : init?.body ? await new Response(init.body).text() : ""
+    const { status, body } = await handle(new URL(url).pathname, headers, bodyText)
+    return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } })
+  }
+
+  return { mode: opts.mode, recordingsDir, calls, handle, fetch: standInFetch }
+}
+
+export type LlmStandIn = ReturnType<typeof createLlmStandIn>
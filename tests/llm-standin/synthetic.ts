@@ -0,0 +1,407 @@
+// tests/llm-standin/synthetic.ts
+//
+// Synthetic model output, one generator per LlmPurpose. Each returns the
+// text a well-behaved model would send back: JSON in the exact shape the
+// route's prompt asks for (and its parser reads), or plain text where the
+// route expects plain text. Output is deterministic and built from the
+// prompt — a job title, a resume line, the WHY codes the engine passed
+// in — so route tests can assert that inputs flowed through.
+//
+// Typed as Record<LlmPurpose, …>: adding a purpose to llmClient.ts
+// without a generator here fails the type-check.
+
+import type { LlmPurpose } from "../../app/api/_lib/llmClient"
+import type { CoverLetterStrategy, RiskBullet, WhyBullet } from "../../app/api/jobfit/bulletGeneratorV5"
+import type { LlmCall } from "./standIn"
+
+// ── Prompt helpers ───────────────────────────────────────────────────
+
+// Text between `start` and the first of `ends` that follows it.
+function between(text: string, start: string, ends: string[] = []): string {
+  const i = text.indexOf(start)
+  if (i < 0) return ""
+  const rest = text.slice(i + start.length)
+  const cut = ends.map((e) => rest.indexOf(e)).filter((n) => n >= 0)
+  return (cut.length ? rest.slice(0, Math.min(...cut)) : rest).trim()
+}
+
+function lines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+}
+
+function bulletLines(text: string): string[] {
+  return lines(text)
+    .filter((l) => /^([-•*]|\d+\.)\s+/.test(l))
+    .map((l) => l.replace(/^([-•*]|\d+\.)\s+/, ""))
+}
+
+// The line above the first bullet: "Supply Chain Intern, H-E-B (Summer 2025)".
+function firstRole(resume: string): string {
+  const all = lines(resume)
+  const i = all.findIndex((l) => /^([-•*]|\d+\.)\s+/.test(l))
+  return i > 0 ? all[i - 1] : "Most recent role"
+}
+
+function jsonBlock<T>(text: string, fallback: T): T {
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    return fallback
+  }
+}
+
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2)
+}
+
+// "Candidate: junior, mode: student_internship, targeting Finance"
+function candidate(prompt: string) {
+  const m = prompt.match(/Candidate: (.*?), mode: (.*?), targeting (.*)/)
+  return { year: m?.[1] ?? "student", mode: m?.[2] ?? "", field: m?.[3]?.trim() ?? "this field" }
+}
+
+// Title / company / body out of pasted or scraped page text.
+function parsePostingText(text: string) {
+  const all = lines(text)
+  const [jobTitle = "", second = ""] = all
+  const companyName = second.split(/\s+[—–-]\s+|,/)[0].trim()
+  const location = second.match(/[—–-]\s+(.+)$/)?.[1]?.trim() ?? ""
+  const jobType = /\bintern(ship)?\b/i.test(text) ? "Internship" : /\bcontract\b/i.test(text) ? "Contract" : "Full Time"
+  return { jobTitle, companyName, location, jobType, jobDescription: all.slice(2).join("\n") }
+}
+
+// ── Generators ───────────────────────────────────────────────────────
+
+function positioning(call: LlmCall): string {
+  const resume = between(call.prompt, "RESUME (verbatim):", ["JOB DESCRIPTION (verbatim):"])
+  const keywords = bulletLines(between(call.prompt, "underrepresented in your resume bullets:", ["TASK"]))
+    .filter((k) => k !== "None")
+  const bullets = bulletLines(resume)
+  const evidence = bullets.slice(0, 1)
+  const role = firstRole(resume)
+  const pick = (role: string) => ({ role, why: "It is the closest match to the work in this posting.", evidence, action: "Move it to the top of your experience section." })
+
+  return json({
+    student_intro: "Here is how to lead with the experience this job cares about most.",
+    role_angle: { label: "Analytical / Quantitative", why: "Your strongest bullets are about analysis and reporting.", evidence },
+    arrange_resume: {
+      intro: "You have about 7 seconds to make an impact with a hiring manager. Lead with your most relevant experience.",
+      lead_with: [pick(role)],
+      support_with: [],
+      then_include: [],
+      de_emphasize: [],
+    },
+    summary_statement: { need_summary: "NO", why: "The top of your resume already shows the fit.", recommended_summary: null, evidence: [] },
+    resume_bullet_edits:
+      keywords.length && bullets.length
+        ? [
+            {
+              job_title: role,
+              before: bullets[0],
+              after: `${bullets[0].replace(/\.$/, "")} (${keywords[0]})`,
+              why: "A recruiter sees the tool this team uses in your own work.",
+              evidence: bullets[0],
+            },
+          ]
+        : [],
+  })
+}
+
+function coverletter(call: LlmCall): string {
+  const job = lines(between(call.prompt, "JOB DESCRIPTION (verbatim):", ["JOB FIT CONTEXT", "COVER LETTER STRATEGY"]))
+  const role = job[0] ?? "this role"
+  return json({
+    letter: [
+      `As a student focused on this kind of work, the ${role} role stood out because it is the work I have been building toward.`,
+      "In my most recent role I owned weekly reporting end to end and learned how to turn raw numbers into decisions a team could act on.",
+      "I would bring that same care to your team from the first week.",
+      "Thank you for your time and consideration.",
+    ].join("\n\n"),
+  })
+}
+
+function networkingPlan(call: LlmCall): string {
+  const state = between(call.prompt, "APPLICATION STATE:", ["JOBFIT CONTEXT"]) || "applied_today"
+  const role = lines(between(call.prompt, "JOB DESCRIPTION:", ["APPLICATION STATE:"]))[0] ?? "the role"
+  const move = (n: number, target_type: string, target_title: string) => ({
+    move_id: `move_${n}`,
+    target_type,
+    target_title,
+    why_this_target: `They can speak to how the ${role} team hires.`,
+    goal: "Get one real conversation about the role.",
+    timing: n === 1 ? "Within 24 hours" : `Day ${n}`,
+    channel_plan: { primary: "LinkedIn", secondary: "Email", why: "LinkedIn to find them, email once you know who they are." },
+    linkedin_search_queries: [`"${role}"`],
+    linkedin_connection_request: `I applied for the ${role} role and would value your perspective on the team.`,
+    linkedin_message: `I applied for the ${role} role. What separates the candidates your team moves forward?`,
+    email_subject: `${role} applicant`,
+    email_body: `I applied for the ${role} role and would value ten minutes of your perspective.`,
+    follow_up_message: "Following up once in case this got buried.",
+    conversation_openers: ["What does the first 90 days look like in this role?"],
+  })
+  return json({
+    framing: "Here is how you stop being just another application.",
+    strategy: `Reach the people closest to the ${role} work first, then the recruiter.`,
+    application_state: state,
+    sequence: [
+      { day: "Day 0", step: "Send Move 1." },
+      { day: "Day 2", step: "Send Move 2 and follow up on Move 1." },
+    ],
+    moves: [move(1, "Closest to the work", "Analyst on the team"), move(2, "Credibility bridge", "Alumni at the company"), move(3, "Process owner", "Recruiter")],
+  })
+}
+
+// One bullet per evidence item, as many as the prompt's WHY range allows,
+// each quoting its job_fact and profile_fact so the V4 validator's
+// evidence check passes.
+function bulletsV4(call: LlmCall): string {
+  type Fact = { job_fact?: string; profile_fact?: string }
+  const evidence = jsonBlock<{ drivers?: { why_evidence?: Fact[]; risk_evidence?: Fact[] } }>(
+    between(call.prompt, "Evidence Packet:"),
+    {}
+  )
+  const whyMax = Number(call.prompt.match(/WHY bullets: (\d+)-(\d+)/)?.[2] ?? 6)
+  const riskMax = Number(call.prompt.match(/RISK bullets: (\d+)-(\d+)/)?.[2] ?? 6)
+  const why = (evidence.drivers?.why_evidence ?? []).slice(0, whyMax)
+  const risk = (evidence.drivers?.risk_evidence ?? []).slice(0, riskMax)
+  return json({
+    why_bullets: why.map((w) => `The role calls for ${w.job_fact}; you have ${w.profile_fact}.`),
+    risk_bullets: risk.map((r) => `The role asks for ${r.job_fact}; your ${r.profile_fact || "profile"} does not show it yet.`),
+    reasoning: "Synthetic bullets from structured evidence.",
+  })
+}
+
+function bulletsV5(call: LlmCall): string {
+  type Code = { code?: string; match_key?: string; job_fact?: string; profile_fact?: string | null; risk?: string }
+  const why = jsonBlock<Code[]>(between(call.prompt, "## WHY MATCH CODES (evidence of fit)", ["## RISK CODES"]), [])
+  const risk = jsonBlock<Code[]>(between(call.prompt, "## RISK CODES (gaps or concerns)", ["## DECISION"]), [])
+
+  const why_bullets: WhyBullet[] = why.slice(0, 4).map((w) => ({
+    keyword: w.match_key || w.code || "fit",
+    lead: `You already do ${w.match_key || "this work"}.`,
+    connection: `The posting asks for ${w.job_fact || "it"} and your ${w.profile_fact || "experience"} shows it.`,
+    action: "Put that bullet first in the matching role.",
+  }))
+  const risk_bullets: RiskBullet[] = risk.slice(0, 3).map((r) => ({
+    keyword: r.code || "gap",
+    gap: r.risk || `The posting asks for ${r.job_fact || "something"} your profile does not show.`,
+    reframe: "Name the closest thing you have done and how quickly you picked it up.",
+    severity: "medium",
+  }))
+  const cover_letter_strategy: CoverLetterStrategy = {
+    open_with: why_bullets[0]?.keyword ?? "your most relevant experience",
+    lead_signal: why_bullets[0]?.connection ?? "Your closest experience to the role.",
+    address_gap: risk_bullets[0]?.gap ?? null,
+    tone: "direct",
+  }
+  return json({ why_bullets, risk_bullets, cover_letter_strategy })
+}
+
+function debugReview(): string {
+  return json({
+    verdict: "LOOKS_CORRECT",
+    summary: "The decision matches the evidence in the resume and posting.",
+    issues: [],
+    recruiter_assessment: "I would screen this candidate. The core experience is there.",
+  })
+}
+
+function jobAnalysisEnrichment(call: LlmCall): string {
+  const posting = parsePostingText(between(call.prompt, "Job description:"))
+  return json({
+    company_name: posting.companyName || null,
+    what_they_do: `${posting.companyName || "The company"} operates in the industry this posting describes.`,
+    company_stage: "Mid-Market",
+    clients: "Business customers",
+    marketing_context: "B2B with long sales cycles",
+    recent_news: null,
+    tier: "Mid-Market",
+    industry: "Logistics",
+    application_insight: "Lead with measurable operating results.",
+  })
+}
+
+function jobAnalysisAnalysis(call: LlmCall): string {
+  const posting = parsePostingText(between(call.prompt, "Analyze this job description:"))
+  return json({
+    role_level: "Entry",
+    function: posting.jobTitle || "Operations",
+    seniority_signals: ["0-2 years of experience"],
+    core_skills: ["Excel", "SQL"],
+    hidden_requirements: ["Comfort presenting to operators", "Fast turnaround on ad hoc asks", "Ownership of a recurring report", "Clean data habits", "Curiosity about the floor"],
+    competitiveness: "High",
+    risk_flags: ["Large applicant pool", "Tool expectations are above entry level", "Location limits remote options"],
+    target_candidate_profile: ["Business or supply chain major with one analytical internship"],
+    summary: `This ${posting.jobTitle || "role"} rewards candidates who can show a report they owned.`,
+    market_reality: {
+      stats: [
+        { value: "200-400", label: "Estimated applicants" },
+        { value: "60%", label: "Have a prior analyst internship" },
+        { value: "3:1", label: "Business to engineering majors" },
+      ],
+      competitive_dynamic: "Most applicants list the same tools. The ones who advance show outcomes.",
+    },
+  })
+}
+
+function parseJobText(call: LlmCall): string {
+  const posting = parsePostingText(between(call.prompt, "Raw page text:"))
+  return json({ ...posting, location: posting.location || null })
+}
+
+function parseJobUrlFallback(call: LlmCall): string {
+  return json(parsePostingText(between(call.prompt, "Page text:")))
+}
+
+// Pulls the string operands of Tj operators out of an uncompressed PDF —
+// enough for the hand-built PDFs the tests upload. Anything else yields no
+// text, which the route treats as an unreadable file.
+function resumeUploadPdfText(call: LlmCall): string {
+  return call.documents
+    .map((b64) => Buffer.from(b64, "base64").toString("utf8"))
+    .flatMap((pdf) => [...pdf.matchAll(/\(((?:\\.|[^\\)])*)\)\s*Tj/g)].map((m) => m[1].replace(/\\(.)/g, "$1")))
+    .join("\n")
+}
+
+function resumeRxDiagnosis(call: LlmCall): string {
+  const resume = between(call.prompt, "Resume:")
+  const bullets = bulletLines(resume)
+  const university = lines(resume).find((l) => /university|college/i.test(l)) ?? ""
+  const dimension = (score: number) => ({ score, verdict: "Solid, with room to be more specific.", findings: [] })
+  return json({
+    overall_verdict: "needs_work",
+    overall_score: 6,
+    skim_test: { passes: false, role_clarity: "unclear", anchor_proof: bullets[0] ?? "", reason_to_read: "weak", notes: "The strongest line is buried." },
+    current_education: {
+      university,
+      location: "",
+      college: "",
+      graduation_date: "",
+      majors: "",
+      minors: "",
+      gpa: null,
+      honors: "",
+      relevant_courses: "",
+      study_abroad: null,
+      additional_notes: "",
+    },
+    summary: "You have real experience here. It just is not reading that way yet.",
+    high_school_items: [],
+    should_remove_hs: false,
+    dimensions: {
+      impact: dimension(3),
+      specificity: dimension(3),
+      language: dimension(4),
+      relevance: dimension(3),
+      completeness: dimension(4),
+      honesty: dimension(5),
+    },
+    ats_issues: [],
+    weak_bullets: bullets.slice(0, 1).map((b) => ({ original: b, reason: "No outcome.", section: "Experience" })),
+    missing_opportunities: ["Relevant coursework"],
+    qa_agenda: [
+      { id: "qa_1", type: "bullet", target: bullets[0] ?? "Most recent bullet", section: "Experience", priority: "high", questions: ["What changed because of this work?", "How often did you do it?"] },
+      { id: "qa_2", type: "coursework", target: "Relevant Coursework", section: "Education", priority: "medium", questions: ["Which courses are closest to this field?"] },
+    ],
+  })
+}
+
+function resumeRxEducation(call: LlmCall): string {
+  const edu = jsonBlock<Record<string, unknown>>(between(call.prompt, "Education data:", ["GPA display:"]), {})
+  const show = /GPA display: Show GPA/.test(call.prompt)
+  const degree = [`Degree in ${String(edu.majors ?? "Major")}`, show && edu.gpa ? `GPA: ${edu.gpa}` : "", String(edu.graduation_date ?? "")]
+  return json({
+    formatted_lines: [
+      `${String(edu.university ?? "University")} — ${String(edu.location ?? "")}`.trim(),
+      degree.filter(Boolean).join("    "),
+      `Relevant Coursework: ${String(edu.relevant_courses || "Statistics, Financial Accounting")}`,
+    ],
+    show_gpa: show,
+    gpa_note: show ? null : "Leave GPA off; it does not help you here.",
+    coaching_note: "Keep this tight. Recruiters scan it in a second.",
+  })
+}
+
+function resumeRxArchitecture(call: LlmCall): string {
+  const { field } = candidate(call.prompt)
+  return json({
+    section_order: ["Education", "Relevant Experience", "Additional Experience", "Involvement & Volunteerism"],
+    anchor_section: "Relevant Experience",
+    positioning_statement: null,
+    remove_sections: [],
+    add_sections: [],
+    coaching_note: `For ${field}, your experience is the proof. Lead with it right after education.`,
+  })
+}
+
+function resumeRxAnswerProject(call: LlmCall): string {
+  const target = between(call.prompt, "Project target:", ["\n"])
+  return json({
+    section_header: "Projects",
+    project_title_line: target || "Project",
+    bullets: [{ text: `Built ${target || "the project"} end to end and shipped it to real users`, reasoning: "Shows ownership and an outcome.", keywords: ["ownership"] }],
+    coaching_note: "This is the kind of project that gets you a second look.",
+  })
+}
+
+function resumeRxAnswerBullet(call: LlmCall): string {
+  const original = between(call.prompt, "Original bullet:", ["\n"]).replace(/\.$/, "")
+  return json({
+    variants: [
+      { text: `${original}, cutting turnaround time for the team`, reasoning: "Adds the outcome.", keywords: ["reporting"] },
+      { text: `Owned ${original.charAt(0).toLowerCase()}${original.slice(1)} for a team of eight`, reasoning: "Adds scope.", keywords: ["ownership"] },
+    ],
+    coaching_note: "Now a recruiter can see why it mattered.",
+  })
+}
+
+function resumeRxAnswerCoursework(call: LlmCall): string {
+  const answers = lines(between(call.prompt, "Courses and context provided:", ["Return ONLY"]))
+    .filter((l) => l.startsWith("A: "))
+    .map((l) => l.slice(3))
+  const courses = answers.join(", ") || "Statistics"
+  return json({ coursework_line: `Relevant Coursework: ${courses}`, keywords: courses.split(/,\s*/), coaching_note: "Pure keyword value. Keep it." })
+}
+
+// Plain text, not JSON: the assemble step returns the resume itself.
+function resumeRxAssemble(call: LlmCall): string {
+  const original = between(call.prompt, "ORIGINAL RESUME:", ["APPROVED REWRITES"])
+  const rewrites = bulletLines(between(call.prompt, "APPROVED REWRITES (replace matching original bullets with these):", ["EDUCATION SECTION"]))
+  return [original, ...rewrites].join("\n")
+}
+
+function resumeRxCoaching(): string {
+  const sections = {
+    what_we_fixed: "We moved your strongest work to the top and gave your bullets outcomes.",
+    why_stronger: "A recruiter now sees what you did and why it mattered in one pass.",
+    watch_for: "Keep every new bullet to one line.",
+    next_move: "Use this version for the next five applications and track responses.",
+  }
+  return json({ coaching_summary: Object.values(sections).join("\n\n"), sections })
+}
+
+export const SYNTHETIC: Record<LlmPurpose, (call: LlmCall) => string> = {
+  positioning,
+  coverletter,
+  "networking.plan": networkingPlan,
+  "networking.repair": networkingPlan,
+  "jobfit.bullets_v4": bulletsV4,
+  "jobfit.bullets_v5": bulletsV5,
+  "jobfit.debug_review": debugReview,
+  "job_analysis.enrichment": jobAnalysisEnrichment,
+  "job_analysis.analysis": jobAnalysisAnalysis,
+  parse_job_text: parseJobText,
+  "parse_job_url.fallback": parseJobUrlFallback,
+  "resume_upload.pdf_text": resumeUploadPdfText,
+  "resume_rx.diagnosis": resumeRxDiagnosis,
+  "resume_rx.education": resumeRxEducation,
+  "resume_rx.architecture": resumeRxArchitecture,
+  "resume_rx.answer.project": resumeRxAnswerProject,
+  "resume_rx.answer.bullet": resumeRxAnswerBullet,
+  "resume_rx.answer.coursework": resumeRxAnswerCoursework,
+  "resume_rx.assemble": resumeRxAssemble,
+  "resume_rx.coaching": resumeRxCoaching,
+}
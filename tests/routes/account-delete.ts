@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+// tests/routes/account-delete.ts
+//
+// DELETE /api/account/delete: every row the student owns is removed —
+// runs, tracker, personas, Resume Rx sessions, and coach rows on either
+// side of the relationship — purchases are kept but anonymized, and the
+// auth user is deleted. Another student's rows, including their links to
+// the same coach, must survive untouched.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { PROFILE_TEXT } from "./lib/samples"
+
+const OWNED_BY_PROFILE: [table: string, column: string][] = [
+  ["signal_applications", "profile_id"],
+  ["signal_interviews", "profile_id"],
+  ["client_personas", "profile_id"],
+  ["resume_rx_sessions", "profile_id"],
+  ["jobfit_runs", "client_profile_id"],
+  ["positioning_runs", "client_profile_id"],
+  ["coverletter_runs", "client_profile_id"],
+  ["networking_runs", "client_profile_id"],
+]
+
+async function main() {
+  const env = setupRoutes()
+  const { DELETE } = await import("../../app/api/account/delete/route")
+  const alex = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT, extra: { is_coach: true } })
+  const sam = env.addStudent({ email: "sam@example.edu", profileText: PROFILE_TEXT })
+  const casey = env.addStudent({ email: "casey@example.edu", extra: { is_coach: true } })
+  const db = env.supabase
+
+  // The same set of rows for both students.
+  for (const profileId of [alex.profileId, sam.profileId]) {
+    const [persona] = db.seed("client_personas", [{ profile_id: profileId, name: "Main", resume_text: PROFILE_TEXT }])
+    const [run] = db.seed("jobfit_runs", [
+      { client_profile_id: profileId, fingerprint_hash: "fp", fingerprint_code: "FP", verdict: "Apply", result_json: {} },
+    ])
+    const [app] = db.seed("signal_applications", [
+      { profile_id: profileId, persona_id: persona.id, jobfit_run_id: run.id, company_name: "Lone Star Distribution" },
+    ])
+    db.seed("signal_interviews", [{ application_id: app.id, profile_id: profileId }])
+    db.seed("resume_rx_sessions", [
+      { profile_id: profileId, original_resume_text: PROFILE_TEXT, mode: "full", year_in_school: "senior", target_field: "supply chain" },
+    ])
+    for (const t of ["positioning_runs", "coverletter_runs", "networking_runs"]) {
+      db.seed(t, [{ client_profile_id: profileId, fingerprint_hash: "fp", fingerprint_code: "FP", result_json: {} }])
+    }
+  }
+
+  // Casey coaches both students; alex also coaches sam.
+  const coachRows = (coachId: string, clientId: string, email: string) => {
+    const [link] = db.seed("coach_clients", [
+      { coach_profile_id: coachId, client_profile_id: clientId, invited_email: email, status: "active" },
+    ])
+    db.seed("coach_job_recommendations", [
+      {
+        coach_client_id: link.id,
+        coach_profile_id: coachId,
+        client_profile_id: clientId,
+        company_name: "Lone Star Distribution",
+        job_title: "Logistics Analyst",
+        job_description: "Freight analysis.",
+      },
+    ])
+    db.seed("coach_annotations", [
+      { coach_profile_id: coachId, client_profile_id: clientId, target_type: "general", note: "Keep going." },
+    ])
+  }
+  coachRows(casey.profileId, alex.profileId, "alex@example.edu")
+  coachRows(casey.profileId, sam.profileId, "sam@example.edu")
+  coachRows(alex.profileId, sam.profileId, "sam@example.edu")
+
+  db.seed("purchases", [
+    { email: "alex@example.edu", amount_cents: 4900, utm_source: "tiktok", fbclid: "fb.1", client_ip: "203.0.113.7" },
+    { email: "sam@example.edu", amount_cents: 4900, utm_source: "google", client_ip: "203.0.113.9" },
+  ])
+
+  const badToken = await callRoute(DELETE, { path: "/api/account/delete", method: "DELETE", token: "not-a-token" })
+  check("unknown token is 401", badToken.status === 401, badToken.json)
+
+  const res = await callRoute(DELETE, { path: "/api/account/delete", method: "DELETE", token: alex.token })
+  check("delete returns 200", res.status === 200 && res.json.success === true, res.json)
+  check("delete reported no warnings", res.json.warnings === undefined, res.json.warnings)
+
+  for (const [table, column] of OWNED_BY_PROFILE) {
+    const rows = db.table(table)
+    check(`${table}: alex's rows removed`, !rows.some((r) => r[column] === alex.profileId))
+    check(`${table}: sam's rows kept`, rows.filter((r) => r[column] === sam.profileId).length === 1)
+  }
+
+  for (const table of ["coach_clients", "coach_job_recommendations", "coach_annotations"]) {
+    const rows = db.table(table)
+    check(`${table}: rows with alex as client removed`, !rows.some((r) => r.client_profile_id === alex.profileId))
+    check(`${table}: rows with alex as coach removed`, !rows.some((r) => r.coach_profile_id === alex.profileId))
+    check(
+      `${table}: casey's link to sam kept`,
+      rows.filter((r) => r.coach_profile_id === casey.profileId && r.client_profile_id === sam.profileId).length === 1
+    )
+  }
+
+  check("client profile removed", !db.table("client_profiles").some((r) => r.id === alex.profileId))
+  check("other profiles kept", db.table("client_profiles").length === 2)
+
+  const [alexPurchase, samPurchase] = db.table("purchases")
+  check("purchase kept", db.table("purchases").length === 2)
+  check(
+    "purchase email anonymized",
+    alexPurchase.email === `deleted-${alex.profileId}@deleted.invalid` && alexPurchase.amount_cents === 4900,
+    alexPurchase
+  )
+  check(
+    "purchase attribution cleared",
+    alexPurchase.utm_source === null && alexPurchase.fbclid === null && alexPurchase.client_ip === null,
+    alexPurchase
+  )
+  check("other purchase untouched", samPurchase.email === "sam@example.edu" && samPurchase.utm_source === "google")
+
+  check("auth user deleted", !db.hasUser(alex.user.id))
+  check("other auth users kept", db.hasUser(sam.user.id) && db.hasUser(casey.user.id))
+  const again = await callRoute(DELETE, { path: "/api/account/delete", method: "DELETE", token: alex.token })
+  check("deleted user's token no longer works", again.status === 401, again.json)
+
+  finish("account-delete")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+// tests/routes/coach-recommend-job.ts
+//
+// POST /api/coach/recommend-job: only coaches with an active, full-access
+// coach_clients link may recommend. A recommendation scores the job for
+// the client and writes three linked rows owned by the client — the
+// jobfit_runs audit row, the coach_job_recommendations row and a
+// signal_applications tracker entry. dry_run scores without writing, and
+// cached_analysis writes without scoring.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE, PROFILE_TEXT, TARGET_ROLES } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/coach/recommend-job/route")
+  const client = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const coach = env.addStudent({ email: "coach@example.edu", extra: { is_coach: true, coach_org: "Aggie Careers" } })
+  const viewer = env.addStudent({ email: "viewer@example.edu", extra: { is_coach: true } })
+  const annotator = env.addStudent({ email: "annotator@example.edu", extra: { is_coach: true } })
+  const paused = env.addStudent({ email: "paused@example.edu", extra: { is_coach: true } })
+  const peer = env.addStudent({ email: "sam@example.edu", profileText: PROFILE_TEXT })
+
+  const link = (coachProfileId: string, access_level: string, status = "active") => ({
+    coach_profile_id: coachProfileId,
+    client_profile_id: client.profileId,
+    invited_email: "alex@example.edu",
+    access_level,
+    status,
+  })
+  const [coachLink] = env.supabase.seed("coach_clients", [
+    link(coach.profileId, "full"),
+    link(viewer.profileId, "view"),
+    link(annotator.profileId, "annotate"),
+    link(paused.profileId, "full", "paused"),
+  ])
+
+  const request = {
+    client_profile_id: client.profileId,
+    job_description: JOB_TEXT,
+    job_title: JOB_TITLE,
+    company_name: COMPANY,
+    coaching_note: "Strong match for your carrier cost work.",
+    priority: "urgent",
+  }
+  const call = (token: string, body: unknown) => callRoute(POST, { path: "/api/coach/recommend-job", token, body })
+  const written = () =>
+    ["jobfit_runs", "coach_job_recommendations", "signal_applications"].map((t) => env.supabase.table(t).length).join(",")
+
+  // ── Access ──
+  const notCoach = await call(peer.token, request)
+  check("non-coach is 403", notCoach.status === 403, notCoach.json)
+  for (const [label, who] of [
+    ["view access", viewer],
+    ["annotate access", annotator],
+    ["paused full access", paused],
+  ] as const) {
+    const res = await call(who.token, request)
+    check(`${label} is 403`, res.status === 403, res.json)
+  }
+  const unlinked = await call(coach.token, { ...request, client_profile_id: peer.profileId })
+  check("coach without a link to the student is 403", unlinked.status === 403, unlinked.json)
+  const noTitle = await call(coach.token, { ...request, job_title: "" })
+  check("missing job_title is 400", noTitle.status === 400, noTitle.json)
+  check("refused requests wrote nothing", written() === "0,0,0", written())
+  check("refused requests made no model call", env.llm.calls.length === 0)
+
+  // ── Dry run ──
+  const dry = await call(coach.token, { ...request, dry_run: true })
+  check("dry run returns 200", dry.status === 200 && dry.json.dry_run === true, dry.json)
+  const analysis = dry.json.jobfit as Record<string, unknown> | undefined
+  check("dry run returns the analysis", typeof analysis?.decision === "string" && typeof analysis?.score === "number", analysis)
+  check("dry run scored with V5 bullets", env.llm.calls.filter((c) => c.purpose === "jobfit.bullets_v5").length === 1)
+  check("dry run wrote nothing", written() === "0,0,0", written())
+
+  // ── Recommend from the dry run's analysis ──
+  const created = await call(coach.token, { ...request, cached_analysis: analysis })
+  check("recommendation returns 201", created.status === 201, created.json)
+  check("cached analysis skips scoring", env.llm.calls.length === 1, env.llm.calls.map((c) => c.purpose))
+  check("one row in each table", written() === "1,1,1", written())
+
+  const [run] = env.supabase.table("jobfit_runs")
+  const [rec] = env.supabase.table("coach_job_recommendations")
+  const [app] = env.supabase.table("signal_applications")
+  check("run is owned by the client", run?.client_profile_id === client.profileId, run)
+  check("run records the sourcing coach", run?.sourced_by_coach_id === coach.profileId)
+  check("run keeps the analysis", run?.verdict === analysis?.decision)
+  check(
+    "recommendation links coach, client and relationship",
+    rec?.coach_profile_id === coach.profileId && rec?.client_profile_id === client.profileId && rec?.coach_client_id === coachLink.id,
+    rec
+  )
+  check("recommendation keeps the coach's note and priority", rec?.coaching_note === request.coaching_note && rec?.priority === "urgent", rec)
+  check("recommendation is new to the client", rec?.client_status === "new" && rec?.notification_seen === false, rec)
+  check("application is owned by the client", app?.profile_id === client.profileId, app)
+  check("application carries the decision", app?.signal_decision === analysis?.decision && app?.signal_score === analysis?.score, app)
+  check("recommendation and application point at the run", rec?.jobfit_run_id === run?.id && app?.jobfit_run_id === run?.id)
+  check("recommendation points at the application", rec?.application_id === app?.id)
+  const body = created.json.recommendation as Record<string, unknown> | undefined
+  check("response returns the linked recommendation", body?.id === rec?.id && body?.application_id === app?.id, body)
+
+  // Without cached_analysis the job is scored again.
+  const fresh = await call(coach.token, request)
+  check("uncached recommendation returns 201", fresh.status === 201, fresh.json)
+  check("uncached recommendation scored the job", env.llm.calls.length === 2)
+  check("second recommendation added a row in each table", written() === "2,2,2", written())
+
+  finish("coach-recommend-job")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+// tests/routes/coverletter.ts
+//
+// POST /api/coverletter: the letter is generated once per fingerprint and
+// upserted into coverletter_runs, a V5 cover_letter_strategy changes the
+// fingerprint (so a V4-era letter is not served for it), and a row left
+// without result_json is overwritten rather than duplicated.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { JOB_TEXT, JOB_TITLE, PROFILE_TEXT } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/coverletter/route")
+  const student = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT })
+  const call = (body: unknown) => callRoute(POST, { path: "/api/coverletter", token: student.token, body })
+
+  const first = await call({ job: JOB_TEXT })
+  check("first letter returns 200", first.status === 200, first.json)
+  check("first letter is not reused", first.json.reused === false)
+  check("letter names the role", String(first.json.letter).includes(JOB_TITLE), first.json.letter)
+  check("one coverletter_runs row", env.supabase.table("coverletter_runs").length === 1)
+
+  const again = await call({ job: JOB_TEXT })
+  check("same request is reused", again.json.reused === true && again.json.letter === first.json.letter, again.json)
+  check("reuse makes no model call", env.llm.calls.length === 1, env.llm.calls.length)
+
+  const strategy = {
+    open_with: "Freight cost dashboard comparing 5 carriers",
+    address_gap: null,
+    tone: "Direct and specific",
+  }
+  const withStrategy = await call({ job: JOB_TEXT, jobfit_result: { cover_letter_strategy: strategy } })
+  check("strategy run is a new letter", withStrategy.json.reused === false, withStrategy.json)
+  check(
+    "strategy reached the prompt",
+    env.llm.calls[env.llm.calls.length - 1].prompt.includes(`OPEN WITH (topic): ${strategy.open_with}`)
+  )
+  const used = withStrategy.json.context_used as Record<string, boolean> | undefined
+  check("context_used reports the strategy", used?.cover_letter_strategy === true, used)
+  check("two coverletter_runs rows", env.supabase.table("coverletter_runs").length === 2)
+
+  // A row that exists without a result (an interrupted write) is regenerated
+  // and the upsert lands on the same row.
+  const stale = env.supabase.table("coverletter_runs")[0]
+  stale.result_json = null
+  const regenerated = await call({ job: JOB_TEXT })
+  check("row without result_json is regenerated", regenerated.json.reused === false, regenerated.json)
+  check("upsert did not add a row", env.supabase.table("coverletter_runs").length === 2)
+  check("upsert filled the existing row", stale.result_json !== null)
+
+  const noJob = await call({})
+  check("missing job is 400", noJob.status === 400, noJob)
+
+  finish("coverletter")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
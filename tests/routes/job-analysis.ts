@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+// tests/routes/job-analysis.ts
+//
+// POST /api/job-analysis (the public, unauthenticated analyzer): a fresh
+// JD runs enrichment + analysis and lands in job_analysis_cache, the same
+// JD within the week is served from the cache with no model calls, and the
+// user's company / title overrides apply on both paths without leaking
+// into the shared cache.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/job-analysis/route")
+  const call = (body: unknown) => callRoute(POST, { path: "/api/job-analysis", body })
+
+  const fresh = await call({ job_description: JOB_TEXT })
+  check("fresh analysis returns 200", fresh.status === 200, fresh.json)
+  const purposes = env.llm.calls.map((c) => c.purpose).join(",")
+  check("enrichment then analysis", purposes === "job_analysis.enrichment,job_analysis.analysis", purposes)
+  check("company name comes from enrichment", fresh.json.company_name === COMPANY, fresh.json.company_name)
+  check("enrichment context reached the analysis prompt", env.llm.calls[1].system.includes(`Company: ${COMPANY}`))
+  check("market_reality present", Boolean(fresh.json.market_reality))
+  const cache = env.supabase.table("job_analysis_cache")
+  check("one cache row", cache.length === 1, cache.length)
+
+  const overridden = await call({ job_description: JOB_TEXT, company_name: "LSD Logistics", job_title: "Analyst I" })
+  check("cache hit makes no model call", env.llm.calls.length === 2, env.llm.calls.length)
+  check(
+    "overrides apply on a cache hit",
+    overridden.json.company_name === "LSD Logistics" && overridden.json.job_title === "Analyst I",
+    overridden.json
+  )
+  check("overrides stay out of the cache", (cache[0].result as Record<string, unknown>).company_name === COMPANY)
+
+  const other = `${JOB_TEXT}\n\nThis posting closes at the end of the month.`
+  const freshOverride = await call({ job_description: other, job_title: JOB_TITLE + " (Dallas)" })
+  check("overrides apply on a fresh analysis", freshOverride.json.job_title === `${JOB_TITLE} (Dallas)`, freshOverride.json.job_title)
+  check("second JD is cached separately", cache.length === 2)
+
+  // A week-old cache row is stale and the JD is analyzed again.
+  for (const row of cache) row.created_at = "2020-01-01T00:00:00.000Z"
+  await call({ job_description: JOB_TEXT })
+  check("stale cache row is ignored", env.llm.calls.length === 6, env.llm.calls.length)
+
+  const short = await call({ job_description: "Analyst role, apply now." })
+  check("JD under 100 characters is 400", short.status === 400, short)
+
+  finish("job-analysis")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,133 @@
+#!/usr/bin/env tsx
+// tests/routes/jobfit-batch.ts
+//
+// POST /api/jobfit/batch: every valid posting is scored and tracked the
+// way /api/jobfit would do it, a bad row is reported on its own without
+// failing the batch, results come back ranked, a cached posting still
+// reports the tracker row it belongs to, a posting submitted twice is
+// scored once, and a posting too thin to judge comes back as Insufficient
+// Detail rather than a band.
+
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import type { FixtureFile } from "../jobfit-regression/lib/cases"
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE, PROFILE_TEXT, TARGET_ROLES } from "./lib/samples"
+
+const fixture = (id: string) =>
+  JSON.parse(readFileSync(join(__dirname, `../jobfit-regression/fixtures/${id}.json`), "utf8")) as FixtureFile
+const leasing = fixture("realestate-leasing-associate")
+const thin = fixture("insufficient-detail-thin-posting")
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/jobfit/batch/route")
+  const alex = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const call = (token: string | undefined, body: unknown) => callRoute(POST, { path: "/api/jobfit/batch", token, body })
+  const jobs = [
+    { job: leasing.job?.text ?? "", job_title: "Leasing Associate", company_name: "Bayou Residential" },
+    { job: JOB_TEXT, job_title: JOB_TITLE, company_name: COMPANY },
+    { job: JOB_TEXT, company_name: COMPANY },
+  ]
+  type Row = Record<string, unknown>
+  const rows = (res: { json: Record<string, unknown> }) => (res.json.results ?? []) as Row[]
+  const byIndex = (res: { json: Record<string, unknown> }, index: number) => rows(res).find((r) => r.index === index)
+
+  const anonymous = await call(undefined, { jobs })
+  check("no token is 401", anonymous.status === 401, anonymous.json)
+  const empty = await call(alex.token, { jobs: [] })
+  check("empty batch is 400", empty.status === 400, empty.json)
+  const tooMany = await call(alex.token, { jobs: Array.from({ length: 26 }, () => jobs[1]) })
+  check("oversized batch is 400", tooMany.status === 400, tooMany.json)
+
+  // ── Fresh batch ──
+  const first = await call(alex.token, { jobs })
+  check("batch returns 200", first.status === 200, first.json)
+  check("summary counts", JSON.stringify(first.json.summary) === JSON.stringify({ total: 3, scored: 2, reused: 0, failed: 1 }), first.json.summary)
+  check("missing title fails only its row", byIndex(first, 2)?.error === "job_title is required", byIndex(first, 2))
+  check("failed row ranks last", byIndex(first, 2)?.rank === 3)
+  check(
+    "scored rows are ranked by decision then score",
+    rows(first).map((r) => r.rank).join(",") === "1,2,3",
+    rows(first).map((r) => [r.rank, r.decision, r.score])
+  )
+  check("one V5 call per scored job", env.llm.calls.filter((c) => c.purpose === "jobfit.bullets_v5").length === 2)
+
+  const runs = env.supabase.table("jobfit_runs")
+  const apps = env.supabase.table("signal_applications")
+  check("a run per scored job", runs.length === 2)
+  check("an application per scored job", apps.length === 2)
+  for (const index of [0, 1]) {
+    const row = byIndex(first, index)
+    const run = runs.find((r) => r.id === row?.jobfit_run_id)
+    const app = apps.find((a) => a.id === row?.application_id)
+    check(`job ${index}: reports its run and application`, Boolean(run && app), row)
+    check(`job ${index}: application is the submitted job`, app?.job_title === jobs[index].job_title && app?.profile_id === alex.profileId, app)
+    check(`job ${index}: run and application are linked`, run?.application_id === app?.id && app?.jobfit_run_id === run?.id)
+  }
+
+  // ── Cached batch ──
+  const again = await call(alex.token, { jobs: jobs.slice(0, 2) })
+  check("repeat batch is served from cache", rows(again).every((r) => r.reused === true), rows(again))
+  check("cache makes no model call", env.llm.calls.filter((c) => c.purpose === "jobfit.bullets_v5").length === 2)
+  check("cache adds no rows", runs.length === 2 && env.supabase.table("signal_applications").length === 2)
+  for (const index of [0, 1]) {
+    check(
+      `job ${index}: cache hit reports the existing application`,
+      byIndex(again, index)?.application_id === byIndex(first, index)?.application_id,
+      byIndex(again, index)
+    )
+  }
+
+  // A cache hit whose tracker row was removed reports the new one.
+  env.supabase.table("signal_applications").length = 0
+  const restored = await call(alex.token, { jobs: jobs.slice(1, 2) })
+  const [recreated] = env.supabase.table("signal_applications")
+  check("cache hit recreated the application", Boolean(recreated))
+  check("cache hit reports the recreated application", byIndex(restored, 0)?.application_id === recreated?.id, byIndex(restored, 0))
+
+  // ── Duplicate posting ──
+  // Scored once; the copy reports the same run and application.
+  const riley = env.addStudent({ email: "riley@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const llmCalls = env.llm.calls.length
+  const dupes = await call(riley.token, { jobs: [jobs[1], { ...jobs[1], job_url: "https://example.com/repost" }] })
+  const [original, copy] = [byIndex(dupes, 0), byIndex(dupes, 1)]
+  check("duplicate posting: both rows scored", original?.ok === true && copy?.ok === true, rows(dupes))
+  check("duplicate posting: scored once", env.llm.calls.length === llmCalls + 1)
+  check(
+    "duplicate posting: one run and one application",
+    runs.filter((r) => r.client_profile_id === riley.profileId).length === 1 &&
+      env.supabase.table("signal_applications").filter((a) => a.profile_id === riley.profileId).length === 1
+  )
+  check(
+    "duplicate posting: copy reports the same run and application",
+    Boolean(original?.jobfit_run_id && original?.application_id) &&
+      copy?.jobfit_run_id === original?.jobfit_run_id &&
+      copy?.application_id === original?.application_id &&
+      copy?.reused === true &&
+      copy?.job_url === "https://example.com/repost",
+    rows(dupes)
+  )
+
+  // ── Thin posting ──
+  // Reported and tracked as Insufficient Detail, never as a band.
+  const jordan = env.addStudent({
+    email: "jordan@example.edu",
+    profileText: thin.profile?.text ?? "",
+    extra: { target_roles: thin.profile?.targetRoles },
+  })
+  const thinJob = { job: thin.job?.text ?? "", job_title: "Marketing Coordinator", company_name: "Northwind Goods" }
+  const mixed = await call(jordan.token, { jobs: [thinJob, jobs[1]] })
+  const thinRow = byIndex(mixed, 0)
+  check("thin posting reports Insufficient Detail", thinRow?.decision === "Insufficient Detail" && thinRow?.score === null, thinRow)
+  check("thin posting ranks above a Pass", byIndex(mixed, 1)?.decision === "Pass" && thinRow?.rank === 1, rows(mixed).map((r) => [r.rank, r.decision, r.score]))
+  const thinApp = env.supabase.table("signal_applications").find((a) => a.id === thinRow?.application_id)
+  check("thin posting is tracked as Insufficient Detail", thinApp?.signal_decision === "Insufficient Detail", thinApp)
+
+  finish("jobfit-batch")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,91 @@
+#!/usr/bin/env tsx
+// tests/routes/jobfit-bullets.ts
+//
+// The model-backed pieces around the JobFit engine: the V5 bullet
+// renderer that /api/jobfit runs on every fresh result, the legacy V4
+// OpenAI renderer with its validator, and POST /api/jobfit/debug-review.
+// The engine itself runs for real on the sample fixture; only the model
+// is synthetic, so these checks confirm the engine's WHY / RISK codes
+// reach the prompt and come back as the student-facing bullets.
+
+import { runJobFit } from "../../app/api/_lib/jobfitEvaluator"
+import { mapClientProfileToOverrides } from "../../app/api/_lib/jobfitProfileAdapter"
+import { quietly } from "../jobfit-regression/lib/cases"
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE, PROFILE_TEXT, TARGET_ROLES } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { generateBulletsV5 } = await import("../../app/api/jobfit/bulletGeneratorV5")
+  const { generateJobfitBullets } = await import("../../app/api/jobfit/bulletGenerator")
+  const review = await import("../../app/api/jobfit/debug-review/route")
+
+  const result = await quietly(() =>
+    runJobFit({
+      profileText: PROFILE_TEXT,
+      jobText: JOB_TEXT,
+      profileOverrides: mapClientProfileToOverrides({ profileText: PROFILE_TEXT, profileStructured: null, targetRoles: TARGET_ROLES }),
+      userJobTitle: JOB_TITLE,
+      userCompanyName: COMPANY,
+    })
+  )
+  check("engine produced WHY codes", result.why_codes.length > 0, result.why_codes)
+
+  // ── V5 ──
+  const v5 = await quietly(() => generateBulletsV5({ ...result, profile_text: PROFILE_TEXT, job_text: JOB_TEXT } as typeof result))
+  const expectedKeys = result.why_codes.slice(0, 4).map((w) => w.match_key)
+  check(
+    "V5 WHY bullets follow the engine's codes",
+    JSON.stringify(v5.why_structured.map((b) => b.keyword)) === JSON.stringify(expectedKeys),
+    { bullets: v5.why_structured.map((b) => b.keyword), codes: expectedKeys }
+  )
+  check("V5 formats every WHY bullet", v5.why.length === v5.why_structured.length && v5.why.every((s) => s.includes(" -> ")))
+  check("V5 risks only when the engine flagged some", (v5.risk_structured.length > 0) === (result.risk_codes.length > 0))
+  check("V5 cover letter strategy opens with the top WHY", v5.cover_letter_strategy.open_with === v5.why_structured[0]?.keyword)
+  check("V5 stamps the renderer", typeof v5.renderer_debug.renderer_stamp === "string" && v5.renderer_debug.why_count === v5.why_structured.length)
+
+  // ── V4 ──
+  // Distinct job facts only: the validator rejects near-duplicate bullets.
+  const facts = new Map(result.why_codes.map((w) => [w.job_fact, { job_fact: w.job_fact, profile_fact: w.profile_fact }]))
+  const evidence = {
+    id: "routes-v4",
+    decision: result.decision,
+    score: result.score,
+    gates: [],
+    drivers: {
+      why_evidence: [...facts.values()].slice(0, 4),
+      risk_evidence: [],
+    },
+    output_rules: { why_min: 1, why_max: 4 },
+  }
+  const v4 = await generateJobfitBullets(evidence)
+  check("V4 output passes the validator first try", !v4.used_fallback && v4.attempts === 1, v4)
+  check("V4 writes one WHY bullet per evidence item", v4.bullets.why_bullets.length === evidence.drivers.why_evidence.length)
+
+  const gated = await generateJobfitBullets({ ...evidence, gates: [{ type: "hard", reason: "Requires active CPA" }] })
+  check("V4 gated evidence gets no WHY bullets", gated.bullets.why_bullets.length === 0, gated.bullets)
+
+  // ── debug-review ──
+  const reviewed = await callRoute(review.POST, {
+    path: "/api/jobfit/debug-review",
+    body: { result_json: result, profile_text: PROFILE_TEXT, job_text: JOB_TEXT },
+  })
+  check("debug-review returns 200", reviewed.status === 200 && reviewed.json.ok === true, reviewed.json)
+  const reviewPrompt = env.llm.calls[env.llm.calls.length - 1].prompt
+  check("debug-review prompt lists the WHY codes", result.why_codes.every((w) => reviewPrompt.includes(`[${w.code}]`)))
+
+  env.supabase.seed("jobfit_runs", [{ id: "run-1", client_profile_id: "profile-1", result_json: result }])
+  env.supabase.seed("client_profiles", [{ id: "profile-1", profile_text: PROFILE_TEXT }])
+  const fromRun = await callRoute(review.POST, { path: "/api/jobfit/debug-review", body: { jobfit_run_id: "run-1" } })
+  check("stored run without job text is 400", fromRun.status === 400, fromRun.json)
+
+  const missing = await callRoute(review.POST, { path: "/api/jobfit/debug-review", body: { jobfit_run_id: "no-such-run" } })
+  check("unknown run is 404", missing.status === 404, missing.json)
+
+  finish("jobfit-bullets")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+// tests/routes/jobfit-counterfactual.ts
+//
+// POST /api/jobfit/counterfactual: a stored run is only explained to the
+// student who owns it, and the lever search scores under the caller's
+// cohort policy (a jobfit_policies overlay), not the in-code base policy.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE, PROFILE_TEXT, TARGET_ROLES } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST: jobfit } = await import("../../app/api/jobfit/route")
+  const { POST } = await import("../../app/api/jobfit/counterfactual/route")
+  const alex = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const sam = env.addStudent({ email: "sam@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const call = (token: string | undefined, body: unknown) => callRoute(POST, { path: "/api/jobfit/counterfactual", token, body })
+  type Report = { baseline?: { decision: string; score: number } }
+  const report = (res: { json: Record<string, unknown> }) => (res.json.counterfactual ?? {}) as Report
+
+  // Sam's cohort caps every score at 70. Seeded before the first request
+  // because the route caches assignments.
+  const [capped] = env.supabase.seed("jobfit_policies", [{ name: "score_cap_70", overlay: { score: { maxScore: 70 } } }])
+  env.supabase.seed("jobfit_policy_assignments", [{ policy_id: capped.id, cohort_type: "profile", cohort_key: sam.profileId }])
+
+  const scored = await callRoute(jobfit, {
+    path: "/api/jobfit",
+    token: alex.token,
+    body: { job: JOB_TEXT, job_title: JOB_TITLE, company_name: COMPANY },
+  })
+  check("alex's run is scored", scored.status === 200, scored.json)
+  const [run] = env.supabase.table("jobfit_runs")
+
+  const anonymous = await call(undefined, { jobfit_run_id: run?.id })
+  check("no token is 401", anonymous.status === 401, anonymous.json)
+  const empty = await call(alex.token, {})
+  check("no run or result is 400", empty.status === 400, empty.json)
+  const borrowed = await call(sam.token, { jobfit_run_id: run?.id })
+  check("another student's run is 404", borrowed.status === 404, borrowed.json)
+
+  // ── Base policy ──
+  const own = await call(alex.token, { jobfit_run_id: run?.id })
+  check("own run returns 200", own.status === 200, own.json)
+  check(
+    "baseline matches the stored run under the base policy",
+    report(own).baseline?.decision === scored.json.decision && report(own).baseline?.score === scored.json.score,
+    report(own).baseline
+  )
+
+  // ── Cohort policy ──
+  const cohort = await call(sam.token, { result_json: run?.result_json })
+  check("result_json returns 200", cohort.status === 200, cohort.json)
+  const baseline = report(cohort).baseline
+  check("sam's baseline is scored under the overlay", Boolean(baseline && baseline.score <= 70), baseline)
+  check("the overlay changed the baseline", baseline?.score !== report(own).baseline?.score, [baseline, report(own).baseline])
+
+  finish("jobfit-counterfactual")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
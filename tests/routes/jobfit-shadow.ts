@@ -0,0 +1,80 @@
+#!/usr/bin/env tsx
+// tests/routes/jobfit-shadow.ts
+//
+// V4 shadow mode around POST /api/jobfit, and GET /api/jobfit/shadow-report.
+// No V4 evaluator ships yet, so the test installs one with
+// setV4ShadowEngine: a run is only shadowed when an engine is installed
+// and JOBFIT_V4_SHADOW is on, the student still gets the V3 result even
+// when the engine throws, and the report is for coaches only.
+
+import { setV4ShadowEngine } from "../../app/api/_lib/jobfitShadow"
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE, PROFILE_TEXT, TARGET_ROLES } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/jobfit/route")
+  const { GET } = await import("../../app/api/jobfit/shadow-report/route")
+  const student = (email: string) => env.addStudent({ email, profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const score = (token: string) =>
+    callRoute(POST, { path: "/api/jobfit", token, body: { job: JOB_TEXT, job_title: JOB_TITLE, company_name: COMPANY } })
+  const report = (token?: string) => callRoute(GET, { path: "/api/jobfit/shadow-report?days=7", method: "GET", token })
+  const comparisons = () => env.supabase.table("jobfit_shadow_comparisons")
+
+  const engine = {
+    version: "V4_TEST_ENGINE",
+    evaluate: () => ({
+      capability: { score: 41, label: "low" as const, cluster_details: [] },
+      viability: { label: "clear" as const, reasons: [] },
+      alignment: { label: "moderate" as const, reasons: [] },
+      decision: { label: "pass" as const, reasons: ["test engine"] },
+    }),
+  }
+
+  // ── Recording ──
+  process.env.JOBFIT_V4_SHADOW = "1"
+  const noEngine = await score(student("a@example.edu").token)
+  check("no engine: run still scored", noEngine.status === 200, noEngine.json)
+  check("no engine: nothing shadowed", comparisons().length === 0)
+
+  setV4ShadowEngine(engine)
+  process.env.JOBFIT_V4_SHADOW = "0"
+  await score(student("b@example.edu").token)
+  check("shadow off: nothing shadowed", comparisons().length === 0)
+
+  process.env.JOBFIT_V4_SHADOW = "1"
+  const shadowed = await score(student("c@example.edu").token)
+  check("shadowed run returns the V3 result", shadowed.status === 200 && typeof shadowed.json.score === "number", shadowed.json)
+  const [row] = comparisons()
+  check("one comparison row", comparisons().length === 1)
+  check("row keeps the V3 decision", row?.v3_decision === shadowed.json.decision && row?.v3_score === shadowed.json.score, row)
+  check("row maps the V4 label", row?.v4_decision === "Pass" && row?.v4_capability_score === 41, row)
+  check("row records the engine version", row?.shadow_engine === "v4_cluster" && row?.shadow_engine_version === "V4_TEST_ENGINE", row)
+  check("row compares the bands", row?.agree === (shadowed.json.decision === "Pass") && Number(row?.rank_delta) <= 0, row)
+
+  setV4ShadowEngine({ ...engine, evaluate: () => { throw new Error("engine blew up") } })
+  const failed = await score(student("d@example.edu").token)
+  check("engine failure still returns the V3 result", failed.status === 200 && failed.json.decision === shadowed.json.decision, failed.json)
+  check("engine failure writes no row", comparisons().length === 1)
+  setV4ShadowEngine(null)
+
+  // ── Report ──
+  const coach = env.addStudent({ email: "coach@example.edu", extra: { is_coach: true } })
+  const anonymous = await report()
+  check("report without a token is 401", anonymous.status === 401, anonymous.json)
+  const notCoach = await report(student("e@example.edu").token)
+  check("report for a non-coach is 403", notCoach.status === 403, notCoach.json)
+  const res = await report(coach.token)
+  check("report for a coach is 200", res.status === 200, res.json)
+  check("report says no engine is installed", res.json.engine_installed === false, res.json)
+  const summary = res.json.report as { total?: number; by_family?: Array<Record<string, unknown>> } | undefined
+  check("report counts the comparison", summary?.total === 1, summary)
+  check("report groups by the V3 family", summary?.by_family?.[0]?.job_family === row?.job_family, summary?.by_family)
+
+  finish("jobfit-shadow")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
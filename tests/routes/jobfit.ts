@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+// tests/routes/jobfit.ts
+//
+// POST /api/jobfit end to end: bearer auth, the jobfit_runs fingerprint
+// cache (per profile — one student never gets another's run), the
+// signal_applications row created alongside every run and linked back
+// onto it, case-insensitive dedupe of that row, and the persona
+// ownership check.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE, PROFILE_TEXT, TARGET_ROLES } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/jobfit/route")
+  const alex = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const sam = env.addStudent({ email: "sam@example.edu", profileText: PROFILE_TEXT, extra: { target_roles: TARGET_ROLES } })
+  const request = { job: JOB_TEXT, job_title: JOB_TITLE, company_name: COMPANY }
+  const call = (token: string | undefined, body: unknown) => callRoute(POST, { path: "/api/jobfit", token, body })
+  const runs = (profileId: string) => env.supabase.table("jobfit_runs").filter((r) => r.client_profile_id === profileId)
+  const apps = (profileId: string) => env.supabase.table("signal_applications").filter((r) => r.profile_id === profileId)
+  const v5Calls = () => env.llm.calls.filter((c) => c.purpose === "jobfit.bullets_v5").length
+
+  const anonymous = await call(undefined, request)
+  check("no token is 401", anonymous.status === 401, anonymous)
+  const badToken = await call("not-a-token", request)
+  check("unknown token is 401", badToken.status === 401, badToken)
+  const noTitle = await call(alex.token, { job: JOB_TEXT, company_name: COMPANY })
+  check("missing job_title is 400", noTitle.status === 400, noTitle.json)
+  const noCompany = await call(alex.token, { job: JOB_TEXT, job_title: JOB_TITLE })
+  check("missing company_name is 400", noCompany.status === 400, noCompany.json)
+  check("rejected requests wrote nothing", env.supabase.table("jobfit_runs").length === 0)
+
+  // ── First run ──
+  const first = await call(alex.token, request)
+  check("first run returns 200", first.status === 200, first.json)
+  check("first run is not reused", first.json.reused === false)
+  check("first run generated V5 bullets", v5Calls() === 1, env.llm.calls.map((c) => c.purpose))
+  check("one jobfit_runs row for alex", runs(alex.profileId).length === 1)
+
+  const [run] = runs(alex.profileId)
+  check("run stores the fingerprint", run?.fingerprint_hash === first.json.fingerprint_hash, run)
+  check("run stores the decision", run?.verdict === first.json.decision, run?.verdict)
+
+  const [app] = apps(alex.profileId)
+  check("one application created for alex", apps(alex.profileId).length === 1)
+  check(
+    "application uses the submitted company and title",
+    app?.company_name === COMPANY && app?.job_title === JOB_TITLE,
+    app
+  )
+  check("application is saved with the decision", app?.application_status === "saved" && app?.signal_decision === first.json.decision, app)
+  check("application points at the run", app?.jobfit_run_id === run?.id)
+  check("run points back at the application", run?.application_id === app?.id)
+
+  // ── Cache ──
+  const again = await call(alex.token, request)
+  check("same job is served from cache", again.json.reused === true, again.json)
+  check("cache hit has the same decision", again.json.decision === first.json.decision)
+  check("cache hit makes no model call", v5Calls() === 1)
+  check("cache hit adds no run", runs(alex.profileId).length === 1)
+  check("cache hit adds no application", apps(alex.profileId).length === 1)
+
+  // The tracker row is matched case-insensitively, and the resubmitted
+  // spelling is echoed back even though the result came from cache.
+  const lower = await call(alex.token, { ...request, company_name: COMPANY.toLowerCase() })
+  check("re-cased company is still a cache hit", lower.json.reused === true, lower.json)
+  const signals = lower.json.job_signals as Record<string, unknown> | undefined
+  check("cache hit echoes the submitted company", signals?.companyName === COMPANY.toLowerCase(), signals)
+  check("re-cased company reuses the application", apps(alex.profileId).length === 1)
+
+  // A cache hit restores a tracker row the student has since removed.
+  env.supabase.table("signal_applications").length = 0
+  const restored = await call(alex.token, request)
+  check("cache hit after removing the application", restored.json.reused === true)
+  check("cache hit recreated the application", apps(alex.profileId).length === 1)
+
+  // ── Ownership ──
+  const other = await call(sam.token, request)
+  check("same job for another student is a fresh run", other.json.reused === false, other.json)
+  check("the fingerprint is per profile", other.json.fingerprint_hash !== first.json.fingerprint_hash)
+  check("sam has their own run", runs(sam.profileId).length === 1)
+  check("sam has their own application", apps(sam.profileId).length === 1)
+  check("alex's rows are untouched", runs(alex.profileId).length === 1 && apps(alex.profileId).length === 1)
+
+  const personaResume = "Operations Intern, Gulf Freight Partners\n- Rebuilt the weekly carrier scorecard in Excel and Power BI"
+  const [alexPersona] = env.supabase.seed("client_personas", [
+    { profile_id: alex.profileId, name: "Operations", resume_text: personaResume, is_default: true },
+  ])
+  const borrowed = await call(sam.token, { ...request, persona_id: alexPersona.id })
+  check("another student's persona is refused", borrowed.status === 500, borrowed)
+  check("refusal names the ownership check", String(borrowed.json.detail).includes("does not belong"), borrowed.json)
+  check("refused run wrote nothing", runs(sam.profileId).length === 1 && apps(sam.profileId).length === 1)
+
+  const own = await call(alex.token, { ...request, persona_id: alexPersona.id })
+  check("own persona is scored", own.status === 200 && own.json.reused === false, own.json)
+  const personaRun = runs(alex.profileId).find((r) => r.persona_id === alexPersona.id)
+  check("persona run records the persona", personaRun?.persona_version_at_run === 1, personaRun)
+
+  finish("jobfit")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
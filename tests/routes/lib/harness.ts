@@ -0,0 +1,110 @@
+// tests/routes/lib/harness.ts
+//
+// Shared setup for the offline route tests. `setupRoutes()` must run
+// before any route module is imported: routes read SUPABASE_URL and the
+// API keys at module load, so each test sets up first and then pulls the
+// handler in with `await import(...)`.
+//
+// After setup:
+//   - Supabase (REST + auth) is served by the in-memory stand-in, with
+//     the tables, defaults and unique constraints from docs/DATABASE.md.
+//   - Every OpenAI / Anthropic call goes to the LLM stand-in through
+//     setLlmTransport; synthetic mode unless the test asks otherwise.
+//   - Any other outbound fetch fails the request, except URLs a test
+//     registers in `pages` (parse-job-url's page fetch).
+
+import { randomUUID } from "node:crypto"
+import { NextRequest } from "next/server"
+import { setLlmTransport } from "../../../app/api/_lib/llmClient"
+import { createLlmStandIn, type StandInMode } from "../../llm-standin/standIn"
+import { loadSchema } from "./schema"
+import { createSupabaseStandIn, type AuthUser } from "./supabaseStandIn"
+
+const SUPABASE_URL = "http://supabase.standin.test"
+
+export type RouteHandler = (req: NextRequest) => Promise<Response>
+
+export type RouteResult = { status: number; json: Record<string, unknown> }
+
+export function setupRoutes(opts: { llmMode?: StandInMode; recordingsDir?: string } = {}) {
+  process.env.SUPABASE_URL = SUPABASE_URL
+  process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role-standin"
+  process.env.OPENAI_API_KEY = "sk-standin"
+  process.env.ANTHROPIC_API_KEY = "sk-ant-standin"
+  delete process.env.LLM_BASE_URL
+
+  const supabase = createSupabaseStandIn({ url: SUPABASE_URL, schema: loadSchema() })
+  const llm = createLlmStandIn({ mode: opts.llmMode ?? "synthetic", recordingsDir: opts.recordingsDir })
+  const pages = new Map<string, { status: number; body: string }>()
+
+  setLlmTransport(llm.fetch)
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const req = new Request(input, init)
+    if (supabase.handles(req.url)) return supabase.handle(req)
+    const page = pages.get(req.url)
+    if (page) return new Response(page.body, { status: page.status, headers: { "content-type": "text/html" } })
+    throw new Error(`Route test attempted network access: ${req.method} ${req.url}`)
+  }
+
+  // A signed-in user with a client_profiles row.
+  function addStudent(opts: { email: string; profileText?: string; token?: string; extra?: Record<string, unknown> }) {
+    const user: AuthUser = { id: randomUUID(), email: opts.email }
+    const token = opts.token ?? `token-${opts.email}`
+    supabase.addUser(user, token)
+    const [profile] = supabase.seed("client_profiles", [
+      { user_id: user.id, email: opts.email, profile_text: opts.profileText ?? "", ...opts.extra },
+    ])
+    return { user, token, profileId: String(profile.id) }
+  }
+
+  return { supabase, llm, pages, addStudent }
+}
+
+// Calls a route handler the way Next.js would (POST unless `method` says
+// otherwise). Engine and route logging is silenced; warnings and errors
+// still print.
+export async function callRoute(
+  handler: RouteHandler,
+  opts: {
+    path: string
+    method?: string
+    token?: string
+    body?: unknown
+    formData?: FormData
+    headers?: Record<string, string>
+  }
+): Promise<RouteResult> {
+  const headers = new Headers(opts.headers)
+  if (opts.token) headers.set("authorization", `Bearer ${opts.token}`)
+  let body: BodyInit | undefined
+  if (opts.formData) body = opts.formData
+  else if (opts.body !== undefined) {
+    headers.set("content-type", "application/json")
+    body = JSON.stringify(opts.body)
+  }
+
+  const log = console.log
+  console.log = () => {}
+  try {
+    const res = await handler(new NextRequest(`http://localhost${opts.path}`, { method: opts.method ?? "POST", headers, body }))
+    const text = await res.text()
+    return { status: res.status, json: text ? (JSON.parse(text) as Record<string, unknown>) : {} }
+  } finally {
+    console.log = log
+  }
+}
+
+let failures = 0
+
+export function check(label: string, ok: boolean, detail?: unknown) {
+  console.log(`${ok ? "ok  " : "FAIL"} ${label}`)
+  if (!ok) {
+    failures++
+    if (detail !== undefined) console.log("  ", typeof detail === "string" ? detail : JSON.stringify(detail, null, 2))
+  }
+}
+
+export function finish(name: string) {
+  console.log(`\n${name}: ${failures ? `${failures} failure(s)` : "all checks passed"}`)
+  process.exit(failures ? 1 : 0)
+}
@@ -0,0 +1,20 @@
+// tests/routes/lib/samples.ts
+//
+// Sample inputs for the route tests, borrowed from a JobFit regression
+// fixture so the routes see a realistic profile and posting: a supply
+// chain senior (Alex Nguyen, Texas A&M) and a Logistics Analyst posting
+// at Lone Star Distribution in Dallas.
+
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import type { FixtureFile } from "../../jobfit-regression/lib/cases"
+
+const fixture = JSON.parse(
+  readFileSync(join(__dirname, "../../jobfit-regression/fixtures/supplychain-logistics-analyst.json"), "utf8")
+) as FixtureFile
+
+export const PROFILE_TEXT = fixture.profile?.text ?? ""
+export const TARGET_ROLES = fixture.profile?.targetRoles ?? ""
+export const JOB_TEXT = fixture.job?.text ?? ""
+export const JOB_TITLE = "Logistics Analyst"
+export const COMPANY = "Lone Star Distribution"
@@ -0,0 +1,99 @@
+// tests/routes/lib/schema.ts
+//
+// Table definitions for the Supabase stand-in, read from
+// docs/DATABASE.md so the tests and the schema docs can't drift apart
+// silently. For each documented table we take the column list, the
+// column defaults the stand-in can evaluate, the `FK → \`table(id)\``
+// notes (for embedded selects) and the **Unique:** line.
+//
+// Tables missing from the doc (e.g. `purchases`), or documented without a
+// column table, come back undefined and the stand-in accepts any column
+// for them.
+
+import { randomUUID } from "node:crypto"
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+
+export type TableSchema = {
+  columns: Set<string>
+  // Column → generator for its DB default. Columns without one are absent.
+  defaults: Map<string, () => unknown>
+  // Column → the table its id references.
+  foreignKeys: Map<string, string>
+  unique: string[][]
+}
+
+export type Schema = Record<string, TableSchema>
+
+export const DATABASE_DOC = join(__dirname, "..", "..", "..", "docs", "DATABASE.md")
+
+// The default expressions that appear in the doc. Anything else (sequences,
+// `now() + '7 days'`) is left to the caller to supply.
+function parseDefault(raw: string): (() => unknown) | null {
+  const expr = raw.replace(/`/g, "").trim()
+  if (expr === "gen_random_uuid()") return () => randomUUID()
+  if (expr === "now()") return () => new Date().toISOString()
+  if (expr === "true" || expr === "false") {
+    const value = expr === "true"
+    return () => value
+  }
+  if (/^-?\d+(\.\d+)?$/.test(expr)) {
+    const value = Number(expr)
+    return () => value
+  }
+  if (expr === "'[]'::jsonb") return () => []
+  if (expr === "'{}'::jsonb") return () => ({})
+  const text = expr.match(/^'([^']*)'$/)
+  if (text) {
+    const value = text[1]
+    return () => value
+  }
+  return null
+}
+
+export function parseSchemaDoc(markdown: string): Schema {
+  const schema: Schema = {}
+  let current: TableSchema | null = null
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(/^### `([a-z0-9_]+)`/) ?? line.match(/^\*\*`([a-z0-9_]+)`\*\*/)
+    if (heading) {
+      current = { columns: new Set(), defaults: new Map(), foreignKeys: new Map(), unique: [] }
+      schema[heading[1]] = current
+      continue
+    }
+    if (line.startsWith("## ")) {
+      current = null
+      continue
+    }
+    if (!current) continue
+
+    const column = line.match(/^\| `([a-z0-9_]+)` \|[^|]*\|[^|]*\|([^|]*)\|([^|]*)\|/)
+    if (column) {
+      current.columns.add(column[1])
+      const make = parseDefault(column[2])
+      if (make) current.defaults.set(column[1], make)
+      const fk = column[3].match(/FK → `([a-z0-9_]+)\(id\)`/)
+      if (fk) current.foreignKeys.set(column[1], fk[1])
+      continue
+    }
+
+    // "**Unique:** `email`, `user_id`." or "**Unique:** `(a, b)` via `name`."
+    const unique = line.match(/\*\*Unique:\*\*(.*?)(\*\*|$)/)
+    if (unique) {
+      const spec = unique[1].replace(/via `[^`]+`/g, "")
+      for (const [, key] of spec.matchAll(/`\(?([a-z0-9_, ]+)\)?`/g)) {
+        current.unique.push(key.split(",").map((c) => c.trim()))
+      }
+    }
+  }
+  for (const [name, table] of Object.entries(schema)) if (!table.columns.size) delete schema[name]
+  return schema
+}
+
+let cached: Schema | null = null
+
+export function loadSchema(): Schema {
+  cached ??= parseSchemaDoc(readFileSync(DATABASE_DOC, "utf8"))
+  return cached
+}
@@ -0,0 +1,408 @@
+// tests/routes/lib/supabaseStandIn.ts
+//
+// In-memory stand-in for the two Supabase services our routes call: the
+// PostgREST API behind `from(...)` and GoTrue (`auth.getUser(token)` and
+// `auth.admin.deleteUser(id)`). It answers supabase-js at the HTTP level,
+// so route code runs unmodified — the real query builder serializes every
+// select / eq / insert / upsert / update / single / maybeSingle and this
+// parses it.
+//
+// Supported PostgREST surface (anything else throws, so a route that
+// starts using more fails its test instead of passing vacuously):
+//   GET / POST / PATCH / DELETE on /rest/v1/<table>
+//   select=*  or a column list, with embedded resources (`table(cols)`,
+//             `alias:table(cols)`) resolved through the schema's foreign
+//             keys in either direction
+//   filters   eq, neq, gt, gte, lt, lte, is, in, like, ilike
+//   order, limit, offset (`range`)
+//   Prefer    return=representation, resolution=merge|ignore-duplicates
+//   Accept    application/vnd.pgrst.object+json (single / maybeSingle)
+//
+// Tables in `schema` (see schema.ts — normally docs/DATABASE.md) behave
+// like the real ones: inserted rows get every documented column, filled
+// from its default or null; unique constraints make colliding inserts
+// fail with 23505 and resolve upserts; and naming a column the table
+// doesn't have fails the way PostgREST does (42703 in select / filter /
+// order, PGRST204 in an insert or update body). Other tables accept any
+// column, and rows only get an `id` and `created_at`.
+
+import { randomUUID } from "node:crypto"
+import type { Schema } from "./schema"
+
+export type Row = Record<string, unknown>
+
+export type AuthUser = { id: string; email: string | null }
+
+type PgError = { code: string; message: string; details: string | null; hint: string | null }
+
+function pgError(code: string, message: string): PgError {
+  return { code, message, details: null, hint: null }
+}
+
+class PostgrestStandInError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: PgError
+  ) {
+    super(body.message)
+  }
+}
+
+const RESERVED_PARAMS = new Set(["select", "order", "limit", "offset", "on_conflict", "columns"])
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  })
+}
+
+function compare(a: unknown, b: string): number {
+  const na = Number(a)
+  const nb = Number(b)
+  if (typeof a === "number" || (a !== "" && a !== null && !Number.isNaN(na) && !Number.isNaN(nb))) return na - nb
+  return String(a).localeCompare(b)
+}
+
+// PostgREST accepts `*` as well as `%` for the wildcard.
+function likePattern(pattern: string, flags: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => (ch === "%" || ch === "*" ? ".*" : ch === "_" ? "." : ch.replace(/[.+?^${}()|[\]\\]/g, "\\$&")))
+    .join("")
+  return new RegExp(`^${source}$`, flags)
+}
+
+function matches(row: Row, column: string, filter: string): boolean {
+  const dot = filter.indexOf(".")
+  const op = filter.slice(0, dot)
+  const value = filter.slice(dot + 1)
+  const cell = row[column]
+  switch (op) {
+    case "eq":
+      return cell !== null && cell !== undefined && String(cell) === value
+    case "neq":
+      return cell !== null && cell !== undefined && String(cell) !== value
+    case "gt":
+      return cell != null && compare(cell, value) > 0
+    case "gte":
+      return cell != null && compare(cell, value) >= 0
+    case "lt":
+      return cell != null && compare(cell, value) < 0
+    case "lte":
+      return cell != null && compare(cell, value) <= 0
+    case "is":
+      return value === "null" ? cell == null : String(cell) === value
+    case "in": {
+      const list = value.replace(/^\(|\)$/g, "").split(",").map((v) => v.replace(/^"|"$/g, ""))
+      return cell != null && list.includes(String(cell))
+    }
+    case "like":
+      return cell != null && likePattern(value, "s").test(String(cell))
+    case "ilike":
+      return cell != null && likePattern(value, "is").test(String(cell))
+    default:
+      throw new Error(`supabaseStandIn: unsupported filter operator "${op}" on ${column}`)
+  }
+}
+
+type SelectItem =
+  | { kind: "star" }
+  | { kind: "column"; alias: string; column: string }
+  | { kind: "embed"; alias: string; table: string; select: string }
+
+// Splits a select list on its top-level commas, so the column list of an
+// embedded resource stays with it.
+function parseSelect(select: string | null): SelectItem[] {
+  if (!select) return [{ kind: "star" }]
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i <= select.length; i++) {
+    const ch = select[i]
+    if (ch === "(") depth++
+    else if (ch === ")") depth--
+    else if (i === select.length || (ch === "," && depth === 0)) {
+      parts.push(select.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  return parts.filter(Boolean).map((part): SelectItem => {
+    if (part === "*") return { kind: "star" }
+    const embed = part.match(/^(?:([a-z0-9_]+):)?([a-z0-9_]+)\((.*)\)$/i)
+    if (embed) return { kind: "embed", alias: embed[1] ?? embed[2], table: embed[2], select: embed[3] || "*" }
+    const [alias, column] = part.includes(":") ? part.split(":") : [part, part]
+    return { kind: "column", alias, column }
+  })
+}
+
+export function createSupabaseStandIn(opts: { url: string; schema?: Schema }) {
+  const origin = new URL(opts.url).origin
+  const tables = new Map<string, Row[]>()
+  const tokens = new Map<string, AuthUser>()
+  const users = new Map<string, AuthUser>()
+  const schema = opts.schema ?? {}
+
+  function table(name: string): Row[] {
+    let rows = tables.get(name)
+    if (!rows) {
+      rows = []
+      tables.set(name, rows)
+    }
+    return rows
+  }
+
+  function withDefaults(name: string, row: Row): Row {
+    const def = schema[name]
+    if (!def) return { id: randomUUID(), created_at: new Date().toISOString(), ...row }
+    assertWritable(name, row)
+    const full: Row = {}
+    for (const col of def.columns) full[col] = def.defaults.get(col)?.() ?? null
+    return Object.assign(full, row)
+  }
+
+  function assertReadable(name: string, columns: string[]) {
+    const def = schema[name]
+    const unknown = def && columns.find((c) => !def.columns.has(c))
+    if (unknown) throw new PostgrestStandInError(400, pgError("42703", `column ${name}.${unknown} does not exist`))
+  }
+
+  function assertWritable(name: string, row: Row) {
+    const def = schema[name]
+    const unknown = def && Object.keys(row).find((c) => !def.columns.has(c))
+    if (unknown) {
+      throw new PostgrestStandInError(
+        400,
+        pgError("PGRST204", `Could not find the '${unknown}' column of '${name}' in the schema cache`)
+      )
+    }
+  }
+
+  // How `embedded` hangs off `name`: one row through a foreign key on
+  // `name` (many-to-one), or the rows of `embedded` whose foreign key
+  // points back at `name` (one-to-many).
+  function relation(name: string, embedded: string): { column: string; many: boolean } {
+    const notFound = () =>
+      new PostgrestStandInError(
+        400,
+        pgError("PGRST200", `Could not find a relationship between '${name}' and '${embedded}' in the schema cache`)
+      )
+    const fks = (table: string, target: string) =>
+      Array.from(schema[table]?.foreignKeys ?? []).filter(([, t]) => t === target).map(([column]) => column)
+
+    const toOne = fks(name, embedded)
+    const toMany = fks(embedded, name)
+    const found = [...toOne.map((column) => ({ column, many: false })), ...toMany.map((column) => ({ column, many: true }))]
+    if (found.length === 0) throw notFound()
+    if (found.length > 1) {
+      throw new PostgrestStandInError(
+        300,
+        pgError("PGRST201", `Could not embed because more than one relationship was found for '${name}' and '${embedded}'`)
+      )
+    }
+    return found[0]
+  }
+
+  function assertSelectable(name: string, select: string | null) {
+    for (const item of parseSelect(select)) {
+      if (item.kind === "column") assertReadable(name, [item.column])
+      if (item.kind === "embed") {
+        relation(name, item.table)
+        assertSelectable(item.table, item.select)
+      }
+    }
+  }
+
+  function project(name: string, row: Row, select: string | null): Row {
+    const out: Row = {}
+    for (const item of parseSelect(select)) {
+      if (item.kind === "star") Object.assign(out, row)
+      else if (item.kind === "column") out[item.alias] = row[item.column] ?? null
+      else {
+        const { column, many } = relation(name, item.table)
+        if (many) {
+          out[item.alias] = table(item.table)
+            .filter((r) => row.id != null && r[column] === row.id)
+            .map((r) => project(item.table, r, item.select))
+        } else {
+          const target = row[column] == null ? undefined : table(item.table).find((r) => r.id === row[column])
+          out[item.alias] = target ? project(item.table, target, item.select) : null
+        }
+      }
+    }
+    return out
+  }
+
+  function uniqueKeys(name: string): string[][] {
+    return [["id"], ...(schema[name]?.unique ?? [])]
+  }
+
+  function conflictKeys(name: string, onConflict: string | null): string[][] {
+    if (!onConflict) return uniqueKeys(name)
+    const cols = onConflict.split(",").map((c) => c.trim())
+    assertReadable(name, cols)
+    return [cols]
+  }
+
+  // NULLs never collide, as in Postgres.
+  function findConflict(rows: Row[], row: Row, keys: string[][]): Row | undefined {
+    return rows.find((r) => keys.some((cols) => cols.every((c) => row[c] != null && r[c] === row[c])))
+  }
+
+  function filtered(name: string, params: URLSearchParams): Row[] {
+    let rows = table(name)
+    for (const [column, filter] of params) {
+      if (RESERVED_PARAMS.has(column)) continue
+      if (column === "or" || column === "and") throw new Error(`supabaseStandIn: "${column}" filters are not supported`)
+      assertReadable(name, [column])
+      rows = rows.filter((r) => matches(r, column, filter))
+    }
+    return rows
+  }
+
+  function ordered(name: string, rows: Row[], params: URLSearchParams): Row[] {
+    let out = [...rows]
+    const order = params.get("order")
+    if (order) {
+      const [column, dir] = order.split(".")
+      assertReadable(name, [column])
+      out.sort((a, b) => compare(a[column], String(b[column])) * (dir === "desc" ? -1 : 1))
+    }
+    const offset = Number(params.get("offset") || 0)
+    const limit = params.get("limit")
+    if (offset || limit) out = out.slice(offset, limit ? offset + Number(limit) : undefined)
+    return out
+  }
+
+  function write(name: string, method: string, params: URLSearchParams, prefer: string, body: unknown): Row[] {
+    const rows = table(name)
+    if (method === "POST") {
+      const incoming = (Array.isArray(body) ? body : [body]) as Row[]
+      const upsert = prefer.match(/resolution=(merge|ignore)-duplicates/)?.[1]
+      const keys = conflictKeys(name, params.get("on_conflict"))
+      const written: Row[] = []
+      for (const raw of incoming) {
+        assertWritable(name, raw)
+        const existing = findConflict(rows, raw, upsert ? keys : uniqueKeys(name))
+        if (existing && !upsert) {
+          throw new PostgrestStandInError(409, pgError("23505", `duplicate key value violates unique constraint "${name}_key"`))
+        }
+        if (existing) {
+          if (upsert === "merge") Object.assign(existing, raw)
+          written.push(existing)
+          continue
+        }
+        const row = withDefaults(name, raw)
+        rows.push(row)
+        written.push(row)
+      }
+      return written
+    }
+    const targets = filtered(name, params)
+    if (method === "PATCH") {
+      assertWritable(name, body as Row)
+      for (const r of targets) Object.assign(r, body as Row)
+      return targets
+    }
+    if (method === "DELETE") {
+      tables.set(name, rows.filter((r) => !targets.includes(r)))
+      return targets
+    }
+    throw new Error(`supabaseStandIn: unsupported method ${method}`)
+  }
+
+  function rest(name: string, method: string, params: URLSearchParams, headers: Headers, body: unknown): Response {
+    const prefer = headers.get("prefer") ?? ""
+    const wantsObject = (headers.get("accept") ?? "").includes("vnd.pgrst.object+json")
+
+    let rows: Row[]
+    try {
+      assertSelectable(name, params.get("select"))
+      rows =
+        method === "GET" || method === "HEAD"
+          ? ordered(name, filtered(name, params), params)
+          : write(name, method, params, prefer, body)
+    } catch (e) {
+      if (e instanceof PostgrestStandInError) return jsonResponse(e.status, e.body)
+      throw e
+    }
+
+    if (method !== "GET" && !prefer.includes("return=representation")) {
+      return new Response(null, { status: method === "POST" ? 201 : 204 })
+    }
+
+    const out = rows.map((r) => project(name, r, params.get("select")))
+    if (wantsObject) {
+      if (out.length !== 1) {
+        return jsonResponse(406, {
+          ...pgError("PGRST116", "JSON object requested, multiple (or no) rows returned"),
+          details: `The result contains ${out.length} rows`,
+        })
+      }
+      return jsonResponse(method === "POST" ? 201 : 200, out[0])
+    }
+    return jsonResponse(method === "POST" ? 201 : 200, out)
+  }
+
+  function userJson(user: AuthUser) {
+    return {
+      id: user.id,
+      aud: "authenticated",
+      role: "authenticated",
+      email: user.email,
+      app_metadata: {},
+      user_metadata: {},
+      created_at: "2026-01-01T00:00:00.000Z",
+    }
+  }
+
+  function authUser(headers: Headers): Response {
+    const token = (headers.get("authorization") ?? "").replace(/^Bearer\s+/i, "")
+    const user = tokens.get(token)
+    if (!user) return jsonResponse(403, { code: 403, error_code: "bad_jwt", msg: "invalid JWT: unable to parse or verify signature" })
+    return jsonResponse(200, userJson(user))
+  }
+
+  // auth.admin.deleteUser: the user and every token that resolved to them
+  // stop existing.
+  function deleteAuthUser(id: string): Response {
+    const user = users.get(id)
+    if (!user) return jsonResponse(404, { code: 404, error_code: "user_not_found", msg: "User not found" })
+    users.delete(id)
+    for (const [token, u] of tokens) if (u.id === id) tokens.delete(token)
+    return jsonResponse(200, userJson(user))
+  }
+
+  async function handle(req: Request): Promise<Response> {
+    const url = new URL(req.url)
+    const body = req.body ? await req.text() : ""
+    const parsed: unknown = body ? JSON.parse(body) : null
+    if (url.pathname === "/auth/v1/user") return authUser(req.headers)
+    const admin = url.pathname.match(/^\/auth\/v1\/admin\/users\/([^/]+)$/)
+    if (admin && req.method === "DELETE") return deleteAuthUser(decodeURIComponent(admin[1]))
+    const m = url.pathname.match(/^\/rest\/v1\/([^/]+)$/)
+    if (m) return rest(m[1], req.method, url.searchParams, req.headers, parsed)
+    throw new Error(`supabaseStandIn: unsupported path ${req.method} ${url.pathname}`)
+  }
+
+  return {
+    url: origin,
+    // Live rows, for seeding and assertions.
+    table,
+    seed(name: string, rows: Row[]): Row[] {
+      const seeded = rows.map((r) => withDefaults(name, r))
+      table(name).push(...seeded)
+      return seeded
+    },
+    // Registers a user that auth.getUser(token) resolves to.
+    addUser(user: AuthUser, token: string) {
+      users.set(user.id, user)
+      tokens.set(token, user)
+    },
+    hasUser: (id: string) => users.has(id),
+    handles: (url: string) => new URL(url).origin === origin,
+    handle,
+  }
+}
+
+export type SupabaseStandIn = ReturnType<typeof createSupabaseStandIn>
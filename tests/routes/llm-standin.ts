@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+// tests/routes/llm-standin.ts
+//
+// The stand-in's own contract: what record mode writes is what replay
+// serves back (a route returns the same output either way), a prompt
+// that was never recorded fails through the route's normal error path,
+// and LLM_BASE_URL redirects provider traffic. Recording runs against the
+// synthetic stand-in as its upstream, so this needs no API keys.
+
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { llmFetch, setLlmTransport } from "../../app/api/_lib/llmClient"
+import { createLlmStandIn, type Recording } from "../llm-standin/standIn"
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { JOB_TEXT, PROFILE_TEXT } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const parseText = await import("../../app/api/parse-job-text/route")
+  const positioning = await import("../../app/api/positioning/route")
+  const dir = mkdtempSync(join(tmpdir(), "llm-standin-"))
+
+  try {
+    // ── Record ──
+    const recorder = createLlmStandIn({ mode: "record", recordingsDir: dir, upstream: env.llm.fetch })
+    setLlmTransport(recorder.fetch)
+    const first = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT })
+    const recordedParse = await callRoute(parseText.POST, { path: "/api/parse-job-text", body: { text: JOB_TEXT } })
+    const recordedPos = await callRoute(positioning.POST, { path: "/api/positioning", token: first.token, body: { job: JOB_TEXT } })
+    check("record mode passes responses through", recordedParse.status === 200 && recordedPos.status === 200)
+
+    const files = readdirSync(dir)
+    check("one recording per call", files.length === 2, files)
+    const recs = files.map((f) => JSON.parse(readFileSync(join(dir, f), "utf8")) as Recording)
+    check(
+      "recordings are labelled by purpose and provider",
+      recs.some((r) => r.purpose === "parse_job_text" && r.provider === "anthropic") &&
+        recs.some((r) => r.purpose === "positioning" && r.provider === "openai"),
+      recs.map((r) => [r.purpose, r.provider])
+    )
+    check("recordings are named by prompt key", recs.every((r) => existsSync(join(dir, `${r.key}.json`))))
+
+    // ── Replay ──
+    const replayer = createLlmStandIn({ mode: "replay", recordingsDir: dir })
+    setLlmTransport(replayer.fetch)
+    const replayedParse = await callRoute(parseText.POST, { path: "/api/parse-job-text", body: { text: JOB_TEXT } })
+    check("replay reproduces parse-job-text", JSON.stringify(replayedParse.json) === JSON.stringify(recordedParse.json))
+
+    // A second student keeps positioning_runs from answering instead of the
+    // model; the prompt (resume + job) is the same, so the key matches.
+    const second = env.addStudent({ email: "alex.n@example.edu", profileText: PROFILE_TEXT })
+    const replayedPos = await callRoute(positioning.POST, { path: "/api/positioning", token: second.token, body: { job: JOB_TEXT } })
+    check("replay reached the model, not the cache", replayedPos.json.reused === false && replayer.calls.length === 2)
+    check(
+      "replay reproduces positioning",
+      JSON.stringify(replayedPos.json.arrange_resume) === JSON.stringify(recordedPos.json.arrange_resume)
+    )
+
+    const miss = await callRoute(parseText.POST, {
+      path: "/api/parse-job-text",
+      body: { text: `${JOB_TEXT}\nApplications close Friday.` },
+    })
+    check("replay miss takes the route's provider-error path", miss.status === 502, miss)
+    check("replay miss is not recorded", readdirSync(dir).length === 2)
+
+    // ── Synthetic ──
+    const noPurpose = await env.llm.handle("/v1/messages", new Headers(), JSON.stringify({ model: "m", messages: [] }))
+    check("synthetic call without a purpose is a 400", noPurpose.status === 400, noPurpose)
+
+    // ── LLM_BASE_URL ──
+    const seen: string[] = []
+    setLlmTransport(async (url) => {
+      seen.push(url)
+      return new Response("{}", { status: 200 })
+    })
+    process.env.LLM_BASE_URL = "http://127.0.0.1:4010/"
+    await llmFetch("parse_job_text", "https://api.anthropic.com/v1/messages", { method: "POST" })
+    await llmFetch("parse_job_text", "https://example.com/v1/messages", { method: "POST" })
+    delete process.env.LLM_BASE_URL
+    check(
+      "LLM_BASE_URL rebases provider origins only",
+      seen.join(" ") === "http://127.0.0.1:4010/v1/messages https://example.com/v1/messages",
+      seen
+    )
+  } finally {
+    setLlmTransport(null)
+    rmSync(dir, { recursive: true, force: true })
+  }
+
+  finish("llm-standin")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
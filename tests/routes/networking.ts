@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+// tests/routes/networking.ts
+//
+// POST /api/networking: a plan always comes back with exactly three moves
+// and the requested application state, plans are cached per fingerprint
+// in networking_runs, and prose from the model goes through the JSON
+// repair call instead of failing the request.
+
+import { setLlmTransport } from "../../app/api/_lib/llmClient"
+import { providerResponse } from "../llm-standin/standIn"
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { JOB_TEXT, JOB_TITLE, PROFILE_TEXT } from "./lib/samples"
+
+type Plan = { application_state?: string; moves?: { move_id?: string; email_subject?: string }[]; actions?: unknown[] }
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/networking/route")
+  const student = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT })
+  const call = (body: unknown) => callRoute(POST, { path: "/api/networking", token: student.token, body })
+
+  const first = await call({ job: JOB_TEXT, application_state: "applied_recently" })
+  const plan = first.json as Plan
+  check("plan returns 200", first.status === 200, first.json)
+  check("plan has exactly three moves", plan.moves?.length === 3, plan.moves)
+  check("legacy actions derived from moves", plan.actions?.length === 3)
+  check("application state passed through", plan.application_state === "applied_recently", plan.application_state)
+  check("moves are specific to the posting", (plan.moves?.[0]?.email_subject ?? "").includes(JOB_TITLE), plan.moves?.[0])
+  check("one networking_runs row", env.supabase.table("networking_runs").length === 1)
+
+  const again = await call({ job: JOB_TEXT, application_state: "applied_recently" })
+  check("same request is reused", again.json.reused === true, again.json)
+  check("reuse makes no model call", env.llm.calls.length === 1, env.llm.calls.length)
+
+  const other = await call({ job: JOB_TEXT, application_state: "interview_stage" })
+  check("different application state is a new plan", other.json.reused === false && other.json.application_state === "interview_stage")
+
+  // The plan call answers in prose; the route must repair it into JSON.
+  setLlmTransport(async (url, init) => {
+    const res = await env.llm.fetch(url, init)
+    const last = env.llm.calls[env.llm.calls.length - 1]
+    if (last.purpose !== "networking.plan") return res
+    const prose = `Start with an analyst on the ${JOB_TITLE} team, then an alum, then the recruiter.`
+    return new Response(JSON.stringify(providerResponse(last, prose)), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    })
+  })
+  const repaired = await call({ job: JOB_TEXT, application_state: "not_applied" })
+  const purposes = env.llm.calls.slice(-2).map((c) => c.purpose)
+  check("prose plan triggers the repair call", purposes.join(",") === "networking.plan,networking.repair", purposes)
+  check("repaired plan has three moves", (repaired.json as Plan).moves?.length === 3, repaired.json)
+  check("repair prompt carries the prose", env.llm.calls[env.llm.calls.length - 1].prompt.includes("then an alum"))
+  setLlmTransport(env.llm.fetch)
+
+  const noJob = await call({ application_state: "applied_today" })
+  check("missing job is 400", noJob.status === 400, noJob)
+
+  finish("networking")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
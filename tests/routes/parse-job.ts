@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+// tests/routes/parse-job.ts
+//
+// The two job-ingest routes that call a model: POST /api/parse-job-text
+// (always Claude) and POST /api/parse-job-url (JSON-LD, then cheerio, then
+// a Claude fallback when the scrape is weak). Pages are served from the
+// harness `pages` map, so no request leaves the process.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { COMPANY, JOB_TEXT, JOB_TITLE } from "./lib/samples"
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+async function main() {
+  const env = setupRoutes()
+  const text = await import("../../app/api/parse-job-text/route")
+  const url = await import("../../app/api/parse-job-url/route")
+
+  // ── parse-job-text ──
+  const pasted = await callRoute(text.POST, { path: "/api/parse-job-text", body: { text: JOB_TEXT } })
+  check("pasted text returns 200", pasted.status === 200, pasted.json)
+  check("title and company extracted", pasted.json.jobTitle === JOB_TITLE && pasted.json.companyName === COMPANY, pasted.json)
+  check("location extracted", pasted.json.location === "Dallas, TX", pasted.json.location)
+  check("reported as a Claude text paste", pasted.json.source === "text_paste" && pasted.json.method === "claude")
+
+  const tooShort = await callRoute(text.POST, { path: "/api/parse-job-text", body: { text: "Logistics Analyst, Dallas" } })
+  check("short paste is 400 with no model call", tooShort.status === 400 && env.llm.calls.length === 1, tooShort)
+
+  // ── parse-job-url: JSON-LD ──
+  const [, ...body] = JOB_TEXT.split("\n")
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "JobPosting",
+    title: JOB_TITLE,
+    hiringOrganization: { name: COMPANY },
+    description: body.join("\n"),
+    jobLocation: { address: { addressLocality: "Dallas", addressRegion: "TX" } },
+    employmentType: "FULL_TIME",
+  }
+  env.pages.set("https://careers.lonestar.example/jobs/42", {
+    status: 200,
+    body: `<html><head><script type="application/ld+json">${JSON.stringify(jsonLd)}</script></head><body></body></html>`,
+  })
+  const ld = await callRoute(url.POST, { path: "/api/parse-job-url", body: { url: "careers.lonestar.example/jobs/42" } })
+  check("JSON-LD page returns 200", ld.status === 200, ld.json)
+  check("JSON-LD page parsed without a model call", ld.json.method === "jsonld" && env.llm.calls.length === 1, ld.json.method)
+  check("JSON-LD title used", ld.json.jobTitle === JOB_TITLE, ld.json.jobTitle)
+
+  // ── parse-job-url: weak scrape → Claude fallback ──
+  const paragraphs = JOB_TEXT.split("\n").filter(Boolean).map((l) => `<p>${escapeHtml(l)}</p>`)
+  env.pages.set("https://jobs.example-board.test/view/7", {
+    status: 200,
+    body: `<html><body><main>${paragraphs.join("\n")}</main></body></html>`,
+  })
+  const weak = await callRoute(url.POST, { path: "/api/parse-job-url", body: { url: "https://jobs.example-board.test/view/7" } })
+  check("weak page returns 200", weak.status === 200, weak.json)
+  check("weak page used the Claude fallback", weak.json.method === "claude", weak.json.method)
+  check("fallback supplied the title", weak.json.jobTitle === JOB_TITLE, weak.json.jobTitle)
+  check("fallback call carried the page text", env.llm.calls[env.llm.calls.length - 1].prompt.includes("Lone Star Distribution"))
+
+  env.pages.set("https://jobs.example-board.test/view/8", { status: 403, body: "Forbidden" })
+  const blocked = await callRoute(url.POST, { path: "/api/parse-job-url", body: { url: "https://jobs.example-board.test/view/8" } })
+  check("blocked page is 422 BLOCKED", blocked.status === 422 && blocked.json.code === "BLOCKED", blocked.json)
+
+  finish("parse-job")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
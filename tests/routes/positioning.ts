@@ -0,0 +1,48 @@
+#!/usr/bin/env tsx
+// tests/routes/positioning.ts
+//
+// POST /api/positioning against the synthetic LLM and in-memory Supabase:
+// a first run calls the model and stores a positioning_runs row, the same
+// request again is served from that row, and auth / input errors map to
+// the right status codes.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { JOB_TEXT, PROFILE_TEXT } from "./lib/samples"
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/positioning/route")
+  const student = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT })
+
+  const first = await callRoute(POST, { path: "/api/positioning", token: student.token, body: { job: JOB_TEXT } })
+  check("first run returns 200", first.status === 200, first.json)
+  check("first run is not reused", first.json.reused === false)
+  check("first run made one positioning call", env.llm.calls.filter((c) => c.purpose === "positioning").length === 1)
+  const arrange = first.json.arrange_resume as { lead_with?: { role?: string }[] } | undefined
+  check(
+    "lead_with names a role from the resume",
+    (arrange?.lead_with?.[0]?.role ?? "").includes("H-E-B Distribution Center"),
+    arrange
+  )
+  check("fingerprint code looks like PO-…", /^PO-[0-9A-Z]+$/.test(String(first.json.fingerprint_code)))
+  const runs = env.supabase.table("positioning_runs")
+  check("one positioning_runs row stored", runs.length === 1 && runs[0].client_profile_id === student.profileId, runs)
+
+  const second = await callRoute(POST, { path: "/api/positioning", token: student.token, body: { job: JOB_TEXT } })
+  check("same request is reused", second.json.reused === true, second.json)
+  check("reuse makes no model call", env.llm.calls.length === 1, env.llm.calls.length)
+  check("reuse returns the stored result", JSON.stringify(second.json.arrange_resume) === JSON.stringify(first.json.arrange_resume))
+
+  const badToken = await callRoute(POST, { path: "/api/positioning", token: "not-a-token", body: { job: JOB_TEXT } })
+  check("unknown token is 401", badToken.status === 401, badToken)
+
+  const noJob = await callRoute(POST, { path: "/api/positioning", token: student.token, body: { job: "  " } })
+  check("missing job is 400", noJob.status === 400, noJob)
+
+  finish("positioning")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+// tests/routes/resume-rx.ts
+//
+// One Resume Rx session end to end through the real route handlers:
+// start (diagnosis) → education → architecture → answer → approve →
+// complete, checking the resume_rx_sessions row moves through its
+// statuses and that a second student cannot touch the session.
+
+import { callRoute, check, finish, setupRoutes, type RouteHandler } from "./lib/harness"
+import { PROFILE_TEXT } from "./lib/samples"
+
+type Session = Record<string, unknown>
+
+async function main() {
+  const env = setupRoutes()
+  const routes: Record<string, RouteHandler> = {
+    start: (await import("../../app/api/resume-rx/start/route")).POST,
+    education: (await import("../../app/api/resume-rx/education/route")).POST,
+    architecture: (await import("../../app/api/resume-rx/architecture/route")).POST,
+    answer: (await import("../../app/api/resume-rx/answer/route")).POST,
+    approve: (await import("../../app/api/resume-rx/approve/route")).POST,
+    complete: (await import("../../app/api/resume-rx/complete/route")).POST,
+  }
+  const student = env.addStudent({ email: "alex@example.edu", profileText: PROFILE_TEXT })
+  const other = env.addStudent({ email: "jordan@example.edu" })
+  const step = (name: string, body: unknown, token = student.token) =>
+    callRoute(routes[name], { path: `/api/resume-rx/${name}`, token, body })
+
+  const resumeText = PROFILE_TEXT.slice(PROFILE_TEXT.indexOf("Resume:") + "Resume:".length).trim()
+  const bullet = resumeText.split("\n").find((l) => l.startsWith("- "))?.slice(2) ?? ""
+
+  const start = await step("start", {
+    resume_text: resumeText,
+    mode: "student_first_job",
+    year_in_school: "senior",
+    target_field: "Supply Chain",
+  })
+  check("start returns 201", start.status === 201, start.json)
+  const sessionId = String(start.json.session_id)
+  const session = env.supabase.table("resume_rx_sessions").find((s) => s.id === sessionId) as Session | undefined
+  check("session row created in diagnosis", session?.status === "diagnosis" && session.profile_id === student.profileId, session)
+  const diagnosis = start.json.diagnosis as { current_education?: { university?: string }; qa_agenda?: { id: string }[] }
+  check("diagnosis read the university", (diagnosis.current_education?.university ?? "").startsWith("Texas A&M"), diagnosis.current_education)
+
+  const education = await step("education", {
+    session_id: sessionId,
+    education: { university: "Texas A&M University", location: "College Station, TX", majors: "Supply Chain Management", gpa: "3.5", graduation_date: "May 2026" },
+  })
+  check("education returns a proposal", education.status === 200 && Boolean(education.json.proposal), education.json)
+  check("session moved to architecture", session?.status === "architecture", session?.status)
+
+  const architecture = await step("architecture", { session_id: sessionId, confirmed: true })
+  check("architecture returns 200", architecture.status === 200, architecture.json)
+  check("session moved to qa", session?.status === "qa", session?.status)
+
+  const answer = await step("answer", {
+    session_id: sessionId,
+    item_id: "qa_1",
+    type: "bullet",
+    original: bullet,
+    section: "Experience",
+    answers: { "What changed because of this work?": "Stockouts on flagged SKUs dropped by a third." },
+  })
+  const rewrite = answer.json.rewrite as { variants?: { text: string }[] } | undefined
+  check("answer returns bullet variants", answer.status === 200 && (rewrite?.variants?.length ?? 0) > 0, answer.json)
+  check("answer used the bullet purpose", env.llm.calls[env.llm.calls.length - 1].purpose === "resume_rx.answer.bullet")
+
+  const approved = rewrite?.variants?.[0]?.text ?? ""
+  const approve = await step("approve", { session_id: sessionId, item_id: "qa_1", approved_bullets: [approved] })
+  check("approving the only high-priority item moves to validation", approve.json.status === "validation", approve.json)
+
+  const forbidden = await step("complete", { session_id: sessionId }, other.token)
+  check("another student's session is 403", forbidden.status === 403, forbidden.json)
+
+  const complete = await step("complete", { session_id: sessionId })
+  check("complete returns 200", complete.status === 200, complete.json)
+  check("final resume carries the approved rewrite", String(complete.json.final_resume_text).includes(approved), complete.json.final_resume_text)
+  check("coaching summary returned", String(complete.json.coaching_summary).length > 0)
+  check("session is complete", session?.status === "complete", session?.status)
+
+  const missing = await step("education", { session_id: "no-such-session", education: {} })
+  check("unknown session is 404", missing.status === 404, missing.json)
+
+  const tooShort = await step("start", { resume_text: "Short.", mode: "x", year_in_school: "x", target_field: "x" })
+  check("short resume is 400", tooShort.status === 400, tooShort.json)
+
+  finish("resume-rx")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
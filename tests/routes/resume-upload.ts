@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+// tests/routes/resume-upload.ts
+//
+// POST /api/resume-upload: PDFs go to Claude as a base64 document and the
+// returned text is what the student sees; .txt is read locally with no
+// model call; a bearer token, when sent, must be valid.
+
+import { callRoute, check, finish, setupRoutes } from "./lib/harness"
+import { PROFILE_TEXT } from "./lib/samples"
+
+// A one-page PDF whose content stream shows each line with Tj. Enough for
+// the synthetic document reader, which pulls the Tj strings back out.
+function tinyPdf(textLines: string[]): string {
+  const esc = (s: string) => s.replace(/[\\()]/g, (c) => `\\${c}`)
+  const stream = ["BT", "/F1 11 Tf", "72 720 Td", ...textLines.map((l) => `(${esc(l)}) Tj 0 -14 Td`), "ET"].join("\n")
+  return [
+    "%PDF-1.4",
+    "1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj",
+    "2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj",
+    "3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >> endobj",
+    `4 0 obj << /Length ${stream.length} >> stream`,
+    stream,
+    "endstream endobj",
+    "trailer << /Root 1 0 R >>",
+    "%%EOF",
+  ].join("\n")
+}
+
+function upload(name: string, content: string, type: string): FormData {
+  const form = new FormData()
+  form.append("file", new File([content], name, { type }))
+  return form
+}
+
+async function main() {
+  const env = setupRoutes()
+  const { POST } = await import("../../app/api/resume-upload/route")
+  const student = env.addStudent({ email: "alex@example.edu" })
+  const resumeLines = PROFILE_TEXT.slice(PROFILE_TEXT.indexOf("Resume:") + "Resume:".length).split("\n").filter(Boolean)
+
+  const pdf = await callRoute(POST, {
+    path: "/api/resume-upload",
+    token: student.token,
+    formData: upload("alex-nguyen.pdf", tinyPdf(resumeLines), "application/pdf"),
+  })
+  check("PDF upload returns 200", pdf.status === 200, pdf.json)
+  check("PDF text comes back line for line", pdf.json.text === resumeLines.join("\n"), pdf.json.text)
+  const [read] = env.llm.calls
+  check("PDF sent as one document", read?.purpose === "resume_upload.pdf_text" && read.documents.length === 1)
+
+  const txt = await callRoute(POST, {
+    path: "/api/resume-upload",
+    formData: upload("resume.txt", resumeLines.join("\n"), "text/plain"),
+  })
+  check("anonymous .txt upload returns 200", txt.status === 200 && txt.json.ok === true, txt.json)
+  check(".txt is read without a model call", env.llm.calls.length === 1, env.llm.calls.length)
+
+  const blank = await callRoute(POST, { path: "/api/resume-upload", formData: upload("blank.pdf", tinyPdf([]), "application/pdf") })
+  check("PDF with no text is 400", blank.status === 400, blank.json)
+
+  const rtf = await callRoute(POST, { path: "/api/resume-upload", formData: upload("resume.rtf", "{\\rtf1 hi}", "application/rtf") })
+  check("unsupported type is 400", rtf.status === 400, rtf.json)
+
+  const badToken = await callRoute(POST, {
+    path: "/api/resume-upload",
+    token: "expired-token",
+    formData: upload("resume.txt", resumeLines.join("\n"), "text/plain"),
+  })
+  check("invalid bearer token is 401", badToken.status === 401, badToken.json)
+
+  finish("resume-upload")
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
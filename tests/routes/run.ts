@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+// tests/routes/run.ts
+//
+// Runs every route test in tests/routes, one process each (routes read
+// env and build their clients at import, so tests do not share a module
+// graph). Exit code 0 only if every script passes.
+//
+// Usage:
+//   npm run test:routes
+//   npx tsx tests/routes/run.ts positioning resume-rx   # a subset
+
+import { spawnSync } from "node:child_process"
+import { readdirSync } from "node:fs"
+import { basename, join } from "node:path"
+
+const TIMEOUT_MS = 120_000
+
+const only = process.argv.slice(2)
+const scripts = readdirSync(__dirname)
+  .filter((f) => f.endsWith(".ts") && f !== "run.ts")
+  .filter((f) => !only.length || only.includes(basename(f, ".ts")))
+  .sort()
+
+if (!scripts.length) {
+  console.error(`No route tests match: ${only.join(", ")}`)
+  process.exit(2)
+}
+
+const failed: string[] = []
+for (const file of scripts) {
+  const name = basename(file, ".ts")
+  console.log(`\n── ${name} ${"─".repeat(Math.max(0, 60 - name.length))}`)
+  // Same node + tsx loader this runner was started with.
+  const res = spawnSync(process.execPath, [...process.execArgv, join(__dirname, file)], {
+    stdio: "inherit",
+    timeout: TIMEOUT_MS,
+  })
+  if (res.status !== 0) failed.push(res.error ? `${name} (${res.error.message})` : name)
+}
+
+console.log(`\n${scripts.length - failed.length}/${scripts.length} route test files passed`)
+if (failed.length) {
+  console.log(`Failed: ${failed.join(", ")}`)
+  process.exit(1)
+}